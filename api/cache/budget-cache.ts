@@ -1,4 +1,5 @@
-import { BudgetData, CustomerPurchase } from "@shared/schema";
+import type { BudgetData, CustomerPurchase, PricingRule, ProductPricing } from "../../shared/schema.js";
+import { PricingEngine } from "../../shared/pricing-engine.js";
 
 // Edge-compatible cache interface that works in both Node.js and Cloudflare Workers
 export interface IBudgetCache {
@@ -6,6 +7,10 @@ export interface IBudgetCache {
   setCustomerBudget(customerId: string, storeId: number, budget: BudgetData): Promise<void>;
   getCustomerBudget(customerId: string, storeId: number): Promise<BudgetData | null>;
   
+  // Published by the API so the edge prices with the same rule
+  setEdgeRules(storeId: number, rules: EdgePricingRules): Promise<void>;
+  getEdgeRules(storeId: number): Promise<EdgePricingRules | null>;
+  
   // Product pricing cache
   setProductPricing(productId: string, storeId: number, customerId: string, pricing: CachedPricing): Promise<void>;
   getProductPricing(productId: string, storeId: number, customerId: string): Promise<CachedPricing | null>;
@@ -16,6 +21,7 @@ export interface IBudgetCache {
   
   // Cache management
   invalidateCustomerCache(customerId: string, storeId: number): Promise<void>;
+  invalidateCustomerPricing(customerId: string, storeId: number): Promise<void>;
   invalidateStoreCache(storeId: number): Promise<void>;
   
   // TTL management
@@ -23,11 +29,16 @@ export interface IBudgetCache {
   get(key: string): Promise<any>;
 }
 
-export interface CachedPricing {
+// The store's active rule versions, already held to its plan's limits, and whether a running
+// experiment prices some customers with other rules
+export interface EdgePricingRules {
+  rules: PricingRule[];
+  experimentRunning: boolean;
+}
+
+export interface CachedPricing extends ProductPricing {
   originalPrice: number;
   budgetPrice: number;
-  discountPercentage: number;
-  budgetCategory: "needs" | "wants" | "savings";
   remainingBudget: number;
   timestamp: number;
   ttl: number;
@@ -46,6 +57,18 @@ export interface PricingKey {
   customerId: string;
 }
 
+// Wrap an engine result with the legacy price aliases and cache metadata
+export function toCachedPricing(pricing: ProductPricing, ttl: number = 300): CachedPricing {
+  return {
+    ...pricing,
+    originalPrice: pricing.basePrice,
+    budgetPrice: pricing.finalPrice,
+    remainingBudget: PricingEngine.roundCurrency(pricing.availableBudget - pricing.estimatedTotal, pricing.currency),
+    timestamp: Date.now(),
+    ttl
+  };
+}
+
 // In-memory cache implementation for Node.js
 export class MemoryBudgetCache implements IBudgetCache {
   private cache: Map<string, { value: any; expires: number }> = new Map();
@@ -61,6 +84,15 @@ export class MemoryBudgetCache implements IBudgetCache {
     return await this.get(key);
   }
   
+  // Kept outside the budget:<storeId>: prefix, so cache invalidation never drops them
+  async setEdgeRules(storeId: number, rules: EdgePricingRules): Promise<void> {
+    this.cache.set(this.getEdgeRulesKey(storeId), { value: rules, expires: Infinity });
+  }
+  
+  async getEdgeRules(storeId: number): Promise<EdgePricingRules | null> {
+    return await this.get(this.getEdgeRulesKey(storeId));
+  }
+  
   async setProductPricing(productId: string, storeId: number, customerId: string, pricing: CachedPricing): Promise<void> {
     const key = this.getProductPricingKey(productId, storeId, customerId);
     await this.setWithTTL(key, pricing, pricing.ttl || 300); // 5 min default for product pricing
@@ -106,6 +138,20 @@ export class MemoryBudgetCache implements IBudgetCache {
     keysToDelete.forEach(key => this.cache.delete(key));
   }
   
+  // Drop cached product prices but keep the customer's budget
+  async invalidateCustomerPricing(customerId: string, storeId: number): Promise<void> {
+    const prefix = `budget:${storeId}:${customerId}:product:`;
+    const keysToDelete: string[] = [];
+    
+    this.cache.forEach((_, key) => {
+      if (key.startsWith(prefix)) {
+        keysToDelete.push(key);
+      }
+    });
+    
+    keysToDelete.forEach(key => this.cache.delete(key));
+  }
+  
   async invalidateStoreCache(storeId: number): Promise<void> {
     const prefix = `budget:${storeId}:`;
     const keysToDelete: string[] = [];
@@ -149,6 +195,10 @@ export class MemoryBudgetCache implements IBudgetCache {
     return `budget:${storeId}:${customerId}:product:${productId}`;
   }
   
+  private getEdgeRulesKey(storeId: number): string {
+    return `rules:${storeId}`;
+  }
+  
   private evictExpired(): void {
     const now = Date.now();
     const keysToDelete: string[] = [];
@@ -180,6 +230,16 @@ export class CloudflareKVCache implements IBudgetCache {
     return value ? JSON.parse(value) : null;
   }
   
+  // No expiry: the edge must not price with a rule that silently disappeared
+  async setEdgeRules(storeId: number, rules: EdgePricingRules): Promise<void> {
+    await this.kv.put(this.getEdgeRulesKey(storeId), JSON.stringify(rules));
+  }
+  
+  async getEdgeRules(storeId: number): Promise<EdgePricingRules | null> {
+    const value = await this.kv.get(this.getEdgeRulesKey(storeId));
+    return value ? JSON.parse(value) : null;
+  }
+  
   async setProductPricing(productId: string, storeId: number, customerId: string, pricing: CachedPricing): Promise<void> {
     const key = this.getProductPricingKey(productId, storeId, customerId);
     await this.kv.put(key, JSON.stringify(pricing), {
@@ -230,6 +290,11 @@ export class CloudflareKVCache implements IBudgetCache {
     await this.kv.delete(budgetKey);
   }
   
+  async invalidateCustomerPricing(customerId: string, storeId: number): Promise<void> {
+    const { keys } = await this.kv.list({ prefix: `budget:${storeId}:${customerId}:product:` });
+    await Promise.all(keys.map((key: { name: string }) => this.kv.delete(key.name)));
+  }
+  
   async invalidateStoreCache(storeId: number): Promise<void> {
     // Similar limitation - in production, use prefix listing
     console.log(`Would invalidate all cache for store ${storeId}`);
@@ -253,6 +318,10 @@ export class CloudflareKVCache implements IBudgetCache {
   private getProductPricingKey(productId: string, storeId: number, customerId: string): string {
     return `budget:${storeId}:${customerId}:product:${productId}`;
   }
+  
+  private getEdgeRulesKey(storeId: number): string {
+    return `rules:${storeId}`;
+  }
 }
 
 // Factory to create appropriate cache based on environment
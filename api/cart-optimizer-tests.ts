@@ -0,0 +1,307 @@
+import {
+  CartOptimizer,
+  type CartOptimizerLine,
+  type CartPlan
+} from "../shared/cart-optimizer.js";
+import { cartItemSchema, MAX_CART_ITEM_QUANTITY } from "../shared/schema.js";
+
+// Wants: a $60 item and two $30 items against a $100 budget
+const WANTS_LINES: CartOptimizerLine[] = [
+  { productId: "headphones", title: "Headphones", price: 60, quantity: 1, category: "wants" },
+  { productId: "tshirt", title: "T-shirt", price: 30, quantity: 2, category: "wants" }
+];
+
+// Needs: a $45 item with a $35 alternative and a $15 item against a $50 budget
+const NEEDS_LINES: CartOptimizerLine[] = [
+  {
+    productId: "shoes", variantId: "shoes_leather", title: "Leather shoes", price: 45, quantity: 1, category: "needs",
+    substitutes: [{ productId: "shoes", variantId: "shoes_canvas", title: "Canvas shoes", price: 35 }]
+  },
+  { productId: "socks", title: "Socks", price: 15, quantity: 1, category: "needs" }
+];
+
+// Cart optimizer test suite: plans for over-budget carts on fixture data
+export class CartOptimizerTestSuite {
+  private results: TestResult[] = [];
+
+  runAllTests(): CartOptimizerTestReport {
+    console.log("Running cart optimizer tests");
+
+    this.results = [];
+    const startTime = Date.now();
+
+    // Test 1: Carts that already fit
+    this.testWithinBudget();
+
+    // Test 2: Reducing and removing lines
+    this.testReduceAndRemove();
+
+    // Test 3: Swapping for a substitute
+    this.testSubstituteSwap();
+
+    // Test 4: Plans across categories
+    this.testCategoryCombination();
+
+    // Test 5: Exact minor-unit arithmetic
+    this.testMinorUnits();
+
+    // Test 6: Customer-supplied values
+    this.testCustomValues();
+
+    // Test 7: Determinism on a large cart
+    this.testDeterminism();
+
+    // Test 8: Bounded quantities
+    this.testQuantityBound();
+
+    const endTime = Date.now();
+    return {
+      totalTests: this.results.length,
+      passed: this.results.filter(r => r.status === "passed").length,
+      failed: this.results.filter(r => r.status === "failed").length,
+      duration: endTime - startTime,
+      results: this.results
+    };
+  }
+
+  private testWithinBudget(): void {
+    const testName = "Within Budget Test";
+    try {
+      const result = CartOptimizer.optimize(WANTS_LINES, { wants: 120 }, "USD");
+      assert(result.withinBudget && result.plans.length === 0, "a cart at its budget should need no plans");
+      assert(result.total === 120 && result.overBudgetCategories.length === 0, "the current total should be reported");
+
+      this.addResult(testName, "passed", "A cart within every category budget gets no plans");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testReduceAndRemove(): void {
+    const testName = "Reduce And Remove Test";
+    try {
+      const { plans, overBudgetCategories } = CartOptimizer.optimize(WANTS_LINES, { wants: 100 }, "USD");
+      assert(overBudgetCategories.join() === "wants", "wants should be over budget");
+      assert(plans.length === 3, `expected 3 plans, got ${plans.length}`);
+
+      // Best: drop one T-shirt and keep $90 of the $120 cart
+      assertPlan(plans[0], { keptValue: 90, total: 90, savings: 30 }, ["reduce tshirt 2->1"], "first plan");
+      // Both $60 plans keep the same value; the earlier line is kept first
+      assertPlan(plans[1], { keptValue: 60, total: 60, savings: 60 }, ["remove tshirt 2->0"], "second plan");
+      assertPlan(plans[2], { keptValue: 60, total: 60, savings: 60 }, ["remove headphones 1->0"], "third plan");
+      assert(plans[0].categories.wants.remaining === 10, "the first plan should leave $10 of the wants budget");
+
+      this.addResult(testName, "passed", "Fewer units beat removing a line, and ties keep earlier lines");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testSubstituteSwap(): void {
+    const testName = "Substitute Swap Test";
+    try {
+      const { plans } = CartOptimizer.optimize(NEEDS_LINES, { needs: 50 }, "USD");
+
+      // Swapping the shoes keeps both lines and uses the whole budget
+      assertPlan(plans[0], { keptValue: 50, total: 50, savings: 10 }, ["swap shoes 1->1 shoes_canvas"], "first plan");
+      assert(plans[0].changes[0].substitute?.title === "Canvas shoes", "the swap should name the substitute");
+      assertPlan(plans[1], { keptValue: 45, total: 45, savings: 15 }, ["remove socks 1->0"], "second plan");
+      assertPlan(plans[2], { keptValue: 35, total: 35, savings: 25 }, ["swap shoes 1->1 shoes_canvas", "remove socks 1->0"], "third plan");
+
+      this.addResult(testName, "passed", "A cheaper substitute is preferred when it keeps more of the cart");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testCategoryCombination(): void {
+    const testName = "Category Combination Test";
+    try {
+      const lines: CartOptimizerLine[] = [
+        ...NEEDS_LINES,
+        ...WANTS_LINES,
+        { productId: "gift_card", title: "Gift card", price: 10, quantity: 1, category: "savings" }
+      ];
+      const { plans, overBudgetCategories } = CartOptimizer.optimize(lines, { needs: 50, wants: 100, savings: 20 }, "USD");
+      assert(overBudgetCategories.join() === "needs,wants", `unexpected over-budget categories ${overBudgetCategories}`);
+
+      // Needs selections keep 50, 45, 35 and wants selections keep 90, 60, 60 of a $190 cart; the $10 savings line stays
+      assertPlan(plans[0], { keptValue: 150, total: 150, savings: 40 }, ["swap shoes 1->1 shoes_canvas", "reduce tshirt 2->1"], "first plan");
+      assertPlan(plans[1], { keptValue: 145, total: 145, savings: 45 }, ["remove socks 1->0", "reduce tshirt 2->1"], "second plan");
+      assertPlan(plans[2], { keptValue: 135, total: 135, savings: 55 },
+        ["swap shoes 1->1 shoes_canvas", "remove socks 1->0", "reduce tshirt 2->1"], "third plan");
+      assert(plans.every(plan => plan.categories.savings.total === 10 && plan.categories.savings.remaining === 10),
+        "a category within budget should be left as it is");
+
+      this.addResult(testName, "passed", "Per-category selections combine into the best overall plans");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testMinorUnits(): void {
+    const testName = "Minor Unit Test";
+    try {
+      // 3 x 0.10 + 0.20 against 0.30; floating point would put 3 x 0.10 just over 0.30
+      const lines: CartOptimizerLine[] = [
+        { productId: "sticker", title: "Sticker", price: 0.1, quantity: 3, category: "wants" },
+        { productId: "pin", title: "Pin", price: 0.2, quantity: 1, category: "wants" }
+      ];
+      const { plans } = CartOptimizer.optimize(lines, { wants: 0.3 }, "USD");
+      assertPlan(plans[0], { keptValue: 0.3, total: 0.3, savings: 0.2 }, ["remove pin 1->0"], "first plan");
+      assert(plans[0].categories.wants.remaining === 0, "the budget should be used exactly");
+
+      // No minor unit: a 1000 yen budget fits 3 of 4 units at 300 yen
+      const yen = CartOptimizer.optimize(
+        [{ productId: "tea", title: "Tea", price: 300, quantity: 4, category: "needs" }], { needs: 1000 }, "JPY"
+      );
+      assertPlan(yen.plans[0], { keptValue: 900, total: 900, savings: 300 }, ["reduce tea 4->3"], "yen plan");
+
+      this.addResult(testName, "passed", "Budgets are compared in exact minor units");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testCustomValues(): void {
+    const testName = "Custom Value Test";
+    try {
+      const lines: CartOptimizerLine[] = [
+        { productId: "medicine", title: "Medicine", price: 50, quantity: 1, category: "needs", value: 200 },
+        { productId: "blender", title: "Blender", price: 80, quantity: 1, category: "needs" },
+        { productId: "candles", title: "Candles", price: 5, quantity: 1, category: "gifts" }
+      ];
+      const { plans } = CartOptimizer.optimize(lines, { needs: 100 }, "USD");
+
+      // By price the blender would be kept; the customer's value keeps the medicine. Gifts has no budget.
+      assertPlan(plans[0], { keptValue: 200, total: 50, savings: 85 }, ["remove blender 1->0", "remove candles 1->0"], "first plan");
+      assert(plans[0].categories.gifts.budget === 0, "a category without a budget should report none");
+
+      this.addResult(testName, "passed", "Line values override prices and unbudgeted lines are removed");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testDeterminism(): void {
+    const testName = "Determinism Test";
+    try {
+      const categories = ["needs", "wants", "savings"];
+      const lines: CartOptimizerLine[] = Array.from({ length: 30 }, (_, i) => ({
+        productId: `product_${i}`,
+        title: `Product ${i}`,
+        price: 10 + (i * 7) % 23,
+        quantity: 1 + i % 3,
+        category: categories[i % 3],
+        substitutes: [
+          { productId: `product_${i}`, variantId: `small_${i}`, title: `Product ${i} (small)`, price: 5 + (i * 5) % 11 },
+          { productId: `alternative_${i}`, title: `Alternative ${i}`, price: 3 + (i * 3) % 7 }
+        ]
+      }));
+      const budgets = { needs: 150, wants: 120, savings: 90 };
+
+      const first = CartOptimizer.optimize(lines, budgets, "USD");
+      const second = CartOptimizer.optimize(lines, budgets, "USD");
+      assert(JSON.stringify(first) === JSON.stringify(second), "the same cart produced different plans");
+      assert(first.plans.length === 3, `expected 3 plans, got ${first.plans.length}`);
+      assert(first.plans.every(plan => categories.every(category => plan.categories[category].remaining >= 0)),
+        "every plan should fit every category");
+      assert(first.plans.every((plan, i) => i === 0 || plan.keptValue <= first.plans[i - 1].keptValue),
+        "plans should be ranked by kept value");
+
+      this.addResult(testName, "passed", "30 lines with 2 substitutes each are solved the same way twice");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testQuantityBound(): void {
+    const testName = "Quantity Bound Test";
+    try {
+      const item = { productId: "pen", title: "Pen", price: 1, budgetCategory: "wants", budgetImpact: 1, fitsInBudget: true };
+      assert(cartItemSchema.safeParse({ ...item, quantity: MAX_CART_ITEM_QUANTITY }).success, "the largest quantity should be accepted");
+      assert(!cartItemSchema.safeParse({ ...item, quantity: MAX_CART_ITEM_QUANTITY + 1 }).success, "larger quantities should be rejected");
+      assert(!cartItemSchema.safeParse({ ...item, quantity: 2.5 }).success, "fractional quantities should be rejected");
+
+      // A line tries 10 quantities evenly spaced from 1000 down to none, so 444 of 1000 pens fit $500
+      const pens = CartOptimizer.optimize(
+        [{ productId: "pen", title: "Pen", price: 1, quantity: MAX_CART_ITEM_QUANTITY, category: "wants" }], { wants: 500 }, "USD"
+      );
+      assertPlan(pens.plans[0], { keptValue: 444, total: 444, savings: 556 }, ["reduce pen 1000->444"], "pen plan");
+
+      const lines: CartOptimizerLine[] = Array.from({ length: 5 }, (_, i) => ({
+        productId: `pen_${i}`,
+        title: `Pen ${i}`,
+        price: 1 + i * 0.37,
+        quantity: MAX_CART_ITEM_QUANTITY,
+        category: "wants",
+        substitutes: [{ productId: `pencil_${i}`, title: `Pencil ${i}`, price: 0.5 + i * 0.11 }]
+      }));
+      const startTime = Date.now();
+      const { plans } = CartOptimizer.optimize(lines, { wants: 2500 }, "USD");
+      const duration = Date.now() - startTime;
+      assert(plans.length === 3 && plans.every(plan => plan.categories.wants.remaining >= 0), "every plan should fit the budget");
+      assert(duration < 2000, `5 lines of ${MAX_CART_ITEM_QUANTITY} units took ${duration}ms`);
+
+      this.addResult(testName, "passed", "Quantities are whole and bounded, and large ones are solved at a bounded number of steps");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private addResult(testName: string, status: TestStatus, message: string): void {
+    this.results.push({
+      testName,
+      status,
+      message,
+      timestamp: new Date()
+    });
+    console.log(`[${status.toUpperCase()}] ${testName}: ${message}`);
+  }
+}
+
+function assert(condition: boolean, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+// Changes are written as "<action> <productId> <from>-><to>", plus the substitute's variant for swaps
+function assertPlan(
+  plan: CartPlan | undefined,
+  expected: { keptValue: number; total: number; savings: number },
+  changes: string[],
+  label: string
+): void {
+  assert(plan !== undefined, `${label}: missing`);
+  for (const key of ["keptValue", "total", "savings"] as const) {
+    assert(plan[key] === expected[key], `${label}: expected ${key} ${expected[key]}, got ${plan[key]}`);
+  }
+  const actual = plan.changes.map(change =>
+    `${change.action} ${change.productId} ${change.fromQuantity}->${change.toQuantity}` +
+    (change.substitute ? ` ${change.substitute.variantId ?? change.substitute.productId}` : "")
+  );
+  assert(actual.join("; ") === changes.join("; "), `${label}: expected changes [${changes.join("; ")}], got [${actual.join("; ")}]`);
+}
+
+interface TestResult {
+  testName: string;
+  status: TestStatus;
+  message: string;
+  timestamp: Date;
+}
+
+type TestStatus = "passed" | "failed" | "skipped";
+
+interface CartOptimizerTestReport {
+  totalTests: number;
+  passed: number;
+  failed: number;
+  duration: number;
+  results: TestResult[];
+}
+
+// Export test runner function; the solver is pure, so no storage backend is involved
+export function runCartOptimizerTests(): CartOptimizerTestReport {
+  return new CartOptimizerTestSuite().runAllTests();
+}
@@ -1,15 +1,63 @@
 import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-serverless';
+import { drizzle as drizzlePglite } from 'drizzle-orm/pglite';
+import { migrate } from 'drizzle-orm/pglite/migrator';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import { PGlite } from '@electric-sql/pglite';
+import { fileURLToPath } from 'url';
 import ws from "ws";
 import * as schema from "../shared/schema.js";
+import { demoUser, demoStore, demoPricingRule } from "./demo-data";
 
-neonConfig.webSocketConstructor = ws;
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+export type DatabaseDriver = "neon" | "pglite";
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+// Pick the driver from DATABASE_DRIVER, defaulting to Neon when DATABASE_URL is set
+// and to the embedded PGlite database otherwise (local development and tests)
+export function resolveDatabaseDriver(): DatabaseDriver {
+  const driver = process.env.DATABASE_DRIVER ?? (process.env.DATABASE_URL ? "neon" : "pglite");
+  if (driver !== "neon" && driver !== "pglite") {
+    throw new Error(`Unsupported DATABASE_DRIVER "${driver}". Use "neon" or "pglite".`);
+  }
+  return driver;
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+function createNeonDatabase(): Database {
+  if (!process.env.DATABASE_URL) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?",
+    );
+  }
+
+  neonConfig.webSocketConstructor = ws;
+
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+  return drizzleNeon({ client: pool, schema });
+}
+
+async function createPgliteDatabase(): Promise<Database> {
+  // PGLITE_DATA_DIR persists the database on disk; without it the data lives in memory
+  const client = new PGlite(process.env.PGLITE_DATA_DIR);
+  const database = drizzlePglite({ client, schema });
+
+  await migrate(database, {
+    migrationsFolder: fileURLToPath(new URL("./drizzle", import.meta.url))
+  });
+  await seedDemoData(database);
+
+  return database;
+}
+
+// Seed the same demo merchant, store and pricing rule as MemStorage, once per database
+async function seedDemoData(database: Database): Promise<void> {
+  const [existingUser] = await database.select().from(schema.users).limit(1);
+  if (existingUser) return;
+
+  const [user] = await database.insert(schema.users).values(demoUser).returning();
+  const [store] = await database.insert(schema.stores).values({ ...demoStore, userId: user.id }).returning();
+  await database.insert(schema.pricingRules).values({ ...demoPricingRule, storeId: store.id });
+}
+
+export const db: Database = resolveDatabaseDriver() === "neon"
+  ? createNeonDatabase()
+  : await createPgliteDatabase();
@@ -0,0 +1,64 @@
+import type { InsertUser, InsertStore, InsertPricingRule } from "../shared/schema.js";
+
+// Demo fixtures shared by MemStorage and the embedded database seed.
+// Ids are assigned by the backend; the store and rule belong to the first user and store.
+
+export const demoUser = {
+  username: "demo_merchant",
+  email: "demo@example.com",
+  password: "hashed_password",
+  shopifyDomain: "demo-store.myshopify.com",
+  tier: "pro",
+} satisfies InsertUser;
+
+export const demoStore = {
+  shopifyDomain: "demo-store.myshopify.com",
+  accessToken: "demo_access_token",
+  isActive: true,
+  settings: {
+    theme: { primaryColor: "#00A651", fontFamily: "Inter" },
+    features: { budgetEducation: true, analytics: true }
+  },
+  domain: "demo-store.myshopify.com",
+  platform: "shopify",
+  apiKey: null,
+  apiSecret: null,
+  webhookSecret: null,
+  premiumCartTracking: true,
+  autoDiscountEnabled: true,
+  productRecommendationsEnabled: true,
+  budgetRemainingDisplayEnabled: true,
+  minimumDiscountThreshold: "50",
+  discountLadder: null, // Default ladder from the threshold
+  abandonmentSettings: null, // Abandoned carts are not swept
+  currency: "USD",
+  currencyRates: { EUR: 0.92, GBP: 0.79, CAD: 1.36, JPY: 151 },
+  taxMode: "exclusive",
+  taxRates: { defaultRate: 0, regions: { "US-CA": 7.25, "US-NY": 8 }, productTypes: {} },
+} satisfies Omit<InsertStore, "userId">;
+
+export const demoPricingRule = {
+  name: "Default 50/30/20 Rule",
+  needsPercentage: "50.00",
+  wantsPercentage: "30.00",
+  savingsPercentage: "20.00",
+  maxDiscountPercentage: "25.00",
+  categories: null,
+  categoryMapping: null,
+  bundleRules: null,
+  inventorySettings: null,
+  minMarginPercentage: "0.00",
+  priceEnding: "none",
+  isActive: true,
+  version: 1,
+  startsAt: null,
+  endsAt: null,
+  budgetRefreshType: "monthly",
+  maxBudgetApplications: -1,
+  budgetRefreshDays: 30,
+  repeatCustomerDiscount: "5.00",
+  discountTerms: "Budget discounts apply to help you stay within your financial goals. Maximum 25% off per purchase.",
+  termsPageUrl: null,
+  isAppEnabled: true,
+  enabledForProducts: "all",
+} satisfies Omit<InsertPricingRule, "storeId">;
@@ -0,0 +1,161 @@
+CREATE TABLE "analytics" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"store_id" integer NOT NULL,
+	"event_type" text NOT NULL,
+	"event_data" json,
+	"timestamp" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "auto_discounts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"store_id" integer NOT NULL,
+	"customer_id" text NOT NULL,
+	"cart_session_id" integer,
+	"discount_code" text NOT NULL,
+	"discount_type" text NOT NULL,
+	"discount_value" numeric(10, 2) NOT NULL,
+	"minimum_amount" numeric(10, 2),
+	"applied_amount" numeric(10, 2),
+	"is_applied" boolean DEFAULT false,
+	"created_at" timestamp DEFAULT now(),
+	"expires_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "budget_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"store_id" integer,
+	"customer_data" json,
+	"budget_data" json,
+	"is_opted_in" boolean DEFAULT false,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "cart_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"store_id" integer NOT NULL,
+	"customer_id" text NOT NULL,
+	"session_id" text NOT NULL,
+	"cart_data" json NOT NULL,
+	"budget_breakdown" json NOT NULL,
+	"applied_discounts" json,
+	"recommended_products" json,
+	"total_cart_value" numeric(10, 2) NOT NULL,
+	"remaining_budget" json,
+	"is_active" boolean DEFAULT true,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "customer_budget_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"store_id" integer NOT NULL,
+	"customer_id" text NOT NULL,
+	"customer_email" text,
+	"monthly_income" numeric(12, 2),
+	"budget_period" text DEFAULT 'monthly',
+	"budget_start_date" timestamp NOT NULL,
+	"budget_end_date" timestamp NOT NULL,
+	"total_budget_applications" integer DEFAULT 0,
+	"remaining_applications" integer DEFAULT -1,
+	"is_active" boolean DEFAULT true,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "customer_purchases" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"store_id" integer NOT NULL,
+	"customer_id" text NOT NULL,
+	"customer_email" text,
+	"product_id" text NOT NULL,
+	"product_handle" text,
+	"variant_id" text,
+	"order_id" text,
+	"original_price" numeric(10, 2) NOT NULL,
+	"final_price" numeric(10, 2) NOT NULL,
+	"budget_discount" numeric(10, 2) DEFAULT '0.00',
+	"budget_category" text,
+	"purchase_date" timestamp DEFAULT now(),
+	"budget_application_count" integer DEFAULT 1,
+	"session_id" text
+);
+--> statement-breakpoint
+CREATE TABLE "pricing_rules" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"store_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"needs_percentage" numeric(5, 2) DEFAULT '50.00',
+	"wants_percentage" numeric(5, 2) DEFAULT '30.00',
+	"savings_percentage" numeric(5, 2) DEFAULT '20.00',
+	"max_discount_percentage" numeric(5, 2) DEFAULT '25.00',
+	"is_active" boolean DEFAULT true,
+	"created_at" timestamp DEFAULT now(),
+	"budget_refresh_type" text DEFAULT 'monthly',
+	"max_budget_applications" integer DEFAULT -1,
+	"budget_refresh_days" integer DEFAULT 30,
+	"repeat_customer_discount" numeric(5, 2) DEFAULT '0.00',
+	"discount_terms" text,
+	"terms_page_url" text,
+	"is_app_enabled" boolean DEFAULT true,
+	"enabled_for_products" json
+);
+--> statement-breakpoint
+CREATE TABLE "product_recommendations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"store_id" integer NOT NULL,
+	"customer_id" text NOT NULL,
+	"product_id" text NOT NULL,
+	"product_title" text NOT NULL,
+	"product_price" numeric(10, 2) NOT NULL,
+	"budget_category" text NOT NULL,
+	"recommendation_reason" text,
+	"remaining_budget_after" numeric(10, 2),
+	"priority" integer DEFAULT 0,
+	"is_clicked" boolean DEFAULT false,
+	"is_purchased" boolean DEFAULT false,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "stores" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"shopify_domain" text NOT NULL,
+	"access_token" text,
+	"is_active" boolean DEFAULT true,
+	"settings" json,
+	"created_at" timestamp DEFAULT now(),
+	"domain" text,
+	"platform" text DEFAULT 'shopify',
+	"api_key" text,
+	"api_secret" text,
+	"webhook_secret" text,
+	"premium_cart_tracking" boolean DEFAULT false,
+	"auto_discount_enabled" boolean DEFAULT false,
+	"product_recommendations_enabled" boolean DEFAULT false,
+	"budget_remaining_display_enabled" boolean DEFAULT false,
+	"minimum_discount_threshold" numeric(10, 2) DEFAULT '50.00',
+	CONSTRAINT "stores_shopify_domain_unique" UNIQUE("shopify_domain")
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"email" text NOT NULL,
+	"shopify_domain" text,
+	"tier" text DEFAULT 'free' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "users_username_unique" UNIQUE("username"),
+	CONSTRAINT "users_email_unique" UNIQUE("email")
+);
+--> statement-breakpoint
+ALTER TABLE "analytics" ADD CONSTRAINT "analytics_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "auto_discounts" ADD CONSTRAINT "auto_discounts_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "auto_discounts" ADD CONSTRAINT "auto_discounts_cart_session_id_cart_sessions_id_fk" FOREIGN KEY ("cart_session_id") REFERENCES "public"."cart_sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "budget_sessions" ADD CONSTRAINT "budget_sessions_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cart_sessions" ADD CONSTRAINT "cart_sessions_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "customer_budget_history" ADD CONSTRAINT "customer_budget_history_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "customer_purchases" ADD CONSTRAINT "customer_purchases_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pricing_rules" ADD CONSTRAINT "pricing_rules_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "product_recommendations" ADD CONSTRAINT "product_recommendations_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stores" ADD CONSTRAINT "stores_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "price_quote_redemptions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"quote_id" text NOT NULL,
+	"store_id" integer NOT NULL,
+	"customer_id" text NOT NULL,
+	"order_id" text NOT NULL,
+	"redeemed_at" timestamp DEFAULT now(),
+	CONSTRAINT "price_quote_redemptions_quote_id_unique" UNIQUE("quote_id")
+);
+--> statement-breakpoint
+ALTER TABLE "price_quote_redemptions" ADD CONSTRAINT "price_quote_redemptions_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "product_costs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"store_id" integer NOT NULL,
+	"product_id" text NOT NULL,
+	"variant_id" text DEFAULT '' NOT NULL,
+	"cost" numeric(10, 2) NOT NULL,
+	"source" text DEFAULT 'csv' NOT NULL,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "product_costs_store_product_variant_unique" UNIQUE("store_id","product_id","variant_id")
+);
+--> statement-breakpoint
+ALTER TABLE "pricing_rules" ADD COLUMN "min_margin_percentage" numeric(5, 2) DEFAULT '0.00';--> statement-breakpoint
+ALTER TABLE "product_costs" ADD CONSTRAINT "product_costs_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
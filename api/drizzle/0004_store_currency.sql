@@ -0,0 +1,2 @@
+ALTER TABLE "stores" ADD COLUMN "currency" text DEFAULT 'USD';--> statement-breakpoint
+ALTER TABLE "stores" ADD COLUMN "currency_rates" json;
\ No newline at end of file
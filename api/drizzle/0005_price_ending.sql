@@ -0,0 +1 @@
+ALTER TABLE "pricing_rules" ADD COLUMN "price_ending" text DEFAULT 'none';
\ No newline at end of file
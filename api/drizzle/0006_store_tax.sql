@@ -0,0 +1,2 @@
+ALTER TABLE "stores" ADD COLUMN "tax_mode" text DEFAULT 'exclusive';--> statement-breakpoint
+ALTER TABLE "stores" ADD COLUMN "tax_rates" json;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "pricing_rules" ADD COLUMN "categories" json;
\ No newline at end of file
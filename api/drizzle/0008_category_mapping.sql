@@ -0,0 +1 @@
+ALTER TABLE "pricing_rules" ADD COLUMN "category_mapping" json;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "pricing_rules" ADD COLUMN "starts_at" timestamp;--> statement-breakpoint
+ALTER TABLE "pricing_rules" ADD COLUMN "ends_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE "experiment_assignments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"experiment_id" integer NOT NULL,
+	"subject_id" text NOT NULL,
+	"variant_key" text NOT NULL,
+	"assigned_at" timestamp DEFAULT now(),
+	CONSTRAINT "experiment_assignments_experiment_subject_unique" UNIQUE("experiment_id","subject_id")
+);
+--> statement-breakpoint
+CREATE TABLE "experiments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"store_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"status" text DEFAULT 'draft' NOT NULL,
+	"variants" json NOT NULL,
+	"started_at" timestamp,
+	"ended_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "analytics" ADD COLUMN "experiment_id" integer;--> statement-breakpoint
+ALTER TABLE "analytics" ADD COLUMN "experiment_variant" text;--> statement-breakpoint
+ALTER TABLE "customer_purchases" ADD COLUMN "experiment_id" integer;--> statement-breakpoint
+ALTER TABLE "customer_purchases" ADD COLUMN "experiment_variant" text;--> statement-breakpoint
+ALTER TABLE "experiment_assignments" ADD CONSTRAINT "experiment_assignments_experiment_id_experiments_id_fk" FOREIGN KEY ("experiment_id") REFERENCES "public"."experiments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "experiments" ADD CONSTRAINT "experiments_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
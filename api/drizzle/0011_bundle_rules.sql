@@ -0,0 +1 @@
+ALTER TABLE "pricing_rules" ADD COLUMN "bundle_rules" json;
\ No newline at end of file
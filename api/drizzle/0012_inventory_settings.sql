@@ -0,0 +1 @@
+ALTER TABLE "pricing_rules" ADD COLUMN "inventory_settings" json;
\ No newline at end of file
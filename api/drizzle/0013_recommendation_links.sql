@@ -0,0 +1,3 @@
+ALTER TABLE "product_recommendations" ADD COLUMN "variant_id" text;--> statement-breakpoint
+ALTER TABLE "product_recommendations" ADD COLUMN "product_url" text;--> statement-breakpoint
+ALTER TABLE "product_recommendations" ADD COLUMN "image_url" text;
\ No newline at end of file
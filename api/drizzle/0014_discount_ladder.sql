@@ -0,0 +1 @@
+ALTER TABLE "stores" ADD COLUMN "discount_ladder" json;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "auto_discounts" ADD COLUMN "platform_discount_id" text;--> statement-breakpoint
+ALTER TABLE "auto_discounts" ADD COLUMN "platform_rule_id" text;--> statement-breakpoint
+ALTER TABLE "auto_discounts" ADD COLUMN "order_id" text;--> statement-breakpoint
+ALTER TABLE "auto_discounts" ADD COLUMN "redeemed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "auto_discounts" ADD COLUMN "revoked_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "cart_abandonment_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"store_id" integer NOT NULL,
+	"cart_session_id" integer NOT NULL,
+	"channel" text NOT NULL,
+	"payload" json NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now(),
+	"delivered_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "cart_sessions" ADD COLUMN "abandoned_at" timestamp;--> statement-breakpoint
+ALTER TABLE "cart_sessions" ADD COLUMN "recovered_at" timestamp;--> statement-breakpoint
+ALTER TABLE "cart_sessions" ADD COLUMN "recovery_order_id" text;--> statement-breakpoint
+ALTER TABLE "cart_sessions" ADD COLUMN "recovered_value" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "stores" ADD COLUMN "abandonment_settings" json;--> statement-breakpoint
+ALTER TABLE "cart_abandonment_events" ADD CONSTRAINT "cart_abandonment_events_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cart_abandonment_events" ADD CONSTRAINT "cart_abandonment_events_cart_session_id_cart_sessions_id_fk" FOREIGN KEY ("cart_session_id") REFERENCES "public"."cart_sessions"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
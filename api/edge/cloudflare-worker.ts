@@ -1,7 +1,8 @@
 // Cloudflare Workers entry point for edge deployment
-import { budgetCache, CloudflareKVCache } from "../cache/budget-cache";
-import { BudgetEngine } from "../../client/src/lib/budget-engine";
-import type { BudgetData, ProductPricing } from "@shared/schema";
+import { budgetCache, CloudflareKVCache, toCachedPricing, type CachedPricing, type EdgePricingRules } from "../cache/budget-cache";
+import { PricingEngine } from "../../shared/pricing-engine.js";
+import { RuleVersions } from "../../shared/rule-versions.js";
+import type { BudgetData, PricingRule, ProductPricing } from "@shared/schema";
 
 export interface Env {
   BUDGET_CACHE: KVNamespace;
@@ -45,6 +46,8 @@ export default {
         return handleBatchPricing(request, cache, headers);
       } else if (path.startsWith("/api/cache/invalidate")) {
         return handleCacheInvalidation(request, cache, headers);
+      } else if (path.startsWith("/api/rules/publish")) {
+        return handleRulesPublish(request, cache, env, headers);
       }
       
       return new Response(JSON.stringify({ error: "Not found" }), {
@@ -80,7 +83,7 @@ async function handleBudgetCalculation(
   }
   
   // Calculate budget using the engine
-  const budget = BudgetEngine.calculateBudgetBreakdown(income);
+  const budget = PricingEngine.calculateBudget(income);
   
   // Cache the budget for future use
   await cache.setCustomerBudget(customerId, storeId, budget);
@@ -174,9 +177,15 @@ async function handlePricingCalculation(
     });
   }
   
+  const resolved = await resolveEdgeRule(cache, storeId, headers);
+  if (resolved instanceof Response) {
+    return resolved;
+  }
+  const { rule } = resolved;
+  
   // Try to get cached pricing first
   const cachedPricing = await cache.getProductPricing(productId, storeId, customerId);
-  if (cachedPricing && (Date.now() - cachedPricing.timestamp) < 300000) { // 5 min cache
+  if (isFreshPricing(cachedPricing, rule)) { // 5 min cache
     return new Response(JSON.stringify({
       pricing: cachedPricing,
       cached: true
@@ -197,20 +206,15 @@ async function handlePricingCalculation(
     });
   }
   
-  // Calculate pricing
-  const pricing = BudgetEngine.calculateProductPricing(
-    budget,
-    productPrice,
-    category || "wants"
-  );
+  // Calculate pricing with the rule the API would use
+  const pricing = PricingEngine.calculateProductPricing(rule, {
+    productId,
+    basePrice: productPrice,
+    category
+  }, budget);
   
   // Cache the pricing
-  const cachedData = {
-    ...pricing,
-    remainingBudget: budget[`${category || "wants"}Amount`] - pricing.budgetPrice,
-    timestamp: Date.now(),
-    ttl: 300 // 5 minutes
-  };
+  const cachedData = toCachedPricing(pricing);
   
   await cache.setProductPricing(productId, storeId, customerId, cachedData);
   
@@ -249,6 +253,12 @@ async function handleBatchPricing(
     });
   }
   
+  const resolved = await resolveEdgeRule(cache, storeId, headers);
+  if (resolved instanceof Response) {
+    return resolved;
+  }
+  const { rule } = resolved;
+  
   // Check cache for existing pricing
   const keys = products.map(p => ({
     productId: p.id,
@@ -264,7 +274,7 @@ async function handleBatchPricing(
     const cacheKey = `${product.id}:${storeId}:${customerId}`;
     const cached = cachedPricings.get(cacheKey);
     
-    if (cached && (Date.now() - cached.timestamp) < 300000) {
+    if (isFreshPricing(cached, rule)) {
       results.push({
         productId: product.id,
         pricing: cached,
@@ -272,18 +282,15 @@ async function handleBatchPricing(
       });
     } else {
       // Calculate new pricing
-      const pricing = BudgetEngine.calculateProductPricing(
-        budget,
-        product.price,
-        product.category || "wants"
-      );
+      const pricing = PricingEngine.calculateProductPricing(rule, {
+        productId: product.id,
+        variantId: product.variantId,
+        basePrice: product.price,
+        shopifyDiscounts: product.shopifyDiscounts,
+        category: product.category
+      }, budget);
       
-      const cachedData = {
-        ...pricing,
-        remainingBudget: budget[`${product.category || "wants"}Amount`] - pricing.budgetPrice,
-        timestamp: Date.now(),
-        ttl: 300
-      };
+      const cachedData = toCachedPricing(pricing);
       
       results.push({
         productId: product.id,
@@ -348,4 +355,75 @@ async function handleCacheInvalidation(
     status: 200,
     headers
   });
-}
\ No newline at end of file
+}
+
+// Store the rules the API publishes; only the API, holding the shared secret, may publish
+async function handleRulesPublish(
+  request: Request,
+  cache: CloudflareKVCache,
+  env: Env,
+  headers: HeadersInit
+): Promise<Response> {
+  if (!env.API_SECRET || request.headers.get("Authorization") !== `Bearer ${env.API_SECRET}`) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers
+    });
+  }
+  
+  const { storeId, rules } = await request.json() as { storeId?: number; rules?: EdgePricingRules };
+  
+  if (!storeId || !rules || !Array.isArray(rules.rules)) {
+    return new Response(JSON.stringify({ error: "Missing required fields" }), {
+      status: 400,
+      headers
+    });
+  }
+  
+  await cache.setEdgeRules(storeId, rules);
+  
+  return new Response(JSON.stringify({
+    success: true,
+    message: `Pricing rules published for store ${storeId}`
+  }), {
+    status: 200,
+    headers
+  });
+}
+
+// The rule the API prices the store with. Without published rules, or while an experiment
+// prices some customers with other rules, the edge refuses rather than pricing differently.
+async function resolveEdgeRule(
+  cache: CloudflareKVCache,
+  storeId: number,
+  headers: HeadersInit
+): Promise<{ rule: PricingRule | null } | Response> {
+  const published = await cache.getEdgeRules(storeId);
+  
+  if (!published) {
+    return new Response(JSON.stringify({ 
+      error: "Pricing rules have not been published to the edge for this store"
+    }), {
+      status: 503,
+      headers
+    });
+  }
+  
+  if (published.experimentRunning) {
+    return new Response(JSON.stringify({ 
+      error: "This store is running a pricing experiment. Price through the API."
+    }), {
+      status: 409,
+      headers
+    });
+  }
+  
+  return { rule: RuleVersions.resolveEffective(published.rules) ?? null };
+}
+
+// Cached prices expire after 5 minutes and when the rule they were priced with is replaced
+function isFreshPricing(cached: CachedPricing | null | undefined, rule: PricingRule | null): cached is CachedPricing {
+  return cached != null &&
+    (Date.now() - cached.timestamp) < 300000 &&
+    cached.breakdown?.ruleId === (rule?.id ?? null);
+}
@@ -0,0 +1,273 @@
+import {
+  Experiments,
+  type ConfidenceInterval,
+  type ExperimentAssignmentInput,
+  type ExperimentOrderLineInput,
+  type ExperimentPurchaseInput,
+  type ExperimentVariant
+} from "../shared/experiments.js";
+
+// Expected values were worked out by hand from the fixtures; intervals are compared to 3 decimals
+const TOLERANCE = 1e-3;
+
+const VARIANTS: ExperimentVariant[] = [
+  { key: "control", name: "Current rule", ruleId: 1, weight: 1 },
+  { key: "deeper_discount", name: "Deeper discount", ruleId: 2, weight: 1 },
+  { key: "unused", name: "Never assigned", ruleId: 3, weight: 1 }
+];
+
+// Four control visitors (two buy, one of them twice) and five variant visitors (three buy)
+const ASSIGNMENTS: ExperimentAssignmentInput[] = [
+  ...["c1", "c2", "c3", "c4"].map(subjectId => ({ subjectId, variantKey: "control" })),
+  ...["v1", "v2", "v3", "v4", "v5"].map(subjectId => ({ subjectId, variantKey: "deeper_discount" }))
+];
+
+const PURCHASES: ExperimentPurchaseInput[] = [
+  { subjectId: "c1", variantKey: "control", revenue: 30, discount: 5 },
+  { subjectId: "c2", variantKey: "control", revenue: 10, discount: 0 },
+  { subjectId: "c2", variantKey: "control", revenue: 20, discount: 5 },
+  { subjectId: "v1", variantKey: "deeper_discount", revenue: 40, discount: 10 },
+  { subjectId: "v2", variantKey: "deeper_discount", revenue: 20, discount: 4 },
+  { subjectId: "v3", variantKey: "deeper_discount", revenue: 40, discount: 6 },
+  // Stamped with an arm the buyer was not assigned, and a buyer who was never assigned
+  { subjectId: "c3", variantKey: "deeper_discount", revenue: 99, discount: 9 },
+  { subjectId: "stranger", variantKey: "control", revenue: 50, discount: 1 }
+];
+
+// Experiment analysis test suite: bucketing and report statistics on fixture data
+export class ExperimentTestSuite {
+  private results: TestResult[] = [];
+
+  runAllTests(): ExperimentTestReport {
+    console.log("Running experiment tests");
+
+    this.results = [];
+    const startTime = Date.now();
+
+    // Test 1: Deterministic bucketing
+    this.testDeterministicBucketing();
+
+    // Test 2: Traffic weights
+    this.testTrafficWeights();
+
+    // Test 3: Wilson intervals
+    this.testWilsonIntervals();
+
+    // Test 4: Per-arm metrics on the fixture
+    this.testArmMetrics();
+
+    // Test 5: Comparison with the control arm
+    this.testControlComparison();
+
+    // Test 6: Significance on a large sample
+    this.testSignificance();
+
+    // Test 7: Multi-line orders
+    this.testOrderLines();
+
+    const endTime = Date.now();
+    return {
+      totalTests: this.results.length,
+      passed: this.results.filter(r => r.status === "passed").length,
+      failed: this.results.filter(r => r.status === "failed").length,
+      duration: endTime - startTime,
+      results: this.results
+    };
+  }
+
+  private testDeterministicBucketing(): void {
+    const testName = "Deterministic Bucketing Test";
+    try {
+      const subjects = Array.from({ length: 1000 }, (_, i) => `customer_${i}`);
+      const first = subjects.map(subject => Experiments.assignVariant(7, VARIANTS, subject).key);
+      const second = subjects.map(subject => Experiments.assignVariant(7, VARIANTS, subject).key);
+      assert(first.every((key, i) => key === second[i]), "the same subject landed in different variants");
+
+      // Another experiment reshuffles customers rather than reusing the same split
+      const other = subjects.map(subject => Experiments.assignVariant(8, VARIANTS, subject).key);
+      const agreement = other.filter((key, i) => key === first[i]).length / subjects.length;
+      assert(agreement > 0.2 && agreement < 0.5, `expected about a third of subjects to agree across experiments, got ${agreement}`);
+
+      this.addResult(testName, "passed", "Subjects keep their variant and are reshuffled per experiment");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testTrafficWeights(): void {
+    const testName = "Traffic Weight Test";
+    try {
+      const weighted: ExperimentVariant[] = [
+        { key: "control", name: "Control", ruleId: 1, weight: 3 },
+        { key: "treatment", name: "Treatment", ruleId: 2, weight: 1 }
+      ];
+      const total = 20000;
+      let control = 0;
+      for (let i = 0; i < total; i++) {
+        if (Experiments.assignVariant(11, weighted, `session_${i}`).key === "control") control++;
+      }
+
+      const share = control / total;
+      assert(Math.abs(share - 0.75) < 0.015, `expected a 75% control share, got ${share}`);
+
+      this.addResult(testName, "passed", `A 3:1 split sent ${(share * 100).toFixed(1)}% of subjects to control`);
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testWilsonIntervals(): void {
+    const testName = "Wilson Interval Test";
+    try {
+      assertInterval(Experiments.wilsonInterval(50, 1000), { estimate: 0.05, lower: 0.0381, upper: 0.0653 }, "50 of 1000");
+      assertInterval(Experiments.wilsonInterval(0, 20), { estimate: 0, lower: 0, upper: 0.1611 }, "0 of 20");
+      assertInterval(Experiments.wilsonInterval(20, 20), { estimate: 1, lower: 0.8389, upper: 1 }, "20 of 20");
+
+      this.addResult(testName, "passed", "Conversion intervals match reference values and stay within [0, 1]");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testArmMetrics(): void {
+    const testName = "Arm Metrics Test";
+    try {
+      const report = Experiments.analyze(VARIANTS, ASSIGNMENTS, PURCHASES);
+      const [control, variant, unused] = report.arms;
+
+      assert(report.controlKey === "control", "the first variant should be the control");
+      assert(control.visitors === 4 && control.conversions === 2 && control.orders === 3, "control counts are wrong");
+      assert(control.revenue === 60 && control.discountCost === 10, "control should ignore purchases from unassigned buyers");
+      assert(variant.visitors === 5 && variant.conversions === 3, "variant counts are wrong");
+      assert(variant.revenue === 100 && variant.discountCost === 20, "variant should ignore purchases stamped with another arm");
+
+      // Revenue per visitor: control [30, 30, 0, 0], variant [40, 20, 40, 0, 0]
+      assertInterval(control.revenuePerVisitor, { estimate: 15, lower: -1.974, upper: 31.974 }, "control revenue per visitor");
+      assertInterval(variant.revenuePerVisitor, { estimate: 20, lower: 2.470, upper: 37.530 }, "variant revenue per visitor");
+      assertInterval(variant.discountCostPerVisitor, { estimate: 4, lower: 0.281, upper: 7.719 }, "variant discount cost per visitor");
+      assertInterval(control.conversionRate, { estimate: 0.5, lower: 0.150, upper: 0.850 }, "control conversion rate");
+
+      assert(unused.visitors === 0 && unused.conversionRate === null && unused.versusControl === null,
+        "an arm without visitors should report no rates");
+
+      this.addResult(testName, "passed", "Counts, revenue, discount cost and intervals match the fixture");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testControlComparison(): void {
+    const testName = "Control Comparison Test";
+    try {
+      const [control, variant] = Experiments.analyze(VARIANTS, ASSIGNMENTS, PURCHASES).arms;
+
+      assert(control.versusControl === null, "the control arm should not be compared with itself");
+      assert(variant.versusControl !== null, "the variant should be compared with the control");
+      assertInterval(variant.versusControl.conversionRate, { estimate: 0.1, lower: -0.552, upper: 0.752 }, "conversion difference");
+      assertInterval(variant.versusControl.revenuePerVisitor, { estimate: 5, lower: -19.401, upper: 29.401 }, "revenue difference");
+      assert(!variant.versusControl.conversionRate.significant, "nine visitors should not be significant");
+
+      this.addResult(testName, "passed", "Differences from the control carry intervals and significance");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testSignificance(): void {
+    const testName = "Significance Test";
+    try {
+      // 2000 visitors per arm: 5% conversion in control, 8% in the variant, $50 orders
+      const variants = VARIANTS.slice(0, 2);
+      const assignments: ExperimentAssignmentInput[] = [];
+      const purchases: ExperimentPurchaseInput[] = [];
+      for (const [variantKey, buyers] of [["control", 100], ["deeper_discount", 160]] as const) {
+        for (let i = 0; i < 2000; i++) {
+          const subjectId = `${variantKey}_${i}`;
+          assignments.push({ subjectId, variantKey });
+          if (i < buyers) purchases.push({ subjectId, variantKey, revenue: 50, discount: 5 });
+        }
+      }
+
+      const variant = Experiments.analyze(variants, assignments, purchases).arms[1];
+      assert(variant.versusControl !== null, "the variant should be compared with the control");
+      assertInterval(variant.versusControl.conversionRate, { estimate: 0.03, lower: 0.0148, upper: 0.0453 }, "conversion difference");
+      assert(variant.versusControl.conversionRate.significant, "a 3 point lift on 4000 visitors should be significant");
+      assert(variant.versusControl.revenuePerVisitor.significant, "the revenue lift should be significant");
+
+      this.addResult(testName, "passed", "A 5% to 8% lift on 2000 visitors per arm is significant");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testOrderLines(): void {
+    const testName = "Order Lines Test";
+    try {
+      // c1 buys one three-line order, c2 two orders of one line each, one of them without an orderId
+      const lines: ExperimentOrderLineInput[] = [
+        { subjectId: "c1", variantKey: "control", orderId: "1001", revenue: 10, discount: 1 },
+        { subjectId: "c1", variantKey: "control", orderId: "1001", revenue: 15, discount: 2 },
+        { subjectId: "c1", variantKey: "control", orderId: "1001", revenue: 5, discount: 0 },
+        { subjectId: "c2", variantKey: "control", orderId: "1002", revenue: 20, discount: 3 },
+        { subjectId: "c2", variantKey: "control", orderId: null, revenue: 10, discount: 0 },
+        { subjectId: "v1", variantKey: "deeper_discount", revenue: 40, discount: 10 }
+      ];
+      const purchases = Experiments.groupOrders(lines);
+      assert(purchases.length === 4, `expected 4 orders, got ${purchases.length}`);
+
+      const [control, variant] = Experiments.analyze(VARIANTS, ASSIGNMENTS, purchases).arms;
+      assert(control.conversions === 2 && control.orders === 3, `control should have 2 buyers and 3 orders, got ${control.orders}`);
+      assert(control.revenue === 60 && control.discountCost === 6, "an order's lines should add up to its revenue and discount");
+      assert(variant.orders === 1 && variant.revenue === 40, "a line without an orderId should be its own order");
+
+      this.addResult(testName, "passed", "Lines of the same order count as one order");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private addResult(testName: string, status: TestStatus, message: string): void {
+    this.results.push({
+      testName,
+      status,
+      message,
+      timestamp: new Date()
+    });
+    console.log(`[${status.toUpperCase()}] ${testName}: ${message}`);
+  }
+}
+
+function assert(condition: boolean, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function assertInterval(actual: ConfidenceInterval | null, expected: ConfidenceInterval, label: string): void {
+  assert(actual !== null, `${label}: expected an interval, got null`);
+  for (const key of ["estimate", "lower", "upper"] as const) {
+    assert(Math.abs(actual[key] - expected[key]) < TOLERANCE, `${label}: expected ${key} ${expected[key]}, got ${actual[key]}`);
+  }
+}
+
+interface TestResult {
+  testName: string;
+  status: TestStatus;
+  message: string;
+  timestamp: Date;
+}
+
+type TestStatus = "passed" | "failed" | "skipped";
+
+interface ExperimentTestReport {
+  totalTests: number;
+  passed: number;
+  failed: number;
+  duration: number;
+  results: TestResult[];
+}
+
+// Export test runner function; the analysis is pure, so no storage backend is involved
+export function runExperimentTests(): ExperimentTestReport {
+  return new ExperimentTestSuite().runAllTests();
+}
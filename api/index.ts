@@ -1,5 +1,6 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { cartAbandonmentService } from "./services/cart-abandonment";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -66,5 +67,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    cartAbandonmentService.start();
   });
 })();
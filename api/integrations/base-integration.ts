@@ -2,6 +2,8 @@ import { z } from "zod";
 import { db } from "../db";
 import { stores, analytics } from "@shared/schema";
 import { eq } from "drizzle-orm";
+import { priceQuotes, type PriceQuoteBinding, type PriceQuoteRejection } from "../security/price-quotes";
+import { MoneyMath } from "../../shared/money.js";
 
 // Base integration interface that all platform integrations must implement
 export interface IIntegration {
@@ -16,14 +18,19 @@ export interface IIntegration {
   getProduct(productId: string, options?: CacheOptions): Promise<Product | null>;
   getProducts(options?: ProductQueryOptions): Promise<PaginatedProducts>;
   getProductVariants(productId: string): Promise<ProductVariant[]>;
+  getProductCosts(productId: string): Promise<VariantCost[]>;
   
   // Customer methods
   getCustomer(customerId: string): Promise<Customer | null>;
   getCustomerPurchaseHistory(customerId: string, limit?: number): Promise<Purchase[]>;
   
   // Order methods
+  getOrder(orderId: string): Promise<Purchase | null>;
   createDiscount(discount: DiscountRequest): Promise<DiscountResponse>;
-  applyBudgetPricing(orderId: string, pricing: BudgetPricing): Promise<OrderUpdate>;
+  deleteDiscount(discount: DiscountResponse): Promise<void>;
+  parseOrderWebhook(payload: any): Purchase;
+  parseOrderWebhookEvent(topic: string, payload: any): OrderWebhookEvent | null;
+  applyBudgetPricing(orderId: string, request: BudgetPricingRequest): Promise<OrderUpdate>;
   
   // Webhook registration
   registerWebhooks(webhooks: WebhookConfig[]): Promise<void>;
@@ -51,10 +58,12 @@ export interface Product {
   id: string;
   title: string;
   handle: string;
+  url?: string; // Storefront page
   description: string;
   vendor?: string;
   productType?: string;
   tags: string[];
+  collections?: string[]; // Collection handles, where the platform's product payload includes them
   images: ProductImage[];
   variants: ProductVariant[];
   priceRange: {
@@ -80,11 +89,19 @@ export interface ProductVariant {
   price: number;
   compareAtPrice?: number;
   inventoryQuantity?: number;
+  inventoryItemId?: string;
+  cost?: number; // Unit cost, where the platform exposes it
   weight?: number;
   weightUnit?: string;
   options: Record<string, string>;
 }
 
+export interface VariantCost {
+  productId: string;
+  variantId: string;
+  cost: number;
+}
+
 export interface Customer {
   id: string;
   email: string;
@@ -104,10 +121,21 @@ export interface Purchase {
   customerId: string;
   total: number;
   discountTotal: number;
+  discountCodes: RedeemedDiscountCode[];
   items: PurchaseItem[];
   createdAt: Date;
 }
 
+// A placed or paid order, or a cancelled or deleted one; other order topics, such as edits, are neither
+export type OrderWebhookEvent =
+  | { type: "placed"; order: Purchase }
+  | { type: "cancelled"; orderId: string };
+
+export interface RedeemedDiscountCode {
+  code: string;
+  amount: number; // Discount the code gave on the order
+}
+
 export interface PurchaseItem {
   productId: string;
   variantId: string;
@@ -120,12 +148,13 @@ export interface PurchaseItem {
 export interface DiscountRequest {
   code?: string;
   value: number;
-  valueType: "percentage" | "fixed";
+  valueType: "percentage" | "fixed" | "free_shipping"; // Free shipping ignores value
   appliesTo: "order" | "products" | "collections";
   productIds?: string[];
   collectionIds?: string[];
   minimumAmount?: number;
   usageLimit?: number;
+  usageLimitPerCustomer?: number;
   customerIds?: string[];
   startsAt?: Date;
   endsAt?: Date;
@@ -134,14 +163,27 @@ export interface DiscountRequest {
 export interface DiscountResponse {
   id: string;
   code: string;
+  ruleId?: string; // Platform price rule the code belongs to, where codes and rules are separate
   adminUrl?: string;
 }
 
+// Checkout request to apply a budget price; the price itself comes from the signed quote
+export interface BudgetPricingRequest {
+  quoteToken: string;
+  customerId: string;
+  // The order line the quote is redeemed for
+  productId: string;
+  variantId: string;
+}
+
 export interface BudgetPricing {
   originalPrice: number;
   budgetPrice: number;
-  discountPercentage: number;
-  budgetCategory: "needs" | "wants" | "savings";
+  // The budget and repeat-customer discount per unit; platform discounts are already on the order
+  discountAmount: number;
+  discountPercentage: number; // discountAmount as a percentage of originalPrice
+  budgetCategory: string; // Key of one of the store's budget categories
+  currency: string;
   customerId: string;
   appliedRuleId?: number;
 }
@@ -151,6 +193,7 @@ export interface OrderUpdate {
   status: "success" | "failed";
   updatedTotal?: number;
   error?: string;
+  quoteRejection?: PriceQuoteRejection;
 }
 
 export interface WebhookConfig {
@@ -207,10 +250,88 @@ export abstract class BaseIntegration implements IIntegration {
   abstract getProductVariants(productId: string): Promise<ProductVariant[]>;
   abstract getCustomer(customerId: string): Promise<Customer | null>;
   abstract getCustomerPurchaseHistory(customerId: string, limit?: number): Promise<Purchase[]>;
+  // The order budget pricing is applied to, or null when the platform has no such order
+  abstract getOrder(orderId: string): Promise<Purchase | null>;
   abstract createDiscount(discount: DiscountRequest): Promise<DiscountResponse>;
-  abstract applyBudgetPricing(orderId: string, pricing: BudgetPricing): Promise<OrderUpdate>;
+  abstract deleteDiscount(discount: DiscountResponse): Promise<void>;
+  abstract parseOrderWebhook(payload: any): Purchase;
+  abstract parseOrderWebhookEvent(topic: string, payload: any): OrderWebhookEvent | null;
   abstract registerWebhooks(webhooks: WebhookConfig[]): Promise<void>;
   abstract unregisterWebhooks(webhookIds: string[]): Promise<void>;
+
+  // Unit costs carried on the product's variants; platforms that keep cost elsewhere override this
+  async getProductCosts(productId: string): Promise<VariantCost[]> {
+    const variants = await this.getProductVariants(productId);
+    return variants
+      .filter(variant => variant.cost !== undefined && Number.isFinite(variant.cost))
+      .map(variant => ({ productId, variantId: variant.id, cost: variant.cost! }));
+  }
+
+  // Apply an already verified budget price to the platform's order
+  protected abstract applyQuotedPricing(orderId: string, pricing: BudgetPricing): Promise<OrderUpdate>;
+
+  /**
+   * Redeem the signed price quote once, then apply the quoted discount to the order. The order
+   * must have a line for the quoted product and variant at the price the quote was issued from.
+   */
+  async applyBudgetPricing(orderId: string, request: BudgetPricingRequest): Promise<OrderUpdate> {
+    const binding: PriceQuoteBinding = {
+      storeId: this.storeId,
+      customerId: request.customerId,
+      productId: request.productId,
+      variantId: request.variantId
+    };
+
+    // Check the token before asking the platform for the order
+    const verified = priceQuotes.verify(request.quoteToken, binding);
+    if (!verified.valid) {
+      return { orderId, status: "failed", error: verified.message, quoteRejection: verified.reason };
+    }
+
+    const order = await this.getOrder(orderId);
+    if (!order) {
+      return { orderId, status: "failed", error: "Order not found" };
+    }
+
+    const { currency, basePrice } = verified.quote;
+    const line = order.items.find(item => item.productId === request.productId && item.variantId === request.variantId);
+    if (!line || MoneyMath.fromMajor(line.price, currency).amount !== MoneyMath.fromMajor(basePrice, currency).amount) {
+      return {
+        orderId,
+        status: "failed",
+        error: "Order has no line for the quoted product at the quoted price",
+        quoteRejection: "mismatch"
+      };
+    }
+
+    const redemption = await priceQuotes.redeem(request.quoteToken, binding, orderId);
+    if (!redemption.valid) {
+      return { orderId, status: "failed", error: redemption.message, quoteRejection: redemption.reason };
+    }
+
+    const { quote } = redemption;
+    const discountPercentage = quote.basePrice > 0
+      ? Math.round(quote.budgetDiscount / quote.basePrice * 10000) / 100
+      : 0;
+
+    const result = await this.applyQuotedPricing(orderId, {
+      customerId: quote.customerId,
+      originalPrice: quote.basePrice,
+      budgetPrice: quote.price,
+      discountAmount: quote.budgetDiscount,
+      discountPercentage,
+      budgetCategory: quote.budgetCategory,
+      currency: quote.currency,
+      appliedRuleId: quote.ruleId
+    });
+
+    // Let the customer retry if the platform did not take the update
+    if (result.status === "failed") {
+      await priceQuotes.release(quote.quoteId);
+    }
+
+    return result;
+  }
   
   // Common cache management
   protected getCached<T>(key: string, maxAge: number = 300): T | null {
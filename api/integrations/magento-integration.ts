@@ -1,4 +1,5 @@
 import crypto from "crypto";
+import { MoneyMath } from "../../shared/money.js";
 import { 
   BaseIntegration, 
   IntegrationCredentials, 
@@ -7,6 +8,7 @@ import {
   ProductVariant,
   Customer,
   Purchase,
+  OrderWebhookEvent,
   DiscountRequest,
   DiscountResponse,
   BudgetPricing,
@@ -254,6 +256,21 @@ export class MagentoIntegration extends BaseIntegration {
     }
   }
   
+  async getOrder(orderId: string): Promise<Purchase | null> {
+    await this.checkRateLimit();
+    
+    const response = await fetch(`${this.baseUrl}/orders/${orderId}`, {
+      headers: this.headers
+    });
+    
+    if (!response.ok) {
+      if (response.status === 404) return null;
+      throw new Error(`Failed to fetch order: ${await response.text()}`);
+    }
+    
+    return this.transformMagentoOrder(await response.json());
+  }
+  
   async createDiscount(discount: DiscountRequest): Promise<DiscountResponse> {
     await this.checkRateLimit();
     
@@ -262,14 +279,17 @@ export class MagentoIntegration extends BaseIntegration {
       const rule = {
         name: discount.code || `BUDGET_${Date.now()}`,
         is_active: true,
-        simple_action: discount.valueType === "percentage" ? "by_percent" : "by_fixed",
-        discount_amount: discount.value,
+        // A fixed amount off the whole order is cart_fixed; by_fixed takes it off every item
+        simple_action: discount.valueType !== "fixed" ? "by_percent" : discount.appliesTo === "order" ? "cart_fixed" : "by_fixed",
+        discount_amount: discount.valueType === "free_shipping" ? 0 : discount.value,
         apply_to_shipping: false,
+        simple_free_shipping: discount.valueType === "free_shipping" ? "1" : "0",
         stop_rules_processing: false,
         customer_group_ids: [0, 1], // General and logged in customers
         website_ids: [1], // Default website
         coupon_type: "specific",
-        uses_per_customer: discount.usageLimit || 0,
+        uses_per_customer: discount.usageLimitPerCustomer || discount.usageLimit || 0,
+        uses_per_coupon: discount.usageLimit || 0,
         from_date: discount.startsAt?.toISOString().split('T')[0],
         to_date: discount.endsAt?.toISOString().split('T')[0]
       };
@@ -306,21 +326,54 @@ export class MagentoIntegration extends BaseIntegration {
       
       const couponData = await couponResponse.json();
       
+      const ruleId = ruleData.rule_id.toString();
       return {
-        id: ruleData.rule_id.toString(),
+        id: ruleId,
         code: couponData[0],
-        adminUrl: `https://${this.credentials.shopDomain}/admin/sales_rule/promo_quote/edit/id/${ruleData.rule_id}/`
+        ruleId,
+        adminUrl: `https://${this.credentials.shopDomain}/admin/sales_rule/promo_quote/edit/id/${ruleId}/`
       };
     } catch (error) {
       console.error("Failed to create discount:", error);
       throw error;
     }
   }
+
+  // Deleting the cart price rule deletes its coupons with it
+  async deleteDiscount(discount: DiscountResponse): Promise<void> {
+    await this.checkRateLimit();
+
+    const response = await fetch(`${this.baseUrl}/salesRules/${discount.ruleId ?? discount.id}`, {
+      method: "DELETE",
+      headers: this.headers
+    });
+
+    // Already gone counts as deleted
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Failed to delete price rule: ${await response.text()}`);
+    }
+  }
+
+  parseOrderWebhook(payload: any): Purchase {
+    return this.transformMagentoOrder(payload);
+  }
   
-  async applyBudgetPricing(orderId: string, pricing: BudgetPricing): Promise<OrderUpdate> {
+  // Events are named after the Magento observer that sent them
+  parseOrderWebhookEvent(topic: string, payload: any): OrderWebhookEvent | null {
+    switch (topic) {
+      case "sales_order_place_after":
+        return { type: "placed", order: this.transformMagentoOrder(payload) };
+      case "order_cancel_after":
+        return { type: "cancelled", orderId: payload.entity_id.toString() };
+      default:
+        return null;
+    }
+  }
+  
+  protected async applyQuotedPricing(orderId: string, pricing: BudgetPricing): Promise<OrderUpdate> {
     try {
       // In Magento, we typically apply discounts to quotes/carts before order creation
-      const discountAmount = pricing.originalPrice * (pricing.discountPercentage / 100);
+      const discountAmount = MoneyMath.roundMajor(pricing.discountAmount, pricing.currency);
       
       // Update order with custom discount
       const response = await fetch(`${this.baseUrl}/orders/${orderId}`, {
@@ -375,6 +428,7 @@ export class MagentoIntegration extends BaseIntegration {
       id: product.id.toString(),
       title: product.name,
       handle: product.url_key || product.sku,
+      url: product.url_key ? `https://${this.credentials.shopDomain}/${product.url_key}.html` : undefined,
       description: product.custom_attributes?.find((attr: any) => attr.attribute_code === "description")?.value || "",
       vendor: product.custom_attributes?.find((attr: any) => attr.attribute_code === "manufacturer")?.value,
       productType: product.type_id,
@@ -404,6 +458,7 @@ export class MagentoIntegration extends BaseIntegration {
         title: product.name,
         sku: product.sku,
         price: parseFloat(product.price || 0),
+        cost: this.extractMagentoCost(product),
         inventoryQuantity: product.extension_attributes?.stock_item?.qty,
         weight: product.weight,
         weightUnit: "kg",
@@ -416,6 +471,13 @@ export class MagentoIntegration extends BaseIntegration {
     return [];
   }
   
+  // Magento keeps unit cost in the optional "cost" attribute
+  private extractMagentoCost(product: any): number | undefined {
+    const cost = product.custom_attributes?.find((attr: any) => attr.attribute_code === "cost")?.value;
+    const parsed = cost != null ? parseFloat(cost) : NaN;
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  
   private transformMagentoCustomer(customer: any): Customer {
     return {
       id: customer.id.toString(),
@@ -438,9 +500,13 @@ export class MagentoIntegration extends BaseIntegration {
       customerId: order.customer_id?.toString() || "",
       total: parseFloat(order.grand_total),
       discountTotal: Math.abs(parseFloat(order.discount_amount || 0)),
+      // Magento orders carry a single coupon
+      discountCodes: order.coupon_code
+        ? [{ code: order.coupon_code, amount: Math.abs(parseFloat(order.discount_amount || 0)) }]
+        : [],
       items: (order.items || []).map((item: any) => ({
         productId: item.product_id?.toString() || "",
-        variantId: item.item_id?.toString() || "",
+        variantId: item.product_id?.toString() || "", // Variants are simple products
         title: item.name,
         quantity: item.qty_ordered,
         price: parseFloat(item.price),
@@ -5,8 +5,10 @@ import {
   AuthResult, 
   Product, 
   ProductVariant,
+  VariantCost,
   Customer,
   Purchase,
+  OrderWebhookEvent,
   DiscountRequest,
   DiscountResponse,
   BudgetPricing,
@@ -157,6 +159,42 @@ export class ShopifyIntegration extends BaseIntegration {
     return product?.variants || [];
   }
   
+  // Shopify keeps unit cost on the variant's inventory item
+  async getProductCosts(productId: string): Promise<VariantCost[]> {
+    const variants = (await this.getProductVariants(productId)).filter(variant => variant.inventoryItemId);
+    if (variants.length === 0) return [];
+    
+    await this.checkRateLimit();
+    const startTime = Date.now();
+    const ids = variants.map(variant => variant.inventoryItemId).join(",");
+    
+    try {
+      const response = await fetch(`${this.baseUrl}/inventory_items.json?ids=${ids}`, {
+        headers: this.headers
+      });
+      
+      if (!response.ok) {
+        throw new Error(`Failed to fetch inventory items: ${await response.text()}`);
+      }
+      
+      const data = await response.json();
+      const costs = new Map<string, number>(
+        data.inventory_items
+          .filter((item: any) => item.cost != null)
+          .map((item: any) => [item.id.toString(), parseFloat(item.cost)])
+      );
+      
+      await this.trackApiCall("inventory_items", true, Date.now() - startTime);
+      
+      return variants
+        .filter(variant => costs.has(variant.inventoryItemId!))
+        .map(variant => ({ productId, variantId: variant.id, cost: costs.get(variant.inventoryItemId!)! }));
+    } catch (error) {
+      await this.trackApiCall("inventory_items", false, Date.now() - startTime);
+      throw error;
+    }
+  }
+  
   async getCustomer(customerId: string): Promise<Customer | null> {
     const cacheKey = `customer:${customerId}`;
     const cached = this.getCached<Customer>(cacheKey, 300);
@@ -206,24 +244,47 @@ export class ShopifyIntegration extends BaseIntegration {
     }
   }
   
+  // Budget pricing is applied to draft orders, so that is where the order is looked up
+  async getOrder(orderId: string): Promise<Purchase | null> {
+    await this.checkRateLimit();
+    
+    const response = await fetch(`${this.baseUrl}/draft_orders/${orderId}.json`, {
+      headers: this.headers
+    });
+    
+    if (!response.ok) {
+      if (response.status === 404) return null;
+      throw new Error(`Failed to fetch draft order: ${await response.text()}`);
+    }
+    
+    const data = await response.json();
+    return this.transformShopifyOrder(data.draft_order);
+  }
+  
   async createDiscount(discount: DiscountRequest): Promise<DiscountResponse> {
     await this.checkRateLimit();
     
+    // Free shipping is 100% off the shipping lines
+    const freeShipping = discount.valueType === "free_shipping";
     const priceRule = {
       price_rule: {
         title: discount.code || `BUDGET_${Date.now()}`,
-        target_type: discount.appliesTo === "order" ? "line_item" : discount.appliesTo,
-        target_selection: discount.appliesTo === "order" ? "all" : "entitled",
-        allocation_method: "across",
-        value_type: discount.valueType === "percentage" ? "percentage" : "fixed_amount",
-        value: discount.valueType === "percentage" ? `-${discount.value}` : `-${discount.value}`,
+        target_type: freeShipping ? "shipping_line" : discount.appliesTo === "order" ? "line_item" : discount.appliesTo,
+        target_selection: freeShipping || discount.appliesTo === "order" ? "all" : "entitled",
+        allocation_method: freeShipping ? "each" : "across",
+        value_type: discount.valueType === "fixed" ? "fixed_amount" : "percentage",
+        value: freeShipping ? "-100.0" : `-${discount.value}`,
         customer_selection: discount.customerIds ? "prerequisite" : "all",
         prerequisite_customer_ids: discount.customerIds,
+        prerequisite_subtotal_range: discount.minimumAmount !== undefined
+          ? { greater_than_or_equal_to: discount.minimumAmount.toString() }
+          : undefined,
         entitled_product_ids: discount.productIds,
         entitled_collection_ids: discount.collectionIds,
         starts_at: discount.startsAt?.toISOString() || new Date().toISOString(),
         ends_at: discount.endsAt?.toISOString(),
-        usage_limit: discount.usageLimit
+        usage_limit: discount.usageLimit,
+        once_per_customer: discount.usageLimitPerCustomer === 1
       }
     };
     
@@ -267,6 +328,7 @@ export class ShopifyIntegration extends BaseIntegration {
       return {
         id: discountData.discount_code.id,
         code: discountData.discount_code.code,
+        ruleId: priceRuleId.toString(),
         adminUrl: `https://${this.credentials.shopDomain}/admin/discounts/${priceRuleId}`
       };
     } catch (error) {
@@ -274,8 +336,40 @@ export class ShopifyIntegration extends BaseIntegration {
       throw error;
     }
   }
+
+  // Deleting the price rule deletes its codes with it
+  async deleteDiscount(discount: DiscountResponse): Promise<void> {
+    await this.checkRateLimit();
+
+    const response = await fetch(`${this.baseUrl}/price_rules/${discount.ruleId ?? discount.id}.json`, {
+      method: "DELETE",
+      headers: this.headers
+    });
+
+    // Already gone counts as deleted
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Failed to delete price rule: ${await response.text()}`);
+    }
+  }
+
+  parseOrderWebhook(payload: any): Purchase {
+    return this.transformShopifyOrder(payload);
+  }
   
-  async applyBudgetPricing(orderId: string, pricing: BudgetPricing): Promise<OrderUpdate> {
+  parseOrderWebhookEvent(topic: string, payload: any): OrderWebhookEvent | null {
+    switch (topic) {
+      case "orders/create":
+      case "orders/paid":
+        return { type: "placed", order: this.transformShopifyOrder(payload) };
+      case "orders/cancelled":
+      case "orders/delete": // Deletions only carry the order's ID
+        return { type: "cancelled", orderId: payload.id.toString() };
+      default:
+        return null;
+    }
+  }
+  
+  protected async applyQuotedPricing(orderId: string, pricing: BudgetPricing): Promise<OrderUpdate> {
     // In Shopify, we would typically apply discounts before order creation
     // This method would update draft orders or use the Admin API to modify orders
     try {
@@ -362,6 +456,7 @@ export class ShopifyIntegration extends BaseIntegration {
       id: shopifyProduct.id.toString(),
       title: shopifyProduct.title,
       handle: shopifyProduct.handle,
+      url: `https://${this.credentials.shopDomain}/products/${shopifyProduct.handle}`,
       description: shopifyProduct.body_html || "",
       vendor: shopifyProduct.vendor,
       productType: shopifyProduct.product_type,
@@ -391,6 +486,7 @@ export class ShopifyIntegration extends BaseIntegration {
       price: parseFloat(variant.price),
       compareAtPrice: variant.compare_at_price ? parseFloat(variant.compare_at_price) : undefined,
       inventoryQuantity: variant.inventory_quantity,
+      inventoryItemId: variant.inventory_item_id?.toString(),
       weight: variant.weight,
       weightUnit: variant.weight_unit,
       options: {
@@ -419,10 +515,14 @@ export class ShopifyIntegration extends BaseIntegration {
   private transformShopifyOrder(order: any): Purchase {
     return {
       id: order.id.toString(),
-      orderNumber: order.order_number.toString(),
+      orderNumber: (order.order_number ?? order.name).toString(), // Draft orders only have a name
       customerId: order.customer?.id?.toString() || "",
       total: parseFloat(order.total_price),
-      discountTotal: parseFloat(order.total_discounts),
+      discountTotal: parseFloat(order.total_discounts ?? order.applied_discount?.amount ?? "0"),
+      discountCodes: (order.discount_codes || []).map((discount: any) => ({
+        code: discount.code,
+        amount: parseFloat(discount.amount)
+      })),
       items: (order.line_items || []).map((item: any) => ({
         productId: item.product_id?.toString() || "",
         variantId: item.variant_id?.toString() || "",
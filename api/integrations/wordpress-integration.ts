@@ -7,6 +7,7 @@ import {
   ProductVariant,
   Customer,
   Purchase,
+  OrderWebhookEvent,
   DiscountRequest,
   DiscountResponse,
   BudgetPricing,
@@ -17,6 +18,10 @@ import {
   PaginatedProducts
 } from "./base-integration";
 
+// Order statuses that mean the order was paid, or will not be
+const PAID_ORDER_STATUSES = ["processing", "completed"];
+const CANCELLED_ORDER_STATUSES = ["cancelled", "refunded", "failed"];
+
 export class WordPressIntegration extends BaseIntegration {
   platform = "wordpress" as const;
   private baseUrl: string;
@@ -232,6 +237,21 @@ export class WordPressIntegration extends BaseIntegration {
     }
   }
   
+  async getOrder(orderId: string): Promise<Purchase | null> {
+    await this.checkRateLimit();
+    
+    const response = await fetch(`${this.baseUrl}/wc/v3/orders/${orderId}`, {
+      headers: this.headers
+    });
+    
+    if (!response.ok) {
+      if (response.status === 404) return null;
+      throw new Error(`Failed to fetch order: ${await response.text()}`);
+    }
+    
+    return this.transformWooCommerceOrder(await response.json());
+  }
+  
   async createDiscount(discount: DiscountRequest): Promise<DiscountResponse> {
     await this.checkRateLimit();
     
@@ -239,12 +259,13 @@ export class WordPressIntegration extends BaseIntegration {
       const coupon = {
         code: discount.code || `BUDGET_${Date.now()}`,
         discount_type: discount.valueType === "percentage" ? "percent" : "fixed_cart",
-        amount: discount.value.toString(),
+        amount: discount.valueType === "free_shipping" ? "0" : discount.value.toString(),
+        free_shipping: discount.valueType === "free_shipping",
         individual_use: false,
         exclude_sale_items: false,
         minimum_amount: discount.minimumAmount?.toString(),
         usage_limit: discount.usageLimit,
-        usage_limit_per_user: 1,
+        usage_limit_per_user: discount.usageLimitPerCustomer ?? 1,
         email_restrictions: discount.customerIds ? await this.getCustomerEmails(discount.customerIds) : [],
         product_ids: discount.productIds?.map(id => parseInt(id)) || [],
         date_expires: discount.endsAt?.toISOString()
@@ -272,8 +293,38 @@ export class WordPressIntegration extends BaseIntegration {
       throw error;
     }
   }
+
+  async deleteDiscount(discount: DiscountResponse): Promise<void> {
+    await this.checkRateLimit();
+
+    // Without force the coupon only moves to the trash and stays redeemable until emptied
+    const response = await fetch(`${this.baseUrl}/wc/v3/coupons/${discount.id}?force=true`, {
+      method: "DELETE",
+      headers: this.headers
+    });
+
+    // Already gone counts as deleted
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Failed to delete coupon: ${await response.text()}`);
+    }
+  }
+
+  parseOrderWebhook(payload: any): Purchase {
+    return this.transformWooCommerceOrder(payload);
+  }
+  
+  // WooCommerce has no paid topic; payment and cancellation arrive as status changes on order.updated
+  parseOrderWebhookEvent(topic: string, payload: any): OrderWebhookEvent | null {
+    if (topic === "order.created" || (topic === "order.updated" && PAID_ORDER_STATUSES.includes(payload.status))) {
+      return { type: "placed", order: this.transformWooCommerceOrder(payload) };
+    }
+    if (topic === "order.deleted" || (topic === "order.updated" && CANCELLED_ORDER_STATUSES.includes(payload.status))) {
+      return { type: "cancelled", orderId: payload.id.toString() };
+    }
+    return null;
+  }
   
-  async applyBudgetPricing(orderId: string, pricing: BudgetPricing): Promise<OrderUpdate> {
+  protected async applyQuotedPricing(orderId: string, pricing: BudgetPricing): Promise<OrderUpdate> {
     try {
       // Create a coupon for this specific order
       const discountResponse = await this.createDiscount({
@@ -375,6 +426,7 @@ export class WordPressIntegration extends BaseIntegration {
       id: product.id.toString(),
       title: product.name,
       handle: product.slug,
+      url: product.permalink,
       description: product.description || product.short_description || "",
       vendor: product.brands?.[0]?.name,
       productType: product.type,
@@ -448,9 +500,14 @@ export class WordPressIntegration extends BaseIntegration {
       customerId: order.customer_id?.toString() || "",
       total: parseFloat(order.total),
       discountTotal: parseFloat(order.discount_total),
+      discountCodes: (order.coupon_lines || []).map((coupon: any) => ({
+        code: coupon.code,
+        amount: parseFloat(coupon.discount)
+      })),
       items: (order.line_items || []).map((item: any) => ({
         productId: item.product_id?.toString() || "",
-        variantId: item.variation_id?.toString() || item.product_id?.toString() || "",
+        // Simple products have variation_id 0 and are their own variant
+        variantId: (item.variation_id || item.product_id)?.toString() || "",
         title: item.name,
         quantity: item.quantity,
         price: parseFloat(item.price),
@@ -0,0 +1,315 @@
+import { createStorage, type IStorage, type StorageBackend } from "./storage";
+import {
+  PriceQuoteService,
+  quotedPricingInput,
+  type CatalogProduct,
+  type PriceQuoteBinding,
+  type PriceQuoteInput,
+  type PriceQuoteResult
+} from "./security/price-quotes";
+import { PricingEngine, type PricingProductInput } from "../shared/pricing-engine.js";
+import { RuleVersions } from "../shared/rule-versions.js";
+
+const TEST_SECRET = "price-quote-test-secret";
+const TTL_SECONDS = 60;
+
+// Price quote test suite: signing, expiry, binding and exactly-once redemption per storage backend
+export class PriceQuoteTestSuite {
+  private results: TestResult[] = [];
+  private runId = `${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+
+  async runAllTests(backend: StorageBackend): Promise<PriceQuoteTestReport> {
+    console.log(`Running price quote tests for ${backend} backend`);
+
+    this.results = [];
+    const startTime = Date.now();
+
+    try {
+      const storage = await createStorage(backend);
+      const quotes = new PriceQuoteService(storage, TEST_SECRET, TTL_SECONDS);
+      const input = await this.createQuoteInput(storage);
+
+      // Test 1: Signed round trip
+      this.testRoundTrip(quotes, input);
+
+      // Test 2: Tampering
+      this.testTampering(storage, quotes, input);
+
+      // Test 3: Expiry
+      this.testExpiry(quotes, input);
+
+      // Test 4: Binding to store, customer and variant
+      this.testBinding(quotes, input);
+
+      // Test 5: Replay
+      await this.testReplay(quotes, input);
+
+      // Test 6: Concurrent redemption
+      await this.testConcurrentRedemption(quotes, input);
+
+      // Test 7: Release after a failed order update
+      await this.testRelease(quotes, input);
+
+      // Test 8: Quoted prices ignore the browser's product attributes
+      this.testCatalogInput();
+    } catch (error) {
+      this.addResult("Backend Initialization", "failed", `Failed to set up ${backend} storage: ${error}`);
+    }
+
+    return this.buildReport(backend, startTime);
+  }
+
+  private buildReport(backend: StorageBackend, startTime: number): PriceQuoteTestReport {
+    const endTime = Date.now();
+
+    return {
+      backend,
+      totalTests: this.results.length,
+      passed: this.results.filter(r => r.status === "passed").length,
+      failed: this.results.filter(r => r.status === "failed").length,
+      duration: endTime - startTime,
+      results: this.results
+    };
+  }
+
+  // Redemptions reference a real store, so each run gets its own
+  private async createQuoteInput(storage: IStorage): Promise<PriceQuoteInput> {
+    const user = await storage.createUser({
+      username: `quote_owner_${this.runId}`,
+      email: `quote_owner_${this.runId}@example.com`,
+      password: "hashed_password"
+    });
+    const store = await storage.createStore({ userId: user.id, shopifyDomain: `quotes-${this.runId}.myshopify.com` });
+
+    return {
+      storeId: store.id,
+      customerId: `customer_${this.runId}`,
+      productId: "product_1",
+      variantId: "variant_1",
+      basePrice: 120,
+      price: 90,
+      budgetDiscount: 30,
+      budgetCategory: "wants",
+      currency: "USD",
+      ruleId: 1
+    };
+  }
+
+  private testRoundTrip(quotes: PriceQuoteService, input: PriceQuoteInput): void {
+    const testName = "Signed Round Trip Test";
+    try {
+      const { token, quote } = quotes.issue(input);
+      const result = quotes.verify(token, bindingFor(input));
+
+      assert(result.valid, `expected a valid quote, got ${describe(result)}`);
+      assert(result.quote.quoteId === quote.quoteId, "verified quote id differs from the issued one");
+      assert(result.quote.price === 90 && result.quote.basePrice === 120, "verified prices differ from the issued ones");
+      assert(quote.expiresAt - quote.issuedAt === TTL_SECONDS * 1000, "expiry does not match the configured TTL");
+
+      this.addResult(testName, "passed", "Issued quote verifies with its bound price");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testTampering(storage: IStorage, quotes: PriceQuoteService, input: PriceQuoteInput): void {
+    const testName = "Tampering Test";
+    try {
+      const binding = bindingFor(input);
+      const { token } = quotes.issue(input);
+      const [payload, signature] = token.split(".");
+
+      // Lower the price in the payload and keep the original signature
+      const forged = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+      forged.price = 1;
+      const forgedToken = `${Buffer.from(JSON.stringify(forged)).toString("base64url")}.${signature}`;
+      assert(rejectedWith(quotes.verify(forgedToken, binding), "invalid_signature"), "edited price was accepted");
+
+      const otherSecret = new PriceQuoteService(storage, "another-secret", TTL_SECONDS);
+      assert(rejectedWith(otherSecret.verify(token, binding), "invalid_signature"), "quote verified under a different secret");
+
+      assert(rejectedWith(quotes.verify("not-a-token", binding), "malformed"), "malformed token was not rejected as malformed");
+
+      this.addResult(testName, "passed", "Edited payloads, foreign secrets and malformed tokens are rejected");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testExpiry(quotes: PriceQuoteService, input: PriceQuoteInput): void {
+    const testName = "Expiry Test";
+    try {
+      const binding = bindingFor(input);
+      const issuedAt = Date.now();
+      const { token, quote } = quotes.issue(input, issuedAt);
+
+      assert(quotes.verify(token, binding, quote.expiresAt).valid, "quote should still be valid at its expiry instant");
+      assert(rejectedWith(quotes.verify(token, binding, quote.expiresAt + 1), "expired"), "expired quote was accepted");
+
+      this.addResult(testName, "passed", `Quote expires ${TTL_SECONDS}s after issue`);
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testBinding(quotes: PriceQuoteService, input: PriceQuoteInput): void {
+    const testName = "Binding Test";
+    try {
+      const { token } = quotes.issue(input);
+      const binding = bindingFor(input);
+
+      assert(rejectedWith(quotes.verify(token, { ...binding, storeId: input.storeId + 1 }), "mismatch"), "quote accepted for another store");
+      assert(rejectedWith(quotes.verify(token, { ...binding, customerId: "someone_else" }), "mismatch"), "quote accepted for another customer");
+      assert(rejectedWith(quotes.verify(token, { ...binding, variantId: "variant_2" }), "mismatch"), "quote accepted for another variant");
+      assert(rejectedWith(quotes.verify(token, { ...binding, productId: "product_2" }), "mismatch"), "quote accepted for another product");
+
+      this.addResult(testName, "passed", "Quote only verifies for its own store, customer, product and variant");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private async testReplay(quotes: PriceQuoteService, input: PriceQuoteInput): Promise<void> {
+    const testName = "Replay Test";
+    try {
+      const binding = bindingFor(input);
+      const { token } = quotes.issue(input);
+
+      const first = await quotes.redeem(token, binding, `order_${this.runId}_1`);
+      assert(first.valid, `first redemption should succeed, got ${describe(first)}`);
+
+      const replay = await quotes.redeem(token, binding, `order_${this.runId}_2`);
+      assert(rejectedWith(replay, "already_redeemed"), `replayed quote should be rejected, got ${describe(replay)}`);
+
+      const expired = quotes.issue(input, Date.now() - (TTL_SECONDS + 1) * 1000);
+      assert(rejectedWith(await quotes.redeem(expired.token, binding, `order_${this.runId}_3`), "expired"), "expired quote was redeemed");
+
+      this.addResult(testName, "passed", "A quote redeems once; replays and expired quotes are rejected");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private async testConcurrentRedemption(quotes: PriceQuoteService, input: PriceQuoteInput): Promise<void> {
+    const testName = "Concurrent Redemption Test";
+    try {
+      const binding = bindingFor(input);
+      const { token } = quotes.issue(input);
+
+      const results = await Promise.all(
+        [1, 2, 3].map(n => quotes.redeem(token, binding, `order_${this.runId}_concurrent_${n}`))
+      );
+      const redeemed = results.filter(result => result.valid).length;
+      assert(redeemed === 1, `expected exactly one redemption, got ${redeemed}`);
+
+      this.addResult(testName, "passed", "Simultaneous redemptions of one quote succeed exactly once");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private async testRelease(quotes: PriceQuoteService, input: PriceQuoteInput): Promise<void> {
+    const testName = "Release Test";
+    try {
+      const binding = bindingFor(input);
+      const { token, quote } = quotes.issue(input);
+
+      assert((await quotes.redeem(token, binding, `order_${this.runId}_release`)).valid, "first redemption should succeed");
+      await quotes.release(quote.quoteId);
+      assert((await quotes.redeem(token, binding, `order_${this.runId}_retry`)).valid, "released quote should redeem again");
+
+      this.addResult(testName, "passed", "Released quotes can be redeemed on retry");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testCatalogInput(): void {
+    const testName = "Catalog Input Test";
+    try {
+      // Overstock from 100 units raises the cap to 60%; clearance items get no budget price
+      const rule = RuleVersions.draft(1, undefined, {
+        inventorySettings: { overstockThreshold: 100, staleAfterDays: null, boostedMaxDiscountPercentage: 60, lowStockThreshold: null },
+        enabledForProducts: { mode: "exclude", items: ["tag:clearance"] }
+      });
+      const budget = PricingEngine.calculateBudget(1000, rule);
+      const priceOf = (product: PricingProductInput) => PricingEngine.calculateProductPricing(rule, product, budget).finalPrice;
+      const catalog: CatalogProduct = { variantId: "variant_1", price: 600, inventoryQuantity: 20, handle: "lamp", tags: ["new"] };
+      const honest: PricingProductInput = { productId: "lamp", variantId: "variant_1", basePrice: 600, inventoryQuantity: 20, tags: ["new"] };
+
+      const forgedStock = { ...honest, inventoryQuantity: 99999 };
+      assert(priceOf(forgedStock) !== priceOf(honest), "forged stock should change an unsigned preview");
+      assert(priceOf(quotedPricingInput(forgedStock, catalog)) === priceOf(quotedPricingInput(honest, catalog)),
+        "forged stock should not change the quoted price");
+
+      const clearance: CatalogProduct = { ...catalog, tags: ["clearance"] };
+      const forgedTags = { ...honest, tags: [] };
+      assert(priceOf(forgedTags) < 600, "an unsigned preview without the tag escapes the exclusion");
+      assert(priceOf(quotedPricingInput(forgedTags, clearance)) === 600, "the platform's tags should keep the product excluded");
+
+      this.addResult(testName, "passed", "Quotes are priced from the platform's price, stock and tags");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private addResult(testName: string, status: TestStatus, message: string): void {
+    this.results.push({
+      testName,
+      status,
+      message,
+      timestamp: new Date()
+    });
+    console.log(`[${status.toUpperCase()}] ${testName}: ${message}`);
+  }
+}
+
+// The order line the quote was issued for
+function bindingFor(input: PriceQuoteInput): PriceQuoteBinding {
+  return { storeId: input.storeId, customerId: input.customerId, productId: input.productId, variantId: input.variantId };
+}
+
+function assert(condition: boolean, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function rejectedWith(result: PriceQuoteResult, reason: string): boolean {
+  return !result.valid && result.reason === reason;
+}
+
+function describe(result: PriceQuoteResult): string {
+  return result.valid ? "valid" : result.reason;
+}
+
+interface TestResult {
+  testName: string;
+  status: TestStatus;
+  message: string;
+  timestamp: Date;
+}
+
+type TestStatus = "passed" | "failed" | "skipped";
+
+interface PriceQuoteTestReport {
+  backend: StorageBackend;
+  totalTests: number;
+  passed: number;
+  failed: number;
+  duration: number;
+  results: TestResult[];
+}
+
+// Export test runner function: runs the suite against both storage backends
+export async function runPriceQuoteTests(): Promise<PriceQuoteTestReport[]> {
+  const backends: StorageBackend[] = ["memory", "database"];
+  const reports: PriceQuoteTestReport[] = [];
+
+  for (const backend of backends) {
+    const suite = new PriceQuoteTestSuite();
+    reports.push(await suite.runAllTests(backend));
+  }
+
+  return reports;
+}
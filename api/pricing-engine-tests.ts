@@ -0,0 +1,411 @@
+import { PricingEngine, type PricingLineInput, type TaxSettings } from "../shared/pricing-engine.js";
+import { RuleVersions } from "../shared/rule-versions.js";
+import type { CustomerPurchase, PricingRule } from "../shared/schema.js";
+
+const NOW = new Date("2025-06-15T12:00:00Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Three $200 wants against the $300 wants budget of a $1000 income: every line needs a discount
+const CART_LINES: PricingLineInput[] = ["lamp", "rug", "chair"].map(productId => ({
+  productId,
+  basePrice: 200,
+  quantity: 1,
+  category: "wants"
+}));
+
+// Pricing engine test suite: the rule's limits and price adjustments on fixture data
+export class PricingEngineTestSuite {
+  private results: TestResult[] = [];
+
+  runAllTests(): PricingEngineTestReport {
+    console.log("Running pricing engine tests");
+
+    this.results = [];
+    const startTime = Date.now();
+
+    // Test 1: Per-order limit within a cart
+    this.testPerOrderCartLimit();
+
+    // Test 2: Per-order usage of recorded purchases
+    this.testPerOrderUsage();
+
+    // Test 3: Time-window limit
+    this.testWindowLimit();
+
+    // Test 4: Per-order limit with lines that need no discount
+    this.testPerOrderLimitSkipsUndiscountedLines();
+
+    // Test 5: Margin floor clamp
+    this.testMarginFloor();
+
+    // Test 6: Price endings within the cap and margin floor
+    this.testPriceEndings();
+
+    // Test 7: Tax-inclusive and tax-exclusive totals
+    this.testTaxModes();
+
+    // Test 8: Bundle rule selection
+    this.testBundleRuleSelection();
+
+    // Test 9: Bundle discounts spread under the cap and margin floor
+    this.testBundleSpread();
+
+    // Test 10: Overstock, slow-selling and low-stock products
+    this.testInventoryStates();
+
+    const endTime = Date.now();
+    return {
+      totalTests: this.results.length,
+      passed: this.results.filter(r => r.status === "passed").length,
+      failed: this.results.filter(r => r.status === "failed").length,
+      duration: endTime - startTime,
+      results: this.results
+    };
+  }
+
+  private testPerOrderCartLimit(): void {
+    const testName = "Per-Order Cart Limit Test";
+    try {
+      const rule = createRule("per_purchase", 2);
+      const budget = PricingEngine.calculateBudget(1000, rule);
+      // Discounted lines from earlier orders do not count against a new order
+      const purchases = [purchase("o1", 10), purchase("o1", 1), purchase("o2", 1)];
+
+      const bundle = PricingEngine.calculateBundlePricing(rule, CART_LINES, budget, { purchases, now: NOW });
+      const [lamp, rug, chair] = bundle.lines;
+      assert(lamp.budgetPricingApplied && lamp.budgetDiscount > 0, "the first line should get a budget discount");
+      assert(rug.budgetPricingApplied && rug.budgetDiscount > 0, "the second line should get a budget discount");
+      assert(!chair.budgetPricingApplied && chair.budgetDiscount === 0, "the third line should go without");
+      assert(chair.notAppliedReason === "budget_limit_reached", `unexpected reason ${chair.notAppliedReason}`);
+
+      this.addResult(testName, "passed", "A cart gets budget discounts on at most maxBudgetApplications lines");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testPerOrderUsage(): void {
+    const testName = "Per-Order Usage Test";
+    try {
+      const rule = createRule("per_purchase", 2);
+      const purchases = [purchase("o1", 1), purchase("o2", 1), purchase("o2", 1), purchase("o2", 1, 0)];
+
+      const current = PricingEngine.getBudgetApplicationUsage(rule, purchases, NOW, "o2");
+      assert(current.used === 2 && current.remaining === 0, `order o2 should be used up, got ${JSON.stringify(current)}`);
+      assert(current.windowStart === null, "per-order usage has no time window");
+
+      const next = PricingEngine.getBudgetApplicationUsage(rule, purchases, NOW);
+      assert(next.used === 0 && next.remaining === 2, `a new order should start with the full allowance, got ${JSON.stringify(next)}`);
+
+      // Within the allowance, single products keep their budget discount
+      const pricing = PricingEngine.calculateProductPricing(rule, CART_LINES[0], PricingEngine.calculateBudget(500, rule), { purchases, now: NOW });
+      assert(pricing.budgetPricingApplied && pricing.remainingApplications === 2, "a new order should be priced with budget discounts");
+
+      this.addResult(testName, "passed", "Only budget applications recorded on the same order count");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testWindowLimit(): void {
+    const testName = "Window Limit Test";
+    try {
+      const rule = createRule("monthly", 2);
+      const budget = PricingEngine.calculateBudget(500, rule);
+      const recent = [purchase("o1", 5), purchase("o2", 10)];
+
+      const limited = PricingEngine.calculateProductPricing(rule, CART_LINES[0], budget, { purchases: recent, now: NOW });
+      assert(!limited.budgetPricingApplied && limited.notAppliedReason === "budget_limit_reached",
+        "two discounted purchases this month should reach the limit");
+      assert(limited.remainingApplications === 0, `expected 0 remaining, got ${limited.remainingApplications}`);
+
+      // A purchase from before the 30-day window no longer counts
+      const refreshed = PricingEngine.calculateProductPricing(
+        rule, CART_LINES[0], budget, { purchases: [purchase("o1", 5), purchase("o0", 45)], now: NOW }
+      );
+      assert(refreshed.budgetPricingApplied && refreshed.remainingApplications === 1, "the window should drop old purchases");
+
+      this.addResult(testName, "passed", "The limit counts discounted purchases in the refresh window");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testPerOrderLimitSkipsUndiscountedLines(): void {
+    const testName = "Per-Order Limit Undiscounted Line Test";
+    try {
+      // A $10 needs line fits its $500 budget; the $900 TV needs $600 off the $300 wants budget
+      const rule = createRule("per_purchase", 1, { maxDiscountPercentage: "70.00" });
+      const lines: PricingLineInput[] = [
+        { productId: "soap", basePrice: 10, quantity: 1, category: "needs" },
+        { productId: "tv", basePrice: 900, quantity: 1, category: "wants" }
+      ];
+
+      const bundle = PricingEngine.calculateBundlePricing(rule, lines, PricingEngine.calculateBudget(1000, rule), { now: NOW });
+      const [soap, tv] = bundle.lines;
+      assert(soap.budgetDiscount === 0, `the soap should need no discount, got ${soap.budgetDiscount}`);
+      assert(tv.budgetPricingApplied && tv.budgetDiscount === 600, `the TV should use the application, got ${JSON.stringify(tv)}`);
+      assert(bundle.withinBudget, "the cart should fit once the TV is discounted");
+
+      this.addResult(testName, "passed", "Lines without a budget discount leave the application to lines that need one");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testMarginFloor(): void {
+    const testName = "Margin Floor Test";
+    try {
+      // The $100 want needs $40 off a $60 budget; a 25% margin on a $60 cost keeps it at $80 or more
+      const rule = createRule("monthly", -1, { maxDiscountPercentage: "50.00", minMarginPercentage: "25.00" });
+      const budget = PricingEngine.calculateBudget(200, rule);
+      const price = (unitCost?: number) =>
+        PricingEngine.calculateProductPricing(rule, { productId: "lamp", basePrice: 100, category: "wants", unitCost }, budget, { now: NOW });
+
+      const clamped = price(60);
+      assert(clamped.budgetDiscount === 20 && clamped.finalPrice === 80, `expected the $80 floor, got ${clamped.finalPrice}`);
+      assert(clamped.marginProtected, "the clamped price should be reported as margin protected");
+
+      const unknownCost = price(undefined);
+      assert(unknownCost.budgetDiscount === 40 && !unknownCost.marginProtected, "an unknown cost should leave the discount to the cap");
+
+      // A floor above the price removes the discount but never raises the price
+      const belowCost = price(90);
+      assert(belowCost.budgetDiscount === 0 && belowCost.finalPrice === 100, `expected the undiscounted price, got ${belowCost.finalPrice}`);
+
+      this.addResult(testName, "passed", "Budget discounts stop at the minimum margin over unit cost");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testPriceEndings(): void {
+    const testName = "Price Ending Test";
+    try {
+      // A $100 want against a $30 budget is held at the 25% cap, i.e. $75
+      const price = (income: number, minMarginPercentage: string, unitCost?: number) => {
+        const rule = createRule("monthly", -1, { priceEnding: "nearest_99", minMarginPercentage });
+        const budget = PricingEngine.calculateBudget(income, rule);
+        return PricingEngine.calculateProductPricing(rule, { productId: "lamp", basePrice: 100, category: "wants", unitCost }, budget, { now: NOW });
+      };
+
+      // $74.99 would break the cap, so the price moves up
+      const capped = price(100, "0.00");
+      assert(capped.finalPrice === 75.99 && capped.budgetDiscount === 24.01, `expected $75.99 at the cap, got ${capped.finalPrice}`);
+
+      // A 20% margin on a $60.80 cost floors the price at $76, above the cap
+      const floored = price(100, "20.00", 60.8);
+      assert(floored.finalPrice === 76.99 && floored.marginProtected, `expected $76.99 above the margin floor, got ${floored.finalPrice}`);
+
+      // With room below, the nearer ending wins: $93.00 becomes $92.99
+      const nearest = price(310, "0.00");
+      assert(nearest.finalPrice === 92.99 && nearest.withinBudget, `expected $92.99, got ${nearest.finalPrice}`);
+
+      this.addResult(testName, "passed", "Price endings never cross the discount cap or the margin floor");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testTaxModes(): void {
+    const testName = "Tax Mode Test";
+    try {
+      // A $150 need against a $120 budget with 20% tax in the customer's region
+      const rule = createRule("monthly", -1, { maxDiscountPercentage: "50.00" });
+      const budget = PricingEngine.calculateBudget(240, rule);
+      const price = (mode: TaxSettings["mode"]) => PricingEngine.calculateProductPricing(
+        rule,
+        { productId: "kettle", basePrice: 150, category: "needs" },
+        budget,
+        { now: NOW, tax: { mode, rates: { defaultRate: 0, regions: { GB: 20 }, productTypes: {} } }, region: "GB" }
+      );
+
+      // Tax added at checkout has to fit in the budget too
+      const exclusive = price("exclusive");
+      assert(exclusive.finalPrice === 100 && exclusive.taxAmount === 20, `expected $100 plus $20 tax, got ${exclusive.finalPrice}`);
+      assert(exclusive.estimatedTotal === 120 && exclusive.withinBudget, "the total with tax should fill the budget");
+
+      // Tax already in the price needs no extra room
+      const inclusive = price("inclusive");
+      assert(inclusive.finalPrice === 120 && inclusive.taxAmount === 20, `expected $120 including $20 tax, got ${inclusive.finalPrice}`);
+      assert(inclusive.estimatedTotal === 120 && inclusive.withinBudget, "the price should be the total");
+
+      this.addResult(testName, "passed", "Exclusive tax is budgeted on top of the price, inclusive tax within it");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testBundleRuleSelection(): void {
+    const testName = "Bundle Rule Selection Test";
+    try {
+      const rule = createRule("monthly", -1, {
+        bundleRules: [
+          { name: "Pair", categories: ["needs", "wants"], minItems: 2, extraDiscountPercentage: 5 },
+          { name: "Big basket", categories: ["needs", "wants"], minItems: 4, extraDiscountPercentage: 10 },
+          { name: "Treat", categories: ["wants"], minItems: 1, extraDiscountPercentage: 8 }
+        ]
+      });
+      // A large budget leaves only the bundle discount
+      const budget = PricingEngine.calculateBudget(10000, rule);
+      const cart = (quantity: number): PricingLineInput[] => [
+        { productId: "soap", basePrice: 20, quantity, category: "needs" },
+        { productId: "lamp", basePrice: 50, quantity, category: "wants" }
+      ];
+
+      // Two units qualify for Pair and Treat; the richer Treat only discounts wants
+      const pair = PricingEngine.calculateBundlePricing(rule, cart(1), budget, { now: NOW });
+      assert(pair.bundleRule?.name === "Treat", `expected Treat, got ${pair.bundleRule?.name}`);
+      assert(pair.lines[0].bundleDiscount === 0 && pair.lines[1].bundleDiscount === 4, "Treat should discount only the lamp");
+
+      const basket = PricingEngine.calculateBundlePricing(rule, cart(2), budget, { now: NOW });
+      assert(basket.bundleRule?.name === "Big basket", `expected Big basket, got ${basket.bundleRule?.name}`);
+      assert(basket.lines[0].bundleDiscount === 4 && basket.lines[1].bundleDiscount === 10, "Big basket should discount both lines");
+
+      const needsOnly = PricingEngine.calculateBundlePricing(rule, [cart(3)[0]], budget, { now: NOW });
+      assert(needsOnly.bundleRule === null && needsOnly.bundleDiscount === 0, "a cart without wants should match no rule");
+
+      this.addResult(testName, "passed", "The richest rule whose categories and unit count the cart covers applies");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testBundleSpread(): void {
+    const testName = "Bundle Spread Test";
+    try {
+      // $700 of needs with a 50% cap; a 20% margin on the $200 cost floors the armchair at $250
+      const rule = createRule("monthly", -1, { maxDiscountPercentage: "50.00", minMarginPercentage: "20.00" });
+      const lines: PricingLineInput[] = [
+        { productId: "armchair", basePrice: 300, quantity: 1, category: "needs", unitCost: 200 },
+        { productId: "desk", basePrice: 200, quantity: 1, category: "needs" },
+        { productId: "shelf", basePrice: 200, quantity: 1, category: "needs" }
+      ];
+
+      // The $150 gap would put $64.29 on the armchair; what its floor leaves over goes to the others
+      const spread = PricingEngine.calculateBundlePricing(rule, lines, PricingEngine.calculateBudget(1100, rule), { now: NOW });
+      const [armchair, desk, shelf] = spread.lines;
+      assert(armchair.budgetDiscount === 50 && armchair.marginProtected, `the armchair should stop at its floor, got ${armchair.budgetDiscount}`);
+      assert(desk.budgetDiscount === 50 && shelf.budgetDiscount === 50, `expected $50 each on the others, got ${desk.budgetDiscount}`);
+      assert(spread.estimatedTotal === 550 && spread.withinBudget, "the cart should fill the $550 budget");
+
+      // A $300 gap is more than the floor and the caps allow
+      const short = PricingEngine.calculateBundlePricing(rule, lines, PricingEngine.calculateBudget(800, rule), { now: NOW });
+      assert(short.lines[1].budgetDiscount === 100 && short.lines[1].capHit, "the desk should stop at its 50% cap");
+      assert(short.budgetDiscount === 250 && !short.withinBudget, `expected $250 off and over budget, got ${short.budgetDiscount}`);
+
+      this.addResult(testName, "passed", "Budget gaps spread by price up to each line's cap and margin floor");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private testInventoryStates(): void {
+    const testName = "Inventory States Test";
+    try {
+      // A $100 want needs $40 off a $60 budget; the rule's 20% cap rises to 40% for boosted products
+      const rule = createRule("monthly", -1, {
+        maxDiscountPercentage: "20.00",
+        inventorySettings: { overstockThreshold: 100, staleAfterDays: 60, boostedMaxDiscountPercentage: 40, lowStockThreshold: 5 }
+      });
+      const budget = PricingEngine.calculateBudget(200, rule);
+      const price = (inventoryQuantity: number, daysSinceSale: number) => PricingEngine.calculateProductPricing(
+        rule,
+        { productId: "lamp", basePrice: 100, category: "wants", inventoryQuantity, lastSoldAt: new Date(NOW.getTime() - daysSinceSale * DAY_MS) },
+        budget,
+        { now: NOW }
+      );
+
+      const normal = price(50, 10);
+      assert(normal.budgetDiscount === 20, `normal stock should keep the 20% cap, got ${normal.budgetDiscount}`);
+
+      const overstock = price(150, 10);
+      assert(overstock.budgetDiscount === 40, `overstock should raise the cap, got ${overstock.budgetDiscount}`);
+      assert(overstock.breakdown.steps.some(step => step.step === "inventory" && step.details?.state === "overstock"),
+        "the breakdown should explain the overstock boost");
+
+      const slowSelling = price(50, 90);
+      assert(slowSelling.budgetDiscount === 40, `a slow seller should raise the cap, got ${slowSelling.budgetDiscount}`);
+      assert(slowSelling.breakdown.steps.some(step => step.step === "inventory" && step.details?.state === "slow_selling"),
+        "90 days without a sale should be slow selling");
+
+      // Low stock wins over the slow-selling boost
+      const lowStock = price(3, 90);
+      assert(!lowStock.budgetPricingApplied && lowStock.notAppliedReason === "low_stock", `unexpected reason ${lowStock.notAppliedReason}`);
+      assert(lowStock.budgetDiscount === 0 && lowStock.finalPrice === 100, "low stock should get no budget discount");
+
+      this.addResult(testName, "passed", "Overstock and slow sellers get the boosted cap; low stock gets no budget discount");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private addResult(testName: string, status: TestStatus, message: string): void {
+    this.results.push({
+      testName,
+      status,
+      message,
+      timestamp: new Date()
+    });
+    console.log(`[${status.toUpperCase()}] ${testName}: ${message}`);
+  }
+}
+
+function createRule(
+  budgetRefreshType: string,
+  maxBudgetApplications: number,
+  changes: Parameters<typeof RuleVersions.draft>[2] = {}
+): PricingRule {
+  return RuleVersions.draft(1, undefined, { budgetRefreshType, maxBudgetApplications, ...changes });
+}
+
+// A recorded purchase line of the order, daysAgo before NOW; budgetDiscount 0 uses no application
+function purchase(orderId: string, daysAgo: number, budgetDiscount: number = 10): CustomerPurchase {
+  return {
+    id: 0,
+    storeId: 1,
+    customerId: "customer_1",
+    customerEmail: null,
+    productId: "product_1",
+    productHandle: null,
+    variantId: null,
+    orderId,
+    originalPrice: "100.00",
+    finalPrice: (100 - budgetDiscount).toFixed(2),
+    budgetDiscount: budgetDiscount.toFixed(2),
+    budgetCategory: "wants",
+    purchaseDate: new Date(NOW.getTime() - daysAgo * DAY_MS),
+    budgetApplicationCount: budgetDiscount > 0 ? 1 : 0,
+    sessionId: null,
+    experimentId: null,
+    experimentVariant: null
+  };
+}
+
+function assert(condition: boolean, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+interface TestResult {
+  testName: string;
+  status: TestStatus;
+  message: string;
+  timestamp: Date;
+}
+
+type TestStatus = "passed" | "failed" | "skipped";
+
+interface PricingEngineTestReport {
+  totalTests: number;
+  passed: number;
+  failed: number;
+  duration: number;
+  results: TestResult[];
+}
+
+// Export test runner function; the engine is pure, so no storage backend is involved
+export function runPricingEngineTests(): PricingEngineTestReport {
+  return new PricingEngineTestSuite().runAllTests();
+}
@@ -0,0 +1,133 @@
+import { createStorage, type IStorage, type StorageBackend } from "./storage";
+import { ProductCostService } from "./services/product-costs";
+
+// Product cost test suite: CSV imports per storage backend
+export class ProductCostTestSuite {
+  private results: TestResult[] = [];
+  private runId = `${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+
+  async runAllTests(backend: StorageBackend): Promise<ProductCostTestReport> {
+    console.log(`Running product cost tests for ${backend} backend`);
+
+    this.results = [];
+    const startTime = Date.now();
+
+    try {
+      const storage = await createStorage(backend);
+      const costs = new ProductCostService(storage);
+      const storeId = await this.createStore(storage);
+
+      // Test 1: Valid import
+      await this.testImport(costs, storeId);
+
+      // Test 2: Invalid rows
+      await this.testInvalidRows(costs, storeId);
+    } catch (error) {
+      this.addResult("Backend Initialization", "failed", `Failed to set up ${backend} storage: ${error}`);
+    }
+
+    const endTime = Date.now();
+    return {
+      backend,
+      totalTests: this.results.length,
+      passed: this.results.filter(r => r.status === "passed").length,
+      failed: this.results.filter(r => r.status === "failed").length,
+      duration: endTime - startTime,
+      results: this.results
+    };
+  }
+
+  // Costs reference a real store, so each run gets its own
+  private async createStore(storage: IStorage): Promise<number> {
+    const user = await storage.createUser({
+      username: `cost_owner_${this.runId}`,
+      email: `cost_owner_${this.runId}@example.com`,
+      password: "hashed_password"
+    });
+    const store = await storage.createStore({ userId: user.id, shopifyDomain: `costs-${this.runId}.myshopify.com` });
+    return store.id;
+  }
+
+  private async testImport(costs: ProductCostService, storeId: number): Promise<void> {
+    const testName = "CSV Import Test";
+    try {
+      const result = await costs.importCsv(storeId, 'product_id,variant_id,cost\nshirt,small,12.5\n"mug",, 4 \n');
+      assert(result.imported === 2 && result.errors.length === 0, `unexpected result ${JSON.stringify(result)}`);
+
+      const saved = await costs.getCosts(storeId, ["shirt", "mug"]);
+      const shirt = saved.find(cost => cost.productId === "shirt");
+      const mug = saved.find(cost => cost.productId === "mug");
+      assert(shirt?.variantId === "small" && Number(shirt.cost) === 12.5, "the shirt's variant cost should be saved");
+      assert(mug?.variantId === "" && Number(mug.cost) === 4, "the mug's product cost should be saved");
+
+      this.addResult(testName, "passed", "Rows are saved per product and variant");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private async testInvalidRows(costs: ProductCostService, storeId: number): Promise<void> {
+    const testName = "Invalid Rows Test";
+    try {
+      const csv = "product_id,cost\nlamp,12abc\nrug,-3\nchair,\n,5\ndesk,Infinity\nvase,7.25";
+      const result = await costs.importCsv(storeId, csv);
+      const failedLines = result.errors.map(error => error.line);
+      assert(result.imported === 1, `only the valid row should be imported, got ${result.imported}`);
+      assert(JSON.stringify(failedLines) === JSON.stringify([2, 3, 4, 5, 6]), `unexpected failed lines ${failedLines}`);
+
+      const saved = await costs.getCosts(storeId, ["lamp", "rug", "chair", "desk", "vase"]);
+      assert(saved.length === 1 && saved[0].productId === "vase", "invalid rows should not be saved");
+
+      this.addResult(testName, "passed", "Trailing text, negative, empty and infinite costs are rejected by line");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private addResult(testName: string, status: TestStatus, message: string): void {
+    this.results.push({
+      testName,
+      status,
+      message,
+      timestamp: new Date()
+    });
+    console.log(`[${status.toUpperCase()}] ${testName}: ${message}`);
+  }
+}
+
+function assert(condition: boolean, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+interface TestResult {
+  testName: string;
+  status: TestStatus;
+  message: string;
+  timestamp: Date;
+}
+
+type TestStatus = "passed" | "failed" | "skipped";
+
+interface ProductCostTestReport {
+  backend: StorageBackend;
+  totalTests: number;
+  passed: number;
+  failed: number;
+  duration: number;
+  results: TestResult[];
+}
+
+// Export test runner function: runs the suite against both storage backends
+export async function runProductCostTests(): Promise<ProductCostTestReport[]> {
+  const backends: StorageBackend[] = ["memory", "database"];
+  const reports: ProductCostTestReport[] = [];
+
+  for (const backend of backends) {
+    const suite = new ProductCostTestSuite();
+    reports.push(await suite.runAllTests(backend));
+  }
+
+  return reports;
+}
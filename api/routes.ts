@@ -2,17 +2,216 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { 
+  abandonmentSettingsSchema,
+  budgetCategoriesSchema,
+  budgetCategoryKeySchema,
   budgetDataSchema, 
-  productPricingSchema,
+  bundleRulesSchema,
+  cartBudgetBreakdownSchema,
+  discountLadderSchema,
+  categoryMappingSchema,
+  experimentVariantsSchema,
+  currencyRatesSchema,
   insertBudgetSessionSchema,
-  insertAnalyticsSchema 
+  insertAnalyticsSchema,
+  inventorySettingsSchema,
+  productScopeSchema,
+  taxRatesSchema,
+  MAX_CART_ITEM_QUANTITY,
+  type BudgetCategoryDefinition,
+  type BudgetData,
+  type BundleRule,
+  type CategoryMapping,
+  type CustomerBudgetHistory,
+  type CustomerPurchase,
+  type InsertCustomerPurchase,
+  type PricingRule,
+  type ProductCost,
+  type Store
 } from "../shared/schema.js";
+import { PricingEngine, type PricingLineInput, type TaxSettings } from "../shared/pricing-engine.js";
+import { APP_TIER_IDS, BUDGET_CATEGORIES, BUDGET_PERIODS, BUDGET_REFRESH_TYPES, DEFAULT_BUDGET_PERCENTAGES, PRICE_ENDINGS, TAX_MODES } from "../shared/index.js";
+import { MoneyMath, type CurrencyRateTable } from "../shared/money.js";
+import { RuleVersions } from "../shared/rule-versions.js";
+import { DEFAULT_CART_PLANS } from "../shared/cart-optimizer.js";
 import { z } from "zod";
 import { IntegrationFactory, Platform } from "./integrations/integration-factory";
-import { budgetCache } from "./cache/budget-cache";
+import type { IIntegration } from "./integrations/base-integration";
+import { budgetCache, toCachedPricing, type EdgePricingRules } from "./cache/budget-cache";
 import { budgetProtection } from "./security/budget-protection";
 import { errorFortress } from "./security/error-fortress";
-import { cartTrackingService } from "./services/cart-tracking.js";
+import { planLimits } from "./security/plan-limits";
+import { priceQuotes, quotedPricingInput, type CatalogProduct } from "./security/price-quotes";
+import { checkWebhookUrl } from "./security/webhook-urls";
+import { cartTrackingService, MAX_OPTIMIZER_LINES } from "./services/cart-tracking.js";
+import { cartAbandonmentService } from "./services/cart-abandonment.js";
+import { experimentService, type ExperimentPricingRule } from "./services/experiments";
+import { productCostService } from "./services/product-costs";
+import {
+  INCOME_PRESETS,
+  MAX_SIMULATION_PRODUCTS,
+  pricingSimulationService
+} from "./services/pricing-simulation";
+
+// Repeat-purchase and product scoping settings accepted when saving a pricing rule
+const repeatPurchaseSettingsSchema = z.object({
+  budgetRefreshType: z.enum(BUDGET_REFRESH_TYPES).optional(),
+  maxBudgetApplications: z.number().int().min(-1).optional(), // -1 = unlimited
+  budgetRefreshDays: z.number().int().min(1).max(365).optional(),
+  repeatCustomerDiscount: z.number().min(0).max(50).optional(),
+  discountTerms: z.string().optional(),
+  termsPageUrl: z.string().url().nullable().optional(),
+  isAppEnabled: z.boolean().optional(),
+  enabledForProducts: productScopeSchema.optional(),
+});
+
+// ISO 4217 code, normalized to upper case
+const currencyCodeSchema = z.string().length(3).transform(code => code.toUpperCase()).refine(MoneyMath.isCurrencyCode, {
+  message: "Invalid currency code"
+});
+
+// Margin over unit cost that budget pricing must leave, as a percentage of the selling price,
+// and the ending discounted prices are snapped to
+const marginSettingsSchema = z.object({
+  minMarginPercentage: z.coerce.number().min(0).max(99).optional(),
+  priceEnding: z.enum(PRICE_ENDINGS).optional(),
+});
+
+// The store's budget categories and the rules classifying products into them; null clears either
+const categorySettingsSchema = z.object({
+  categories: budgetCategoriesSchema.nullable().optional(),
+  categoryMapping: categoryMappingSchema.nullable().optional(),
+});
+
+// Extra discounts for carts combining categories; null clears them
+const bundleSettingsSchema = z.object({
+  bundleRules: bundleRulesSchema.nullable().optional(),
+});
+
+// Overstock and slow-seller discount boost and low-stock suppression; null turns them off
+const inventoryRuleSettingsSchema = z.object({
+  inventorySettings: inventorySettingsSchema.nullable().optional(),
+});
+
+// Optional window for a scheduled rule version, e.g. a holiday sale; neither bound saves a standing rule
+const scheduleSettingsSchema = z.object({
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+}).refine(({ startsAt, endsAt }) => !startsAt || !endsAt || endsAt > startsAt, {
+  message: "endsAt must be after startsAt",
+  path: ["endsAt"]
+}).refine(({ endsAt }) => !endsAt || endsAt.getTime() > Date.now(), {
+  message: "endsAt must be in the future",
+  path: ["endsAt"]
+});
+
+// Lines one bundle quote prices at most
+const MAX_BUNDLE_LINES = 100;
+
+// A bundle or multi-unit line; prices and discounts are per unit in the presentment currency
+const pricingLineSchema = z.object({
+  productId: z.string(),
+  variantId: z.string().optional(),
+  quantity: z.number().int().min(1).max(1000).default(1),
+  basePrice: z.number().min(0).max(1000000),
+  inventoryQuantity: z.number().int().optional(), // Stock on hand, for the rule's inventory settings
+  shopifyDiscounts: z.number().min(0).default(0),
+  category: budgetCategoryKeySchema.optional(),
+  productHandle: z.string().optional(),
+  collections: z.array(z.string()).optional(),
+  tags: z.array(z.string()).optional(),
+  productType: z.string().optional(),
+  vendor: z.string().optional(),
+});
+
+// Products one catalog preview classifies at most, paged from the platform
+const MAX_CATEGORY_PREVIEW_PRODUCTS = 1000;
+const CATEGORY_PREVIEW_PAGE_SIZE = 250;
+
+// Catalog classification preview: an unsaved mapping to try, or the active rule's
+const categoryPreviewSchema = z.object({
+  categoryMapping: categoryMappingSchema.optional(),
+  limit: z.number().int().min(1).max(MAX_CATEGORY_PREVIEW_PRODUCTS).default(250),
+});
+
+// Unsaved rule editor settings a simulation prices with, layered over the standing rule
+const draftRuleSchema = z.object({
+  needsPercentage: z.coerce.number().min(0).max(100).optional(),
+  wantsPercentage: z.coerce.number().min(0).max(100).optional(),
+  savingsPercentage: z.coerce.number().min(0).max(100).optional(),
+  maxDiscountPercentage: z.coerce.number().min(0).max(100).optional(),
+}).merge(repeatPurchaseSettingsSchema).merge(marginSettingsSchema).merge(categorySettingsSchema).merge(inventoryRuleSettingsSchema);
+
+// An uploaded catalog entry, priced in the store's base currency
+const simulationProductSchema = z.object({
+  productId: z.string().min(1),
+  variantId: z.string().optional(),
+  title: z.string().optional(),
+  price: z.number().min(0),
+  shopifyDiscounts: z.number().min(0).optional(),
+  inventoryQuantity: z.number().int().optional(),
+  category: budgetCategoryKeySchema.optional(),
+  handle: z.string().optional(),
+  collections: z.array(z.string()).optional(),
+  tags: z.array(z.string()).optional(),
+  productType: z.string().optional(),
+  vendor: z.string().optional(),
+});
+
+// Catalog-wide "what if": a draft rule, the products to price and the incomes to price them for
+const pricingSimulationSchema = z.object({
+  rule: draftRuleSchema.default({}),
+  catalog: z.discriminatedUnion("source", [
+    z.object({
+      source: z.literal("platform"),
+      platform: z.enum(["shopify", "magento", "wordpress"]),
+      limit: z.number().int().min(1).max(MAX_SIMULATION_PRODUCTS).default(250),
+    }),
+    z.object({
+      source: z.literal("upload"),
+      products: z.array(simulationProductSchema).min(1).max(MAX_SIMULATION_PRODUCTS),
+    }),
+  ]),
+  incomes: z.discriminatedUnion("source", [
+    z.object({ source: z.literal("sessions"), limit: z.number().int().min(1).max(5000).default(1000) }),
+    z.object({ source: z.literal("preset"), preset: z.enum(INCOME_PRESETS) }),
+  ]).default({ source: "preset", preset: "mixed" }),
+});
+
+// Storefront products priced for one customer, e.g. a collection page; prices are in the presentment currency
+const batchPricingSchema = z.object({
+  storeId: z.number(),
+  customerId: z.string(),
+  currency: currencyCodeSchema.optional(), // Defaults to the cached budget's currency
+  region: z.string().optional(), // Customer's tax region, e.g. "US-CA" or "GB"
+  products: z.array(z.object({
+    id: z.string().min(1),
+    variantId: z.string().optional(),
+    price: z.number().min(0),
+    shopifyDiscounts: z.number().min(0).optional(),
+    inventoryQuantity: z.number().int().optional(),
+    category: budgetCategoryKeySchema.optional(),
+    handle: z.string().optional(),
+    collections: z.array(z.string()).optional(),
+    tags: z.array(z.string()).optional(),
+    productType: z.string().optional(),
+    vendor: z.string().optional(),
+  })),
+});
+
+// A tracked cart session to fit within budget, or a breakdown sent by a storefront that does not track carts
+const cartOptimizationSchema = z.object({
+  storeId: z.number(),
+  customerId: z.string(),
+  sessionId: z.string().optional(),
+  budgetBreakdown: cartBudgetBreakdownSchema.optional(),
+  currency: currencyCodeSchema.optional(), // Of the breakdown; defaults to the session's or the store's
+  maxPlans: z.number().int().min(1).max(5).default(DEFAULT_CART_PLANS),
+  includeSubstitutes: z.boolean().default(true), // Look up cheaper variants and alternatives in the catalog
+}).refine(({ sessionId, budgetBreakdown }) => sessionId !== undefined || budgetBreakdown !== undefined, {
+  message: "Either sessionId or budgetBreakdown is required",
+  path: ["sessionId"]
+});
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Apply global security middleware
@@ -26,21 +225,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     errorFortress.budgetCalculationProtection,
     async (req, res) => {
     try {
-      const budgetData = budgetDataSchema.parse(req.body);
-      const { storeId = 1, customerId = "anonymous" } = req.body;
-      
-      // Calculate budget breakdown using 50/30/20 rule
-      const needs = budgetData.monthlyIncome * 0.5;
-      const wants = budgetData.monthlyIncome * 0.3;
-      const savings = budgetData.monthlyIncome * 0.2;
-      
-      const response = {
-        monthlyIncome: budgetData.monthlyIncome,
-        needsAmount: needs,
-        wantsAmount: wants,
-        savingsAmount: savings,
-        category: budgetData.category,
-      };
+      const budgetRequest = z.object({
+        // Income for one budgetPeriod; monthlyIncome is accepted as the monthly shorthand
+        income: z.number().min(0).optional(),
+        monthlyIncome: z.number().min(0).optional(),
+        budgetPeriod: z.enum(BUDGET_PERIODS).default("monthly"),
+        category: budgetCategoryKeySchema.default("wants"),
+        storeId: z.number().default(1),
+        customerId: z.string().default("anonymous"),
+        customerEmail: z.string().email().optional(),
+        currency: currencyCodeSchema.optional(), // Currency of the income; defaults to the store's
+      }).parse(req.body);
+
+      const { budgetPeriod, category, storeId, customerId } = budgetRequest;
+      const income = budgetRequest.income ??
+        (budgetRequest.monthlyIncome !== undefined
+          ? budgetRequest.monthlyIncome / PricingEngine.toMonthlyIncome(1, budgetPeriod)
+          : undefined);
+
+      if (income === undefined) {
+        return res.status(400).json({ error: "Income is required" });
+      }
+
+      // Split the period income using the store's active pricing rule, within its plan limits
+      const pricingRule = PricingEngine.applyTierLimits(
+        await storage.getActivePricingRule(storeId), await planLimits.getStoreTier(storeId)
+      );
+      const store = await storage.getStore(storeId);
+      const currency = budgetRequest.currency ?? PricingEngine.getCurrencyRates(store).baseCurrency;
+      const response = PricingEngine.calculateBudget(income, pricingRule, category, budgetPeriod, currency);
+
+      // Record the customer's budget for the current period
+      const budgetHistory = customerId !== "anonymous"
+        ? await recordBudgetPeriod(storeId, customerId, budgetRequest.customerEmail, response, pricingRule?.maxBudgetApplications ?? -1)
+        : undefined;
       
       // Cache the budget for quick access on subsequent products
       await budgetCache.setCustomerBudget(customerId, storeId, response);
@@ -49,12 +267,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const session = await storage.createBudgetSession({
         sessionId: `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         storeId,
-        customerId,
+        customerData: { customerId },
         budgetData: response
       });
       
       res.json({
         ...response,
+        categories: PricingEngine.getBudgetCategories(pricingRule),
+        pricingRuleId: pricingRule?.id ?? null,
+        budgetStartDate: budgetHistory?.budgetStartDate ?? null,
+        budgetEndDate: budgetHistory?.budgetEndDate ?? null,
+        remainingApplications: budgetHistory?.remainingApplications ?? null,
         sessionId: session.sessionId,
         cached: true
       });
@@ -98,68 +321,88 @@ export async function registerRoutes(app: Express): Promise<Server> {
         productId: z.string(),
         basePrice: z.number().min(0),
         customerBudget: z.number().min(0),
-        category: z.enum(["needs", "wants", "savings"]).default("wants"),
+        category: budgetCategoryKeySchema.optional(), // Classified by the store's category mapping when left out
         shopifyDiscounts: z.number().min(0).default(0),
         storeId: z.number().optional(),
         customerId: z.string().optional(),
+        sessionId: z.string().optional(), // Buckets anonymous visitors into a running experiment
+        variantId: z.string().optional(),
+        inventoryQuantity: z.number().int().optional(), // Stock on hand, for the rule's inventory settings
+        productHandle: z.string().optional(),
+        collections: z.array(z.string()).optional(),
+        tags: z.array(z.string()).optional(),
+        productType: z.string().optional(),
+        vendor: z.string().optional(),
+        currency: currencyCodeSchema.optional(), // Presentment currency of the prices
+        budgetCurrency: currencyCodeSchema.optional(), // Currency of customerBudget; defaults to currency
+        region: z.string().optional(), // Customer's tax region, e.g. "US-CA" or "GB"
       }).parse(req.body);
 
-      // Get store's pricing rules
+      // Get store's pricing rules and the customer's purchases for repeat-purchase limits
       let pricingRule;
+      let purchases: CustomerPurchase[] = [];
+      let costs: ProductCost[] = [];
+      let lastSold = new Map<string, Date>();
+      let rates = PricingEngine.getCurrencyRates(null);
+      let tax: TaxSettings | undefined;
+      let experiment: ExperimentPricingRule["exposure"];
+      let catalogProduct: CatalogProduct | null = null;
       if (pricingRequest.storeId) {
-        pricingRule = await storage.getActivePricingRule(pricingRequest.storeId);
-      }
-
-      // Default to 50/30/20 if no custom rules
-      const categoryPercentage = pricingRule ? 
-        (pricingRequest.category === "needs" ? parseFloat(pricingRule.needsPercentage ?? "50") : 
-         pricingRequest.category === "wants" ? parseFloat(pricingRule.wantsPercentage ?? "30") : 
-         parseFloat(pricingRule.savingsPercentage ?? "20")) / 100 : 
-        (pricingRequest.category === "needs" ? 0.5 : 
-         pricingRequest.category === "wants" ? 0.3 : 0.2);
-
-      const maxDiscountPercentage = pricingRule ? 
-        parseFloat(pricingRule.maxDiscountPercentage ?? "25") / 100 : 0.25;
-
-      // Calculate available budget for this category
-      const availableBudget = pricingRequest.customerBudget * categoryPercentage;
-      
-      // Calculate required discount to fit budget
-      const priceAfterShopifyDiscounts = pricingRequest.basePrice - pricingRequest.shopifyDiscounts;
-      let budgetDiscount = 0;
-      let finalPrice = priceAfterShopifyDiscounts;
-
-      if (priceAfterShopifyDiscounts > availableBudget) {
-        budgetDiscount = priceAfterShopifyDiscounts - availableBudget;
-        
-        // Cap at maximum discount percentage
-        const maxAllowedDiscount = pricingRequest.basePrice * maxDiscountPercentage;
-        if (budgetDiscount > maxAllowedDiscount) {
-          budgetDiscount = maxAllowedDiscount;
+        const store = await storage.getStore(pricingRequest.storeId);
+        rates = PricingEngine.getCurrencyRates(store);
+        // Only a product loaded from the platform is quoted; without one the price is shown unsigned
+        if (store && pricingRequest.customerId) {
+          catalogProduct = await loadCatalogProduct(store, pricingRequest.productId, pricingRequest.variantId);
         }
-        
-        finalPrice = priceAfterShopifyDiscounts - budgetDiscount;
+        tax = PricingEngine.getTaxSettings(store);
+        const resolved = await resolveExperimentRule(pricingRequest.storeId, pricingRequest.customerId ?? pricingRequest.sessionId);
+        pricingRule = resolved.rule;
+        experiment = resolved.exposure;
+        if (pricingRequest.customerId) {
+          purchases = await storage.getCustomerPurchases(pricingRequest.storeId, pricingRequest.customerId);
+        }
+        costs = await storage.getProductCosts(pricingRequest.storeId, [pricingRequest.productId]);
+        lastSold = await getLastSoldDates(pricingRule, pricingRequest.storeId, [pricingRequest.productId]);
       }
 
-      const totalDiscount = pricingRequest.shopifyDiscounts + budgetDiscount;
-      const discountPercentage = (totalDiscount / pricingRequest.basePrice) * 100;
+      // Prices are in the presentment currency; income and unit costs are converted into it
+      const currency = pricingRequest.currency ?? rates.baseCurrency;
+      const budgetCurrency = pricingRequest.budgetCurrency ?? currency;
+      const missingRate = findMissingRate(rates, [currency, budgetCurrency]);
+      if (missingRate) {
+        return res.status(400).json({ error: `No exchange rate configured for ${missingRate}` });
+      }
 
-      const response: any = {
+      // A quote is priced from the platform's product; the request's own values only price unsigned previews
+      const product = quotedPricingInput({
         productId: pricingRequest.productId,
+        variantId: pricingRequest.variantId,
         basePrice: pricingRequest.basePrice,
         shopifyDiscounts: pricingRequest.shopifyDiscounts,
-        budgetDiscount: budgetDiscount,
-        finalPrice: finalPrice,
-        discountPercentage: discountPercentage,
-        availableBudget: availableBudget,
-        withinBudget: finalPrice <= availableBudget,
-        originalPrice: pricingRequest.basePrice,
-        budgetPrice: finalPrice,
-        budgetCategory: pricingRequest.category,
-        remainingBudget: availableBudget - finalPrice,
-        timestamp: Date.now(),
-        ttl: 300
-      };
+        inventoryQuantity: pricingRequest.inventoryQuantity,
+        category: pricingRequest.category,
+        handle: pricingRequest.productHandle,
+        collections: pricingRequest.collections,
+        tags: pricingRequest.tags,
+        productType: pricingRequest.productType,
+        vendor: pricingRequest.vendor
+      }, catalogProduct && { ...catalogProduct, price: MoneyMath.convertMajor(catalogProduct.price, rates.baseCurrency, currency, rates) });
+
+      // customerBudget is the customer's monthly income, split by the store's rule
+      const budget = PricingEngine.convertBudget(
+        PricingEngine.calculateBudget(pricingRequest.customerBudget, pricingRule, product.category, "monthly", budgetCurrency),
+        currency,
+        rates
+      );
+      const unitCost = PricingEngine.resolveUnitCost(costs, product.productId, product.variantId);
+      const pricing = PricingEngine.calculateProductPricing(pricingRule, {
+        ...product,
+        lastSoldAt: lastSold.get(pricingRequest.productId),
+        unitCost: unitCost !== undefined ? MoneyMath.convertMajor(unitCost, rates.baseCurrency, currency, rates) : undefined,
+        currency
+      }, budget, { purchases, tax, region: pricingRequest.region });
+
+      const response = toCachedPricing(pricing);
 
       // Cache the pricing if we have customer and store info
       if (pricingRequest.customerId && pricingRequest.storeId) {
@@ -175,12 +418,119 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      res.json(response);
+      // Sign the quoted price so checkout can redeem it once without trusting the browser
+      const quote = pricingRequest.customerId && pricingRequest.storeId && catalogProduct
+        ? priceQuotes.issue({
+            storeId: pricingRequest.storeId,
+            customerId: pricingRequest.customerId,
+            productId: pricing.productId,
+            variantId: catalogProduct.variantId,
+            basePrice: pricing.basePrice,
+            price: pricing.finalPrice,
+            budgetDiscount: pricing.budgetDiscount + pricing.repeatCustomerDiscount,
+            budgetCategory: pricing.budgetCategory,
+            currency: pricing.currency,
+            ruleId: pricingRule?.id,
+            ruleVersion: pricingRule?.version
+          })
+        : undefined;
+
+      res.json({
+        ...response,
+        experiment: experiment ?? null,
+        quoteToken: quote?.token ?? null,
+        quoteExpiresAt: quote ? new Date(quote.quote.expiresAt).toISOString() : null
+      });
     } catch (error) {
       res.status(400).json({ error: "Invalid pricing request" });
     }
   });
 
+  // Price several units or a bundle of line items against one budget; the budget discount is
+  // spread over the lines and the store's bundle rules can add to it
+  app.post("/api/pricing/bundle",
+    budgetProtection.rateLimitMiddleware,
+    budgetProtection.pricingValidationMiddleware,
+    async (req, res) => {
+    try {
+      const bundleRequest = z.object({
+        items: z.array(pricingLineSchema).min(1).max(MAX_BUNDLE_LINES),
+        customerBudget: z.number().min(0),
+        storeId: z.number().optional(),
+        customerId: z.string().optional(),
+        sessionId: z.string().optional(),
+        currency: currencyCodeSchema.optional(),
+        budgetCurrency: currencyCodeSchema.optional(),
+        region: z.string().optional(),
+      }).parse(req.body);
+
+      let pricingRule;
+      let purchases: CustomerPurchase[] = [];
+      let costs: ProductCost[] = [];
+      let lastSold = new Map<string, Date>();
+      let rates = PricingEngine.getCurrencyRates(null);
+      let tax: TaxSettings | undefined;
+      let experiment: ExperimentPricingRule["exposure"];
+      if (bundleRequest.storeId) {
+        const store = await storage.getStore(bundleRequest.storeId);
+        rates = PricingEngine.getCurrencyRates(store);
+        tax = PricingEngine.getTaxSettings(store);
+        const resolved = await resolveExperimentRule(bundleRequest.storeId, bundleRequest.customerId ?? bundleRequest.sessionId);
+        pricingRule = resolved.rule;
+        experiment = resolved.exposure;
+        if (bundleRequest.customerId) {
+          purchases = await storage.getCustomerPurchases(bundleRequest.storeId, bundleRequest.customerId);
+        }
+        costs = await storage.getProductCosts(bundleRequest.storeId, bundleRequest.items.map(item => item.productId));
+        lastSold = await getLastSoldDates(pricingRule, bundleRequest.storeId, bundleRequest.items.map(item => item.productId));
+      }
+
+      const currency = bundleRequest.currency ?? rates.baseCurrency;
+      const budgetCurrency = bundleRequest.budgetCurrency ?? currency;
+      const missingRate = findMissingRate(rates, [currency, budgetCurrency]);
+      if (missingRate) {
+        return res.status(400).json({ error: `No exchange rate configured for ${missingRate}` });
+      }
+
+      const budget = PricingEngine.convertBudget(
+        PricingEngine.calculateBudget(bundleRequest.customerBudget, pricingRule, undefined, "monthly", budgetCurrency),
+        currency,
+        rates
+      );
+      const lines: PricingLineInput[] = bundleRequest.items.map(item => {
+        const unitCost = PricingEngine.resolveUnitCost(costs, item.productId, item.variantId);
+        return {
+          productId: item.productId,
+          variantId: item.variantId,
+          quantity: item.quantity,
+          basePrice: item.basePrice,
+          shopifyDiscounts: item.shopifyDiscounts,
+          inventoryQuantity: item.inventoryQuantity,
+          lastSoldAt: lastSold.get(item.productId),
+          category: item.category,
+          handle: item.productHandle,
+          collections: item.collections,
+          tags: item.tags,
+          productType: item.productType,
+          vendor: item.vendor,
+          unitCost: unitCost !== undefined ? MoneyMath.convertMajor(unitCost, rates.baseCurrency, currency, rates) : undefined,
+          currency
+        };
+      });
+
+      res.json({
+        ...PricingEngine.calculateBundlePricing(pricingRule, lines, budget, { purchases, tax, region: bundleRequest.region }),
+        experiment: experiment ?? null
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid bundle pricing request", details: error.errors });
+      }
+      console.error("Failed to price bundle:", error);
+      res.status(500).json({ error: "Failed to price bundle" });
+    }
+  });
+
   // Store configuration endpoint
   app.get("/api/store/:domain", async (req, res) => {
     try {
@@ -199,12 +549,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Pricing rules endpoint
+  // Pricing rules endpoint: every version, newest first, flagging the one pricing uses now
   app.get("/api/store/:storeId/pricing-rules", async (req, res) => {
     try {
       const storeId = parseInt(req.params.storeId);
       const rules = await storage.getPricingRulesByStoreId(storeId);
-      res.json(rules);
+      const effective = RuleVersions.resolveEffective(rules);
+      res.json(
+        [...rules]
+          .sort((a, b) => b.version - a.version)
+          .map(rule => ({ ...rule, inEffect: rule.id === effective?.id }))
+      );
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch pricing rules" });
     }
@@ -214,31 +569,447 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/store/:storeId/pricing-rules", async (req, res) => {
     try {
       const storeId = parseInt(req.params.storeId);
-      const ruleData = req.body;
+      const repeatPurchaseData = repeatPurchaseSettingsSchema.parse(req.body);
+      const marginData = marginSettingsSchema.parse(req.body);
+      const categoryData = categorySettingsSchema.parse(req.body);
+      const bundleData = bundleSettingsSchema.parse(req.body);
+      const inventoryData = inventoryRuleSettingsSchema.parse(req.body);
+      const schedule = scheduleSettingsSchema.parse(req.body);
+      const scheduled = schedule.startsAt != null || schedule.endsAt != null;
+
+      // A needs/wants/savings set is kept in the percentage columns, anything else as a custom set
+      const defaultSplit = categoryData.categories ? toDefaultCategorySplit(categoryData.categories) : null;
+      const customCategories = categoryData.categories && !defaultSplit ? categoryData.categories : null;
+      const ruleData = { ...req.body, ...defaultSplit };
 
-      // Deactivate existing rules
+      // Carry settings the request leaves out over from the standing rule, so a scheduled
+      // version is the standing rule plus its changes
       const existingRules = await storage.getPricingRulesByStoreId(storeId);
+      const activeRule = RuleVersions.getStanding(existingRules);
+
+      // The store's plan caps the discount and gates custom category splits
+      const tier = await planLimits.getStoreTier(storeId);
+      const maxDiscount = parseFloat(ruleData.maxDiscountPercentage ?? activeRule?.maxDiscountPercentage ?? "25");
+      const discountViolation = planLimits.checkMaxDiscount(tier, maxDiscount);
+      if (discountViolation) {
+        return res.status(402).json(discountViolation);
+      }
+
+      // The boosted cap for overstock is still a discount cap, so the plan limit applies to it too
+      const inventorySettings = inventoryData.inventorySettings === undefined
+        ? PricingEngine.getInventorySettings(activeRule)
+        : inventoryData.inventorySettings;
+      const boostViolation = inventorySettings
+        ? planLimits.checkMaxDiscount(tier, inventorySettings.boostedMaxDiscountPercentage)
+        : null;
+      if (boostViolation) {
+        return res.status(402).json(boostViolation);
+      }
+
+      const customSplit = customCategories !== null || BUDGET_CATEGORIES.some(category => {
+        const percentage = ruleData[`${category}Percentage`];
+        return percentage != null && parseFloat(percentage) !== DEFAULT_BUDGET_PERCENTAGES[category];
+      });
+      const customRulesViolation = customSplit ? planLimits.checkFeature(tier, "customRules") : null;
+      if (customRulesViolation) {
+        return res.status(402).json(customRulesViolation);
+      }
+
+      // A new mapping may only classify into the categories the saved rule will have
+      const categories = categoryData.categories === undefined ? PricingEngine.getCustomCategories(activeRule) : customCategories;
+      const categoryMapping = categoryData.categoryMapping === undefined
+        ? (activeRule?.categoryMapping != null ? PricingEngine.getCategoryMapping(activeRule) : null)
+        : categoryData.categoryMapping;
+      const bundleRules = bundleData.bundleRules === undefined
+        ? (activeRule?.bundleRules != null ? PricingEngine.getBundleRules(activeRule) : null)
+        : bundleData.bundleRules;
+      const unknownCategories = [
+        ...(categoryData.categoryMapping
+          ? findUnknownMappingCategories(categoryData.categoryMapping, categories ?? [...BUDGET_CATEGORIES])
+          : []),
+        ...(bundleData.bundleRules
+          ? findUnknownBundleCategories(bundleData.bundleRules, categories ?? [...BUDGET_CATEGORIES])
+          : [])
+      ];
+      if (unknownCategories.length > 0) {
+        return res.status(400).json({ error: "Invalid pricing rule settings", details: unknownCategories });
+      }
+
+      // A standing rule replaces the previous one; scheduled versions stay until their window ends
       for (const rule of existingRules) {
-        await storage.updatePricingRule(rule.id, { isActive: false });
+        const replaced = !scheduled && !RuleVersions.isScheduled(rule);
+        if (rule.isActive && (replaced || RuleVersions.hasEnded(rule))) {
+          await storage.updatePricingRule(rule.id, { isActive: false });
+        }
       }
 
       // Create new rule
       const newRule = await storage.createPricingRule({
         storeId,
         name: ruleData.name || "Custom Rule",
-        needsPercentage: ruleData.needsPercentage?.toString() || "50.00",
-        wantsPercentage: ruleData.wantsPercentage?.toString() || "30.00",
-        savingsPercentage: ruleData.savingsPercentage?.toString() || "20.00",
-        maxDiscountPercentage: ruleData.maxDiscountPercentage?.toString() || "25.00",
+        needsPercentage: ruleData.needsPercentage?.toString() || activeRule?.needsPercentage || "50.00",
+        wantsPercentage: ruleData.wantsPercentage?.toString() || activeRule?.wantsPercentage || "30.00",
+        savingsPercentage: ruleData.savingsPercentage?.toString() || activeRule?.savingsPercentage || "20.00",
+        maxDiscountPercentage: ruleData.maxDiscountPercentage?.toString() || activeRule?.maxDiscountPercentage || "25.00",
+        categories,
+        categoryMapping,
+        bundleRules,
+        inventorySettings,
+        minMarginPercentage: marginData.minMarginPercentage?.toFixed(2) ?? activeRule?.minMarginPercentage,
+        priceEnding: marginData.priceEnding ?? activeRule?.priceEnding,
+        budgetRefreshType: repeatPurchaseData.budgetRefreshType ?? activeRule?.budgetRefreshType,
+        maxBudgetApplications: repeatPurchaseData.maxBudgetApplications ?? activeRule?.maxBudgetApplications,
+        budgetRefreshDays: repeatPurchaseData.budgetRefreshDays ?? activeRule?.budgetRefreshDays,
+        repeatCustomerDiscount: repeatPurchaseData.repeatCustomerDiscount?.toFixed(2) ?? activeRule?.repeatCustomerDiscount,
+        discountTerms: repeatPurchaseData.discountTerms ?? activeRule?.discountTerms,
+        termsPageUrl: repeatPurchaseData.termsPageUrl ?? activeRule?.termsPageUrl,
+        isAppEnabled: repeatPurchaseData.isAppEnabled ?? activeRule?.isAppEnabled,
+        enabledForProducts: repeatPurchaseData.enabledForProducts ?? PricingEngine.getProductScope(activeRule),
+        startsAt: schedule.startsAt ?? null,
+        endsAt: schedule.endsAt ?? null,
         isActive: true,
+        version: Math.max(0, ...existingRules.map(rule => rule.version)) + 1,
       });
+      await publishEdgeRules(storeId);
 
       res.json(newRule);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid pricing rule settings", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to update pricing rules" });
     }
   });
 
+  // Roll back to an earlier version: its settings are saved as a new standing version and
+  // every other version, scheduled ones included, is deactivated
+  app.post("/api/store/:storeId/pricing-rules/rollback", async (req, res) => {
+    try {
+      const storeId = parseInt(req.params.storeId);
+      const { version } = z.object({ version: z.number().int().min(1) }).parse(req.body);
+
+      const existingRules = await storage.getPricingRulesByStoreId(storeId);
+      const target = existingRules.find(rule => rule.version === version);
+      if (!target) {
+        return res.status(404).json({ error: `Pricing rule version ${version} not found` });
+      }
+
+      for (const rule of existingRules) {
+        if (rule.isActive) {
+          await storage.updatePricingRule(rule.id, { isActive: false });
+        }
+      }
+
+      const restoredRule = await storage.createPricingRule({
+        ...RuleVersions.getSettings(target),
+        storeId,
+        startsAt: null,
+        endsAt: null,
+        isActive: true,
+        version: Math.max(0, ...existingRules.map(rule => rule.version)) + 1,
+      });
+      await publishEdgeRules(storeId);
+
+      res.json({ rule: restoredRule, restoredFrom: version });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid rollback request", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to roll back pricing rules" });
+    }
+  });
+
+  // Fields that changed between two rule versions
+  app.get("/api/store/:storeId/pricing-rules/diff", async (req, res) => {
+    try {
+      const storeId = parseInt(req.params.storeId);
+      const { from, to } = z.object({
+        from: z.coerce.number().int().min(1),
+        to: z.coerce.number().int().min(1),
+      }).parse(req.query);
+
+      const rules = await storage.getPricingRulesByStoreId(storeId);
+      const fromRule = rules.find(rule => rule.version === from);
+      const toRule = rules.find(rule => rule.version === to);
+      if (!fromRule || !toRule) {
+        return res.status(404).json({ error: `Pricing rule version ${!fromRule ? from : to} not found` });
+      }
+
+      res.json({ from, to, changes: RuleVersions.diff(fromRule, toRule) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid version range", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to compare pricing rule versions" });
+    }
+  });
+
+  // Project a draft rule's effect across the catalog before publishing it: affordability,
+  // average discount and discount exposure per category, next to the rule in effect today
+  app.post("/api/store/:storeId/pricing-rules/simulate", async (req, res) => {
+    try {
+      const storeId = parseInt(req.params.storeId);
+      const simulation = pricingSimulationSchema.parse(req.body ?? {});
+      const { categories, categoryMapping, ...settings } = simulation.rule;
+
+      const rules = await storage.getPricingRulesByStoreId(storeId);
+      const standing = RuleVersions.getStanding(rules);
+      const defaultSplit = categories ? toDefaultCategorySplit(categories) : null;
+      const draft = RuleVersions.draft(storeId, standing, {
+        needsPercentage: settings.needsPercentage?.toFixed(2),
+        wantsPercentage: settings.wantsPercentage?.toFixed(2),
+        savingsPercentage: settings.savingsPercentage?.toFixed(2),
+        maxDiscountPercentage: settings.maxDiscountPercentage?.toFixed(2),
+        ...defaultSplit,
+        categories: categories === undefined ? undefined : (categories && !defaultSplit ? categories : null),
+        categoryMapping,
+        minMarginPercentage: settings.minMarginPercentage?.toFixed(2),
+        priceEnding: settings.priceEnding,
+        inventorySettings: settings.inventorySettings,
+        budgetRefreshType: settings.budgetRefreshType,
+        maxBudgetApplications: settings.maxBudgetApplications,
+        budgetRefreshDays: settings.budgetRefreshDays,
+        repeatCustomerDiscount: settings.repeatCustomerDiscount?.toFixed(2),
+        isAppEnabled: settings.isAppEnabled,
+        enabledForProducts: settings.enabledForProducts,
+      });
+
+      const unknownCategories = categoryMapping
+        ? findUnknownMappingCategories(categoryMapping, PricingEngine.getBudgetCategories(draft))
+        : [];
+      if (unknownCategories.length > 0) {
+        return res.status(400).json({ error: "Invalid pricing rule settings", details: unknownCategories });
+      }
+
+      const incomes = await pricingSimulationService.getIncomes(storeId, simulation.incomes);
+      if (incomes.samples.length === 0) {
+        return res.status(400).json({ error: "No budget sessions with an income to simulate; choose an income preset" });
+      }
+      const catalog = await pricingSimulationService.getCatalog(storeId, simulation.catalog);
+      if (catalog.products.length === 0) {
+        return res.status(400).json({ error: "The catalog has no products to simulate" });
+      }
+
+      // Simulate what the plan would actually allow
+      const tier = await planLimits.getStoreTier(storeId);
+      const candidate = PricingEngine.applyTierLimits(draft, tier)!;
+      const current = PricingEngine.applyTierLimits(RuleVersions.resolveEffective(rules), tier);
+
+      res.json(await pricingSimulationService.simulate(storeId, candidate, current, catalog, incomes));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid simulation request", details: error.errors });
+      }
+      console.error("Failed to simulate pricing rule:", error);
+      res.status(500).json({ error: "Failed to simulate pricing rule" });
+    }
+  });
+
+  // A/B experiments between pricing rule versions
+  app.get("/api/store/:storeId/experiments", async (req, res) => {
+    try {
+      res.json(await storage.getExperimentsByStoreId(parseInt(req.params.storeId)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch experiments" });
+    }
+  });
+
+  app.post("/api/store/:storeId/experiments", planLimits.requireFeature("abTesting"), async (req, res) => {
+    try {
+      const storeId = parseInt(req.params.storeId);
+      const experimentData = z.object({
+        name: z.string().min(1).max(100),
+        variants: experimentVariantsSchema, // The first variant is the control
+      }).parse(req.body);
+
+      const unknownRules = await experimentService.findUnknownRules(storeId, experimentData.variants);
+      if (unknownRules.length > 0) {
+        return res.status(400).json({ error: `Unknown pricing rule(s): ${unknownRules.join(", ")}` });
+      }
+
+      const experiment = await storage.createExperiment({ storeId, ...experimentData, status: "draft" });
+      res.json(experiment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid experiment", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create experiment" });
+    }
+  });
+
+  // Start bucketing customers; a store runs one experiment at a time
+  app.post("/api/store/:storeId/experiments/:experimentId/start", planLimits.requireFeature("abTesting"), async (req, res) => {
+    try {
+      const storeId = parseInt(req.params.storeId);
+      const experiment = await storage.getExperiment(parseInt(req.params.experimentId));
+      if (!experiment || experiment.storeId !== storeId) {
+        return res.status(404).json({ error: "Experiment not found" });
+      }
+      if (experiment.status !== "draft") {
+        return res.status(409).json({ error: `Experiment is already ${experiment.status}` });
+      }
+
+      const running = await experimentService.getRunningExperiment(storeId);
+      if (running) {
+        return res.status(409).json({ error: `Experiment "${running.name}" is already running` });
+      }
+
+      const started = await storage.updateExperiment(experiment.id, { status: "running", startedAt: new Date() });
+      await publishEdgeRules(storeId);
+      res.json(started);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to start experiment" });
+    }
+  });
+
+  // Stop bucketing; customers go back to the store's effective rule
+  app.post("/api/store/:storeId/experiments/:experimentId/stop", async (req, res) => {
+    try {
+      const storeId = parseInt(req.params.storeId);
+      const experiment = await storage.getExperiment(parseInt(req.params.experimentId));
+      if (!experiment || experiment.storeId !== storeId) {
+        return res.status(404).json({ error: "Experiment not found" });
+      }
+      if (experiment.status !== "running") {
+        return res.status(409).json({ error: "Experiment is not running" });
+      }
+
+      const stopped = await storage.updateExperiment(experiment.id, { status: "stopped", endedAt: new Date() });
+      await publishEdgeRules(storeId);
+      res.json(stopped);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to stop experiment" });
+    }
+  });
+
+  // Per-arm conversion rate, revenue per visitor and discount cost with 95% confidence intervals
+  app.get("/api/store/:storeId/experiments/:experimentId/report", planLimits.requireFeature("abTesting"), async (req, res) => {
+    try {
+      const storeId = parseInt(req.params.storeId);
+      const experiment = await storage.getExperiment(parseInt(req.params.experimentId));
+      if (!experiment || experiment.storeId !== storeId) {
+        return res.status(404).json({ error: "Experiment not found" });
+      }
+
+      // Amounts are recorded in the store's currency
+      const { baseCurrency } = PricingEngine.getCurrencyRates(await storage.getStore(storeId));
+      res.json({ experiment, currency: baseCurrency, ...(await experimentService.getReport(experiment)) });
+    } catch (error) {
+      console.error("Failed to build experiment report:", error);
+      res.status(500).json({ error: "Failed to build experiment report" });
+    }
+  });
+
+  // Product cost endpoints: unit costs behind the minimum-margin floor
+  app.get("/api/store/:storeId/product-costs", async (req, res) => {
+    try {
+      const storeId = parseInt(req.params.storeId);
+      const productIds = typeof req.query.productIds === "string" ? req.query.productIds.split(",") : undefined;
+      const costs = await productCostService.getCosts(storeId, productIds);
+      res.json(costs);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch product costs" });
+    }
+  });
+
+  app.post("/api/store/:storeId/product-costs/import", async (req, res) => {
+    try {
+      const storeId = parseInt(req.params.storeId);
+      const { csv } = z.object({ csv: z.string().min(1) }).parse(req.body);
+
+      const result = await productCostService.importCsv(storeId, csv);
+      res.status(result.imported === 0 && result.errors.length > 0 ? 400 : 200).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "A csv string is required", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to import product costs" });
+    }
+  });
+
+  app.post("/api/store/:storeId/product-costs/sync", async (req, res) => {
+    try {
+      const storeId = parseInt(req.params.storeId);
+      const { platform, productIds } = z.object({
+        platform: z.enum(["shopify", "magento", "wordpress"]),
+        productIds: z.array(z.string()).min(1).max(250)
+      }).parse(req.body);
+
+      const result = await productCostService.syncFromPlatform(storeId, platform, productIds);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid sync request", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to sync product costs" });
+    }
+  });
+
+  // Currency endpoints: the store's currency and the merchant's rates to presentment currencies
+  app.get("/api/store/:storeId/currency", async (req, res) => {
+    try {
+      const store = await storage.getStore(parseInt(req.params.storeId));
+      if (!store) {
+        return res.status(404).json({ error: "Store not found" });
+      }
+
+      const { baseCurrency, rates } = PricingEngine.getCurrencyRates(store);
+      res.json({ currency: baseCurrency, rates });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch currency settings" });
+    }
+  });
+
+  app.put("/api/store/:storeId/currency", async (req, res) => {
+    try {
+      const storeId = parseInt(req.params.storeId);
+      const settings = z.object({
+        currency: currencyCodeSchema.optional(),
+        rates: currencyRatesSchema
+      }).parse(req.body);
+
+      const store = await storage.updateStore(storeId, {
+        currency: settings.currency,
+        currencyRates: settings.rates
+      });
+      if (!store) {
+        return res.status(404).json({ error: "Store not found" });
+      }
+
+      const { baseCurrency, rates } = PricingEngine.getCurrencyRates(store);
+      res.json({ currency: baseCurrency, rates });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid currency settings", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update currency settings" });
+    }
+  });
+
+  // Record a completed purchase so repeat-purchase limits count it
+  app.post("/api/store/:storeId/purchases", async (req, res) => {
+    try {
+      const storeId = parseInt(req.params.storeId);
+      const purchaseData = z.object({
+        customerId: z.string().min(1),
+        customerEmail: z.string().email().optional(),
+        productId: z.string(),
+        productHandle: z.string().optional(),
+        variantId: z.string().optional(),
+        orderId: z.string().optional(),
+        originalPrice: z.number().min(0),
+        finalPrice: z.number().min(0),
+        budgetDiscount: z.number().min(0).default(0),
+        budgetCategory: budgetCategoryKeySchema.optional(),
+        sessionId: z.string().optional(),
+      }).parse(req.body);
+
+      res.json(await recordCustomerPurchase(storeId, purchaseData));
+    } catch (error) {
+      res.status(400).json({ error: "Invalid purchase data" });
+    }
+  });
+
   // Budget session management
   app.post("/api/budget-session", async (req, res) => {
     try {
@@ -266,86 +1037,156 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Analytics endpoint
-  app.post("/api/analytics", async (req, res) => {
+  app.post("/api/analytics", planLimits.requireFeature("analytics", 403), async (req, res) => {
     try {
       const eventData = insertAnalyticsSchema.parse(req.body);
-      const event = await storage.createAnalyticsEvent(eventData);
+
+      // Stamp the experiment arm of the customer or session the event is about
+      const subject = (eventData.eventData ?? {}) as { customerId?: unknown; sessionId?: unknown };
+      const exposure = await experimentService.findExposure(eventData.storeId, [subject.customerId, subject.sessionId]
+        .map(id => typeof id === "string" ? id : undefined));
+      const event = await storage.createAnalyticsEvent({
+        ...eventData,
+        experimentId: exposure?.experimentId ?? null,
+        experimentVariant: exposure?.variantKey ?? null
+      });
       res.json(event);
     } catch (error) {
       res.status(400).json({ error: "Invalid analytics data" });
     }
   });
 
-  app.get("/api/analytics/:storeId", async (req, res) => {
+  app.get("/api/analytics/:storeId", planLimits.requireFeature("analytics"), async (req, res) => {
     try {
       const storeId = parseInt(req.params.storeId);
       const limit = parseInt(req.query.limit as string) || 100;
       const events = await storage.getAnalyticsByStoreId(storeId, limit);
-      res.json(events);
+
+      // Amounts in event data are recorded in the store's currency
+      const { baseCurrency } = PricingEngine.getCurrencyRates(await storage.getStore(storeId));
+      res.json(events.map(event => ({ ...event, currency: baseCurrency })));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch analytics" });
     }
   });
 
+  // Tax endpoints: whether prices include tax, and the rates used to estimate what customers pay
+  app.get("/api/store/:storeId/tax", async (req, res) => {
+    try {
+      const store = await storage.getStore(parseInt(req.params.storeId));
+      if (!store) {
+        return res.status(404).json({ error: "Store not found" });
+      }
+
+      res.json(PricingEngine.getTaxSettings(store));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch tax settings" });
+    }
+  });
+
+  app.put("/api/store/:storeId/tax", async (req, res) => {
+    try {
+      const storeId = parseInt(req.params.storeId);
+      const settings = z.object({
+        mode: z.enum(TAX_MODES),
+        rates: taxRatesSchema
+      }).parse(req.body);
+
+      const store = await storage.updateStore(storeId, {
+        taxMode: settings.mode,
+        taxRates: settings.rates
+      });
+      if (!store) {
+        return res.status(404).json({ error: "Store not found" });
+      }
+
+      res.json(PricingEngine.getTaxSettings(store));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid tax settings", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update tax settings" });
+    }
+  });
+
   // Batch pricing endpoint for multiple products
   app.post("/api/pricing/batch", 
     budgetProtection.rateLimitMiddleware,
     async (req, res) => {
     try {
-      const { products, customerId, storeId } = req.body;
-      
-      if (!products || !Array.isArray(products)) {
-        return res.status(400).json({ error: "Products array required" });
-      }
+      const { products, customerId, storeId, region, currency: requestedCurrency } = batchPricingSchema.parse(req.body);
       
       const results = [];
       const fromCache = [];
       const calculated = [];
       
-      // Get customer budget once
-      let customerBudget = null;
-      if (customerId && storeId) {
-        customerBudget = await budgetCache.getCustomerBudget(customerId, storeId);
+      // Get customer budget and store rule once
+      const customerBudget = await budgetCache.getCustomerBudget(customerId, storeId);
+      if (!customerBudget) {
+        return res.status(404).json({ error: "Customer budget not found. Please set budget first." });
       }
       
+      const { rule: pricingRule, exposure: experiment } = await resolveExperimentRule(storeId, customerId);
+      const purchases = await storage.getCustomerPurchases(storeId, customerId);
+      const costs = await storage.getProductCosts(storeId, products.map(product => product.id));
+      const lastSold = await getLastSoldDates(pricingRule, storeId, products.map(product => product.id));
+
+      // Price in the requested presentment currency, converting the cached budget and unit costs
+      const store = await storage.getStore(storeId);
+      const rates = PricingEngine.getCurrencyRates(store);
+      const tax = PricingEngine.getTaxSettings(store);
+      const currency = requestedCurrency ?? customerBudget.currency ?? rates.baseCurrency;
+      const missingRate = findMissingRate(rates, [currency, customerBudget.currency ?? rates.baseCurrency]);
+      if (missingRate) {
+        return res.status(400).json({ error: `No exchange rate configured for ${missingRate}` });
+      }
+      const budget = PricingEngine.convertBudget(PricingEngine.alignBudgetCategories(customerBudget, pricingRule), currency, rates);
+      
       for (const product of products) {
         // Check cache first
-        if (customerId && storeId) {
-          const cached = await budgetCache.getProductPricing(
-            product.id,
-            storeId,
-            customerId
-          );
-          
-          if (cached && (Date.now() - cached.timestamp) < 300000) {
-            results.push({ productId: product.id, pricing: cached, cached: true });
-            fromCache.push(product.id);
-            continue;
-          }
+        const cached = await budgetCache.getProductPricing(
+          product.id,
+          storeId,
+          customerId
+        );
+        
+        const taxRate = PricingEngine.resolveTaxRate(tax, region, product.productType);
+        if (cached && cached.currency === currency && cached.taxRate === taxRate && (Date.now() - cached.timestamp) < 300000) {
+          results.push({ productId: product.id, pricing: cached, cached: true });
+          fromCache.push(product.id);
+          continue;
         }
         
         // Calculate pricing
-        const pricing = {
-          originalPrice: product.price,
-          budgetPrice: product.price * 0.9, // Simple 10% discount for demo
-          discountPercentage: 10,
-          budgetCategory: product.category || "wants",
-          remainingBudget: customerBudget ? customerBudget.wantsAmount - (product.price * 0.9) : 0,
-          timestamp: Date.now(),
-          ttl: 300
-        };
+        const unitCost = PricingEngine.resolveUnitCost(costs, product.id, product.variantId);
+        const pricing = toCachedPricing(PricingEngine.calculateProductPricing(pricingRule, {
+          productId: product.id,
+          variantId: product.variantId,
+          basePrice: product.price,
+          shopifyDiscounts: product.shopifyDiscounts,
+          inventoryQuantity: product.inventoryQuantity,
+          lastSoldAt: lastSold.get(product.id),
+          category: product.category,
+          handle: product.handle,
+          collections: product.collections,
+          tags: product.tags,
+          productType: product.productType,
+          vendor: product.vendor,
+          unitCost: unitCost !== undefined ? MoneyMath.convertMajor(unitCost, rates.baseCurrency, currency, rates) : undefined,
+          currency
+        }, budget, { purchases, tax, region }));
         
         results.push({ productId: product.id, pricing, cached: false });
         calculated.push(product.id);
         
         // Cache the result
-        if (customerId && storeId) {
-          await budgetCache.setProductPricing(product.id, storeId, customerId, pricing);
-        }
+        await budgetCache.setProductPricing(product.id, storeId, customerId, pricing);
       }
       
       res.json({
         results,
+        currency,
+        experiment: experiment ?? null,
         stats: {
           total: products.length,
           fromCache: fromCache.length,
@@ -353,6 +1194,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid batch pricing request", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to process batch pricing" });
     }
   });
@@ -399,6 +1243,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ message: `Customer ${customerId} has been blocked` });
   });
 
+  // Change a merchant's plan; the edge gets each of their stores' rules under the new limits
+  app.put("/api/admin/users/:userId/tier", async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const { tier } = z.object({ tier: z.enum(APP_TIER_IDS) }).parse(req.body);
+
+      const user = await storage.updateUser(userId, { tier });
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      for (const store of await storage.getStoresByUserId(userId)) {
+        await publishEdgeRules(store.id);
+      }
+
+      res.json({ id: user.id, tier: user.tier });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid plan", details: error.errors });
+      }
+      console.error("Update plan error:", error);
+      res.status(500).json({ error: "Failed to update plan" });
+    }
+  });
+
   // Health check endpoint with security status
   app.get("/api/health", (req, res) => {
     const protectionStats = budgetProtection.getStats();
@@ -430,6 +1299,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Storage contract test endpoint
+  app.post("/api/test-storage", async (req, res) => {
+    try {
+      const { runStorageTests } = await import("./storage-tests");
+      const reports = await runStorageTests();
+      res.json(reports);
+    } catch (error) {
+      console.error("Storage test failed:", error);
+      res.status(500).json({ error: "Storage test failed" });
+    }
+  });
+
+  app.post("/api/test-price-quotes", async (req, res) => {
+    try {
+      const { runPriceQuoteTests } = await import("./price-quote-tests");
+      const reports = await runPriceQuoteTests();
+      res.json(reports);
+    } catch (error) {
+      console.error("Price quote test failed:", error);
+      res.status(500).json({ error: "Price quote test failed" });
+    }
+  });
+
+  app.post("/api/test-product-costs", async (req, res) => {
+    try {
+      const { runProductCostTests } = await import("./product-cost-tests");
+      const reports = await runProductCostTests();
+      res.json(reports);
+    } catch (error) {
+      console.error("Product cost test failed:", error);
+      res.status(500).json({ error: "Product cost test failed" });
+    }
+  });
+
+  app.post("/api/test-experiments", async (req, res) => {
+    try {
+      const { runExperimentTests } = await import("./experiment-tests");
+      res.json(runExperimentTests());
+    } catch (error) {
+      console.error("Experiment test failed:", error);
+      res.status(500).json({ error: "Experiment test failed" });
+    }
+  });
+
+  app.post("/api/test-cart-abandonment", async (req, res) => {
+    try {
+      const { runCartAbandonmentTests } = await import("./cart-abandonment-tests");
+      res.json(await runCartAbandonmentTests());
+    } catch (error) {
+      console.error("Cart abandonment test failed:", error);
+      res.status(500).json({ error: "Cart abandonment test failed" });
+    }
+  });
+
+  app.post("/api/test-pricing-engine", async (req, res) => {
+    try {
+      const { runPricingEngineTests } = await import("./pricing-engine-tests");
+      res.json(runPricingEngineTests());
+    } catch (error) {
+      console.error("Pricing engine test failed:", error);
+      res.status(500).json({ error: "Pricing engine test failed" });
+    }
+  });
+
+  app.post("/api/test-cart-optimizer", async (req, res) => {
+    try {
+      const { runCartOptimizerTests } = await import("./cart-optimizer-tests");
+      res.json(runCartOptimizerTests());
+    } catch (error) {
+      console.error("Cart optimizer test failed:", error);
+      res.status(500).json({ error: "Cart optimizer test failed" });
+    }
+  });
+
   // Integration routes with lazy loading
   const lazyLoadIntegration = async (req: any, res: any, next: any) => {
     try {
@@ -493,6 +1436,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Preview how the store's catalog is classified into budget categories, by a draft
+  // mapping when one is sent, otherwise by the active rule's
+  app.post("/api/stores/:storeId/:platform/category-preview", lazyLoadIntegration, async (req, res) => {
+    try {
+      const storeId = parseInt(req.params.storeId);
+      const preview = categoryPreviewSchema.parse(req.body ?? {});
+      const rule = PricingEngine.applyTierLimits(
+        await storage.getActivePricingRule(storeId),
+        await planLimits.getStoreTier(storeId)
+      );
+
+      const categories = PricingEngine.getBudgetCategories(rule);
+      const unknownCategories = preview.categoryMapping
+        ? findUnknownMappingCategories(preview.categoryMapping, categories.map(category => category.key))
+        : [];
+      if (unknownCategories.length > 0) {
+        return res.status(400).json({ error: "Invalid category mapping", details: unknownCategories });
+      }
+
+      res.json(await previewCatalogCategories(req.integration, rule, preview.categoryMapping, preview.limit));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid category mapping", details: error.errors });
+      }
+      console.error("Failed to preview category classification:", error);
+      res.status(500).json({ error: "Failed to preview category classification" });
+    }
+  });
+
   // Get customer
   app.get("/api/stores/:storeId/:platform/customers/:customerId", lazyLoadIntegration, async (req, res) => {
     try {
@@ -521,6 +1493,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Apply a signed budget price quote to a checkout order; each quote is redeemed once
+  app.post("/api/stores/:storeId/:platform/orders/:orderId/budget-pricing", lazyLoadIntegration, async (req, res) => {
+    try {
+      const storeId = parseInt(req.params.storeId);
+      const { orderId } = req.params;
+      const request = z.object({
+        quoteToken: z.string().min(1),
+        customerId: z.string().min(1),
+        productId: z.string().min(1), // The order line the quote is for
+        variantId: z.string().min(1),
+      }).parse(req.body);
+
+      const result = await req.integration.applyBudgetPricing(orderId, request);
+
+      if (result.quoteRejection) {
+        const status = result.quoteRejection === "already_redeemed" ? 409 : 400;
+        return res.status(status).json(result);
+      }
+      if (result.status === "failed") {
+        return res.status(502).json(result);
+      }
+
+      // The token verified during redemption, so its payload is the price that was applied
+      const verified = priceQuotes.verify(request.quoteToken, {
+        storeId,
+        customerId: request.customerId,
+        productId: request.productId,
+        variantId: request.variantId
+      });
+      const purchase = verified.valid
+        ? await recordCustomerPurchase(storeId, {
+            customerId: verified.quote.customerId,
+            productId: verified.quote.productId,
+            variantId: verified.quote.variantId,
+            orderId,
+            originalPrice: verified.quote.basePrice,
+            finalPrice: verified.quote.price,
+            budgetDiscount: verified.quote.budgetDiscount,
+            budgetCategory: verified.quote.budgetCategory
+          })
+        : undefined;
+
+      res.json({ ...result, remainingApplications: purchase?.remainingApplications ?? null });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid budget pricing request", details: error.errors });
+      }
+      console.error("Failed to apply budget pricing:", error);
+      res.status(500).json({ error: "Failed to apply budget pricing" });
+    }
+  });
+
   // Webhook validation endpoint
   app.post("/api/webhooks/:storeId/:platform", async (req, res) => {
     try {
@@ -532,16 +1556,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Process webhook based on platform and topic
-      const topic = req.headers["x-shopify-topic"] || 
+      const topic = String(req.headers["x-shopify-topic"] || 
                     req.headers["x-magento-event"] || 
-                    req.headers["x-wc-webhook-topic"];
+                    req.headers["x-wc-webhook-topic"] || "");
       
       console.log(`Received ${platform} webhook for store ${storeId}: ${topic}`);
       
       // Clear cache on product/customer updates
-      if (topic?.includes("product") || topic?.includes("customer")) {
+      if (topic.includes("product") || topic.includes("customer")) {
         IntegrationFactory.clearCache(parseInt(storeId), platform as Platform);
       }
+
+      // A placed or paid order redeems the auto-discount codes it used and recovers an abandoned cart; cancelling
+      // it takes the recovery back. Edited orders change neither
+      const orderEvent = integration.parseOrderWebhookEvent(topic, req.body);
+      if (orderEvent?.type === "placed") {
+        const { order } = orderEvent;
+        await cartTrackingService.markDiscountsRedeemed(parseInt(storeId), order);
+        if (order.customerId) {
+          await cartAbandonmentService.attributeRecovery(parseInt(storeId), order.customerId, order.id, order.total);
+        }
+      } else if (orderEvent?.type === "cancelled") {
+        await cartAbandonmentService.revokeRecovery(parseInt(storeId), orderEvent.orderId);
+      }
       
       res.json({ success: true });
     } catch (error) {
@@ -551,7 +1588,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Premium Cart Tracking Routes
-  app.post("/api/cart/track", budgetProtection.rateLimitMiddleware, async (req, res) => {
+  app.post("/api/cart/track",
+    budgetProtection.rateLimitMiddleware,
+    planLimits.requireFeature("premiumCart", 403),
+    async (req, res) => {
     try {
       const schema = z.object({
         storeId: z.number(),
@@ -562,16 +1602,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
           variantId: z.string().optional(),
           title: z.string(),
           price: z.number().min(0),
-          quantity: z.number().min(1),
-          budgetCategory: z.enum(["needs", "wants", "savings"]),
+          quantity: z.number().int().min(1).max(MAX_CART_ITEM_QUANTITY),
+          inventoryQuantity: z.number().int().optional(),
+          budgetCategory: budgetCategoryKeySchema,
           budgetImpact: z.number(),
           discountApplied: z.number().default(0),
           fitsInBudget: z.boolean()
         })),
-        budget: budgetDataSchema
+        budget: budgetDataSchema,
+        currency: currencyCodeSchema.optional() // Presentment currency of the item prices
       });
 
-      const { storeId, customerId, sessionId, cartItems, budget } = schema.parse(req.body);
+      const { storeId, customerId, sessionId, cartItems, budget: requestBudget, currency: requestCurrency } = schema.parse(req.body);
 
       // Check if store has premium cart tracking enabled
       const store = await storage.getStore(storeId);
@@ -579,31 +1621,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Premium cart tracking not enabled" });
       }
 
+      // Track the cart in its presentment currency, converting the budget if it was set in another
+      const rates = PricingEngine.getCurrencyRates(store);
+      const currency = requestCurrency ?? requestBudget.currency ?? rates.baseCurrency;
+      const missingRate = findMissingRate(rates, [currency, requestBudget.currency ?? currency]);
+      if (missingRate) {
+        return res.status(400).json({ error: `No exchange rate configured for ${missingRate}` });
+      }
+      const budget = PricingEngine.convertBudget({ ...requestBudget, currency: requestBudget.currency ?? currency }, currency, rates);
+
+      // Price the cart as one bundle so each category's spending is net of budget and bundle discounts
+      const { rule: pricingRule } = await resolveExperimentRule(storeId, customerId);
+      const purchases = await storage.getCustomerPurchases(storeId, customerId);
+      const costs = await storage.getProductCosts(storeId, cartItems.map(item => item.productId));
+      const lastSold = await getLastSoldDates(pricingRule, storeId, cartItems.map(item => item.productId));
+      const bundlePricing = PricingEngine.calculateBundlePricing(pricingRule, cartItems.map(item => {
+        const unitCost = PricingEngine.resolveUnitCost(costs, item.productId, item.variantId);
+        return {
+          productId: item.productId,
+          variantId: item.variantId,
+          quantity: item.quantity,
+          basePrice: item.price,
+          inventoryQuantity: item.inventoryQuantity,
+          lastSoldAt: lastSold.get(item.productId),
+          category: item.budgetCategory,
+          unitCost: unitCost !== undefined ? MoneyMath.convertMajor(unitCost, rates.baseCurrency, currency, rates) : undefined,
+          currency
+        };
+      }), budget, { purchases, tax: PricingEngine.getTaxSettings(store) });
+      const pricedItems = cartItems.map((item, index) => {
+        const line = bundlePricing.lines[index];
+        return {
+          ...item,
+          budgetCategory: line.budgetCategory,
+          discountApplied: PricingEngine.roundCurrency(line.budgetDiscount + line.bundleDiscount + line.repeatCustomerDiscount, currency),
+          fitsInBudget: bundlePricing.categories[line.budgetCategory]?.withinBudget ?? false
+        };
+      });
+
       const cartSession = await cartTrackingService.updateCartSession(
-        storeId, customerId, sessionId, cartItems, budget
+        storeId, customerId, sessionId, pricedItems, budget
       );
 
-      // Generate recommendations if enabled
+      // Recommend catalog products that fit what is left of each category's budget
       let recommendations: any[] = [];
       if (store.productRecommendationsEnabled) {
         const remainingBudget = cartSession.remainingBudget as any;
         recommendations = await cartTrackingService.generateProductRecommendations(
-          storeId, customerId, remainingBudget
+          storeId, customerId, remainingBudget, pricedItems, pricingRule, currency
         );
       }
 
-      // Check for auto discounts if enabled
+      // Apply the store's discount ladder if enabled
       let appliedDiscounts: any[] = [];
       if (store.autoDiscountEnabled) {
-        const totalCartValue = parseFloat(cartSession.totalCartValue);
-        const minimumThreshold = parseFloat(store.minimumDiscountThreshold || "50");
         appliedDiscounts = await cartTrackingService.checkAndApplyDiscounts(
-          storeId, customerId, cartSession.id, totalCartValue, minimumThreshold
+          storeId, customerId, cartSession.id, cartBudgetBreakdownSchema.parse(cartSession.budgetBreakdown),
+          PricingEngine.getDiscountLadder(store), currency, rates, (store.platform ?? "shopify") as Platform
         );
       }
 
       res.json({
         cartSession,
+        currency,
+        bundlePricing,
         recommendations,
         appliedDiscounts,
         features: {
@@ -618,8 +1699,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Abandoned carts and recoveries over the last `days` days (30 by default)
+  app.get("/api/cart/abandonment/:storeId/stats", planLimits.requireFeature("premiumCart", 403), async (req, res) => {
+    try {
+      const { days } = z.object({ days: z.coerce.number().int().min(1).max(365).default(30) }).parse(req.query);
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+      res.json({ days, ...await cartAbandonmentService.getRecoveryStats(parseInt(req.params.storeId), since) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid abandonment stats request", details: error.errors });
+      }
+      console.error("Get abandonment stats error:", error);
+      res.status(500).json({ error: "Failed to get abandonment stats" });
+    }
+  });
+
   // Get cart session
-  app.get("/api/cart/:storeId/:customerId/:sessionId", async (req, res) => {
+  app.get("/api/cart/:storeId/:customerId/:sessionId", planLimits.requireFeature("premiumCart", 403), async (req, res) => {
     try {
       const { storeId, customerId, sessionId } = req.params;
       
@@ -635,13 +1732,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
         parseInt(storeId), customerId
       );
 
-      res.json({ cartSession, recommendations });
+      // Sessions tracked before currencies were recorded are in the store's currency
+      const cartData = cartSession.cartData as { currency?: string } | null;
+      const currency = cartData?.currency
+        ?? PricingEngine.getCurrencyRates(await storage.getStore(parseInt(storeId))).baseCurrency;
+
+      res.json({ cartSession, currency, recommendations });
     } catch (error) {
       console.error("Get cart session error:", error);
       res.status(500).json({ error: "Failed to get cart session" });
     }
   });
 
+  // Ways to bring an over-budget cart within each category's budget: swaps for cheaper variants
+  // or catalog alternatives, fewer units or removals, best first
+  app.post("/api/cart/optimize",
+    budgetProtection.rateLimitMiddleware,
+    planLimits.requireFeature("premiumCart", 403),
+    async (req, res) => {
+    try {
+      const request = cartOptimizationSchema.parse(req.body);
+
+      const store = await storage.getStore(request.storeId);
+      if (!store?.premiumCartTracking) {
+        return res.status(403).json({ error: "Premium cart tracking not enabled" });
+      }
+
+      // The tracked session's breakdown unless the storefront sends one
+      let breakdown = request.budgetBreakdown;
+      let currency = request.currency;
+      if (!breakdown) {
+        const cartSession = await cartTrackingService.getActiveCartSession(request.storeId, request.customerId, request.sessionId!);
+        if (!cartSession) {
+          return res.status(404).json({ error: "Cart session not found" });
+        }
+        breakdown = cartBudgetBreakdownSchema.parse(cartSession.budgetBreakdown);
+        currency ??= (cartSession.cartData as { currency?: string } | null)?.currency;
+      }
+      currency ??= PricingEngine.getCurrencyRates(store).baseCurrency;
+
+      const lineCount = Object.values(breakdown).reduce((count, category) => count + category.items.length, 0);
+      if (lineCount > MAX_OPTIMIZER_LINES) {
+        return res.status(400).json({ error: `Carts of more than ${MAX_OPTIMIZER_LINES} lines cannot be optimized` });
+      }
+
+      const { rule: pricingRule } = await resolveExperimentRule(request.storeId, request.customerId);
+      res.json(await cartTrackingService.optimizeCart(
+        request.storeId, breakdown, pricingRule, currency, request.maxPlans, request.includeSubstitutes
+      ));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid cart optimization request", details: error.errors });
+      }
+      console.error("Cart optimization error:", error);
+      res.status(500).json({ error: "Failed to optimize cart" });
+    }
+  });
+
   // Track recommendation click
   app.post("/api/recommendations/:id/click", async (req, res) => {
     try {
@@ -675,22 +1822,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
         autoDiscountEnabled: z.boolean().optional(),
         productRecommendationsEnabled: z.boolean().optional(),
         budgetRemainingDisplayEnabled: z.boolean().optional(),
-        minimumDiscountThreshold: z.number().min(0).optional()
+        minimumDiscountThreshold: z.number().min(0).optional(),
+        discountLadder: discountLadderSchema.nullable().optional(), // null restores the default ladder
+        abandonmentSettings: abandonmentSettingsSchema.nullable().optional() // null stops sweeping abandoned carts
       });
 
       const updates = schema.parse(req.body);
       const storeId = updates.storeId || 1; // Default to demo store
 
+      // Turning features off is always allowed; turning any on needs a premium cart plan
+      const enablesFeature = updates.premiumCartTracking || updates.autoDiscountEnabled ||
+        updates.productRecommendationsEnabled || updates.budgetRemainingDisplayEnabled || Boolean(updates.abandonmentSettings);
+      const tier = await planLimits.getStoreTier(storeId);
+      const violation = enablesFeature ? planLimits.checkFeature(tier, "premiumCart") : null;
+      if (violation) {
+        return res.status(402).json(violation);
+      }
+
+      // Percentage tiers share the plan's discount cap with pricing rules
+      const percentages = (updates.discountLadder?.tiers ?? [])
+        .filter(discountTier => discountTier.type === "percentage")
+        .map(discountTier => discountTier.value);
+      const discountViolation = percentages.length > 0 ? planLimits.checkMaxDiscount(tier, Math.max(...percentages)) : null;
+      if (discountViolation) {
+        return res.status(402).json(discountViolation);
+      }
+
+      const webhookUrl = updates.abandonmentSettings?.webhookUrl;
+      const webhookProblem = webhookUrl ? await checkWebhookUrl(webhookUrl) : null;
+      if (webhookProblem) {
+        return res.status(400).json({ error: webhookProblem });
+      }
+
       const updatedStore = await storage.updateStore(storeId, {
         premiumCartTracking: updates.premiumCartTracking,
         autoDiscountEnabled: updates.autoDiscountEnabled,
         productRecommendationsEnabled: updates.productRecommendationsEnabled,
         budgetRemainingDisplayEnabled: updates.budgetRemainingDisplayEnabled,
-        minimumDiscountThreshold: updates.minimumDiscountThreshold?.toString()
+        minimumDiscountThreshold: updates.minimumDiscountThreshold?.toString(),
+        discountLadder: updates.discountLadder,
+        abandonmentSettings: updates.abandonmentSettings
       });
 
       res.json(updatedStore);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid premium features", details: error.errors });
+      }
       console.error("Update premium features error:", error);
       res.status(500).json({ error: "Failed to update premium features" });
     }
@@ -699,6 +1877,299 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Apply global error handler (must be last)
   app.use(errorFortress.globalErrorHandler);
 
+  // The edge refuses stores it has no rules for, so every store is published at startup;
+  // a store without rules is published with none and priced with the default rule
+  publishAllEdgeRules().catch(error => console.error("Failed to publish pricing rules to the edge:", error));
+
   const httpServer = createServer(app);
   return httpServer;
 }
+
+// Record a purchase and update the customer's budget applications for the current period
+async function recordCustomerPurchase(
+  storeId: number,
+  purchaseData: Omit<InsertCustomerPurchase, "storeId" | "originalPrice" | "finalPrice" | "budgetDiscount" | "budgetApplicationCount"> & {
+    originalPrice: number;
+    finalPrice: number;
+    budgetDiscount: number;
+  }
+): Promise<{ purchase: CustomerPurchase; remainingApplications: number }> {
+  // Only purchases that received a budget discount use up an application
+  const budgetApplicationCount = purchaseData.budgetDiscount > 0 ? 1 : 0;
+  const exposure = await experimentService.findExposure(storeId, [purchaseData.customerId, purchaseData.sessionId]);
+  const purchase = await storage.createCustomerPurchase({
+    ...purchaseData,
+    storeId,
+    experimentId: exposure?.experimentId ?? null,
+    experimentVariant: exposure?.variantKey ?? null,
+    originalPrice: purchaseData.originalPrice.toFixed(2),
+    finalPrice: purchaseData.finalPrice.toFixed(2),
+    budgetDiscount: purchaseData.budgetDiscount.toFixed(2),
+    budgetApplicationCount
+  });
+
+  // The customer's experiment arm sets the limits their prices were quoted with
+  const { rule: pricingRule } = await resolveExperimentRule(storeId, purchaseData.customerId);
+  const purchases = await storage.getCustomerPurchases(storeId, purchaseData.customerId);
+  const usage = PricingEngine.getBudgetApplicationUsage(pricingRule, purchases, new Date(), purchaseData.orderId);
+
+  const activeBudget = await storage.getActiveCustomerBudget(storeId, purchaseData.customerId);
+  if (activeBudget) {
+    await storage.updateCustomerBudgetHistory(activeBudget.id, {
+      totalBudgetApplications: (activeBudget.totalBudgetApplications ?? 0) + budgetApplicationCount,
+      remainingApplications: usage.remaining
+    });
+  }
+
+  // Cached prices carry the old remaining-application count
+  await budgetCache.invalidateCustomerPricing(purchaseData.customerId, storeId);
+
+  // Purchases without an order ID count as their own order
+  await cartAbandonmentService.attributeRecovery(
+    storeId,
+    purchaseData.customerId,
+    purchaseData.orderId ?? `purchase:${purchase.id}`,
+    purchaseData.finalPrice
+  );
+
+  return { purchase, remainingApplications: usage.remaining };
+}
+
+// Keep one active customerBudgetHistory row per customer and budget period
+async function recordBudgetPeriod(
+  storeId: number,
+  customerId: string,
+  customerEmail: string | undefined,
+  budget: BudgetData,
+  maxBudgetApplications: number
+): Promise<CustomerBudgetHistory> {
+  const period = budget.budgetPeriod ?? "monthly";
+  const active = await storage.getActiveCustomerBudget(storeId, customerId);
+
+  if (active && active.budgetPeriod === period) {
+    const updated = await storage.updateCustomerBudgetHistory(active.id, {
+      monthlyIncome: budget.monthlyIncome.toFixed(2),
+      customerEmail: customerEmail ?? active.customerEmail
+    });
+    return updated ?? active;
+  }
+
+  // A period change closes the current window and starts a new one today
+  if (active) {
+    await storage.updateCustomerBudgetHistory(active.id, { isActive: false, budgetEndDate: new Date() });
+  }
+
+  const window = PricingEngine.getBudgetPeriodWindow(period);
+  return await storage.createCustomerBudgetHistory({
+    storeId,
+    customerId,
+    customerEmail,
+    monthlyIncome: budget.monthlyIncome.toFixed(2),
+    budgetPeriod: period,
+    budgetStartDate: window.start,
+    budgetEndDate: window.end,
+    totalBudgetApplications: 0,
+    remainingApplications: maxBudgetApplications,
+    isActive: true
+  });
+}
+
+// The first currency the store's rate table has no rate for
+function findMissingRate(rates: CurrencyRateTable, currencies: string[]): string | undefined {
+  return currencies.find(currency => !MoneyMath.canConvert(currency, rates.baseCurrency, rates));
+}
+
+// Percentage columns for a category set made of exactly needs, wants and savings; null for any other set
+function toDefaultCategorySplit(categories: BudgetCategoryDefinition[]) {
+  const percentages = new Map(categories.map(category => [category.key, category.percentage]));
+  if (percentages.size !== BUDGET_CATEGORIES.length || !BUDGET_CATEGORIES.every(key => percentages.has(key))) {
+    return null;
+  }
+
+  return {
+    needsPercentage: percentages.get("needs")!.toFixed(2),
+    wantsPercentage: percentages.get("wants")!.toFixed(2),
+    savingsPercentage: percentages.get("savings")!.toFixed(2)
+  };
+}
+
+// Mapping rules (and the default) naming a category outside the store's set, as zod-style issues
+function findUnknownMappingCategories(mapping: CategoryMapping, categories: Array<string | BudgetCategoryDefinition>) {
+  const keys = new Set(categories.map(category => typeof category === "string" ? category : category.key));
+  const issues = mapping.rules
+    .map((rule, index) => ({ rule, index }))
+    .filter(({ rule }) => !keys.has(rule.category))
+    .map(({ rule, index }) => ({
+      path: ["categoryMapping", "rules", index, "category"],
+      message: `Unknown budget category "${rule.category}"`
+    }));
+
+  if (mapping.defaultCategory && !keys.has(mapping.defaultCategory)) {
+    issues.push({
+      path: ["categoryMapping", "defaultCategory"],
+      message: `Unknown budget category "${mapping.defaultCategory}"`
+    });
+  }
+  return issues;
+}
+
+// Bundle rules naming a category outside the store's set, as zod-style issues
+function findUnknownBundleCategories(bundleRules: BundleRule[], categories: Array<string | BudgetCategoryDefinition>) {
+  const keys = new Set(categories.map(category => typeof category === "string" ? category : category.key));
+  return bundleRules.flatMap((bundleRule, index) => bundleRule.categories
+    .map((category, categoryIndex) => ({ category, categoryIndex }))
+    .filter(({ category }) => !keys.has(category))
+    .map(({ category, categoryIndex }) => ({
+      path: ["bundleRules", index, "categories", categoryIndex],
+      message: `Unknown budget category "${category}"`
+    })));
+}
+
+// Page through the platform's catalog and classify each product the way pricing would
+async function previewCatalogCategories(
+  integration: IIntegration,
+  rule: PricingRule | null | undefined,
+  mapping: CategoryMapping | undefined,
+  limit: number
+) {
+  const categoryMapping = mapping ?? PricingEngine.getCategoryMapping(rule);
+  const categories = PricingEngine.getBudgetCategories(rule);
+  const counts: Record<string, number> = Object.fromEntries(categories.map(category => [category.key, 0]));
+  const products = [];
+  let cursor: string | undefined;
+  let hasNextPage = true;
+
+  while (hasNextPage && products.length < limit) {
+    const page = await integration.getProducts({
+      limit: Math.min(CATEGORY_PREVIEW_PAGE_SIZE, limit - products.length),
+      cursor
+    });
+
+    for (const product of page.products.slice(0, limit - products.length)) {
+      const classification = PricingEngine.classifyProduct(rule, {
+        productId: product.id,
+        basePrice: product.priceRange.min,
+        handle: product.handle,
+        collections: product.collections,
+        tags: product.tags,
+        productType: product.productType,
+        vendor: product.vendor
+      }, null, categoryMapping);
+
+      counts[classification.category] += 1;
+      products.push({
+        productId: product.id,
+        title: product.title,
+        productType: product.productType ?? null,
+        vendor: product.vendor ?? null,
+        tags: product.tags,
+        category: classification.category,
+        source: classification.source,
+        mappingRule: classification.ruleIndex === null ? null : categoryMapping.rules[classification.ruleIndex]
+      });
+    }
+
+    hasNextPage = page.hasNextPage && page.cursor !== undefined && page.products.length > 0;
+    cursor = page.cursor;
+  }
+
+  return {
+    categories,
+    counts,
+    unmatched: products.filter(product => product.source === "default").length,
+    scanned: products.length,
+    truncated: hasNextPage,
+    products
+  };
+}
+
+// The store's effective rule, or the subject's arm while an experiment runs on a plan with
+// A/B testing; either way clamped to the plan's limits
+async function resolveExperimentRule(storeId: number, subjectId?: string): Promise<ExperimentPricingRule> {
+  const tier = await planLimits.getStoreTier(storeId);
+  const activeRule = await storage.getActivePricingRule(storeId);
+  const experimentsEnabled = planLimits.checkFeature(tier, "abTesting") === null;
+  const { rule, exposure } = await experimentService.resolvePricingRule(
+    storeId,
+    experimentsEnabled ? subjectId : undefined,
+    activeRule
+  );
+  return { rule: PricingEngine.applyTierLimits(rule, tier), exposure };
+}
+
+// A variant's price on the store's platform, in the store's base currency
+// The product quotes are signed from: the named variant, or the product's only variant. Null when
+// the platform has no such product or variant, or cannot be reached.
+async function loadCatalogProduct(store: Store, productId: string, variantId?: string): Promise<CatalogProduct | null> {
+  try {
+    const integration = await IntegrationFactory.create(store.id, (store.platform ?? "shopify") as Platform);
+    const product = await integration.getProduct(productId);
+    if (!product) return null;
+
+    const variants = product.variants.length > 0 ? product.variants : await integration.getProductVariants(productId);
+    const variant = variantId !== undefined
+      ? variants.find(candidate => candidate.id === variantId)
+      : variants.length === 1 ? variants[0] : undefined;
+    return variant
+      ? {
+          variantId: variant.id,
+          price: variant.price,
+          inventoryQuantity: variant.inventoryQuantity,
+          handle: product.handle,
+          collections: product.collections,
+          tags: product.tags,
+          productType: product.productType,
+          vendor: product.vendor
+        }
+      : null;
+  } catch (error) {
+    console.error(`Failed to load product ${productId}:`, error);
+    return null;
+  }
+}
+
+// Give the edge the rule versions the API prices the store with, held to its plan's limits.
+// A worker with its own KV namespace gets them at EDGE_WORKER_URL, authorized by EDGE_API_SECRET.
+async function publishEdgeRules(storeId: number): Promise<void> {
+  const tier = await planLimits.getStoreTier(storeId);
+  const rules = (await storage.getPricingRulesByStoreId(storeId)).filter(rule => rule.isActive);
+  const experimentsEnabled = planLimits.checkFeature(tier, "abTesting") === null;
+  const published: EdgePricingRules = {
+    rules: rules.map(rule => PricingEngine.applyTierLimits(rule, tier)!),
+    experimentRunning: experimentsEnabled && (await experimentService.getRunningExperiment(storeId)) !== undefined
+  };
+  await budgetCache.setEdgeRules(storeId, published);
+
+  if (!process.env.EDGE_WORKER_URL) return;
+  try {
+    const response = await fetch(new URL("/api/rules/publish", process.env.EDGE_WORKER_URL), {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${process.env.EDGE_API_SECRET ?? ""}` },
+      body: JSON.stringify({ storeId, rules: published })
+    });
+    if (!response.ok) {
+      throw new Error(`Edge worker responded with ${response.status}`);
+    }
+  } catch (error) {
+    // The rule is saved either way; the edge keeps the previous rules until the next publish
+    console.error(`Failed to publish pricing rules for store ${storeId} to the edge:`, error);
+  }
+}
+
+async function publishAllEdgeRules(): Promise<void> {
+  for (const store of await storage.getStores()) {
+    try {
+      await publishEdgeRules(store.id);
+    } catch (error) {
+      console.error(`Failed to publish pricing rules for store ${store.id}:`, error);
+    }
+  }
+}
+
+// Last sale dates are only looked up when the rule boosts products that stopped selling
+async function getLastSoldDates(rule: PricingRule | undefined, storeId: number, productIds: string[]): Promise<Map<string, Date>> {
+  if (!PricingEngine.getInventorySettings(rule)?.staleAfterDays) {
+    return new Map();
+  }
+  return storage.getLastSoldDates(storeId, productIds);
+}
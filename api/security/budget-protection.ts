@@ -1,4 +1,6 @@
 import { Request, Response, NextFunction } from "express";
+import { PricingEngine } from "../../shared/pricing-engine.js";
+import { BUDGET_PERIODS } from "../../shared/index.js";
 
 export interface BudgetProtectionConfig {
   maxMonthlyIncome: number;
@@ -93,7 +95,12 @@ export class BudgetAbuseProtection {
 
   // Budget validation middleware
   budgetValidationMiddleware = (req: Request, res: Response, next: NextFunction) => {
-    const { monthlyIncome, customerId } = req.body;
+    const { income, budgetPeriod = "monthly", customerId } = req.body;
+
+    // Income may be given per budget period; bounds are expressed as monthly income
+    const monthlyIncome = typeof income === "number" && (BUDGET_PERIODS as readonly string[]).includes(budgetPeriod)
+      ? PricingEngine.toMonthlyIncome(income, budgetPeriod)
+      : req.body.monthlyIncome;
 
     if (monthlyIncome !== undefined) {
       // Check income bounds
@@ -1,4 +1,6 @@
 import { Request, Response, NextFunction } from "express";
+import { PricingEngine } from "../../shared/pricing-engine.js";
+import { BUDGET_PERIODS, budgetCategoryKeySchema } from "../../shared/index.js";
 
 export interface ErrorLog {
   id: string;
@@ -125,15 +127,29 @@ export class ErrorFortress {
   // Budget calculation error fortress
   budgetCalculationProtection = (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { monthlyIncome, category } = req.body;
+      const { income, budgetPeriod = 'monthly', category } = req.body;
       
       // Validation fortress
       const validationErrors = [];
       
+      const validPeriod = (BUDGET_PERIODS as readonly string[]).includes(budgetPeriod);
+      if (!validPeriod) {
+        validationErrors.push({
+          path: ['budgetPeriod'],
+          message: `Budget period must be one of ${BUDGET_PERIODS.join(', ')}`,
+          code: 'INVALID_BUDGET_PERIOD'
+        });
+      }
+
+      // Income may be given per budget period; range checks use the monthly equivalent
+      const monthlyIncome = typeof income === 'number' && validPeriod
+        ? PricingEngine.toMonthlyIncome(income, budgetPeriod)
+        : req.body.monthlyIncome;
+      
       if (!monthlyIncome || typeof monthlyIncome !== 'number') {
         validationErrors.push({
-          path: ['monthlyIncome'],
-          message: 'Monthly income is required and must be a number',
+          path: [income !== undefined ? 'income' : 'monthlyIncome'],
+          message: 'Income is required and must be a number',
           code: 'INVALID_INCOME'
         });
       }
@@ -146,10 +162,10 @@ export class ErrorFortress {
         });
       }
 
-      if (category && !['needs', 'wants', 'savings'].includes(category)) {
+      if (category && !budgetCategoryKeySchema.safeParse(category).success) {
         validationErrors.push({
           path: ['category'],
-          message: 'Category must be needs, wants, or savings',
+          message: 'Category must be a category key such as needs, wants or savings',
           code: 'INVALID_CATEGORY'
         });
       }
@@ -211,10 +227,10 @@ export class ErrorFortress {
         });
       }
 
-      if (category && !['needs', 'wants', 'savings'].includes(category)) {
+      if (category && !budgetCategoryKeySchema.safeParse(category).success) {
         validationErrors.push({
           path: ['category'],
-          message: 'Category must be needs, wants, or savings',
+          message: 'Category must be a category key such as needs, wants or savings',
           code: 'INVALID_CATEGORY'
         });
       }
@@ -0,0 +1,95 @@
+import { Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import {
+  APP_TIERS,
+  getRequiredTier,
+  getRequiredTierForDiscount,
+  resolveAppTier,
+  type AppTierFeature,
+  type AppTierId
+} from "../../shared/app-tiers.js";
+
+// 402 when the merchant can unlock the feature by upgrading,
+// 403 when a storefront request hits a feature the store's plan does not include
+export type PlanViolationStatus = 402 | 403;
+
+export interface PlanViolation {
+  error: string;
+  code: "PLAN_UPGRADE_REQUIRED" | "PLAN_FEATURE_UNAVAILABLE";
+  feature: AppTierFeature | "maxDiscountPercentage";
+  currentPlan: AppTierId;
+  requiredPlan: AppTierId | null;
+}
+
+const FEATURE_NAMES: Record<AppTierFeature, string> = {
+  customRules: "Custom budget rules",
+  analytics: "Analytics",
+  whiteLabel: "White-label branding",
+  premiumCart: "Premium cart tracking",
+  abTesting: "A/B experiments"
+};
+
+export class PlanLimitEnforcer {
+  // Plan of the merchant that owns the store; unknown stores and owners fall back to free
+  async getStoreTier(storeId: number): Promise<AppTierId> {
+    const store = await storage.getStore(storeId);
+    const owner = store ? await storage.getUser(store.userId) : undefined;
+    return resolveAppTier(owner?.tier);
+  }
+
+  checkFeature(tier: AppTierId, feature: AppTierFeature, status: PlanViolationStatus = 402): PlanViolation | null {
+    if (APP_TIERS[tier].limits[feature]) {
+      return null;
+    }
+
+    const requiredPlan = getRequiredTier(feature);
+    return {
+      error: `${FEATURE_NAMES[feature]} require the ${APP_TIERS[requiredPlan].name} plan or higher (current plan: ${APP_TIERS[tier].name})`,
+      code: status === 402 ? "PLAN_UPGRADE_REQUIRED" : "PLAN_FEATURE_UNAVAILABLE",
+      feature,
+      currentPlan: tier,
+      requiredPlan
+    };
+  }
+
+  checkMaxDiscount(tier: AppTierId, maxDiscountPercentage: number): PlanViolation | null {
+    const limit = APP_TIERS[tier].limits.maxDiscountPercentage;
+    if (maxDiscountPercentage <= limit) {
+      return null;
+    }
+
+    const requiredPlan = getRequiredTierForDiscount(maxDiscountPercentage);
+    return {
+      error: requiredPlan
+        ? `A ${maxDiscountPercentage}% maximum discount requires the ${APP_TIERS[requiredPlan].name} plan or higher (${APP_TIERS[tier].name} allows up to ${limit}%)`
+        : `A ${maxDiscountPercentage}% maximum discount exceeds every plan's limit`,
+      code: "PLAN_UPGRADE_REQUIRED",
+      feature: "maxDiscountPercentage",
+      currentPlan: tier,
+      requiredPlan
+    };
+  }
+
+  // Reject requests for a store whose plan lacks the feature; the store comes from the route or body
+  requireFeature = (feature: AppTierFeature, status: PlanViolationStatus = 402) =>
+    async (req: Request, res: Response, next: NextFunction) => {
+      const storeId = parseInt(req.params.storeId ?? req.body?.storeId);
+
+      // Let the route's own validation reject requests without a store
+      if (isNaN(storeId)) {
+        return next();
+      }
+
+      try {
+        const violation = this.checkFeature(await this.getStoreTier(storeId), feature, status);
+        if (violation) {
+          return res.status(status).json(violation);
+        }
+        next();
+      } catch (error) {
+        next(error);
+      }
+    };
+}
+
+export const planLimits = new PlanLimitEnforcer();
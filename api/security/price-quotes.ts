@@ -0,0 +1,182 @@
+import crypto from "crypto";
+import type { BudgetCategory } from "../../shared/index.js";
+import type { PricingProductInput } from "../../shared/pricing-engine.js";
+import { storage, type IStorage } from "../storage";
+
+// Signed price quotes: /api/pricing/calculate issues one per priced product, and checkout
+// redeems it once, so the order is priced from what the server quoted rather than the browser
+
+export interface PriceQuote {
+  quoteId: string;
+  storeId: number;
+  customerId: string;
+  productId: string;
+  variantId: string;
+  basePrice: number; // The platform's price when the quote was issued, never the browser's
+  price: number;
+  budgetDiscount: number;
+  budgetCategory: BudgetCategory;
+  currency: string;
+  ruleId?: number;
+  ruleVersion?: number;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export type PriceQuoteInput = Omit<PriceQuote, "quoteId" | "issuedAt" | "expiresAt">;
+
+// The order line being priced; the quote must have been issued for it
+export interface PriceQuoteBinding {
+  storeId: number;
+  customerId: string;
+  productId: string;
+  variantId: string;
+}
+
+// The priced variant as the store's platform describes it; prices are in the store's base currency
+export interface CatalogProduct {
+  variantId: string;
+  price: number;
+  inventoryQuantity?: number;
+  handle: string;
+  collections?: string[];
+  tags: string[];
+  productType?: string;
+  vendor?: string;
+}
+
+export type PriceQuoteRejection = "malformed" | "invalid_signature" | "expired" | "mismatch" | "already_redeemed";
+
+export type PriceQuoteResult =
+  | { valid: true; quote: PriceQuote }
+  | { valid: false; reason: PriceQuoteRejection; message: string };
+
+const REJECTION_MESSAGES: Record<PriceQuoteRejection, string> = {
+  malformed: "Price quote token is malformed",
+  invalid_signature: "Price quote signature does not match",
+  expired: "Price quote has expired",
+  mismatch: "Price quote was issued for a different store, customer or product",
+  already_redeemed: "Price quote has already been redeemed"
+};
+
+const DEFAULT_QUOTE_TTL_SECONDS = 15 * 60;
+
+export class PriceQuoteService {
+  constructor(
+    private storage: IStorage,
+    private secret: string,
+    private ttlSeconds: number = DEFAULT_QUOTE_TTL_SECONDS
+  ) {}
+
+  issue(input: PriceQuoteInput, now: number = Date.now()): { token: string; quote: PriceQuote } {
+    const quote: PriceQuote = {
+      ...input,
+      quoteId: crypto.randomUUID(),
+      issuedAt: now,
+      expiresAt: now + this.ttlSeconds * 1000
+    };
+    const payload = Buffer.from(JSON.stringify(quote)).toString("base64url");
+
+    return { token: `${payload}.${this.sign(payload)}`, quote };
+  }
+
+  verify(token: string, binding: PriceQuoteBinding, now: number = Date.now()): PriceQuoteResult {
+    const [payload, signature, ...rest] = token.split(".");
+    if (!payload || !signature || rest.length > 0) {
+      return this.reject("malformed");
+    }
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return this.reject("invalid_signature");
+    }
+
+    let quote: PriceQuote;
+    try {
+      quote = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    } catch {
+      return this.reject("malformed");
+    }
+
+    if (now > quote.expiresAt) {
+      return this.reject("expired");
+    }
+
+    if (
+      quote.storeId !== binding.storeId ||
+      quote.customerId !== binding.customerId ||
+      quote.productId !== binding.productId ||
+      quote.variantId !== binding.variantId
+    ) {
+      return this.reject("mismatch");
+    }
+
+    return { valid: true, quote };
+  }
+
+  // Verify and claim the quote for an order; a second redemption of the same quote is rejected
+  async redeem(token: string, binding: PriceQuoteBinding, orderId: string, now: number = Date.now()): Promise<PriceQuoteResult> {
+    const result = this.verify(token, binding, now);
+    if (!result.valid) {
+      return result;
+    }
+
+    const redemption = await this.storage.redeemPriceQuote({
+      quoteId: result.quote.quoteId,
+      storeId: result.quote.storeId,
+      customerId: result.quote.customerId,
+      orderId
+    });
+
+    return redemption ? result : this.reject("already_redeemed");
+  }
+
+  // Give a claimed quote back, e.g. when the platform rejected the order update
+  async release(quoteId: string): Promise<void> {
+    await this.storage.releasePriceQuote(quoteId);
+  }
+
+  private sign(payload: string): string {
+    return crypto.createHmac("sha256", this.secret).update(payload).digest("base64url");
+  }
+
+  private reject(reason: PriceQuoteRejection): PriceQuoteResult {
+    return { valid: false, reason, message: REJECTION_MESSAGES[reason] };
+  }
+}
+
+// What a product is priced from: the request for unsigned previews; for a quote, the platform's
+// price, stock and the attributes the rule's scope and category mapping match, so nothing the
+// browser sends changes a signed price
+export function quotedPricingInput(request: PricingProductInput, catalog: CatalogProduct | null): PricingProductInput {
+  if (!catalog) {
+    return request;
+  }
+
+  return {
+    productId: request.productId,
+    variantId: catalog.variantId,
+    basePrice: catalog.price,
+    shopifyDiscounts: 0, // The platform's price already carries its own discounts
+    inventoryQuantity: catalog.inventoryQuantity,
+    handle: catalog.handle,
+    collections: catalog.collections,
+    tags: catalog.tags,
+    productType: catalog.productType,
+    vendor: catalog.vendor
+  };
+}
+
+// PRICE_QUOTE_SECRET must be shared by every API instance; without it quotes only verify
+// on the process that issued them
+export function resolvePriceQuoteSecret(): string {
+  if (process.env.PRICE_QUOTE_SECRET) {
+    return process.env.PRICE_QUOTE_SECRET;
+  }
+
+  console.warn("PRICE_QUOTE_SECRET is not set; using a per-process secret for price quotes");
+  return crypto.randomBytes(32).toString("hex");
+}
+
+export const priceQuotes = new PriceQuoteService(storage, resolvePriceQuoteSecret());
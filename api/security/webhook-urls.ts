@@ -0,0 +1,67 @@
+import dns from "dns";
+import net from "net";
+
+// Merchant webhook URLs are called from the server, so they must not reach the server's own
+// network: hosts resolving to loopback, private, link-local (cloud metadata) or other
+// non-public addresses are refused when the URL is saved and again before each delivery
+
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],      // "This" network
+  ["10.0.0.0", 8],     // Private
+  ["100.64.0.0", 10],  // Carrier-grade NAT
+  ["127.0.0.0", 8],    // Loopback
+  ["169.254.0.0", 16], // Link-local
+  ["172.16.0.0", 12],  // Private
+  ["192.0.0.0", 24],   // IETF protocol assignments
+  ["192.168.0.0", 16], // Private
+  ["198.18.0.0", 15],  // Benchmarking
+  ["224.0.0.0", 3]     // Multicast and reserved
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],     // Unspecified
+  ["::1", 128],    // Loopback
+  ["fc00::", 7],   // Unique local
+  ["fe80::", 10],  // Link-local
+  ["ff00::", 8]    // Multicast
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// Why the URL may not receive webhooks, or null when it may
+export async function checkWebhookUrl(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Webhook URL is not a valid URL";
+  }
+  if (parsed.protocol !== "https:") {
+    return "Webhook URLs must use HTTPS";
+  }
+
+  // IPv6 literals keep their brackets in the hostname
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: string[];
+  if (net.isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await dns.promises.lookup(host, { all: true })).map(entry => entry.address);
+    } catch {
+      return `Webhook host ${host} could not be resolved`;
+    }
+  }
+
+  const blocked = addresses.find(address => !isPublicAddress(address));
+  return blocked ? `Webhook host ${host} resolves to a non-public address (${blocked})` : null;
+}
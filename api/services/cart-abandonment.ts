@@ -0,0 +1,436 @@
+import crypto from "crypto";
+import {
+  abandonmentSettingsSchema, cartAbandonmentEvents, cartBudgetBreakdownSchema, cartSessions, stores,
+  type AbandonmentSettings, type CartAbandonmentEvent, type CartBudgetBreakdown, type CartSession, type Store
+} from "../../shared/schema.js";
+import { DEFAULT_CART_PLANS, type CartOptimization } from "../../shared/cart-optimizer.js";
+import { PricingEngine } from "../../shared/pricing-engine.js";
+import { MoneyMath } from "../../shared/money.js";
+import { db } from "../db.js";
+import { storage } from "../storage.js";
+import { IntegrationFactory, type Platform } from "../integrations/integration-factory.js";
+import { cartTrackingService, MAX_OPTIMIZER_LINES } from "./cart-tracking.js";
+import { LocalEmailTransport, type EmailTransport } from "./email-transport.js";
+import { checkWebhookUrl } from "../security/webhook-urls.js";
+import { and, desc, eq, gt, gte, inArray, isNotNull, isNull, lt, lte } from "drizzle-orm";
+
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+// Sessions abandoned per store, and event deliveries attempted, in one sweep
+const SWEEP_BATCH_SIZE = 100;
+const MAX_DELIVERY_ATTEMPTS = 5;
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+export type AbandonmentChannel = "webhook" | "email";
+
+// Body of the cart.abandoned webhook; amounts are in the cart's currency
+export interface CartAbandonedPayload {
+  event: "cart.abandoned";
+  storeId: number;
+  cartSessionId: number;
+  customerId: string;
+  sessionId: string;
+  abandonedAt: string;
+  lastActivityAt: string | null;
+  currency: string;
+  totalCartValue: number;
+  budgetBreakdown: CartBudgetBreakdown;
+  // Catalog products that fit what was left of each category's budget
+  recommendations: Array<{
+    productId: string;
+    variantId: string | null;
+    title: string;
+    price: number;
+    budgetCategory: string;
+    url: string | null;
+    imageUrl: string | null;
+  }>;
+  // Ways to fit an over-budget cart; null when the cart was too large to solve
+  optimization: CartOptimization | null;
+}
+
+export interface CartRecoveryStats {
+  abandoned: number;
+  recovered: number;
+  recoveryRate: number;
+  recoveredValue: number;
+}
+
+export interface AbandonmentSweepResult {
+  abandoned: number;
+  delivered: number;
+  failed: number;
+}
+
+// Marks idle carts abandoned, tells the merchant's webhook or the customer by email, and
+// credits later purchases to the cart they recover
+export class CartAbandonmentService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private sweeping = false;
+
+  constructor(private email: EmailTransport = new LocalEmailTransport()) {}
+
+  // Sweep on an interval for as long as the process runs
+  start(intervalMs: number = SWEEP_INTERVAL_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.sweep().catch(error => console.error("Cart abandonment sweep failed:", error));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Abandon carts idle for longer than their store allows, queue one event per delivery channel
+   * and deliver queued events, failed ones included. A sweep already running is not overlapped.
+   */
+  async sweep(now: Date = new Date()): Promise<AbandonmentSweepResult> {
+    if (this.sweeping) {
+      return { abandoned: 0, delivered: 0, failed: 0 };
+    }
+
+    this.sweeping = true;
+    try {
+      const configured = await db
+        .select()
+        .from(stores)
+        .where(and(isNotNull(stores.abandonmentSettings), eq(stores.premiumCartTracking, true)));
+
+      let abandoned = 0;
+      for (const store of configured) {
+        const settings = getAbandonmentSettings(store);
+        if (settings) {
+          abandoned += await this.abandonIdleCarts(store, settings, now);
+        }
+      }
+
+      return { abandoned, ...await this.deliverQueuedEvents(configured, now) };
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  /**
+   * Credit an order to the customer's most recent cart abandoned within the store's attribution
+   * window. An order can be reported by its webhook and by each recorded purchase line; the
+   * largest amount, normally the webhook's order total, is kept.
+   */
+  async attributeRecovery(
+    storeId: number,
+    customerId: string,
+    orderId: string,
+    value: number,
+    now: Date = new Date()
+  ): Promise<CartSession | null> {
+    const settings = getAbandonmentSettings(await storage.getStore(storeId));
+    if (!settings) {
+      return null;
+    }
+
+    const [attributed] = await db
+      .select()
+      .from(cartSessions)
+      .where(and(eq(cartSessions.storeId, storeId), eq(cartSessions.recoveryOrderId, orderId)))
+      .limit(1);
+    if (attributed) {
+      if (value <= parseFloat(attributed.recoveredValue ?? "0")) {
+        return attributed;
+      }
+      const [updated] = await db
+        .update(cartSessions)
+        .set({ recoveredValue: value.toFixed(2) })
+        .where(eq(cartSessions.id, attributed.id))
+        .returning();
+      return updated;
+    }
+
+    const since = new Date(now.getTime() - settings.attributionDays * 24 * 60 * 60 * 1000);
+    const [abandoned] = await db
+      .select()
+      .from(cartSessions)
+      .where(and(
+        eq(cartSessions.storeId, storeId),
+        eq(cartSessions.customerId, customerId),
+        isNull(cartSessions.recoveredAt),
+        gte(cartSessions.abandonedAt, since),
+        lte(cartSessions.abandonedAt, now)
+      ))
+      .orderBy(desc(cartSessions.abandonedAt))
+      .limit(1);
+    if (!abandoned) {
+      return null;
+    }
+
+    const [recovered] = await db
+      .update(cartSessions)
+      .set({ recoveredAt: now, recoveryOrderId: orderId, recoveredValue: value.toFixed(2) })
+      .where(and(eq(cartSessions.id, abandoned.id), isNull(cartSessions.recoveredAt)))
+      .returning();
+    return recovered ?? null;
+  }
+
+  // A cancelled or deleted order recovers nothing; the carts it was credited to count as abandoned again
+  async revokeRecovery(storeId: number, orderId: string): Promise<CartSession[]> {
+    return db
+      .update(cartSessions)
+      .set({ recoveredAt: null, recoveryOrderId: null, recoveredValue: null })
+      .where(and(eq(cartSessions.storeId, storeId), eq(cartSessions.recoveryOrderId, orderId)))
+      .returning();
+  }
+
+  // Carts abandoned since the given date and how many of them were recovered
+  async getRecoveryStats(storeId: number, since: Date): Promise<CartRecoveryStats> {
+    const sessions = await db
+      .select({ recoveredAt: cartSessions.recoveredAt, recoveredValue: cartSessions.recoveredValue })
+      .from(cartSessions)
+      .where(and(eq(cartSessions.storeId, storeId), gte(cartSessions.abandonedAt, since)));
+    const recovered = sessions.filter(session => session.recoveredAt !== null);
+
+    return {
+      abandoned: sessions.length,
+      recovered: recovered.length,
+      recoveryRate: sessions.length > 0 ? Math.round(recovered.length / sessions.length * 10000) / 10000 : 0,
+      recoveredValue: Math.round(recovered.reduce((sum, session) => sum + parseFloat(session.recoveredValue ?? "0"), 0) * 100) / 100
+    };
+  }
+
+  private async abandonIdleCarts(store: Store, settings: AbandonmentSettings, now: Date): Promise<number> {
+    const cutoff = new Date(now.getTime() - settings.idleMinutes * 60 * 1000);
+    // Empty carts are left alone
+    const idle = await db
+      .select()
+      .from(cartSessions)
+      .where(and(
+        eq(cartSessions.storeId, store.id),
+        eq(cartSessions.isActive, true),
+        isNull(cartSessions.abandonedAt),
+        lt(cartSessions.updatedAt, cutoff),
+        gt(cartSessions.totalCartValue, "0")
+      ))
+      .orderBy(cartSessions.updatedAt)
+      .limit(SWEEP_BATCH_SIZE);
+
+    const channels: AbandonmentChannel[] = [
+      ...(settings.webhookUrl ? ["webhook" as const] : []),
+      ...(settings.emailEnabled ? ["email" as const] : [])
+    ];
+    let abandoned = 0;
+
+    for (const session of idle) {
+      // Claim the session first so a concurrent sweep cannot emit it twice
+      const [claimed] = await db
+        .update(cartSessions)
+        .set({ isActive: false, abandonedAt: now })
+        .where(and(eq(cartSessions.id, session.id), isNull(cartSessions.abandonedAt)))
+        .returning();
+      if (!claimed) continue;
+
+      abandoned++;
+      if (channels.length === 0) continue;
+
+      const payload = await this.buildPayload(store, claimed);
+      await db.insert(cartAbandonmentEvents).values(channels.map(channel => ({
+        storeId: store.id,
+        cartSessionId: claimed.id,
+        channel,
+        payload
+      })));
+    }
+
+    return abandoned;
+  }
+
+  private async buildPayload(store: Store, session: CartSession): Promise<CartAbandonedPayload> {
+    const parsed = cartBudgetBreakdownSchema.safeParse(session.budgetBreakdown);
+    const budgetBreakdown = parsed.success ? parsed.data : {};
+    const currency = (session.cartData as { currency?: string } | null)?.currency
+      ?? PricingEngine.getCurrencyRates(store).baseCurrency;
+    const lineCount = Object.values(budgetBreakdown).reduce((count, category) => count + category.items.length, 0);
+
+    let optimization: CartOptimization | null = null;
+    if (lineCount <= MAX_OPTIMIZER_LINES) {
+      try {
+        const rule = await storage.getActivePricingRule(store.id);
+        optimization = await cartTrackingService.optimizeCart(store.id, budgetBreakdown, rule, currency, DEFAULT_CART_PLANS);
+      } catch (error) {
+        console.error("Failed to optimize abandoned cart:", error);
+      }
+    }
+
+    const recommendations = await cartTrackingService.getProductRecommendations(store.id, session.customerId);
+
+    return {
+      event: "cart.abandoned",
+      storeId: store.id,
+      cartSessionId: session.id,
+      customerId: session.customerId,
+      sessionId: session.sessionId,
+      abandonedAt: (session.abandonedAt ?? new Date()).toISOString(),
+      lastActivityAt: session.updatedAt?.toISOString() ?? null,
+      currency,
+      totalCartValue: parseFloat(session.totalCartValue),
+      budgetBreakdown,
+      recommendations: recommendations.map(recommendation => ({
+        productId: recommendation.productId,
+        variantId: recommendation.variantId,
+        title: recommendation.productTitle,
+        price: parseFloat(recommendation.productPrice),
+        budgetCategory: recommendation.budgetCategory,
+        url: recommendation.productUrl,
+        imageUrl: recommendation.imageUrl
+      })),
+      optimization
+    };
+  }
+
+  private async deliverQueuedEvents(configured: Store[], now: Date): Promise<Omit<AbandonmentSweepResult, "abandoned">> {
+    const storesById = new Map(configured.map(store => [store.id, store]));
+    if (storesById.size === 0) {
+      return { delivered: 0, failed: 0 };
+    }
+
+    const queued = await db
+      .select()
+      .from(cartAbandonmentEvents)
+      .where(and(
+        inArray(cartAbandonmentEvents.storeId, Array.from(storesById.keys())),
+        inArray(cartAbandonmentEvents.status, ["pending", "failed"]),
+        lt(cartAbandonmentEvents.attempts, MAX_DELIVERY_ATTEMPTS)
+      ))
+      .orderBy(cartAbandonmentEvents.id)
+      .limit(SWEEP_BATCH_SIZE);
+
+    let delivered = 0;
+    let failed = 0;
+    for (const event of queued) {
+      const store = storesById.get(event.storeId)!;
+      try {
+        await this.deliver(store, event);
+        await db
+          .update(cartAbandonmentEvents)
+          .set({ status: "delivered", attempts: event.attempts + 1, lastError: null, deliveredAt: now })
+          .where(eq(cartAbandonmentEvents.id, event.id));
+        delivered++;
+      } catch (error) {
+        await db
+          .update(cartAbandonmentEvents)
+          .set({ status: "failed", attempts: event.attempts + 1, lastError: error instanceof Error ? error.message : String(error) })
+          .where(eq(cartAbandonmentEvents.id, event.id));
+        failed++;
+      }
+    }
+
+    return { delivered, failed };
+  }
+
+  // Channels turned off since the event was queued fail until they are turned back on
+  private async deliver(store: Store, event: CartAbandonmentEvent): Promise<void> {
+    const settings = getAbandonmentSettings(store);
+    const payload = event.payload as CartAbandonedPayload;
+
+    if (event.channel === "webhook") {
+      if (!settings?.webhookUrl) {
+        throw new Error("No abandonment webhook URL configured");
+      }
+      await this.postWebhook(store, settings.webhookUrl, event.id, payload);
+    } else {
+      if (!settings?.emailEnabled) {
+        throw new Error("Abandonment emails are turned off");
+      }
+      await this.sendEmail(store, payload);
+    }
+  }
+
+  // Signed like the platforms sign theirs: an HMAC-SHA256 of the body with the store's webhook secret
+  private async postWebhook(store: Store, url: string, eventId: number, payload: CartAbandonedPayload): Promise<void> {
+    const body = JSON.stringify(payload);
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "X-BudgetPrice-Event": payload.event,
+      "X-BudgetPrice-Delivery": eventId.toString()
+    };
+    if (store.webhookSecret) {
+      headers["X-BudgetPrice-Signature"] = crypto.createHmac("sha256", store.webhookSecret).update(body).digest("base64");
+    }
+
+    // The host may have been repointed since the URL was saved, and a redirect could lead anywhere
+    const problem = await checkWebhookUrl(url);
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers,
+      body,
+      redirect: "error",
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status}`);
+    }
+  }
+
+  private async sendEmail(store: Store, payload: CartAbandonedPayload): Promise<void> {
+    const integration = await IntegrationFactory.create(store.id, (store.platform ?? "shopify") as Platform);
+    const customer = await integration.getCustomer(payload.customerId);
+    if (!customer?.email) {
+      throw new Error("Customer has no email address");
+    }
+
+    const format = (amount: number) => MoneyMath.format(MoneyMath.fromMajor(amount, payload.currency));
+    const lines = [
+      customer.firstName ? `Hi ${customer.firstName},` : "Hi,",
+      "",
+      `You left ${format(payload.totalCartValue)} in your cart.`
+    ];
+
+    const categories = Object.entries(payload.budgetBreakdown).filter(([, category]) => category.items.length > 0);
+    if (categories.length > 0) {
+      lines.push("", "Against your budget:");
+      for (const [key, category] of categories) {
+        lines.push(category.remaining >= 0
+          ? `- ${key}: ${format(category.spent)} of ${format(category.allocated)}, ${format(category.remaining)} left`
+          : `- ${key}: ${format(category.spent)} of ${format(category.allocated)}, ${format(-category.remaining)} over`);
+      }
+    }
+
+    const plan = payload.optimization?.plans[0];
+    if (plan) {
+      lines.push("", `To fit your budget and save ${format(plan.savings)}:`);
+      for (const change of plan.changes) {
+        lines.push(change.action === "swap"
+          ? `- Swap ${change.title} for ${change.substitute!.title}`
+          : change.action === "reduce"
+            ? `- Keep ${change.toQuantity} of ${change.fromQuantity} ${change.title}`
+            : `- Remove ${change.title}`);
+      }
+    }
+
+    if (payload.recommendations.length > 0) {
+      lines.push("", "Within your remaining budget:");
+      for (const recommendation of payload.recommendations) {
+        lines.push(`- ${recommendation.title}, ${format(recommendation.price)}${recommendation.url ? `: ${recommendation.url}` : ""}`);
+      }
+    }
+
+    await this.email.send({
+      to: customer.email,
+      subject: "You left something in your cart",
+      text: lines.join("\n")
+    });
+  }
+}
+
+// Missing or malformed settings turn abandonment off for the store
+function getAbandonmentSettings(store: Pick<Store, "abandonmentSettings"> | null | undefined): AbandonmentSettings | null {
+  const parsed = abandonmentSettingsSchema.safeParse(store?.abandonmentSettings);
+  return parsed.success ? parsed.data : null;
+}
+
+export const cartAbandonmentService = new CartAbandonmentService();
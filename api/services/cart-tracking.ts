@@ -1,12 +1,49 @@
+import crypto from "crypto";
 import { 
   CartSession, InsertCartSession, ProductRecommendation, InsertProductRecommendation,
-  AutoDiscount, InsertAutoDiscount, CartItem, CartBudgetBreakdown, BudgetData,
+  AutoDiscount, InsertAutoDiscount, CartItem, CartBudgetBreakdown, BudgetData, CategoryMapping, PricingRule,
+  DiscountLadder, DiscountStackingPolicy, DiscountTier,
   ProductRecommendationData, AutoDiscountData, cartSessions, productRecommendations, autoDiscounts
 } from "../../shared/schema.js";
+import { DEFAULT_CURRENCY, MoneyMath, type CurrencyRateTable } from "../../shared/money.js";
+import { PricingEngine } from "../../shared/pricing-engine.js";
 import { db } from "../db.js";
-import { eq, and, desc } from "drizzle-orm";
+import { storage } from "../storage.js";
+import { IntegrationFactory, type Platform } from "../integrations/integration-factory.js";
+import type { IIntegration, Product, ProductVariant, Purchase } from "../integrations/base-integration.js";
+import {
+  CartOptimizer,
+  type CartOptimization,
+  type CartOptimizerLine,
+  type CartOptimizerSubstitute
+} from "../../shared/cart-optimizer.js";
+import { eq, and, desc, gt, isNull } from "drizzle-orm";
+
+// Remaining budget per category key, plus the total across categories
+export type RemainingBudget = Record<string, number> & { total: number };
+
+// Recommendation candidates come from the first page of the catalog, refreshed every few minutes
+const RECOMMENDATION_CATALOG_SIZE = 250;
+const CATALOG_CACHE_TTL_MS = 10 * 60 * 1000;
+const MAX_RECOMMENDATIONS = 5;
+
+// Ranking weights; each signal is scaled to [0, 1]
+const AFFORDABILITY_WEIGHT = 0.4; // Share of the category's remaining budget left after buying
+const MARGIN_WEIGHT = 0.3;
+const CO_PURCHASE_WEIGHT = 0.3; // Orders shared with the cart's products, relative to the best candidate
+
+// Cart lines one optimization solves at most
+export const MAX_OPTIMIZER_LINES = 50;
+
+// Auto-discount codes stay redeemable for a day
+const AUTO_DISCOUNT_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Swap candidates offered per cart line
+const MAX_VARIANT_SUBSTITUTES = 2;
+const MAX_ALTERNATIVE_SUBSTITUTES = 3;
 
 export class PremiumCartTrackingService {
+  private catalogCache = new Map<number, { products: Product[]; expiresAt: number }>();
   
   // Update cart session when items are added/removed
   async updateCartSession(
@@ -17,7 +54,11 @@ export class PremiumCartTrackingService {
     budget: BudgetData
   ): Promise<CartSession> {
     const budgetBreakdown = this.calculateBudgetBreakdown(cartItems, budget);
-    const totalCartValue = cartItems.reduce((total, item) => total + (item.price * item.quantity), 0);
+    const currency = budget.currency ?? DEFAULT_CURRENCY;
+    const totalCartValue = MoneyMath.toMajor(cartItems.reduce(
+      (total, item) => MoneyMath.add(total, MoneyMath.multiply(MoneyMath.fromMajor(item.price, currency), item.quantity)),
+      MoneyMath.zero(currency)
+    ));
     const remainingBudget = this.calculateRemainingBudget(budgetBreakdown);
 
     // Check for existing session
@@ -35,7 +76,8 @@ export class PremiumCartTrackingService {
     const cartData = {
       items: cartItems,
       totalItems: cartItems.reduce((sum, item) => sum + item.quantity, 0),
-      subtotal: totalCartValue
+      subtotal: totalCartValue,
+      currency
     };
 
     if (existingSession.length > 0) {
@@ -74,179 +116,452 @@ export class PremiumCartTrackingService {
     }
   }
 
-  // Calculate budget breakdown per category
+  // Calculate budget breakdown per category; items in a category the budget lacks get no allocation.
+  // Spending is net of the discount applied to each line.
   private calculateBudgetBreakdown(cartItems: CartItem[], budget: BudgetData): CartBudgetBreakdown {
-    const needsItems = cartItems.filter(item => item.budgetCategory === "needs");
-    const wantsItems = cartItems.filter(item => item.budgetCategory === "wants");
-    const savingsItems = cartItems.filter(item => item.budgetCategory === "savings");
-
-    const needsSpent = needsItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-    const wantsSpent = wantsItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-    const savingsSpent = savingsItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-
-    return {
-      needs: {
-        allocated: budget.needsAmount,
-        spent: needsSpent,
-        remaining: budget.needsAmount - needsSpent,
-        items: needsItems
-      },
-      wants: {
-        allocated: budget.wantsAmount,
-        spent: wantsSpent,
-        remaining: budget.wantsAmount - wantsSpent,
-        items: wantsItems
-      },
-      savings: {
-        allocated: budget.savingsAmount,
-        spent: savingsSpent,
-        remaining: budget.savingsAmount - savingsSpent,
-        items: savingsItems
-      }
-    };
+    const allocations = PricingEngine.getCategoryAmounts(budget);
+    const categories = new Set([...Object.keys(allocations), ...cartItems.map(item => item.budgetCategory)]);
+    const breakdown: CartBudgetBreakdown = {};
+
+    for (const category of categories) {
+      const items = cartItems.filter(item => item.budgetCategory === category);
+      const spent = items.reduce((sum, item) => sum + (item.price * item.quantity) - item.discountApplied, 0);
+      const allocated = allocations[category] ?? 0;
+      breakdown[category] = { allocated, spent, remaining: allocated - spent, items };
+    }
+
+    return breakdown;
   }
 
-  // Calculate remaining budget across all categories
-  private calculateRemainingBudget(breakdown: CartBudgetBreakdown) {
-    return {
-      needs: breakdown.needs.remaining,
-      wants: breakdown.wants.remaining,
-      savings: breakdown.savings.remaining,
-      total: breakdown.needs.remaining + breakdown.wants.remaining + breakdown.savings.remaining
-    };
+  // Calculate remaining budget per category and across all of them
+  private calculateRemainingBudget(breakdown: CartBudgetBreakdown): RemainingBudget {
+    const remaining: RemainingBudget = { total: 0 };
+    for (const [category, data] of Object.entries(breakdown)) {
+      remaining[category] = data.remaining;
+      remaining.total += data.remaining;
+    }
+    return remaining;
   }
 
-  // Generate product recommendations based on remaining budget
+  // Recommend catalog products that fit the remaining budget of the category they would be
+  // charged to, skipping what is already in the cart. Candidates are ranked by how comfortably
+  // they fit, their margin and how often they were bought together with the cart's products.
   async generateProductRecommendations(
     storeId: number,
     customerId: string,
-    remainingBudget: { needs: number; wants: number; savings: number },
-    excludeProductIds: string[] = []
+    remainingBudget: RemainingBudget,
+    cartItems: CartItem[],
+    rule: PricingRule | undefined,
+    currency: string
   ): Promise<ProductRecommendationData[]> {
-    const recommendations: ProductRecommendationData[] = [];
-
-    // Recommend based on remaining budget in each category
-    if (remainingBudget.needs > 20) {
-      recommendations.push({
-        productId: "needs_product_1",
-        title: "Essential Daily Supplements",
-        price: Math.min(remainingBudget.needs * 0.8, 35),
-        budgetCategory: "needs",
-        reason: "Essential health product that fits your needs budget",
-        remainingBudgetAfter: remainingBudget.needs - Math.min(remainingBudget.needs * 0.8, 35),
-        url: "/products/essential-supplements"
-      });
+    const store = await storage.getStore(storeId);
+    const rates = PricingEngine.getCurrencyRates(store);
+    if (!store || !MoneyMath.canConvert(rates.baseCurrency, currency, rates)) {
+      return [];
     }
 
-    if (remainingBudget.wants > 15) {
-      recommendations.push({
-        productId: "wants_product_1",
-        title: "Premium Coffee Blend",
-        price: Math.min(remainingBudget.wants * 0.6, 28),
-        budgetCategory: "wants",
-        reason: "Perfect treat that fits your wants budget",
-        remainingBudgetAfter: remainingBudget.wants - Math.min(remainingBudget.wants * 0.6, 28),
-        url: "/products/premium-coffee"
-      });
+    let catalog: Product[];
+    try {
+      catalog = await this.getCatalog(storeId, (store.platform ?? "shopify") as Platform);
+    } catch (error) {
+      console.error("Failed to load catalog for recommendations:", error);
+      return [];
     }
 
-    if (remainingBudget.savings > 50) {
-      recommendations.push({
-        productId: "savings_product_1",
-        title: "Investment in Quality Tools",
-        price: Math.min(remainingBudget.savings * 0.7, 75),
-        budgetCategory: "savings",
-        reason: "Long-term investment that builds value",
-        remainingBudgetAfter: remainingBudget.savings - Math.min(remainingBudget.savings * 0.7, 75),
-        url: "/products/quality-tools"
-      });
+    const cartProductIds = cartItems.map(item => item.productId);
+    const categories = PricingEngine.getBudgetCategories(rule);
+    const mapping = PricingEngine.getCategoryMapping(rule);
+    const candidates = catalog.flatMap(product => {
+      if (cartProductIds.includes(product.id)) return [];
+
+      // The cheapest variant in stock; products whose variants are all sold out are skipped
+      const variant = getInStockVariants(product)[0];
+      if (!variant && product.variants.length > 0) return [];
+
+      const basePrice = variant?.price ?? product.priceRange.min;
+      const price = MoneyMath.convertMajor(basePrice, rates.baseCurrency, currency, rates);
+      const category = classifyCatalogProduct(rule, product, price, mapping);
+      const remaining = remainingBudget[category] ?? 0;
+      if (price <= 0 || price > remaining) return [];
+
+      return [{ product, variant, basePrice, price, category, remaining }];
+    });
+    if (candidates.length === 0) {
+      return [];
     }
 
-    // Store recommendations in database
-    for (const rec of recommendations) {
-      await db.insert(productRecommendations).values({
+    const costs = await storage.getProductCosts(storeId, candidates.map(candidate => candidate.product.id));
+    const coPurchases = await storage.getCoPurchaseCounts(storeId, cartProductIds);
+    const mostCoPurchased = Math.max(1, ...Array.from(coPurchases.values()));
+
+    const ranked = candidates
+      .map(candidate => {
+        // Margin is worked out in the base currency, where costs are kept
+        const unitCost = PricingEngine.resolveUnitCost(costs, candidate.product.id, candidate.variant?.id) ?? candidate.variant?.cost;
+        const margin = unitCost !== undefined ? Math.max(0, (candidate.basePrice - unitCost) / candidate.basePrice) : 0;
+        const coPurchased = coPurchases.get(candidate.product.id) ?? 0;
+        const score =
+          AFFORDABILITY_WEIGHT * (1 - candidate.price / candidate.remaining) +
+          MARGIN_WEIGHT * margin +
+          CO_PURCHASE_WEIGHT * coPurchased / mostCoPurchased;
+        return { ...candidate, coPurchased, score };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_RECOMMENDATIONS);
+
+    const recommendations: ProductRecommendationData[] = ranked.map(candidate => {
+      const categoryName = categories.find(category => category.key === candidate.category)?.name ?? candidate.category;
+      const image = [...candidate.product.images].sort((a, b) => a.position - b.position)[0];
+      return {
+        productId: candidate.product.id,
+        variantId: candidate.variant?.id,
+        title: candidate.product.title,
+        price: PricingEngine.roundCurrency(candidate.price, currency),
+        budgetCategory: candidate.category,
+        reason: candidate.coPurchased > 0
+          ? `Often bought with items in your cart and fits your ${categoryName} budget`
+          : `Fits your remaining ${categoryName} budget`,
+        remainingBudgetAfter: PricingEngine.roundCurrency(candidate.remaining - candidate.price, currency),
+        imageUrl: image?.url,
+        url: candidate.product.url ?? `/products/${candidate.product.handle}`
+      };
+    });
+
+    // Replace the customer's earlier suggestions, keeping those with clicks or purchases for reporting
+    await db
+      .delete(productRecommendations)
+      .where(and(
+        eq(productRecommendations.storeId, storeId),
+        eq(productRecommendations.customerId, customerId),
+        eq(productRecommendations.isClicked, false),
+        eq(productRecommendations.isPurchased, false)
+      ));
+    if (recommendations.length > 0) {
+      await db.insert(productRecommendations).values(recommendations.map((rec, index) => ({
         storeId,
         customerId,
         productId: rec.productId,
+        variantId: rec.variantId,
         productTitle: rec.title,
         productPrice: rec.price.toString(),
+        productUrl: rec.url,
+        imageUrl: rec.imageUrl,
         budgetCategory: rec.budgetCategory,
         recommendationReason: rec.reason,
         remainingBudgetAfter: rec.remainingBudgetAfter.toString(),
-        priority: recommendations.indexOf(rec) + 1
-      });
+        priority: recommendations.length - index // Higher is better
+      })));
     }
 
     return recommendations;
   }
 
-  // Check and apply automatic discounts
+  // Ways to bring the breakdown's lines within each category's budget, optionally with catalog
+  // substitutes for each line
+  async optimizeCart(
+    storeId: number,
+    budgetBreakdown: CartBudgetBreakdown,
+    rule: PricingRule | undefined,
+    currency: string,
+    maxPlans: number,
+    includeSubstitutes: boolean = true
+  ): Promise<CartOptimization> {
+    const items = Object.values(budgetBreakdown).flatMap(category => category.items);
+    const substitutes = includeSubstitutes
+      ? await this.findSubstitutes(storeId, items, rule, currency)
+      : items.map(() => []);
+    const lines: CartOptimizerLine[] = items.map((item, index) => ({
+      productId: item.productId,
+      variantId: item.variantId,
+      title: item.title,
+      price: (item.price * item.quantity - item.discountApplied) / item.quantity,
+      quantity: Math.ceil(item.quantity),
+      category: item.budgetCategory,
+      substitutes: substitutes[index]
+    }));
+    const budgets = Object.fromEntries(Object.entries(budgetBreakdown).map(([category, data]) => [category, data.allocated]));
+
+    return CartOptimizer.optimize(lines, budgets, currency, maxPlans);
+  }
+
+  // Swap candidates for each cart line, cheaper than what the line costs per unit: other in-stock
+  // variants of the same product, then catalog products in the same budget category, closest in
+  // price first so a swap keeps as much of the line as possible
+  async findSubstitutes(
+    storeId: number,
+    cartItems: CartItem[],
+    rule: PricingRule | undefined,
+    currency: string
+  ): Promise<CartOptimizerSubstitute[][]> {
+    const store = await storage.getStore(storeId);
+    const rates = PricingEngine.getCurrencyRates(store);
+    if (!store || !MoneyMath.canConvert(rates.baseCurrency, currency, rates)) {
+      return cartItems.map(() => []);
+    }
+
+    let catalog: Product[];
+    try {
+      catalog = await this.getCatalog(storeId, (store.platform ?? "shopify") as Platform);
+    } catch (error) {
+      console.error("Failed to load catalog for substitutes:", error);
+      return cartItems.map(() => []);
+    }
+
+    const cartProductIds = cartItems.map(item => item.productId);
+    const mapping = PricingEngine.getCategoryMapping(rule);
+    const toPrice = (basePrice: number) => MoneyMath.convertMajor(basePrice, rates.baseCurrency, currency, rates);
+    const alternatives = catalog.flatMap(product => {
+      const variant = getInStockVariants(product)[0];
+      if (cartProductIds.includes(product.id) || (!variant && product.variants.length > 0)) return [];
+      const price = toPrice(variant?.price ?? product.priceRange.min);
+      return [{ product, variant, price, category: classifyCatalogProduct(rule, product, price, mapping) }];
+    });
+
+    return cartItems.map(item => {
+      const unitPrice = (item.price * item.quantity - item.discountApplied) / item.quantity;
+      const catalogProduct = catalog.find(product => product.id === item.productId);
+
+      const variants = (catalogProduct ? getInStockVariants(catalogProduct) : [])
+        .filter(variant => variant.id !== item.variantId && toPrice(variant.price) < unitPrice)
+        .reverse()
+        .slice(0, MAX_VARIANT_SUBSTITUTES)
+        .map(variant => ({
+          productId: item.productId,
+          variantId: variant.id,
+          title: `${catalogProduct!.title} - ${variant.title}`,
+          price: PricingEngine.roundCurrency(toPrice(variant.price), currency)
+        }));
+
+      const products = alternatives
+        .filter(alternative => alternative.category === item.budgetCategory && alternative.price < unitPrice)
+        .sort((a, b) =>
+          Number(b.product.productType === catalogProduct?.productType) - Number(a.product.productType === catalogProduct?.productType) ||
+          b.price - a.price)
+        .slice(0, MAX_ALTERNATIVE_SUBSTITUTES)
+        .map(alternative => ({
+          productId: alternative.product.id,
+          variantId: alternative.variant?.id,
+          title: alternative.product.title,
+          price: PricingEngine.roundCurrency(alternative.price, currency)
+        }));
+
+      return [...variants, ...products];
+    });
+  }
+
+  // The first page of the store's catalog, cached so cart updates do not each hit the platform
+  private async getCatalog(storeId: number, platform: Platform): Promise<Product[]> {
+    const cached = this.catalogCache.get(storeId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.products;
+    }
+
+    const integration = await IntegrationFactory.create(storeId, platform);
+    const { products } = await integration.getProducts({ limit: RECOMMENDATION_CATALOG_SIZE });
+    this.catalogCache.set(storeId, { products, expiresAt: Date.now() + CATALOG_CACHE_TTL_MS });
+    return products;
+  }
+
+  /**
+   * Apply the store's discount ladder to the cart. Tiers are in the store's currency and are
+   * converted to the cart's; each is measured against the cart's spending, net of budget
+   * discounts, in its eligible categories. The stacking policy picks which reached tiers apply.
+   *
+   * Each applied tier is a single-use code for the customer in the store's platform. A cart
+   * session keeps its codes while the same tiers apply; codes for tiers it no longer reaches are
+   * deleted from the platform. Tiers whose code cannot be created are left out.
+   */
   async checkAndApplyDiscounts(
     storeId: number,
     customerId: string,
     cartSessionId: number,
-    totalCartValue: number,
-    minimumThreshold: number
+    budgetBreakdown: CartBudgetBreakdown,
+    ladder: DiscountLadder,
+    currency: string,
+    rates: CurrencyRateTable,
+    platform: Platform
   ): Promise<AutoDiscountData[]> {
+    const reached = ladder.tiers.flatMap(tier => {
+      const spent = Object.entries(budgetBreakdown)
+        .filter(([category]) => !tier.categories?.length || tier.categories.includes(category))
+        .reduce((sum, [, category]) => sum + category.spent, 0);
+      const minimumAmount = PricingEngine.roundCurrency(MoneyMath.convertMajor(tier.minimumAmount, rates.baseCurrency, currency, rates), currency);
+      if (spent <= 0 || spent < minimumAmount) {
+        return [];
+      }
+
+      const value = tier.type === "percentage"
+        ? tier.value
+        : PricingEngine.roundCurrency(MoneyMath.convertMajor(tier.value, rates.baseCurrency, currency, rates), currency);
+      const amount = tier.type === "percentage" ? spent * value / 100 : tier.type === "fixed_amount" ? Math.min(value, spent) : value;
+      return [{ tier, minimumAmount, value, appliedAmount: PricingEngine.roundCurrency(amount, currency) }];
+    });
+
+    const liveDiscounts = await this.getLiveDiscounts(cartSessionId);
+    const keptIds = new Set<number>();
+    let integration: IIntegration | null = null;
+    try {
+      integration = await IntegrationFactory.create(storeId, platform);
+    } catch (error) {
+      console.error("Auto discounts unavailable without a platform connection:", error);
+    }
+
+    const cartSpent = Object.values(budgetBreakdown).reduce((sum, category) => sum + category.spent, 0);
+    let discounted = 0;
     const appliedDiscounts: AutoDiscountData[] = [];
 
-    // Apply percentage discount if cart meets minimum
-    if (totalCartValue >= minimumThreshold) {
-      const discountPercentage = this.calculateDiscountPercentage(totalCartValue, minimumThreshold);
-      const discountAmount = totalCartValue * (discountPercentage / 100);
-      
-      const discountCode = `BUDGET${Math.random().toString(36).substring(2, 8).toUpperCase()}`;
-      
-      const discount: AutoDiscountData = {
-        code: discountCode,
-        type: "percentage",
-        value: discountPercentage,
-        minimumAmount: minimumThreshold,
-        appliedAmount: discountAmount,
-        reason: `Budget-conscious shopping reward: ${discountPercentage}% off for spending over $${minimumThreshold}`
-      };
+    for (const { tier, minimumAmount, value, appliedAmount: amount } of selectDiscountTiers(reached, ladder.stacking)) {
+      // Stacked order discounts never take the cart below zero
+      const appliedAmount = tier.type === "free_shipping"
+        ? amount
+        : PricingEngine.roundCurrency(Math.min(amount, Math.max(cartSpent - discounted, 0)), currency);
+      discounted += tier.type === "free_shipping" ? 0 : appliedAmount;
 
-      // Store in database
-      await db.insert(autoDiscounts).values({
-        storeId,
-        customerId,
-        cartSessionId,
-        discountCode,
-        discountType: "percentage",
-        discountValue: discountPercentage.toString(),
-        minimumAmount: minimumThreshold.toString(),
-        appliedAmount: discountAmount.toString(),
-        isApplied: true,
-        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000) // 24 hours
+      // Platforms take a percentage of the whole order, so a tier limited to some categories
+      // becomes its amount off; amounts go to the platform in the store's currency
+      const toStoreCurrency = (amount: number) =>
+        PricingEngine.roundCurrency(MoneyMath.convertMajor(amount, currency, rates.baseCurrency, rates), rates.baseCurrency);
+      const platformDiscount = tier.type === "percentage" && !tier.categories?.length
+        ? { type: "percentage" as const, value: tier.value }
+        : tier.type === "free_shipping"
+          ? { type: "free_shipping" as const, value: 0 }
+          : { type: "fixed_amount" as const, value: toStoreCurrency(appliedAmount) };
+
+      const existing = liveDiscounts.find(discount =>
+        !keptIds.has(discount.id) &&
+        discount.discountType === platformDiscount.type &&
+        parseFloat(discount.discountValue) === platformDiscount.value
+      );
+      let code: string | null = null;
+      if (existing) {
+        keptIds.add(existing.id);
+        code = existing.discountCode;
+      } else if (integration) {
+        code = await this.createPlatformDiscount(integration, {
+          storeId,
+          customerId,
+          cartSessionId,
+          discountType: platformDiscount.type,
+          discountValue: platformDiscount.value.toString(),
+          minimumAmount: tier.categories?.length ? null : tier.minimumAmount.toString()
+        });
+      }
+      if (!code) {
+        continue;
+      }
+
+      const minimum = MoneyMath.format(MoneyMath.fromMajor(minimumAmount, currency));
+      const offer = tier.type === "percentage"
+        ? `${value}% off`
+        : tier.type === "fixed_amount" ? `${MoneyMath.format(MoneyMath.fromMajor(value, currency))} off` : "free shipping";
+
+      appliedDiscounts.push({
+        code,
+        type: tier.type,
+        value,
+        minimumAmount,
+        appliedAmount,
+        reason: `${tier.name}: ${offer} for spending ${minimum} or more` +
+          (tier.categories?.length ? ` on ${tier.categories.join(", ")}` : "")
       });
+    }
 
-      appliedDiscounts.push(discount);
+    // The cart fell below these codes' tiers or moved to others
+    if (integration) {
+      for (const discount of liveDiscounts.filter(discount => !keptIds.has(discount.id))) {
+        await this.revokeDiscount(integration, discount);
+      }
     }
 
-    // Add free shipping for larger orders
-    if (totalCartValue >= minimumThreshold * 1.5) {
-      const freeShipping: AutoDiscountData = {
-        code: `FREESHIP${Math.random().toString(36).substring(2, 6).toUpperCase()}`,
-        type: "free_shipping",
-        value: 0,
-        appliedAmount: 10, // Assume $10 shipping saved
-        reason: "Free shipping for budget-conscious bulk orders"
-      };
+    return appliedDiscounts;
+  }
 
-      appliedDiscounts.push(freeShipping);
+  /**
+   * Mark the store's outstanding codes used on an order as redeemed, with the discount each gave
+   */
+  async markDiscountsRedeemed(storeId: number, order: Purchase): Promise<AutoDiscount[]> {
+    const redeemed: AutoDiscount[] = [];
+    for (const { code, amount } of order.discountCodes) {
+      const updated = await db
+        .update(autoDiscounts)
+        .set({ isApplied: true, appliedAmount: amount.toFixed(2), orderId: order.id, redeemedAt: new Date() })
+        .where(and(
+          eq(autoDiscounts.storeId, storeId),
+          eq(autoDiscounts.discountCode, code),
+          eq(autoDiscounts.isApplied, false)
+        ))
+        .returning();
+      redeemed.push(...updated);
     }
+    return redeemed;
+  }
 
-    return appliedDiscounts;
+  // The session's codes that can still be redeemed
+  private async getLiveDiscounts(cartSessionId: number): Promise<AutoDiscount[]> {
+    return db
+      .select()
+      .from(autoDiscounts)
+      .where(and(
+        eq(autoDiscounts.cartSessionId, cartSessionId),
+        eq(autoDiscounts.isApplied, false),
+        isNull(autoDiscounts.revokedAt),
+        gt(autoDiscounts.expiresAt, new Date())
+      ))
+      .orderBy(autoDiscounts.id);
+  }
+
+  // Create the code in the platform, then record it; null when the platform refuses it
+  private async createPlatformDiscount(
+    integration: IIntegration,
+    discount: Pick<InsertAutoDiscount, "storeId" | "customerId" | "cartSessionId" | "discountType" | "discountValue" | "minimumAmount">
+  ): Promise<string | null> {
+    const prefix = discount.discountType === "free_shipping" ? "FREESHIP" : "BUDGET";
+    const expiresAt = new Date(Date.now() + AUTO_DISCOUNT_TTL_MS);
+
+    try {
+      const created = await integration.createDiscount({
+        code: `${prefix}${crypto.randomBytes(5).toString("hex").toUpperCase()}`,
+        value: parseFloat(discount.discountValue),
+        valueType: discount.discountType === "percentage" ? "percentage" : discount.discountType === "fixed_amount" ? "fixed" : "free_shipping",
+        appliesTo: "order",
+        minimumAmount: discount.minimumAmount != null ? parseFloat(discount.minimumAmount) : undefined,
+        usageLimit: 1,
+        usageLimitPerCustomer: 1,
+        endsAt: expiresAt
+      });
+
+      await db.insert(autoDiscounts).values({
+        ...discount,
+        discountCode: created.code,
+        platformDiscountId: created.id.toString(),
+        platformRuleId: created.ruleId ?? null,
+        isApplied: false,
+        expiresAt
+      });
+      return created.code;
+    } catch (error) {
+      console.error("Failed to create auto discount code:", error);
+      return null;
+    }
   }
 
-  // Calculate discount percentage based on cart value
-  private calculateDiscountPercentage(cartValue: number, minimumThreshold: number): number {
-    const ratio = cartValue / minimumThreshold;
-    
-    if (ratio >= 3) return 15; // 15% for 3x minimum
-    if (ratio >= 2) return 10; // 10% for 2x minimum
-    if (ratio >= 1.5) return 7; // 7% for 1.5x minimum
-    return 5; // 5% for meeting minimum
+  // Delete the code from the platform; left live to retry on the next cart update if that fails
+  private async revokeDiscount(integration: IIntegration, discount: AutoDiscount): Promise<void> {
+    try {
+      if (discount.platformDiscountId) {
+        await integration.deleteDiscount({
+          id: discount.platformDiscountId,
+          code: discount.discountCode,
+          ruleId: discount.platformRuleId ?? undefined
+        });
+      }
+      await db
+        .update(autoDiscounts)
+        .set({ revokedAt: new Date() })
+        .where(eq(autoDiscounts.id, discount.id));
+    } catch (error) {
+      console.error("Failed to revoke auto discount code:", error);
+    }
   }
 
   // Get active cart session
@@ -295,4 +610,41 @@ export class PremiumCartTrackingService {
   }
 }
 
-export const cartTrackingService = new PremiumCartTrackingService();
\ No newline at end of file
+// Variants that can be sold, cheapest first; unknown stock counts as available
+function getInStockVariants(product: Product): ProductVariant[] {
+  return product.variants
+    .filter(variant => variant.inventoryQuantity === undefined || variant.inventoryQuantity > 0)
+    .sort((a, b) => a.price - b.price);
+}
+
+function classifyCatalogProduct(rule: PricingRule | undefined, product: Product, price: number, mapping: CategoryMapping): string {
+  return PricingEngine.classifyProduct(rule, {
+    productId: product.id,
+    basePrice: price,
+    handle: product.handle,
+    collections: product.collections,
+    tags: product.tags,
+    productType: product.productType,
+    vendor: product.vendor
+  }, null, mapping).category;
+}
+
+// Reached tiers the stacking policy applies, most valuable first; equal savings favor the higher tier
+function selectDiscountTiers<T extends { tier: DiscountTier; minimumAmount: number; appliedAmount: number }>(
+  reached: T[],
+  stacking: DiscountStackingPolicy
+): T[] {
+  const ranked = [...reached].sort((a, b) => b.appliedAmount - a.appliedAmount || b.minimumAmount - a.minimumAmount);
+  if (stacking === "all") {
+    return ranked;
+  }
+  if (stacking === "best") {
+    return ranked.slice(0, 1);
+  }
+
+  const orderDiscount = ranked.find(({ tier }) => tier.type !== "free_shipping");
+  const freeShipping = ranked.find(({ tier }) => tier.type === "free_shipping");
+  return [orderDiscount, freeShipping].filter((selected): selected is T => selected !== undefined);
+}
+
+export const cartTrackingService = new PremiumCartTrackingService();
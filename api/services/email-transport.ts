@@ -0,0 +1,56 @@
+import { promises as fs } from "fs";
+import path from "path";
+import crypto from "crypto";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = "BudgetPrice <no-reply@budgetprice.app>";
+
+// Writes each message as an .eml file for a local mail server or catcher to pick up; the
+// directory comes from EMAIL_OUTBOX_DIR
+export class LocalEmailTransport implements EmailTransport {
+  constructor(
+    private directory: string = process.env.EMAIL_OUTBOX_DIR ?? path.join(process.cwd(), "outbox"),
+    private from: string = process.env.EMAIL_FROM ?? DEFAULT_FROM
+  ) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const id = crypto.randomUUID();
+    const boundary = `budgetprice-${id}`;
+    const headers = [
+      `Message-ID: <${id}@budgetprice.app>`,
+      `Date: ${new Date().toUTCString()}`,
+      `From: ${this.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      "MIME-Version: 1.0"
+    ];
+    const body = message.html
+      ? [
+          `Content-Type: multipart/alternative; boundary="${boundary}"`,
+          "",
+          `--${boundary}`,
+          "Content-Type: text/plain; charset=utf-8",
+          "",
+          message.text,
+          `--${boundary}`,
+          "Content-Type: text/html; charset=utf-8",
+          "",
+          message.html,
+          `--${boundary}--`
+        ]
+      : ["Content-Type: text/plain; charset=utf-8", "", message.text];
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, `${Date.now()}-${id}.eml`), [...headers, ...body].join("\r\n"));
+  }
+}
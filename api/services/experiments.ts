@@ -0,0 +1,103 @@
+import {
+  experimentVariantsSchema,
+  type Experiment,
+  type ExperimentVariantDefinition,
+  type PricingRule
+} from "../../shared/schema.js";
+import { Experiments, type ExperimentReport } from "../../shared/experiments.js";
+import { storage, type IStorage } from "../storage";
+
+// The experiment arm a customer or session was priced under
+export interface ExperimentExposure {
+  experimentId: number;
+  variantKey: string;
+}
+
+export interface ExperimentPricingRule {
+  rule: PricingRule | undefined;
+  exposure?: ExperimentExposure;
+}
+
+// A/B tests between pricing rule versions: buckets subjects, prices them with their arm's
+// rule, and attributes purchases and events to the arm for the report
+export class ExperimentService {
+  constructor(private storage: IStorage) {}
+
+  async getRunningExperiment(storeId: number): Promise<Experiment | undefined> {
+    const experiments = await this.storage.getExperimentsByStoreId(storeId);
+    return experiments.find(experiment => experiment.status === "running");
+  }
+
+  getVariants(experiment: Experiment): ExperimentVariantDefinition[] {
+    return experimentVariantsSchema.parse(experiment.variants);
+  }
+
+  // Rule IDs the variants name that are not versions of the store's pricing rule
+  async findUnknownRules(storeId: number, variants: ExperimentVariantDefinition[]): Promise<number[]> {
+    const ruleIds = new Set((await this.storage.getPricingRulesByStoreId(storeId)).map(rule => rule.id));
+    return variants.map(variant => variant.ruleId).filter(ruleId => !ruleIds.has(ruleId));
+  }
+
+  /**
+   * The rule to price a subject with: their arm's rule while an experiment runs, otherwise
+   * the store's effective rule. The first assignment sticks even if weights change later.
+   */
+  async resolvePricingRule(storeId: number, subjectId: string | undefined, fallback: PricingRule | undefined): Promise<ExperimentPricingRule> {
+    const experiment = subjectId ? await this.getRunningExperiment(storeId) : undefined;
+    if (!experiment || !subjectId) {
+      return { rule: fallback };
+    }
+
+    const variants = this.getVariants(experiment);
+    const bucketed = Experiments.assignVariant(experiment.id, variants, subjectId);
+    const assignment = await this.storage.assignExperimentVariant({
+      experimentId: experiment.id,
+      subjectId,
+      variantKey: bucketed.key
+    });
+    const variant = variants.find(candidate => candidate.key === assignment.variantKey) ?? bucketed;
+    const rules = await this.storage.getPricingRulesByStoreId(storeId);
+
+    return {
+      rule: rules.find(rule => rule.id === variant.ruleId) ?? fallback,
+      exposure: { experimentId: experiment.id, variantKey: variant.key }
+    };
+  }
+
+  // The running experiment's arm for the first of the IDs (customer, then session) that was assigned one
+  async findExposure(storeId: number, subjectIds: Array<string | null | undefined>): Promise<ExperimentExposure | undefined> {
+    const ids = subjectIds.filter((id): id is string => !!id);
+    const experiment = ids.length > 0 ? await this.getRunningExperiment(storeId) : undefined;
+    if (!experiment) {
+      return undefined;
+    }
+
+    const assignments = await this.storage.getExperimentAssignments(experiment.id, ids);
+    const assignment = ids
+      .map(id => assignments.find(candidate => candidate.subjectId === id))
+      .find(candidate => candidate !== undefined);
+    return assignment ? { experimentId: experiment.id, variantKey: assignment.variantKey } : undefined;
+  }
+
+  async getReport(experiment: Experiment): Promise<ExperimentReport> {
+    const assignments = await this.storage.getExperimentAssignments(experiment.id);
+    const purchases = await this.storage.getExperimentPurchases(experiment.id);
+    const assignedIds = new Set(assignments.map(assignment => assignment.subjectId));
+
+    return Experiments.analyze(
+      this.getVariants(experiment),
+      assignments,
+      // Purchases are recorded per order line
+      Experiments.groupOrders(purchases.map(purchase => ({
+        // Anonymous buyers were bucketed by session
+        subjectId: !assignedIds.has(purchase.customerId) && purchase.sessionId ? purchase.sessionId : purchase.customerId,
+        variantKey: purchase.experimentVariant ?? "",
+        orderId: purchase.orderId,
+        revenue: parseFloat(purchase.finalPrice),
+        discount: parseFloat(purchase.budgetDiscount ?? "0")
+      })))
+    );
+  }
+}
+
+export const experimentService = new ExperimentService(storage);
@@ -0,0 +1,276 @@
+import { budgetDataSchema, type PricingRule } from "../../shared/schema.js";
+import { PricingEngine, type PricingProductInput, type TaxSettings } from "../../shared/pricing-engine.js";
+import { MoneyMath } from "../../shared/money.js";
+import { storage, type IStorage } from "../storage";
+import { IntegrationFactory, type Platform } from "../integrations/integration-factory";
+
+export const INCOME_PRESETS = ["low", "median", "high", "mixed"] as const;
+export type IncomePreset = typeof INCOME_PRESETS[number];
+
+// Synthetic monthly incomes in the store's base currency, spread across each bracket
+const LOW_INCOMES = [1200, 1600, 2000, 2400, 2800, 3200];
+const MEDIAN_INCOMES = [3000, 3800, 4500, 5200, 6000, 7000];
+const HIGH_INCOMES = [7500, 9000, 11000, 13500, 16000, 20000];
+const PRESET_INCOMES: Record<IncomePreset, number[]> = {
+  low: LOW_INCOMES,
+  median: MEDIAN_INCOMES,
+  high: HIGH_INCOMES,
+  mixed: [...LOW_INCOMES, ...MEDIAN_INCOMES, ...HIGH_INCOMES]
+};
+
+// Historical incomes are reduced to this many quantiles so a simulation stays a few thousand quotes per product
+const MAX_INCOME_SAMPLES = 50;
+export const MAX_SIMULATION_PRODUCTS = 500;
+const SIMULATION_PAGE_SIZE = 250;
+
+// A catalog entry priced in the store's base currency
+export interface SimulationProduct {
+  productId: string;
+  variantId?: string;
+  title?: string;
+  price: number;
+  shopifyDiscounts?: number;
+  inventoryQuantity?: number;
+  category?: string;
+  handle?: string;
+  collections?: string[];
+  tags?: string[];
+  productType?: string;
+  vendor?: string;
+}
+
+export type SimulationCatalogSource =
+  | { source: "platform"; platform: Platform; limit: number }
+  | { source: "upload"; products: SimulationProduct[] };
+
+export type SimulationIncomeSource =
+  | { source: "sessions"; limit: number }
+  | { source: "preset"; preset: IncomePreset };
+
+export interface SimulationCatalog {
+  products: SimulationProduct[];
+  truncated: boolean; // The platform had more products than the limit
+}
+
+export interface SimulationIncomes {
+  samples: number[]; // Monthly incomes, ascending
+  sessions: number; // Budget sessions the samples were drawn from; 0 for presets
+}
+
+export interface SimulationMetrics {
+  affordableShare: number; // Product and income pairs that fit the customer's category budget
+  newlyAffordableShare: number; // Pairs that fit only because of the budget discount
+  averageDiscountPercentage: number;
+  discountExposure: number; // Discount given if every product sold once to a customer from the distribution
+}
+
+export interface CategorySimulation extends SimulationMetrics {
+  category: string;
+  name: string;
+  products: number;
+}
+
+export interface RuleSimulation extends SimulationMetrics {
+  ruleVersion: number;
+  categories: CategorySimulation[];
+}
+
+export interface PricingSimulation {
+  currency: string;
+  products: number;
+  truncated: boolean;
+  incomes: SimulationIncomes;
+  candidate: RuleSimulation;
+  current: RuleSimulation | null; // The rule in effect today, for comparison; null before the first save
+}
+
+interface MetricTotals {
+  products: number;
+  quotes: number;
+  affordable: number;
+  newlyAffordable: number;
+  discountPercentage: number;
+  discount: number;
+}
+
+// "What if" pricing: runs a draft rule over a catalog and a distribution of customer incomes
+// to project affordability and discount cost before the rule is published
+export class PricingSimulationService {
+  constructor(private storage: IStorage) {}
+
+  // Products from the store's platform (first variant of each) or an uploaded list
+  async getCatalog(storeId: number, catalog: SimulationCatalogSource): Promise<SimulationCatalog> {
+    if (catalog.source === "upload") {
+      return { products: catalog.products, truncated: false };
+    }
+
+    const integration = await IntegrationFactory.create(storeId, catalog.platform);
+    const products: SimulationProduct[] = [];
+    let cursor: string | undefined;
+    let hasNextPage = true;
+
+    while (hasNextPage && products.length < catalog.limit) {
+      const page = await integration.getProducts({
+        limit: Math.min(SIMULATION_PAGE_SIZE, catalog.limit - products.length),
+        cursor
+      });
+
+      for (const product of page.products.slice(0, catalog.limit - products.length)) {
+        const variant = product.variants[0];
+        products.push({
+          productId: product.id,
+          variantId: variant?.id,
+          title: product.title,
+          price: variant?.price ?? product.priceRange.min,
+          inventoryQuantity: variant?.inventoryQuantity,
+          handle: product.handle,
+          collections: product.collections,
+          tags: product.tags,
+          productType: product.productType,
+          vendor: product.vendor
+        });
+      }
+
+      hasNextPage = page.hasNextPage && page.cursor !== undefined && page.products.length > 0;
+      cursor = page.cursor;
+    }
+
+    return { products, truncated: hasNextPage };
+  }
+
+  // Monthly incomes from the store's recent budget sessions, converted to its base currency, or a preset
+  async getIncomes(storeId: number, incomes: SimulationIncomeSource): Promise<SimulationIncomes> {
+    if (incomes.source === "preset") {
+      return { samples: [...PRESET_INCOMES[incomes.preset]].sort((a, b) => a - b), sessions: 0 };
+    }
+
+    const store = await this.storage.getStore(storeId);
+    const rates = PricingEngine.getCurrencyRates(store);
+    const sessions = await this.storage.getBudgetSessionsByStoreId(storeId, incomes.limit);
+    const values = sessions.flatMap(session => {
+      const budget = budgetDataSchema.partial().safeParse(session.budgetData);
+      const income = budget.success ? budget.data.monthlyIncome : undefined;
+      const currency = MoneyMath.normalizeCurrency((budget.success && budget.data.currency) || rates.baseCurrency);
+      if (!income || income <= 0 || !MoneyMath.canConvert(currency, rates.baseCurrency, rates)) {
+        return [];
+      }
+      return [MoneyMath.convertMajor(income, currency, rates.baseCurrency, rates)];
+    });
+
+    return { samples: toQuantiles(values, MAX_INCOME_SAMPLES), sessions: values.length };
+  }
+
+  /**
+   * Price every product for every income under the candidate rule and, for comparison, the
+   * current one. Both rules should already be clamped to the store's plan.
+   */
+  async simulate(
+    storeId: number,
+    candidate: PricingRule,
+    current: PricingRule | undefined,
+    catalog: SimulationCatalog,
+    incomes: SimulationIncomes
+  ): Promise<PricingSimulation> {
+    const store = await this.storage.getStore(storeId);
+    const currency = PricingEngine.getCurrencyRates(store).baseCurrency;
+    const tax = PricingEngine.getTaxSettings(store);
+    const productIds = catalog.products.map(product => product.productId);
+    const costs = await this.storage.getProductCosts(storeId, productIds);
+    // Last sales only matter when either rule boosts products that stopped selling
+    const staleChecks = [candidate, current].some(rule => PricingEngine.getInventorySettings(rule)?.staleAfterDays);
+    const lastSold = staleChecks ? await this.storage.getLastSoldDates(storeId, productIds) : new Map<string, Date>();
+    const products: PricingProductInput[] = catalog.products.map(product => ({
+      productId: product.productId,
+      variantId: product.variantId,
+      basePrice: product.price,
+      shopifyDiscounts: product.shopifyDiscounts,
+      inventoryQuantity: product.inventoryQuantity,
+      lastSoldAt: lastSold.get(product.productId),
+      category: product.category,
+      handle: product.handle,
+      collections: product.collections,
+      tags: product.tags,
+      productType: product.productType,
+      vendor: product.vendor,
+      unitCost: PricingEngine.resolveUnitCost(costs, product.productId, product.variantId),
+      currency
+    }));
+
+    return {
+      currency,
+      products: products.length,
+      truncated: catalog.truncated,
+      incomes,
+      candidate: this.simulateRule(candidate, products, incomes.samples, currency, tax),
+      current: current ? this.simulateRule(current, products, incomes.samples, currency, tax) : null
+    };
+  }
+
+  private simulateRule(
+    rule: PricingRule,
+    products: PricingProductInput[],
+    incomes: number[],
+    currency: string,
+    tax: TaxSettings
+  ): RuleSimulation {
+    const categories = PricingEngine.getBudgetCategories(rule);
+    const totals = new Map<string, MetricTotals>(categories.map(category => [category.key, emptyTotals()]));
+    const overall = emptyTotals();
+
+    incomes.forEach((income, incomeIndex) => {
+      const budget = PricingEngine.calculateBudget(income, rule, undefined, "monthly", currency);
+
+      for (const product of products) {
+        const pricing = PricingEngine.calculateProductPricing(rule, product, budget, { tax });
+        const category = totals.get(pricing.budgetCategory);
+        const discount = pricing.budgetDiscount + pricing.repeatCustomerDiscount;
+
+        for (const tally of category ? [overall, category] : [overall]) {
+          // Classification does not depend on income, so products are counted on the first pass
+          tally.products += incomeIndex === 0 ? 1 : 0;
+          tally.quotes += 1;
+          tally.affordable += pricing.withinBudget ? 1 : 0;
+          tally.newlyAffordable += pricing.withinBudget && discount > 0 ? 1 : 0;
+          tally.discountPercentage += pricing.discountPercentage;
+          tally.discount += discount;
+        }
+      }
+    });
+
+    return {
+      ruleVersion: rule.version,
+      ...toMetrics(overall, incomes.length, currency),
+      categories: categories.map(category => ({
+        category: category.key,
+        name: category.name,
+        products: totals.get(category.key)!.products,
+        ...toMetrics(totals.get(category.key)!, incomes.length, currency)
+      }))
+    };
+  }
+}
+
+function emptyTotals(): MetricTotals {
+  return { products: 0, quotes: 0, affordable: 0, newlyAffordable: 0, discountPercentage: 0, discount: 0 };
+}
+
+function toMetrics(totals: MetricTotals, incomeCount: number, currency: string): SimulationMetrics {
+  const share = (count: number) => totals.quotes > 0 ? Math.round(count / totals.quotes * 10000) / 10000 : 0;
+  return {
+    affordableShare: share(totals.affordable),
+    newlyAffordableShare: share(totals.newlyAffordable),
+    averageDiscountPercentage: totals.quotes > 0 ? Math.round(totals.discountPercentage / totals.quotes * 100) / 100 : 0,
+    discountExposure: incomeCount > 0 ? PricingEngine.roundCurrency(totals.discount / incomeCount, currency) : 0
+  };
+}
+
+// Evenly spaced quantiles of the values, ascending; all of them when there are few enough
+function toQuantiles(values: number[], count: number): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  if (sorted.length <= count) {
+    return sorted;
+  }
+  return Array.from({ length: count }, (_, i) => sorted[Math.round(i * (sorted.length - 1) / (count - 1))]);
+}
+
+export const pricingSimulationService = new PricingSimulationService(storage);
@@ -0,0 +1,136 @@
+import type { InsertProductCost, ProductCost } from "../../shared/schema.js";
+import { storage, type IStorage } from "../storage";
+import { IntegrationFactory, type Platform } from "../integrations/integration-factory";
+
+export interface ProductCostImportError {
+  line: number;
+  message: string;
+}
+
+export interface ProductCostImportResult {
+  imported: number;
+  errors: ProductCostImportError[];
+}
+
+export interface ProductCostSyncResult {
+  synced: number;
+  failedProducts: string[];
+}
+
+const REQUIRED_COLUMNS = ["product_id", "cost"];
+
+// Unit costs behind the pricing engine's margin floor, from CSV uploads or the store's platform
+export class ProductCostService {
+  constructor(private storage: IStorage) {}
+
+  async getCosts(storeId: number, productIds?: string[]): Promise<ProductCost[]> {
+    return await this.storage.getProductCosts(storeId, productIds);
+  }
+
+  // CSV with a header row: product_id, cost and an optional variant_id column.
+  // Valid rows are saved even when others fail; errors name the offending line.
+  async importCsv(storeId: number, csv: string): Promise<ProductCostImportResult> {
+    const lines = csv.split(/\r?\n/);
+    const header = parseCsvLine(lines[0] ?? "").map(column => column.trim().toLowerCase());
+    const missing = REQUIRED_COLUMNS.filter(column => !header.includes(column));
+    if (missing.length > 0) {
+      return { imported: 0, errors: [{ line: 1, message: `Missing column(s): ${missing.join(", ")}` }] };
+    }
+
+    const productIndex = header.indexOf("product_id");
+    const variantIndex = header.indexOf("variant_id");
+    const costIndex = header.indexOf("cost");
+    const costs: InsertProductCost[] = [];
+    const errors: ProductCostImportError[] = [];
+
+    lines.slice(1).forEach((line, index) => {
+      if (line.trim() === "") return;
+
+      const values = parseCsvLine(line);
+      const productId = values[productIndex]?.trim();
+      const variantId = variantIndex >= 0 ? values[variantIndex]?.trim() ?? "" : "";
+      // Number() rejects trailing text such as "12abc" that parseFloat would read as 12
+      const rawCost = values[costIndex]?.trim() ?? "";
+      const cost = rawCost === "" ? NaN : Number(rawCost);
+
+      if (!productId) {
+        errors.push({ line: index + 2, message: "product_id is required" });
+      } else if (!Number.isFinite(cost) || cost < 0) {
+        errors.push({ line: index + 2, message: `Invalid cost "${values[costIndex] ?? ""}"` });
+      } else {
+        costs.push({ storeId, productId, variantId, cost: cost.toFixed(2), source: "csv" });
+      }
+    });
+
+    const saved = await this.storage.upsertProductCosts(dedupeCosts(costs));
+    return { imported: saved.length, errors };
+  }
+
+  // Pull unit costs for the given products from the store's platform
+  async syncFromPlatform(storeId: number, platform: Platform, productIds: string[]): Promise<ProductCostSyncResult> {
+    const integration = await IntegrationFactory.create(storeId, platform);
+    const costs: InsertProductCost[] = [];
+    const failedProducts: string[] = [];
+
+    for (const productId of productIds) {
+      try {
+        const variantCosts = await integration.getProductCosts(productId);
+        costs.push(...variantCosts.map(variantCost => ({
+          storeId,
+          productId: variantCost.productId,
+          variantId: variantCost.variantId,
+          cost: variantCost.cost.toFixed(2),
+          source: platform
+        })));
+      } catch (error) {
+        console.error(`Failed to fetch costs for product ${productId}:`, error);
+        failedProducts.push(productId);
+      }
+    }
+
+    const saved = await this.storage.upsertProductCosts(dedupeCosts(costs));
+    return { synced: saved.length, failedProducts };
+  }
+}
+
+// A single upsert may not touch the same row twice; the last occurrence wins
+function dedupeCosts(costs: InsertProductCost[]): InsertProductCost[] {
+  const byKey = new Map<string, InsertProductCost>();
+  for (const cost of costs) {
+    byKey.set(`${cost.productId}:${cost.variantId ?? ""}`, cost);
+  }
+  return Array.from(byKey.values());
+}
+
+// Split one CSV line, honoring double-quoted fields and "" escapes
+function parseCsvLine(line: string): string[] {
+  const values: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      values.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  values.push(current);
+  return values;
+}
+
+export const productCostService = new ProductCostService(storage);
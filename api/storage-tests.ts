@@ -0,0 +1,295 @@
+import { createStorage, type IStorage, type StorageBackend } from "./storage";
+
+// Storage contract test suite: the same checks run against every IStorage backend
+export class StorageTestSuite {
+  private results: TestResult[] = [];
+  private runId = `${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+
+  async runAllTests(backend: StorageBackend): Promise<StorageTestReport> {
+    console.log(`Running storage contract tests for ${backend} backend`);
+
+    this.results = [];
+    const startTime = Date.now();
+
+    try {
+      const storage = await createStorage(backend);
+
+      // Test 1: Users
+      await this.testUsers(storage);
+
+      // Test 2: Stores
+      const storeId = await this.testStores(storage);
+
+      if (storeId) {
+        // Test 3: Budget sessions
+        await this.testBudgetSessions(storage, storeId);
+
+        // Test 4: Pricing rules
+        await this.testPricingRules(storage, storeId);
+
+        // Test 5: Analytics
+        await this.testAnalytics(storage, storeId);
+
+        // Test 6: Customer purchases
+        await this.testCustomerPurchases(storage, storeId);
+
+        // Test 7: Customer budget history
+        await this.testCustomerBudgetHistory(storage, storeId);
+      }
+    } catch (error) {
+      this.addResult("Backend Initialization", "failed", `Failed to create ${backend} storage: ${error}`);
+    }
+
+    return this.buildReport(backend, startTime);
+  }
+
+  private buildReport(backend: StorageBackend, startTime: number): StorageTestReport {
+    const endTime = Date.now();
+
+    return {
+      backend,
+      totalTests: this.results.length,
+      passed: this.results.filter(r => r.status === "passed").length,
+      failed: this.results.filter(r => r.status === "failed").length,
+      duration: endTime - startTime,
+      results: this.results
+    };
+  }
+
+  private async testUsers(storage: IStorage): Promise<void> {
+    const testName = "User Operations Test";
+    try {
+      const user = await storage.createUser({
+        username: `contract_${this.runId}`,
+        email: `contract_${this.runId}@example.com`,
+        password: "hashed_password"
+      });
+
+      assert(user.id > 0, "created user has no id");
+      assert(user.tier === "free", `expected default tier "free", got "${user.tier}"`);
+      assert((await storage.getUser(user.id))?.email === user.email, "getUser did not return the created user");
+      assert((await storage.getUserByUsername(user.username))?.id === user.id, "getUserByUsername mismatch");
+      assert((await storage.getUserByEmail(user.email))?.id === user.id, "getUserByEmail mismatch");
+
+      const updated = await storage.updateUser(user.id, { tier: "pro" });
+      assert(updated?.tier === "pro", "updateUser did not persist tier");
+      assert(await storage.getUser(-1) === undefined, "getUser returned a result for an unknown id");
+
+      this.addResult(testName, "passed", "Create, lookup and update behave consistently");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private async testStores(storage: IStorage): Promise<number | null> {
+    const testName = "Store Operations Test";
+    try {
+      const user = await storage.createUser({
+        username: `store_owner_${this.runId}`,
+        email: `store_owner_${this.runId}@example.com`,
+        password: "hashed_password"
+      });
+      const domain = `contract-${this.runId}.myshopify.com`;
+      const store = await storage.createStore({ userId: user.id, shopifyDomain: domain });
+
+      assert(store.isActive === true, "new store should be active by default");
+      assert(store.platform === "shopify", `expected default platform "shopify", got "${store.platform}"`);
+      assert(store.domain === domain, "store domain should default to the Shopify domain");
+      assert((await storage.getStoreByDomain(domain))?.id === store.id, "getStoreByDomain mismatch");
+      assert((await storage.getStoresByUserId(user.id)).length === 1, "getStoresByUserId should return one store");
+
+      const updated = await storage.updateStore(store.id, { autoDiscountEnabled: true });
+      assert(updated?.autoDiscountEnabled === true, "updateStore did not persist flag");
+
+      this.addResult(testName, "passed", `Store ${store.id} created and updated`);
+      return store.id;
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+      return null;
+    }
+  }
+
+  private async testBudgetSessions(storage: IStorage, storeId: number): Promise<void> {
+    const testName = "Budget Session Test";
+    try {
+      const sessionId = `session_${this.runId}`;
+      await storage.createBudgetSession({
+        sessionId,
+        storeId,
+        budgetData: { monthlyIncome: 4000 }
+      });
+
+      const session = await storage.getBudgetSession(sessionId);
+      assert(session?.storeId === storeId, "getBudgetSession did not return the created session");
+      assert(session?.isOptedIn === false, "isOptedIn should default to false");
+
+      const updated = await storage.updateBudgetSession(sessionId, { isOptedIn: true });
+      assert(updated?.isOptedIn === true, "updateBudgetSession did not persist opt-in");
+      assert(await storage.getBudgetSession(`missing_${this.runId}`) === undefined, "unknown session should be undefined");
+
+      this.addResult(testName, "passed", "Sessions round-trip by sessionId");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private async testPricingRules(storage: IStorage, storeId: number): Promise<void> {
+    const testName = "Pricing Rule Test";
+    try {
+      const first = await storage.createPricingRule({ storeId, name: "Contract Rule A" });
+      assert(first.maxBudgetApplications === -1, "maxBudgetApplications should default to unlimited");
+      assert(first.enabledForProducts === "all", "enabledForProducts should default to all");
+      assert(parseFloat(first.needsPercentage ?? "0") === 50, "needsPercentage should default to 50");
+
+      await storage.updatePricingRule(first.id, { isActive: false });
+      const second = await storage.createPricingRule({ storeId, name: "Contract Rule B", maxDiscountPercentage: "15.00" });
+
+      const active = await storage.getActivePricingRule(storeId);
+      assert(active?.id === second.id, "getActivePricingRule should return the only active rule");
+      assert((await storage.getPricingRulesByStoreId(storeId)).length === 2, "getPricingRulesByStoreId should return both rules");
+
+      // A scheduled version overrides the standing rule only inside its window
+      const startsAt = new Date(Date.now() + 60 * 60 * 1000);
+      const endsAt = new Date(startsAt.getTime() + 24 * 60 * 60 * 1000);
+      const holiday = await storage.createPricingRule({ storeId, name: "Contract Rule C", version: 3, startsAt, endsAt });
+      assert((await storage.getActivePricingRule(storeId))?.id === second.id, "a future schedule should not take effect yet");
+      const during = await storage.getActivePricingRule(storeId, new Date(startsAt.getTime() + 1000));
+      assert(during?.id === holiday.id, "a scheduled rule should win inside its window");
+      assert((await storage.getActivePricingRule(storeId, endsAt))?.id === second.id, "the standing rule should return once the window ends");
+
+      this.addResult(testName, "passed", "Defaults, active rule and schedule resolution match");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private async testAnalytics(storage: IStorage, storeId: number): Promise<void> {
+    const testName = "Analytics Test";
+    try {
+      for (let i = 0; i < 3; i++) {
+        await storage.createAnalyticsEvent({ storeId, eventType: "contract_test", eventData: { index: i } });
+      }
+
+      const events = await storage.getAnalyticsByStoreId(storeId);
+      assert(events.length === 3, `expected 3 events, got ${events.length}`);
+      assert((await storage.getAnalyticsByStoreId(storeId, 2)).length === 2, "limit was not applied");
+
+      this.addResult(testName, "passed", "Events stored and limited per store");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private async testCustomerPurchases(storage: IStorage, storeId: number): Promise<void> {
+    const testName = "Customer Purchase Test";
+    try {
+      const customerId = `customer_${this.runId}`;
+      const orderId = `order_${this.runId}`;
+      await storage.createCustomerPurchase({
+        storeId, customerId, productId: "product_a", orderId, originalPrice: "100.00", finalPrice: "80.00"
+      });
+      await storage.createCustomerPurchase({
+        storeId, customerId, productId: "product_b", orderId, originalPrice: "50.00", finalPrice: "50.00"
+      });
+
+      const all = await storage.getCustomerPurchases(storeId, customerId);
+      assert(all.length === 2, `expected 2 purchases, got ${all.length}`);
+      assert(all.every(p => p.budgetApplicationCount === 1), "budgetApplicationCount should default to 1");
+
+      const byProduct = await storage.getCustomerPurchasesByProduct(storeId, customerId, "product_a");
+      assert(byProduct.length === 1 && byProduct[0].finalPrice === "80.00", "getCustomerPurchasesByProduct mismatch");
+
+      const lastSold = await storage.getLastSoldDates(storeId, ["product_a", "product_c"]);
+      assert(lastSold.get("product_a")?.getTime() === byProduct[0].purchaseDate?.getTime(), "getLastSoldDates should return the latest purchase");
+      assert(!lastSold.has("product_b") && !lastSold.has("product_c"), "getLastSoldDates should only cover requested products that sold");
+
+      const coPurchases = await storage.getCoPurchaseCounts(storeId, ["product_a"]);
+      assert(coPurchases.get("product_b") === 1 && !coPurchases.has("product_a"), "getCoPurchaseCounts should count products sharing an order");
+
+      this.addResult(testName, "passed", "Purchases filtered by customer and product, with last sale dates and co-purchases");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private async testCustomerBudgetHistory(storage: IStorage, storeId: number): Promise<void> {
+    const testName = "Customer Budget History Test";
+    try {
+      const customerId = `budget_customer_${this.runId}`;
+      const day = 24 * 60 * 60 * 1000;
+      const now = Date.now();
+
+      await storage.createCustomerBudgetHistory({
+        storeId, customerId,
+        budgetStartDate: new Date(now - 60 * day),
+        budgetEndDate: new Date(now - 30 * day)
+      });
+      const current = await storage.createCustomerBudgetHistory({
+        storeId, customerId,
+        monthlyIncome: "4000.00",
+        budgetStartDate: new Date(now - day),
+        budgetEndDate: new Date(now + 29 * day)
+      });
+
+      const active = await storage.getActiveCustomerBudget(storeId, customerId);
+      assert(active?.id === current.id, "getActiveCustomerBudget should return the current period");
+      assert(active?.remainingApplications === -1, "remainingApplications should default to unlimited");
+      assert((await storage.getCustomerBudgetHistory(storeId, customerId)).length === 2, "history should contain both periods");
+
+      const updated = await storage.updateCustomerBudgetHistory(current.id, { isActive: false });
+      assert(updated?.isActive === false, "updateCustomerBudgetHistory did not persist isActive");
+      assert(await storage.getActiveCustomerBudget(storeId, customerId) === undefined, "inactive period should not be active");
+
+      this.addResult(testName, "passed", "Active period resolved and updated in history");
+    } catch (error) {
+      this.addResult(testName, "failed", `Error: ${error}`);
+    }
+  }
+
+  private addResult(testName: string, status: TestStatus, message: string): void {
+    this.results.push({
+      testName,
+      status,
+      message,
+      timestamp: new Date()
+    });
+    console.log(`[${status.toUpperCase()}] ${testName}: ${message}`);
+  }
+}
+
+function assert(condition: boolean, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+interface TestResult {
+  testName: string;
+  status: TestStatus;
+  message: string;
+  timestamp: Date;
+}
+
+type TestStatus = "passed" | "failed" | "skipped";
+
+interface StorageTestReport {
+  backend: StorageBackend;
+  totalTests: number;
+  passed: number;
+  failed: number;
+  duration: number;
+  results: TestResult[];
+}
+
+// Export test runner function: runs the contract against both backends
+export async function runStorageTests(): Promise<StorageTestReport[]> {
+  const backends: StorageBackend[] = ["memory", "database"];
+  const reports: StorageTestReport[] = [];
+
+  for (const backend of backends) {
+    const suite = new StorageTestSuite();
+    reports.push(await suite.runAllTests(backend));
+  }
+
+  return reports;
+}
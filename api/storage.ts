@@ -1,13 +1,23 @@
 import { 
-  users, stores, budgetSessions, pricingRules, analytics, customerPurchases, customerBudgetHistory,
+  users, stores, budgetSessions, pricingRules, analytics, customerPurchases, customerBudgetHistory, priceQuoteRedemptions, productCosts,
+  experiments, experimentAssignments,
   type User, type InsertUser,
   type Store, type InsertStore,
   type BudgetSession, type InsertBudgetSession,
   type PricingRule, type InsertPricingRule,
   type Analytics, type InsertAnalytics,
   type CustomerPurchase, type InsertCustomerPurchase,
-  type CustomerBudgetHistory, type InsertCustomerBudgetHistory
+  type CustomerBudgetHistory, type InsertCustomerBudgetHistory,
+  type PriceQuoteRedemption, type InsertPriceQuoteRedemption,
+  type ProductCost, type InsertProductCost,
+  type Experiment, type InsertExperiment,
+  type ExperimentAssignment, type InsertExperimentAssignment
 } from "../shared/schema.js";
+import { eq, and, desc, lte, gte, inArray, notInArray, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import type { Database } from "./db";
+import { demoUser, demoStore, demoPricingRule } from "./demo-data";
+import { RuleVersions } from "../shared/rule-versions.js";
 
 export interface IStorage {
   // User operations
@@ -19,6 +29,7 @@ export interface IStorage {
 
   // Store operations
   getStore(id: number): Promise<Store | undefined>;
+  getStores(): Promise<Store[]>;
   getStoreByDomain(domain: string): Promise<Store | undefined>;
   getStoresByUserId(userId: number): Promise<Store[]>;
   createStore(store: InsertStore): Promise<Store>;
@@ -26,12 +37,15 @@ export interface IStorage {
 
   // Budget session operations
   getBudgetSession(sessionId: string): Promise<BudgetSession | undefined>;
+  // The store's most recent sessions first
+  getBudgetSessionsByStoreId(storeId: number, limit?: number): Promise<BudgetSession[]>;
   createBudgetSession(session: InsertBudgetSession): Promise<BudgetSession>;
   updateBudgetSession(sessionId: string, session: Partial<InsertBudgetSession>): Promise<BudgetSession | undefined>;
 
   // Pricing rule operations
   getPricingRulesByStoreId(storeId: number): Promise<PricingRule[]>;
-  getActivePricingRule(storeId: number): Promise<PricingRule | undefined>;
+  // The version in effect at now (default: the current time), see RuleVersions.resolveEffective
+  getActivePricingRule(storeId: number, now?: Date): Promise<PricingRule | undefined>;
   createPricingRule(rule: InsertPricingRule): Promise<PricingRule>;
   updatePricingRule(id: number, rule: Partial<InsertPricingRule>): Promise<PricingRule | undefined>;
 
@@ -43,11 +57,33 @@ export interface IStorage {
   createCustomerPurchase(purchase: InsertCustomerPurchase): Promise<CustomerPurchase>;
   getCustomerPurchases(storeId: number, customerId: string): Promise<CustomerPurchase[]>;
   getCustomerPurchasesByProduct(storeId: number, customerId: string, productId: string): Promise<CustomerPurchase[]>;
+  // Latest purchase date of each product that has sold in the store, for slow-seller checks
+  getLastSoldDates(storeId: number, productIds: string[]): Promise<Map<string, Date>>;
+  // Orders containing any of the products, counted per other product bought in them
+  getCoPurchaseCounts(storeId: number, productIds: string[]): Promise<Map<string, number>>;
 
   // Customer budget history operations
   createCustomerBudgetHistory(history: InsertCustomerBudgetHistory): Promise<CustomerBudgetHistory>;
+  updateCustomerBudgetHistory(id: number, history: Partial<InsertCustomerBudgetHistory>): Promise<CustomerBudgetHistory | undefined>;
   getActiveCustomerBudget(storeId: number, customerId: string): Promise<CustomerBudgetHistory | undefined>;
   getCustomerBudgetHistory(storeId: number, customerId: string): Promise<CustomerBudgetHistory[]>;
+
+  // Price quote operations; redeemPriceQuote returns undefined when the quote was already redeemed
+  redeemPriceQuote(redemption: InsertPriceQuoteRedemption): Promise<PriceQuoteRedemption | undefined>;
+  releasePriceQuote(quoteId: string): Promise<void>;
+
+  // Product cost operations; upserts replace the cost for the same store, product and variant
+  getProductCosts(storeId: number, productIds?: string[]): Promise<ProductCost[]>;
+  upsertProductCosts(costs: InsertProductCost[]): Promise<ProductCost[]>;
+
+  // Experiment operations; assignExperimentVariant keeps a subject's first assignment
+  createExperiment(experiment: InsertExperiment): Promise<Experiment>;
+  getExperiment(id: number): Promise<Experiment | undefined>;
+  getExperimentsByStoreId(storeId: number): Promise<Experiment[]>;
+  updateExperiment(id: number, experiment: Partial<InsertExperiment>): Promise<Experiment | undefined>;
+  assignExperimentVariant(assignment: InsertExperimentAssignment): Promise<ExperimentAssignment>;
+  getExperimentAssignments(experimentId: number, subjectIds?: string[]): Promise<ExperimentAssignment[]>;
+  getExperimentPurchases(experimentId: number): Promise<CustomerPurchase[]>;
 }
 
 export class MemStorage implements IStorage {
@@ -58,12 +94,20 @@ export class MemStorage implements IStorage {
   private analytics: Map<number, Analytics>;
   private customerPurchases: Map<number, CustomerPurchase>;
   private customerBudgetHistory: Map<number, CustomerBudgetHistory>;
+  private priceQuoteRedemptions: Map<string, PriceQuoteRedemption>;
+  private productCosts: Map<string, ProductCost>;
+  private experiments: Map<number, Experiment>;
+  private experimentAssignments: Map<string, ExperimentAssignment>;
   private currentUserId: number;
   private currentStoreId: number;
   private currentRuleId: number;
   private currentAnalyticsId: number;
   private currentPurchaseId: number;
   private currentBudgetHistoryId: number;
+  private currentRedemptionId: number;
+  private currentProductCostId: number;
+  private currentExperimentId: number;
+  private currentAssignmentId: number;
 
   constructor() {
     this.users = new Map();
@@ -73,12 +117,20 @@ export class MemStorage implements IStorage {
     this.analytics = new Map();
     this.customerPurchases = new Map();
     this.customerBudgetHistory = new Map();
+    this.priceQuoteRedemptions = new Map();
+    this.productCosts = new Map();
+    this.experiments = new Map();
+    this.experimentAssignments = new Map();
     this.currentUserId = 1;
     this.currentStoreId = 1;
     this.currentRuleId = 1;
     this.currentAnalyticsId = 1;
     this.currentPurchaseId = 1;
     this.currentBudgetHistoryId = 1;
+    this.currentRedemptionId = 1;
+    this.currentProductCostId = 1;
+    this.currentExperimentId = 1;
+    this.currentAssignmentId = 1;
 
     // Initialize with demo data
     this.initializeDemoData();
@@ -86,64 +138,30 @@ export class MemStorage implements IStorage {
 
   private initializeDemoData() {
     // Demo user
-    const demoUser: User = {
+    const user: User = {
+      ...demoUser,
       id: this.currentUserId++,
-      username: "demo_merchant",
-      email: "demo@example.com",
-      password: "hashed_password",
-      shopifyDomain: "demo-store.myshopify.com",
-      tier: "starter",
       createdAt: new Date(),
     };
-    this.users.set(demoUser.id, demoUser);
+    this.users.set(user.id, user);
 
     // Demo store
-    const demoStore: Store = {
+    const store: Store = {
+      ...demoStore,
       id: this.currentStoreId++,
-      userId: demoUser.id,
-      shopifyDomain: "demo-store.myshopify.com",
-      accessToken: "demo_access_token",
-      isActive: true,
-      settings: {
-        theme: { primaryColor: "#00A651", fontFamily: "Inter" },
-        features: { budgetEducation: true, analytics: true }
-      },
+      userId: user.id,
       createdAt: new Date(),
-      domain: "demo-store.myshopify.com",
-      platform: "shopify",
-      apiKey: null,
-      apiSecret: null,
-      webhookSecret: null,
-      premiumCartTracking: true,
-      autoDiscountEnabled: true,
-      productRecommendationsEnabled: true,
-      budgetRemainingDisplayEnabled: true,
-      minimumDiscountThreshold: "50",
-      tier: "premium"
     };
-    this.stores.set(demoStore.id, demoStore);
+    this.stores.set(store.id, store);
 
     // Demo pricing rule
-    const demoPricingRule: PricingRule = {
+    const pricingRule: PricingRule = {
+      ...demoPricingRule,
       id: this.currentRuleId++,
-      storeId: demoStore.id,
-      name: "Default 50/30/20 Rule",
-      needsPercentage: "50.00",
-      wantsPercentage: "30.00",
-      savingsPercentage: "20.00",
-      maxDiscountPercentage: "25.00",
-      isActive: true,
+      storeId: store.id,
       createdAt: new Date(),
-      budgetRefreshType: "monthly",
-      maxBudgetApplications: -1,
-      budgetRefreshDays: 30,
-      repeatCustomerDiscount: "5.00",
-      discountTerms: "Budget discounts apply to help you stay within your financial goals. Maximum 25% off per purchase.",
-      termsPageUrl: null,
-      isAppEnabled: true,
-      enabledForProducts: "all",
     };
-    this.pricingRules.set(demoPricingRule.id, demoPricingRule);
+    this.pricingRules.set(pricingRule.id, pricingRule);
   }
 
   // User operations
@@ -185,6 +203,10 @@ export class MemStorage implements IStorage {
     return this.stores.get(id);
   }
 
+  async getStores(): Promise<Store[]> {
+    return Array.from(this.stores.values());
+  }
+
   async getStoreByDomain(domain: string): Promise<Store | undefined> {
     return Array.from(this.stores.values()).find(store => store.shopifyDomain === domain);
   }
@@ -205,7 +227,13 @@ export class MemStorage implements IStorage {
       platform: insertStore.platform ?? "shopify",
       apiKey: insertStore.apiKey ?? null,
       apiSecret: insertStore.apiSecret ?? null,
-      webhookSecret: insertStore.webhookSecret ?? null
+      webhookSecret: insertStore.webhookSecret ?? null,
+      currency: insertStore.currency ?? "USD",
+      currencyRates: insertStore.currencyRates ?? {},
+      taxMode: insertStore.taxMode ?? "exclusive",
+      taxRates: insertStore.taxRates ?? {},
+      discountLadder: insertStore.discountLadder ?? null,
+      abandonmentSettings: insertStore.abandonmentSettings ?? null
     };
     this.stores.set(store.id, store);
     return store;
@@ -225,6 +253,13 @@ export class MemStorage implements IStorage {
     return this.budgetSessions.get(sessionId);
   }
 
+  async getBudgetSessionsByStoreId(storeId: number, limit = 1000): Promise<BudgetSession[]> {
+    return Array.from(this.budgetSessions.values())
+      .filter(session => session.storeId === storeId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+      .slice(0, limit);
+  }
+
   async createBudgetSession(insertSession: InsertBudgetSession): Promise<BudgetSession> {
     const session: BudgetSession = {
       ...insertSession,
@@ -253,10 +288,8 @@ export class MemStorage implements IStorage {
     return Array.from(this.pricingRules.values()).filter(rule => rule.storeId === storeId);
   }
 
-  async getActivePricingRule(storeId: number): Promise<PricingRule | undefined> {
-    return Array.from(this.pricingRules.values()).find(
-      rule => rule.storeId === storeId && rule.isActive
-    );
+  async getActivePricingRule(storeId: number, now?: Date): Promise<PricingRule | undefined> {
+    return RuleVersions.resolveEffective(await this.getPricingRulesByStoreId(storeId), now);
   }
 
   async createPricingRule(insertRule: InsertPricingRule): Promise<PricingRule> {
@@ -265,10 +298,19 @@ export class MemStorage implements IStorage {
       id: this.currentRuleId++,
       createdAt: new Date(),
       isActive: insertRule.isActive ?? true,
+      version: insertRule.version ?? 1,
+      startsAt: insertRule.startsAt ?? null,
+      endsAt: insertRule.endsAt ?? null,
       needsPercentage: insertRule.needsPercentage ?? "50",
       wantsPercentage: insertRule.wantsPercentage ?? "30",
       savingsPercentage: insertRule.savingsPercentage ?? "20",
       maxDiscountPercentage: insertRule.maxDiscountPercentage ?? "25",
+      categories: insertRule.categories ?? null,
+      categoryMapping: insertRule.categoryMapping ?? null,
+      bundleRules: insertRule.bundleRules ?? null,
+      inventorySettings: insertRule.inventorySettings ?? null,
+      minMarginPercentage: insertRule.minMarginPercentage ?? "0.00",
+      priceEnding: insertRule.priceEnding ?? "none",
       budgetRefreshType: insertRule.budgetRefreshType ?? "monthly",
       maxBudgetApplications: insertRule.maxBudgetApplications ?? -1,
       budgetRefreshDays: insertRule.budgetRefreshDays ?? 30,
@@ -298,6 +340,8 @@ export class MemStorage implements IStorage {
       id: this.currentAnalyticsId++,
       timestamp: new Date(),
       eventData: insertEvent.eventData ?? {},
+      experimentId: insertEvent.experimentId ?? null,
+      experimentVariant: insertEvent.experimentVariant ?? null,
     };
     this.analytics.set(event.id, event);
     return event;
@@ -324,6 +368,8 @@ export class MemStorage implements IStorage {
       budgetCategory: insertPurchase.budgetCategory ?? null,
       budgetDiscount: insertPurchase.budgetDiscount ?? "0.00",
       budgetApplicationCount: insertPurchase.budgetApplicationCount ?? 1,
+      experimentId: insertPurchase.experimentId ?? null,
+      experimentVariant: insertPurchase.experimentVariant ?? null,
     };
     this.customerPurchases.set(purchase.id, purchase);
     return purchase;
@@ -335,6 +381,37 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.purchaseDate!.getTime() - a.purchaseDate!.getTime());
   }
 
+  async getLastSoldDates(storeId: number, productIds: string[]): Promise<Map<string, Date>> {
+    const lastSold = new Map<string, Date>();
+    for (const purchase of Array.from(this.customerPurchases.values())) {
+      if (purchase.storeId !== storeId || !productIds.includes(purchase.productId) || !purchase.purchaseDate) continue;
+      const latest = lastSold.get(purchase.productId);
+      if (!latest || purchase.purchaseDate > latest) {
+        lastSold.set(purchase.productId, purchase.purchaseDate);
+      }
+    }
+    return lastSold;
+  }
+
+  async getCoPurchaseCounts(storeId: number, productIds: string[]): Promise<Map<string, number>> {
+    const orders = new Map<string, Set<string>>();
+    for (const purchase of Array.from(this.customerPurchases.values())) {
+      if (purchase.storeId !== storeId || !purchase.orderId) continue;
+      const products = orders.get(purchase.orderId) ?? new Set<string>();
+      orders.set(purchase.orderId, products.add(purchase.productId));
+    }
+
+    const counts = new Map<string, number>();
+    orders.forEach(products => {
+      const order = Array.from(products);
+      if (!order.some(productId => productIds.includes(productId))) return;
+      for (const productId of order.filter(productId => !productIds.includes(productId))) {
+        counts.set(productId, (counts.get(productId) ?? 0) + 1);
+      }
+    });
+    return counts;
+  }
+
   async getCustomerPurchasesByProduct(storeId: number, customerId: string, productId: string): Promise<CustomerPurchase[]> {
     return Array.from(this.customerPurchases.values())
       .filter(purchase => 
@@ -362,6 +439,15 @@ export class MemStorage implements IStorage {
     return history;
   }
 
+  async updateCustomerBudgetHistory(id: number, updateHistory: Partial<InsertCustomerBudgetHistory>): Promise<CustomerBudgetHistory | undefined> {
+    const history = this.customerBudgetHistory.get(id);
+    if (!history) return undefined;
+    
+    const updatedHistory = { ...history, ...updateHistory };
+    this.customerBudgetHistory.set(id, updatedHistory);
+    return updatedHistory;
+  }
+
   async getActiveCustomerBudget(storeId: number, customerId: string): Promise<CustomerBudgetHistory | undefined> {
     const now = new Date();
     return Array.from(this.customerBudgetHistory.values())
@@ -379,6 +465,478 @@ export class MemStorage implements IStorage {
       .filter(history => history.storeId === storeId && history.customerId === customerId)
       .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime());
   }
+
+  // Price quote operations
+  async redeemPriceQuote(insertRedemption: InsertPriceQuoteRedemption): Promise<PriceQuoteRedemption | undefined> {
+    if (this.priceQuoteRedemptions.has(insertRedemption.quoteId)) return undefined;
+
+    const redemption: PriceQuoteRedemption = {
+      ...insertRedemption,
+      id: this.currentRedemptionId++,
+      redeemedAt: new Date(),
+    };
+    this.priceQuoteRedemptions.set(redemption.quoteId, redemption);
+    return redemption;
+  }
+
+  async releasePriceQuote(quoteId: string): Promise<void> {
+    this.priceQuoteRedemptions.delete(quoteId);
+  }
+
+  // Product cost operations
+  async getProductCosts(storeId: number, productIds?: string[]): Promise<ProductCost[]> {
+    return Array.from(this.productCosts.values()).filter(
+      cost => cost.storeId === storeId && (!productIds || productIds.includes(cost.productId))
+    );
+  }
+
+  async upsertProductCosts(insertCosts: InsertProductCost[]): Promise<ProductCost[]> {
+    return insertCosts.map(insertCost => {
+      const variantId = insertCost.variantId ?? "";
+      const key = `${insertCost.storeId}:${insertCost.productId}:${variantId}`;
+      const cost: ProductCost = {
+        ...insertCost,
+        id: this.productCosts.get(key)?.id ?? this.currentProductCostId++,
+        variantId,
+        source: insertCost.source ?? "csv",
+        updatedAt: new Date(),
+      };
+      this.productCosts.set(key, cost);
+      return cost;
+    });
+  }
+
+  // Experiment operations
+  async createExperiment(insertExperiment: InsertExperiment): Promise<Experiment> {
+    const experiment: Experiment = {
+      ...insertExperiment,
+      id: this.currentExperimentId++,
+      status: insertExperiment.status ?? "draft",
+      startedAt: insertExperiment.startedAt ?? null,
+      endedAt: insertExperiment.endedAt ?? null,
+      createdAt: new Date(),
+    };
+    this.experiments.set(experiment.id, experiment);
+    return experiment;
+  }
+
+  async getExperiment(id: number): Promise<Experiment | undefined> {
+    return this.experiments.get(id);
+  }
+
+  async getExperimentsByStoreId(storeId: number): Promise<Experiment[]> {
+    return Array.from(this.experiments.values())
+      .filter(experiment => experiment.storeId === storeId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async updateExperiment(id: number, updateExperiment: Partial<InsertExperiment>): Promise<Experiment | undefined> {
+    const experiment = this.experiments.get(id);
+    if (!experiment) return undefined;
+
+    const updatedExperiment = { ...experiment, ...updateExperiment };
+    this.experiments.set(id, updatedExperiment);
+    return updatedExperiment;
+  }
+
+  async assignExperimentVariant(insertAssignment: InsertExperimentAssignment): Promise<ExperimentAssignment> {
+    const key = `${insertAssignment.experimentId}:${insertAssignment.subjectId}`;
+    const existing = this.experimentAssignments.get(key);
+    if (existing) return existing;
+
+    const assignment: ExperimentAssignment = {
+      ...insertAssignment,
+      id: this.currentAssignmentId++,
+      assignedAt: new Date(),
+    };
+    this.experimentAssignments.set(key, assignment);
+    return assignment;
+  }
+
+  async getExperimentAssignments(experimentId: number, subjectIds?: string[]): Promise<ExperimentAssignment[]> {
+    return Array.from(this.experimentAssignments.values()).filter(
+      assignment => assignment.experimentId === experimentId && (!subjectIds || subjectIds.includes(assignment.subjectId))
+    );
+  }
+
+  async getExperimentPurchases(experimentId: number): Promise<CustomerPurchase[]> {
+    return Array.from(this.customerPurchases.values()).filter(purchase => purchase.experimentId === experimentId);
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: number, updateUser: Partial<InsertUser>): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set(updateUser).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  // Store operations
+  async getStore(id: number): Promise<Store | undefined> {
+    const [store] = await this.db.select().from(stores).where(eq(stores.id, id));
+    return store;
+  }
+
+  async getStores(): Promise<Store[]> {
+    return await this.db.select().from(stores);
+  }
+
+  async getStoreByDomain(domain: string): Promise<Store | undefined> {
+    const [store] = await this.db.select().from(stores).where(eq(stores.shopifyDomain, domain));
+    return store;
+  }
+
+  async getStoresByUserId(userId: number): Promise<Store[]> {
+    return await this.db.select().from(stores).where(eq(stores.userId, userId));
+  }
+
+  async createStore(insertStore: InsertStore): Promise<Store> {
+    const [store] = await this.db
+      .insert(stores)
+      .values({
+        ...insertStore,
+        settings: insertStore.settings ?? {},
+        domain: insertStore.domain ?? insertStore.shopifyDomain
+      })
+      .returning();
+    return store;
+  }
+
+  async updateStore(id: number, updateStore: Partial<InsertStore>): Promise<Store | undefined> {
+    const [store] = await this.db.update(stores).set(updateStore).where(eq(stores.id, id)).returning();
+    return store;
+  }
+
+  // Budget session operations
+  async getBudgetSession(sessionId: string): Promise<BudgetSession | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(budgetSessions)
+      .where(eq(budgetSessions.sessionId, sessionId))
+      .orderBy(desc(budgetSessions.createdAt))
+      .limit(1);
+    return session;
+  }
+
+  async getBudgetSessionsByStoreId(storeId: number, limit = 1000): Promise<BudgetSession[]> {
+    return await this.db
+      .select()
+      .from(budgetSessions)
+      .where(eq(budgetSessions.storeId, storeId))
+      .orderBy(desc(budgetSessions.createdAt))
+      .limit(limit);
+  }
+
+  async createBudgetSession(insertSession: InsertBudgetSession): Promise<BudgetSession> {
+    const [session] = await this.db
+      .insert(budgetSessions)
+      .values({
+        ...insertSession,
+        customerData: insertSession.customerData ?? {},
+        budgetData: insertSession.budgetData ?? {}
+      })
+      .returning();
+    return session;
+  }
+
+  async updateBudgetSession(sessionId: string, updateSession: Partial<InsertBudgetSession>): Promise<BudgetSession | undefined> {
+    const [session] = await this.db
+      .update(budgetSessions)
+      .set(updateSession)
+      .where(eq(budgetSessions.sessionId, sessionId))
+      .returning();
+    return session;
+  }
+
+  // Pricing rule operations
+  async getPricingRulesByStoreId(storeId: number): Promise<PricingRule[]> {
+    return await this.db.select().from(pricingRules).where(eq(pricingRules.storeId, storeId));
+  }
+
+  async getActivePricingRule(storeId: number, now?: Date): Promise<PricingRule | undefined> {
+    const rules = await this.db
+      .select()
+      .from(pricingRules)
+      .where(and(eq(pricingRules.storeId, storeId), eq(pricingRules.isActive, true)));
+    return RuleVersions.resolveEffective(rules, now);
+  }
+
+  async createPricingRule(insertRule: InsertPricingRule): Promise<PricingRule> {
+    const [rule] = await this.db
+      .insert(pricingRules)
+      .values({
+        ...insertRule,
+        enabledForProducts: insertRule.enabledForProducts ?? "all"
+      })
+      .returning();
+    return rule;
+  }
+
+  async updatePricingRule(id: number, updateRule: Partial<InsertPricingRule>): Promise<PricingRule | undefined> {
+    const [rule] = await this.db.update(pricingRules).set(updateRule).where(eq(pricingRules.id, id)).returning();
+    return rule;
+  }
+
+  // Analytics operations
+  async createAnalyticsEvent(insertEvent: InsertAnalytics): Promise<Analytics> {
+    const [event] = await this.db
+      .insert(analytics)
+      .values({ ...insertEvent, eventData: insertEvent.eventData ?? {} })
+      .returning();
+    return event;
+  }
+
+  async getAnalyticsByStoreId(storeId: number, limit: number = 100): Promise<Analytics[]> {
+    return await this.db
+      .select()
+      .from(analytics)
+      .where(eq(analytics.storeId, storeId))
+      .orderBy(desc(analytics.timestamp))
+      .limit(limit);
+  }
+
+  // Customer purchase operations
+  async createCustomerPurchase(insertPurchase: InsertCustomerPurchase): Promise<CustomerPurchase> {
+    const [purchase] = await this.db.insert(customerPurchases).values(insertPurchase).returning();
+    return purchase;
+  }
+
+  async getCustomerPurchases(storeId: number, customerId: string): Promise<CustomerPurchase[]> {
+    return await this.db
+      .select()
+      .from(customerPurchases)
+      .where(and(
+        eq(customerPurchases.storeId, storeId),
+        eq(customerPurchases.customerId, customerId)
+      ))
+      .orderBy(desc(customerPurchases.purchaseDate));
+  }
+
+  async getCustomerPurchasesByProduct(storeId: number, customerId: string, productId: string): Promise<CustomerPurchase[]> {
+    return await this.db
+      .select()
+      .from(customerPurchases)
+      .where(and(
+        eq(customerPurchases.storeId, storeId),
+        eq(customerPurchases.customerId, customerId),
+        eq(customerPurchases.productId, productId)
+      ))
+      .orderBy(desc(customerPurchases.purchaseDate));
+  }
+
+  async getLastSoldDates(storeId: number, productIds: string[]): Promise<Map<string, Date>> {
+    if (productIds.length === 0) return new Map();
+
+    const rows = await this.db
+      .select({
+        productId: customerPurchases.productId,
+        lastSoldAt: sql<Date>`max(${customerPurchases.purchaseDate})`.mapWith(value => new Date(value))
+      })
+      .from(customerPurchases)
+      .where(and(eq(customerPurchases.storeId, storeId), inArray(customerPurchases.productId, productIds)))
+      .groupBy(customerPurchases.productId);
+    return new Map(rows.map(row => [row.productId, row.lastSoldAt]));
+  }
+
+  async getCoPurchaseCounts(storeId: number, productIds: string[]): Promise<Map<string, number>> {
+    if (productIds.length === 0) return new Map();
+
+    // Purchases sharing an order with one of the products; rows without an order ID never join
+    const related = alias(customerPurchases, "related_purchases");
+    const rows = await this.db
+      .select({
+        productId: customerPurchases.productId,
+        orders: sql<number>`count(distinct ${customerPurchases.orderId})`.mapWith(Number)
+      })
+      .from(customerPurchases)
+      .innerJoin(related, and(
+        eq(related.storeId, customerPurchases.storeId),
+        eq(related.orderId, customerPurchases.orderId)
+      ))
+      .where(and(
+        eq(customerPurchases.storeId, storeId),
+        inArray(related.productId, productIds),
+        notInArray(customerPurchases.productId, productIds)
+      ))
+      .groupBy(customerPurchases.productId);
+    return new Map(rows.map(row => [row.productId, row.orders]));
+  }
+
+  // Customer budget history operations
+  async createCustomerBudgetHistory(insertHistory: InsertCustomerBudgetHistory): Promise<CustomerBudgetHistory> {
+    const [history] = await this.db.insert(customerBudgetHistory).values(insertHistory).returning();
+    return history;
+  }
+
+  async updateCustomerBudgetHistory(id: number, updateHistory: Partial<InsertCustomerBudgetHistory>): Promise<CustomerBudgetHistory | undefined> {
+    const [history] = await this.db
+      .update(customerBudgetHistory)
+      .set(updateHistory)
+      .where(eq(customerBudgetHistory.id, id))
+      .returning();
+    return history;
+  }
+
+  async getActiveCustomerBudget(storeId: number, customerId: string): Promise<CustomerBudgetHistory | undefined> {
+    const now = new Date();
+    const [history] = await this.db
+      .select()
+      .from(customerBudgetHistory)
+      .where(and(
+        eq(customerBudgetHistory.storeId, storeId),
+        eq(customerBudgetHistory.customerId, customerId),
+        eq(customerBudgetHistory.isActive, true),
+        lte(customerBudgetHistory.budgetStartDate, now),
+        gte(customerBudgetHistory.budgetEndDate, now)
+      ))
+      .limit(1);
+    return history;
+  }
+
+  async getCustomerBudgetHistory(storeId: number, customerId: string): Promise<CustomerBudgetHistory[]> {
+    return await this.db
+      .select()
+      .from(customerBudgetHistory)
+      .where(and(
+        eq(customerBudgetHistory.storeId, storeId),
+        eq(customerBudgetHistory.customerId, customerId)
+      ))
+      .orderBy(desc(customerBudgetHistory.createdAt));
+  }
+
+  // Price quote operations; the unique quoteId makes concurrent redemptions race-safe
+  async redeemPriceQuote(insertRedemption: InsertPriceQuoteRedemption): Promise<PriceQuoteRedemption | undefined> {
+    const [redemption] = await this.db
+      .insert(priceQuoteRedemptions)
+      .values(insertRedemption)
+      .onConflictDoNothing({ target: priceQuoteRedemptions.quoteId })
+      .returning();
+    return redemption;
+  }
+
+  async releasePriceQuote(quoteId: string): Promise<void> {
+    await this.db.delete(priceQuoteRedemptions).where(eq(priceQuoteRedemptions.quoteId, quoteId));
+  }
+
+  // Product cost operations
+  async getProductCosts(storeId: number, productIds?: string[]): Promise<ProductCost[]> {
+    const conditions = [eq(productCosts.storeId, storeId)];
+    if (productIds) {
+      if (productIds.length === 0) return [];
+      conditions.push(inArray(productCosts.productId, productIds));
+    }
+    return await this.db.select().from(productCosts).where(and(...conditions));
+  }
+
+  async upsertProductCosts(insertCosts: InsertProductCost[]): Promise<ProductCost[]> {
+    if (insertCosts.length === 0) return [];
+
+    return await this.db
+      .insert(productCosts)
+      .values(insertCosts)
+      .onConflictDoUpdate({
+        target: [productCosts.storeId, productCosts.productId, productCosts.variantId],
+        set: {
+          cost: sql`excluded.cost`,
+          source: sql`excluded.source`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+  }
+
+  // Experiment operations
+  async createExperiment(insertExperiment: InsertExperiment): Promise<Experiment> {
+    const [experiment] = await this.db.insert(experiments).values(insertExperiment).returning();
+    return experiment;
+  }
+
+  async getExperiment(id: number): Promise<Experiment | undefined> {
+    const [experiment] = await this.db.select().from(experiments).where(eq(experiments.id, id));
+    return experiment;
+  }
+
+  async getExperimentsByStoreId(storeId: number): Promise<Experiment[]> {
+    return await this.db
+      .select()
+      .from(experiments)
+      .where(eq(experiments.storeId, storeId))
+      .orderBy(desc(experiments.id));
+  }
+
+  async updateExperiment(id: number, updateExperiment: Partial<InsertExperiment>): Promise<Experiment | undefined> {
+    const [experiment] = await this.db.update(experiments).set(updateExperiment).where(eq(experiments.id, id)).returning();
+    return experiment;
+  }
+
+  // The unique (experiment, subject) pair makes concurrent first requests agree on one variant
+  async assignExperimentVariant(insertAssignment: InsertExperimentAssignment): Promise<ExperimentAssignment> {
+    const [created] = await this.db
+      .insert(experimentAssignments)
+      .values(insertAssignment)
+      .onConflictDoNothing({ target: [experimentAssignments.experimentId, experimentAssignments.subjectId] })
+      .returning();
+    if (created) return created;
+
+    const [existing] = await this.getExperimentAssignments(insertAssignment.experimentId, [insertAssignment.subjectId]);
+    return existing;
+  }
+
+  async getExperimentAssignments(experimentId: number, subjectIds?: string[]): Promise<ExperimentAssignment[]> {
+    const conditions = [eq(experimentAssignments.experimentId, experimentId)];
+    if (subjectIds) {
+      if (subjectIds.length === 0) return [];
+      conditions.push(inArray(experimentAssignments.subjectId, subjectIds));
+    }
+    return await this.db.select().from(experimentAssignments).where(and(...conditions));
+  }
+
+  async getExperimentPurchases(experimentId: number): Promise<CustomerPurchase[]> {
+    return await this.db.select().from(customerPurchases).where(eq(customerPurchases.experimentId, experimentId));
+  }
+}
+
+export type StorageBackend = "memory" | "database";
+
+// Pick the storage backend from STORAGE_BACKEND, defaulting to the database
+// (the embedded PGlite driver when no DATABASE_URL is configured)
+export function resolveStorageBackend(): StorageBackend {
+  const backend = process.env.STORAGE_BACKEND ?? "database";
+  if (backend !== "memory" && backend !== "database") {
+    throw new Error(`Unsupported STORAGE_BACKEND "${backend}". Use "memory" or "database".`);
+  }
+  return backend;
+}
+
+export async function createStorage(backend: StorageBackend = resolveStorageBackend()): Promise<IStorage> {
+  if (backend === "database") {
+    // Loaded lazily so the in-memory backend never needs a database connection
+    const { db } = await import("./db");
+    return new DatabaseStorage(db);
+  }
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = await createStorage();
@@ -53,85 +53,11 @@ export interface ThemeColors {
   foreground: string;
 }
 
-export interface AppTier {
-  name: string;
-  price: number;
-  features: string[];
-  limits?: {
-    maxDiscountPercentage?: number;
-    customRules?: boolean;
-    analytics?: boolean;
-    whiteLabel?: boolean;
-  };
-}
-
-export const APP_TIERS: Record<string, AppTier> = {
-  free: {
-    name: "Free",
-    price: 0,
-    features: [
-      "Basic 50/30/20 discounts",
-      "Session-only storage",
-      "Shopify discount detection",
-      "GDPR compliant",
-      "Community support"
-    ],
-    limits: {
-      maxDiscountPercentage: 15,
-      customRules: false,
-      analytics: false,
-      whiteLabel: false,
-    }
-  },
-  starter: {
-    name: "Starter",
-    price: 15,
-    features: [
-      "Everything in Free",
-      "Custom budget categories",
-      "Discount stacking",
-      "Opt-in analytics",
-      "Email support"
-    ],
-    limits: {
-      maxDiscountPercentage: 25,
-      customRules: true,
-      analytics: true,
-      whiteLabel: false,
-    }
-  },
-  pro: {
-    name: "Pro",
-    price: 49,
-    features: [
-      "Everything in Starter",
-      "AI-driven dynamic pricing",
-      "A/B testing",
-      "White-label Shopify app",
-      "Priority support"
-    ],
-    limits: {
-      maxDiscountPercentage: 35,
-      customRules: true,
-      analytics: true,
-      whiteLabel: true,
-    }
-  },
-  enterprise: {
-    name: "Enterprise",
-    price: -1, // Custom pricing
-    features: [
-      "Everything in Pro",
-      "CRM integrations",
-      "Automated GDPR tools",
-      "Dedicated support",
-      "Custom integrations"
-    ],
-    limits: {
-      maxDiscountPercentage: 50,
-      customRules: true,
-      analytics: true,
-      whiteLabel: true,
-    }
-  }
-};
+// Plan definitions live in shared/ so the server enforces the same limits
+export {
+  APP_TIERS,
+  getRequiredTier,
+  resolveAppTier,
+  type AppTier,
+  type AppTierId
+} from "../../../shared/app-tiers";
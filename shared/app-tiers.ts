@@ -0,0 +1,121 @@
+/**
+ * App Tiers
+ * Subscription plans and their limits, shared by the pricing page and server-side plan enforcement.
+ * Kept free of imports so the frontend can use it without pulling in the database schema.
+ */
+
+export const APP_TIER_IDS = ['free', 'starter', 'pro', 'enterprise'] as const;
+
+export type AppTierId = typeof APP_TIER_IDS[number];
+
+export interface AppTierLimits {
+  maxDiscountPercentage: number;
+  customRules: boolean;
+  analytics: boolean;
+  whiteLabel: boolean;
+  premiumCart: boolean;
+  abTesting: boolean;
+}
+
+export type AppTierFeature = Exclude<keyof AppTierLimits, 'maxDiscountPercentage'>;
+
+export interface AppTier {
+  name: string;
+  price: number;
+  features: string[];
+  limits: AppTierLimits;
+}
+
+export const APP_TIERS: Record<AppTierId, AppTier> = {
+  free: {
+    name: "Free",
+    price: 0,
+    features: [
+      "Basic 50/30/20 discounts",
+      "Session-only storage",
+      "Shopify discount detection",
+      "GDPR compliant",
+      "Community support"
+    ],
+    limits: {
+      maxDiscountPercentage: 15,
+      customRules: false,
+      analytics: false,
+      whiteLabel: false,
+      premiumCart: false,
+      abTesting: false,
+    }
+  },
+  starter: {
+    name: "Starter",
+    price: 15,
+    features: [
+      "Everything in Free",
+      "Custom budget categories",
+      "Discount stacking",
+      "Opt-in analytics",
+      "Email support"
+    ],
+    limits: {
+      maxDiscountPercentage: 25,
+      customRules: true,
+      analytics: true,
+      whiteLabel: false,
+      premiumCart: false,
+      abTesting: false,
+    }
+  },
+  pro: {
+    name: "Pro",
+    price: 49,
+    features: [
+      "Everything in Starter",
+      "AI-driven dynamic pricing",
+      "A/B testing",
+      "White-label Shopify app",
+      "Priority support"
+    ],
+    limits: {
+      maxDiscountPercentage: 35,
+      customRules: true,
+      analytics: true,
+      whiteLabel: true,
+      premiumCart: true,
+      abTesting: true,
+    }
+  },
+  enterprise: {
+    name: "Enterprise",
+    price: -1, // Custom pricing
+    features: [
+      "Everything in Pro",
+      "CRM integrations",
+      "Automated GDPR tools",
+      "Dedicated support",
+      "Custom integrations"
+    ],
+    limits: {
+      maxDiscountPercentage: 50,
+      customRules: true,
+      analytics: true,
+      whiteLabel: true,
+      premiumCart: true,
+      abTesting: true,
+    }
+  }
+};
+
+// Unknown or missing tiers (e.g. legacy "premium" values) fall back to the free plan
+export function resolveAppTier(tier?: string | null): AppTierId {
+  return APP_TIER_IDS.find(id => id === tier) ?? 'free';
+}
+
+// Cheapest plan that includes a feature
+export function getRequiredTier(feature: AppTierFeature): AppTierId {
+  return APP_TIER_IDS.find(id => APP_TIERS[id].limits[feature]) ?? 'enterprise';
+}
+
+// Cheapest plan whose discount cap allows the given maximum discount, or null if none does
+export function getRequiredTierForDiscount(maxDiscountPercentage: number): AppTierId | null {
+  return APP_TIER_IDS.find(id => APP_TIERS[id].limits.maxDiscountPercentage >= maxDiscountPercentage) ?? null;
+}
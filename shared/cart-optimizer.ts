@@ -0,0 +1,283 @@
+/**
+ * Cart Optimizer
+ * Finds the best ways to bring an over-budget cart within each category's budget by keeping,
+ * cutting down, swapping or removing lines. Each category is solved on its own as a
+ * multiple-choice knapsack over integer minor units, so plans are deterministic.
+ */
+
+import { MoneyMath } from './money.js';
+
+// A cheaper variant or alternative product a line can be swapped for, in the line's category
+export interface CartOptimizerSubstitute {
+  productId: string;
+  variantId?: string;
+  title: string;
+  price: number; // Unit price
+  value?: number; // Per unit; defaults to the price
+}
+
+export interface CartOptimizerLine {
+  productId: string;
+  variantId?: string;
+  title: string;
+  price: number; // Unit price net of discounts
+  quantity: number;
+  category: string;
+  // Per unit; defaults to the price, so plans keep as much of the intended spend as fits
+  value?: number;
+  substitutes?: CartOptimizerSubstitute[];
+}
+
+export interface CartChange {
+  action: 'swap' | 'reduce' | 'remove';
+  productId: string;
+  variantId?: string;
+  title: string;
+  category: string;
+  fromQuantity: number;
+  toQuantity: number; // Units kept, or units of the substitute for a swap
+  substitute: CartOptimizerSubstitute | null;
+  savings: number;
+}
+
+export interface CartPlanCategory {
+  budget: number;
+  total: number;
+  remaining: number;
+}
+
+export interface CartPlan {
+  keptValue: number;
+  total: number;
+  savings: number; // Against the current cart
+  changes: CartChange[];
+  categories: Record<string, CartPlanCategory>;
+}
+
+export interface CartOptimization {
+  currency: string;
+  withinBudget: boolean; // The cart already fits every category; no plans are needed
+  overBudgetCategories: string[];
+  total: number;
+  plans: CartPlan[]; // Best first
+}
+
+export const DEFAULT_CART_PLANS = 3;
+
+// One way to fill a line: some units of the original or of a substitute; amounts in minor units
+interface LineOption {
+  cost: number;
+  value: number;
+  quantity: number;
+  substitute: CartOptimizerSubstitute | null;
+}
+
+// A (partial) selection of one option per line, linked back through the lines before it
+interface Selection {
+  cost: number;
+  value: number;
+  changes: number;
+  choice: number; // Option index on the last line; -1 before the first
+  previous: Selection | null;
+  order: number; // Position among the selections for the same lines by their choices, first line first
+}
+
+// Cost resolution of the solver: bounds its work whatever the budget
+const MAX_COST_STEPS = 4000;
+
+// Quantities of a line, or of one of its substitutes, the solver tries: bounds its work whatever the quantity
+const MAX_QUANTITY_OPTIONS = 10;
+
+export class CartOptimizer {
+
+  /**
+   * Up to maxPlans ways to fit the cart, ranked by kept value, then fewest changes, then lowest
+   * total. Categories within budget are left as they are; lines in a category without a budget
+   * can only be removed.
+   */
+  static optimize(
+    lines: CartOptimizerLine[],
+    budgets: Record<string, number>,
+    currency: string,
+    maxPlans: number = DEFAULT_CART_PLANS
+  ): CartOptimization {
+    const toMinor = (value: number) => MoneyMath.fromMajor(value, currency).amount;
+    const toMajor = (amount: number) => MoneyMath.toMajor({ amount, currency });
+    const options = lines.map(line => this.getLineOptions(line, toMinor));
+    const categories = Array.from(new Set(lines.map(line => line.category)));
+    // Budgets round down so a plan never ends up a fraction of a cent over
+    const budgetOf = (category: string) => Math.max(0, MoneyMath.fromMajor(budgets[category] ?? 0, currency, 'down').amount);
+    const costOf = (indexes: number[]) => indexes.reduce((sum, index) => sum + options[index][0].cost, 0);
+
+    const indexesByCategory = new Map(categories.map(category => [
+      category,
+      lines.flatMap((line, index) => line.category === category ? [index] : [])
+    ]));
+    const overBudget = categories.filter(category => costOf(indexesByCategory.get(category)!) > budgetOf(category));
+    const currentTotal = costOf(lines.map((_, index) => index));
+
+    if (overBudget.length === 0) {
+      return { currency, withinBudget: true, overBudgetCategories: [], total: toMajor(currentTotal), plans: [] };
+    }
+
+    // Combine each over-budget category's best selections; the ranking is additive, so the best
+    // combinations only use each category's best selections
+    let combined: Array<{ cost: number; value: number; changes: number; parts: number[][] }> = [
+      { cost: 0, value: 0, changes: 0, parts: [] }
+    ];
+    for (const category of overBudget) {
+      const best = this.solveCategory(indexesByCategory.get(category)!.map(index => options[index]), budgetOf(category), maxPlans);
+      // Sorting is stable, so equal combinations stay in category order
+      combined = combined
+        .flatMap(plan => best.map(selection => ({
+          cost: plan.cost + selection.cost,
+          value: plan.value + selection.value,
+          changes: plan.changes + selection.changes,
+          parts: [...plan.parts, this.getChoices(selection)]
+        })))
+        .sort((a, b) => b.value - a.value || a.changes - b.changes || a.cost - b.cost)
+        .slice(0, maxPlans);
+    }
+
+    const plans = combined.map(plan => {
+      const chosen = options.map(lineOptions => lineOptions[0]);
+      overBudget.forEach((category, categoryIndex) => {
+        indexesByCategory.get(category)!.forEach((lineIndex, position) => {
+          chosen[lineIndex] = options[lineIndex][plan.parts[categoryIndex][position]];
+        });
+      });
+
+      const changes = lines.flatMap((line, index): CartChange[] => {
+        const option = chosen[index];
+        if (option === options[index][0]) return [];
+        return [{
+          action: option.substitute ? 'swap' : option.quantity === 0 ? 'remove' : 'reduce',
+          productId: line.productId,
+          variantId: line.variantId,
+          title: line.title,
+          category: line.category,
+          fromQuantity: line.quantity,
+          toQuantity: option.quantity,
+          substitute: option.substitute,
+          savings: toMajor(options[index][0].cost - option.cost)
+        }];
+      });
+      const total = chosen.reduce((sum, option) => sum + option.cost, 0);
+
+      return {
+        keptValue: toMajor(chosen.reduce((sum, option) => sum + option.value, 0)),
+        total: toMajor(total),
+        savings: toMajor(currentTotal - total),
+        changes,
+        categories: Object.fromEntries(categories.map(category => {
+          const spent = indexesByCategory.get(category)!.reduce((sum, index) => sum + chosen[index].cost, 0);
+          const budget = budgetOf(category);
+          return [category, { budget: toMajor(budget), total: toMajor(spent), remaining: toMajor(budget - spent) }];
+        }))
+      };
+    });
+
+    return { currency, withinBudget: false, overBudgetCategories: overBudget, total: toMajor(currentTotal), plans };
+  }
+
+  // The line as it is comes first, then fewer units of it down to none, then each substitute
+  private static getLineOptions(line: CartOptimizerLine, toMinor: (value: number) => number): LineOption[] {
+    const unitCost = toMinor(line.price);
+    const unitValue = toMinor(line.value ?? line.price);
+    const options: LineOption[] = [];
+
+    for (const quantity of this.getQuantities(line.quantity, 0)) {
+      options.push({ cost: unitCost * quantity, value: unitValue * quantity, quantity, substitute: null });
+    }
+    for (const substitute of line.substitutes ?? []) {
+      const substituteCost = toMinor(substitute.price);
+      const substituteValue = toMinor(substitute.value ?? substitute.price);
+      for (const quantity of this.getQuantities(line.quantity, 1)) {
+        options.push({ cost: substituteCost * quantity, value: substituteValue * quantity, quantity, substitute });
+      }
+    }
+    return options;
+  }
+
+  // Every quantity from `from` down to `to`, or MAX_QUANTITY_OPTIONS of them evenly spaced when there are more
+  private static getQuantities(from: number, to: number): number[] {
+    const span = from - to;
+    if (span < 0) return [];
+    if (span < MAX_QUANTITY_OPTIONS) {
+      return Array.from({ length: span + 1 }, (_, index) => from - index);
+    }
+    return Array.from({ length: MAX_QUANTITY_OPTIONS }, (_, index) =>
+      from - Math.round(index * span / (MAX_QUANTITY_OPTIONS - 1)));
+  }
+
+  /**
+   * The category's best selections within its budget, by dynamic programming over the amount
+   * spent so far. Totals are checked exactly; selections are only grouped by spend in steps of
+   * 1/MAX_COST_STEPS of the budget, which keeps the work bounded and is exact for budgets of up
+   * to that many minor units.
+   */
+  private static solveCategory(lineOptions: LineOption[][], budget: number, count: number): Selection[] {
+    const step = Math.max(1, Math.ceil(budget / MAX_COST_STEPS));
+    // The best `count` partial selections for each step of spend
+    let table: Selection[][] = [[{ cost: 0, value: 0, changes: 0, choice: -1, previous: null, order: 0 }]];
+
+    for (const options of lineOptions) {
+      const next: Selection[][] = [];
+      for (const selections of table) {
+        if (!selections) continue;
+        options.forEach((option, index) => {
+          for (const selection of selections) {
+            const cost = selection.cost + option.cost;
+            if (cost > budget) continue;
+            this.insert(next[Math.floor(cost / step)] ??= [], {
+              cost,
+              value: selection.value + option.value,
+              changes: selection.changes + (index === 0 ? 0 : 1),
+              choice: index,
+              previous: selection,
+              order: 0
+            }, count);
+          }
+        });
+      }
+
+      // Rank the kept selections by their choices so ties compare in constant time on the next line
+      next
+        .flat()
+        .sort((a, b) => a.previous!.order - b.previous!.order || a.choice - b.choice)
+        .forEach((selection, order) => { selection.order = order; });
+      table = next;
+    }
+
+    const best: Selection[] = [];
+    table.forEach(selections => selections.forEach(selection => this.insert(best, selection, count)));
+    return best;
+  }
+
+  // Keep the list ranked and at most `count` long
+  private static insert(selections: Selection[], selection: Selection, count: number): void {
+    const position = selections.findIndex(other => this.compare(selection, other) < 0);
+    if (position < 0) {
+      if (selections.length < count) selections.push(selection);
+      return;
+    }
+    selections.splice(position, 0, selection);
+    if (selections.length > count) selections.pop();
+  }
+
+  // Option index chosen for each line, first line first
+  private static getChoices(selection: Selection): number[] {
+    const choices: number[] = [];
+    for (let current: Selection | null = selection; current && current.choice >= 0; current = current.previous) {
+      choices.unshift(current.choice);
+    }
+    return choices;
+  }
+
+  // Most value kept, then fewest changes, then lowest total; earlier options on earlier lines
+  // (keeping more of the cart as it is) break remaining ties
+  private static compare(a: Selection, b: Selection): number {
+    return b.value - a.value || a.changes - b.changes || a.cost - b.cost ||
+      (a.previous?.order ?? 0) - (b.previous?.order ?? 0) || a.choice - b.choice;
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * Experiments
+ * Deterministic variant bucketing for pricing rule A/B tests and the statistics behind their reports.
+ * Kept free of imports so the edge worker can bucket customers without pulling in the database schema.
+ */
+
+export interface ExperimentVariant {
+  key: string;
+  name: string;
+  ruleId: number;
+  weight: number; // Relative share of traffic
+}
+
+export interface ExperimentAssignmentInput {
+  subjectId: string; // Customer or session ID
+  variantKey: string;
+}
+
+// A purchase stamped with the variant its buyer was assigned
+export interface ExperimentPurchaseInput {
+  subjectId: string;
+  variantKey: string;
+  revenue: number;
+  discount: number; // Budget discount given, i.e. what the variant's pricing cost the store
+}
+
+// One purchased line; lines of the same order share its orderId
+export interface ExperimentOrderLineInput extends ExperimentPurchaseInput {
+  orderId?: string | null;
+}
+
+export interface ConfidenceInterval {
+  estimate: number;
+  lower: number;
+  upper: number;
+}
+
+// A difference from the control arm; significant when the interval excludes zero
+export interface DifferenceInterval extends ConfidenceInterval {
+  significant: boolean;
+}
+
+export interface ExperimentArmReport {
+  variantKey: string;
+  name: string;
+  ruleId: number;
+  visitors: number;
+  conversions: number; // Visitors with at least one purchase
+  orders: number;
+  revenue: number;
+  discountCost: number;
+  // null while the arm has no visitors
+  conversionRate: ConfidenceInterval | null;
+  revenuePerVisitor: ConfidenceInterval | null;
+  discountCostPerVisitor: ConfidenceInterval | null;
+  // null for the control arm and arms that cannot be compared yet
+  versusControl: {
+    conversionRate: DifferenceInterval;
+    revenuePerVisitor: DifferenceInterval;
+  } | null;
+}
+
+export interface ExperimentReport {
+  confidenceLevel: number;
+  controlKey: string;
+  arms: ExperimentArmReport[];
+}
+
+// Two-sided 95% normal quantile
+const Z_95 = 1.959963984540054;
+
+// Per-visitor totals: mean and variance come from sums and sums of squares
+interface ArmTotals {
+  visitors: number;
+  conversions: number;
+  orders: number;
+  revenue: number;
+  revenueSquares: number;
+  discount: number;
+  discountSquares: number;
+}
+
+export class Experiments {
+
+  /**
+   * Position of a subject in [0, 1) for an experiment. The experiment ID is part of the
+   * hash so customers are reshuffled between experiments.
+   */
+  static bucket(experimentId: number, subjectId: string): number {
+    // 32-bit FNV-1a, then the MurmurHash3 finalizer so IDs differing in their last
+    // characters (customer_1, customer_2) still spread over the whole range
+    let hash = 0x811c9dc5;
+    const input = `${experimentId}:${subjectId}`;
+    for (let i = 0; i < input.length; i++) {
+      hash ^= input.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    hash ^= hash >>> 16;
+    hash = Math.imul(hash, 0x85ebca6b);
+    hash ^= hash >>> 13;
+    hash = Math.imul(hash, 0xc2b2ae35);
+    hash ^= hash >>> 16;
+    return (hash >>> 0) / 0x100000000;
+  }
+
+  /**
+   * The variant a subject sees: the same subject always lands in the same variant as long
+   * as the variants and their weights are unchanged
+   */
+  static assignVariant(experimentId: number, variants: ExperimentVariant[], subjectId: string): ExperimentVariant {
+    const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+    const position = this.bucket(experimentId, subjectId) * totalWeight;
+
+    let cumulative = 0;
+    for (const variant of variants) {
+      cumulative += variant.weight;
+      if (position < cumulative) {
+        return variant;
+      }
+    }
+    return variants[variants.length - 1];
+  }
+
+  /**
+   * Combine order lines into the purchases analyze() counts: one per order, with the order's
+   * revenue and discount. A line without an orderId is an order of its own.
+   */
+  static groupOrders(lines: ExperimentOrderLineInput[]): ExperimentPurchaseInput[] {
+    const orders = new Map<string, ExperimentPurchaseInput>();
+    lines.forEach((line, index) => {
+      const key = line.orderId ? `order:${line.orderId}` : `line:${index}`;
+      const order = orders.get(key);
+      if (order) {
+        order.revenue += line.revenue;
+        order.discount += line.discount;
+      } else {
+        orders.set(key, { subjectId: line.subjectId, variantKey: line.variantKey, revenue: line.revenue, discount: line.discount });
+      }
+    });
+    return Array.from(orders.values());
+  }
+
+  /**
+   * Per-arm conversion rate, revenue per visitor and discount cost with 95% confidence
+   * intervals. The first variant is the control. Purchases only count for subjects assigned
+   * to the variant they are stamped with.
+   */
+  static analyze(
+    variants: ExperimentVariant[],
+    assignments: ExperimentAssignmentInput[],
+    purchases: ExperimentPurchaseInput[]
+  ): ExperimentReport {
+    const assigned = new Map(assignments.map(assignment => [assignment.subjectId, assignment.variantKey]));
+    const subjects = new Map<string, { variantKey: string; orders: number; revenue: number; discount: number }>();
+
+    assigned.forEach((variantKey, subjectId) => {
+      subjects.set(subjectId, { variantKey, orders: 0, revenue: 0, discount: 0 });
+    });
+    for (const purchase of purchases) {
+      const subject = subjects.get(purchase.subjectId);
+      if (subject && subject.variantKey === purchase.variantKey) {
+        subject.orders += 1;
+        subject.revenue += purchase.revenue;
+        subject.discount += purchase.discount;
+      }
+    }
+
+    const totals = new Map<string, ArmTotals>(variants.map(variant => [variant.key, {
+      visitors: 0, conversions: 0, orders: 0, revenue: 0, revenueSquares: 0, discount: 0, discountSquares: 0
+    }]));
+    subjects.forEach(subject => {
+      const arm = totals.get(subject.variantKey);
+      if (!arm) return;
+      arm.visitors += 1;
+      arm.conversions += subject.orders > 0 ? 1 : 0;
+      arm.orders += subject.orders;
+      arm.revenue += subject.revenue;
+      arm.revenueSquares += subject.revenue ** 2;
+      arm.discount += subject.discount;
+      arm.discountSquares += subject.discount ** 2;
+    });
+
+    const control = totals.get(variants[0].key)!;
+    const arms = variants.map((variant, index): ExperimentArmReport => {
+      const arm = totals.get(variant.key)!;
+      const comparable = index > 0 && arm.visitors > 0 && control.visitors > 0;
+
+      return {
+        variantKey: variant.key,
+        name: variant.name,
+        ruleId: variant.ruleId,
+        visitors: arm.visitors,
+        conversions: arm.conversions,
+        orders: arm.orders,
+        revenue: this.round(arm.revenue),
+        discountCost: this.round(arm.discount),
+        conversionRate: arm.visitors > 0 ? this.wilsonInterval(arm.conversions, arm.visitors) : null,
+        revenuePerVisitor: arm.visitors > 0 ? this.meanInterval(arm.revenue, arm.revenueSquares, arm.visitors) : null,
+        discountCostPerVisitor: arm.visitors > 0 ? this.meanInterval(arm.discount, arm.discountSquares, arm.visitors) : null,
+        versusControl: comparable ? {
+          conversionRate: this.proportionDifference(control, arm),
+          revenuePerVisitor: this.meanDifference(control, arm)
+        } : null
+      };
+    });
+
+    return { confidenceLevel: 0.95, controlKey: variants[0].key, arms };
+  }
+
+  /**
+   * Wilson score interval for a proportion; unlike the normal approximation it stays
+   * inside [0, 1] for small samples and rates near zero
+   */
+  static wilsonInterval(successes: number, trials: number): ConfidenceInterval {
+    const rate = successes / trials;
+    const z2 = Z_95 ** 2;
+    const denominator = 1 + z2 / trials;
+    const center = (rate + z2 / (2 * trials)) / denominator;
+    const margin = (Z_95 * Math.sqrt(rate * (1 - rate) / trials + z2 / (4 * trials ** 2))) / denominator;
+
+    return {
+      estimate: this.round(rate),
+      lower: this.round(Math.max(0, center - margin)),
+      upper: this.round(Math.min(1, center + margin))
+    };
+  }
+
+  /**
+   * Normal interval for a per-visitor mean, from the sum and sum of squares over n visitors
+   */
+  static meanInterval(sum: number, sumOfSquares: number, n: number): ConfidenceInterval {
+    const mean = sum / n;
+    const margin = Z_95 * Math.sqrt(this.sampleVariance(sum, sumOfSquares, n) / n);
+    return { estimate: this.round(mean), lower: this.round(mean - margin), upper: this.round(mean + margin) };
+  }
+
+  private static proportionDifference(control: ArmTotals, arm: ArmTotals): DifferenceInterval {
+    const controlRate = control.conversions / control.visitors;
+    const armRate = arm.conversions / arm.visitors;
+    const standardError = Math.sqrt(
+      controlRate * (1 - controlRate) / control.visitors + armRate * (1 - armRate) / arm.visitors
+    );
+    return this.difference(armRate - controlRate, standardError);
+  }
+
+  // Welch-style standard error; arms may differ in size and variance
+  private static meanDifference(control: ArmTotals, arm: ArmTotals): DifferenceInterval {
+    const standardError = Math.sqrt(
+      this.sampleVariance(control.revenue, control.revenueSquares, control.visitors) / control.visitors +
+      this.sampleVariance(arm.revenue, arm.revenueSquares, arm.visitors) / arm.visitors
+    );
+    return this.difference(arm.revenue / arm.visitors - control.revenue / control.visitors, standardError);
+  }
+
+  private static difference(estimate: number, standardError: number): DifferenceInterval {
+    const lower = estimate - Z_95 * standardError;
+    const upper = estimate + Z_95 * standardError;
+    return {
+      estimate: this.round(estimate),
+      lower: this.round(lower),
+      upper: this.round(upper),
+      significant: lower > 0 || upper < 0
+    };
+  }
+
+  // Unbiased (n - 1) variance; a single observation has none
+  private static sampleVariance(sum: number, sumOfSquares: number, n: number): number {
+    if (n < 2) return 0;
+    return Math.max(0, (sumOfSquares - sum ** 2 / n) / (n - 1));
+  }
+
+  // Six decimals keep float noise out of reports without hiding small rates
+  private static round(value: number): number {
+    return Math.round(value * 1e6) / 1e6;
+  }
+}
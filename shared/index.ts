@@ -4,7 +4,17 @@ export * from './schema.js';
 // Re-export input sanitization utilities
 export * from './input-sanitizer.js';
 
+// Re-export the shared pricing engine
+export * from './pricing-engine.js';
+
+// Re-export subscription plans and their limits
+export * from './app-tiers.js';
+
+// Re-export minor-unit money arithmetic
+export * from './money.js';
+
 // Additional shared utilities can be added here in the future
+// Default category set; stores on plans with custom rules can define their own (see budgetCategoriesSchema)
 export const BUDGET_CATEGORIES = ['needs', 'wants', 'savings'] as const;
 
 export const DEFAULT_BUDGET_PERCENTAGES = {
@@ -13,7 +23,30 @@ export const DEFAULT_BUDGET_PERCENTAGES = {
   savings: 20
 } as const;
 
+export const BUDGET_PERIODS = ['weekly', 'biweekly', 'monthly', 'yearly'] as const;
+
+export const PERIODS_PER_YEAR = {
+  weekly: 52,
+  biweekly: 26,
+  monthly: 12,
+  yearly: 1
+} as const;
+
+export const BUDGET_REFRESH_TYPES = ['per_purchase', 'daily', 'weekly', 'monthly', 'never', 'custom'] as const;
+
 export const SUPPORTED_PLATFORMS = ['shopify', 'magento', 'woocommerce'] as const;
 
-export type BudgetCategory = typeof BUDGET_CATEGORIES[number];
-export type SupportedPlatform = typeof SUPPORTED_PLATFORMS[number];
\ No newline at end of file
+// Psychological price endings a pricing rule can snap budget prices to
+export const PRICE_ENDINGS = ['none', 'nearest_99', 'nearest_95', 'whole', 'round_down'] as const;
+
+// Whether store prices already include tax (VAT regions) or have it added at checkout (US)
+export const TAX_MODES = ['exclusive', 'inclusive'] as const;
+
+export type DefaultBudgetCategory = typeof BUDGET_CATEGORIES[number];
+// Key of one of the store's budget categories, e.g. "needs" or a custom "hobbies"
+export type BudgetCategory = string;
+export type BudgetPeriod = typeof BUDGET_PERIODS[number];
+export type BudgetRefreshType = typeof BUDGET_REFRESH_TYPES[number];
+export type SupportedPlatform = typeof SUPPORTED_PLATFORMS[number];
+export type PriceEnding = typeof PRICE_ENDINGS[number];
+export type TaxMode = typeof TAX_MODES[number];
@@ -0,0 +1,175 @@
+/**
+ * Money
+ * Integer minor-unit amounts tagged with an ISO 4217 currency, so prices add up exactly in any currency.
+ * Kept free of imports so the frontend can format amounts without pulling in the database schema.
+ */
+
+export interface Money {
+  amount: number; // Integer minor units, e.g. cents for USD or yen for JPY
+  currency: string;
+}
+
+// Exchange rates a merchant maintains: units of each currency per one unit of baseCurrency
+export interface CurrencyRateTable {
+  baseCurrency: string;
+  rates: Record<string, number>;
+}
+
+export type MoneyRounding = 'nearest' | 'down';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+// ISO 4217 currencies whose minor unit is not two digits
+const MINOR_UNIT_DIGITS: Record<string, number> = {
+  BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0,
+  PYG: 0, RWF: 0, UGX: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3
+};
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+export class MoneyMath {
+
+  static isCurrencyCode(code: string): boolean {
+    return CURRENCY_CODE.test(code.toUpperCase());
+  }
+
+  static normalizeCurrency(code: string): string {
+    const normalized = code.toUpperCase();
+    if (!CURRENCY_CODE.test(normalized)) {
+      throw new Error(`Invalid currency code "${code}"`);
+    }
+    return normalized;
+  }
+
+  static getMinorUnitDigits(currency: string): number {
+    return MINOR_UNIT_DIGITS[currency.toUpperCase()] ?? 2;
+  }
+
+  static zero(currency: string): Money {
+    return { amount: 0, currency: this.normalizeCurrency(currency) };
+  }
+
+  /**
+   * Convert a decimal amount (e.g. 19.99) to minor units. "nearest" rounds half away from zero;
+   * "down" truncates toward zero, e.g. so a rounding remainder never enlarges a discount.
+   */
+  static fromMajor(value: number, currency: string, rounding: MoneyRounding = 'nearest'): Money {
+    const normalized = this.normalizeCurrency(currency);
+    return { amount: this.roundMinor(value * this.getFactor(normalized), rounding), currency: normalized };
+  }
+
+  static toMajor(money: Money): number {
+    return money.amount / this.getFactor(money.currency);
+  }
+
+  /**
+   * Round a decimal amount to the currency's minor unit
+   */
+  static roundMajor(value: number, currency: string): number {
+    return this.toMajor(this.fromMajor(value, currency));
+  }
+
+  /**
+   * Round a decimal amount up to the next minor unit
+   */
+  static ceilMajor(value: number, currency: string): number {
+    const factor = this.getFactor(currency);
+    // Trim float noise first so 12.5 * 100 = 1250.0000001 stays 1250
+    return Math.ceil(Math.round(value * factor * 1e4) / 1e4) / factor;
+  }
+
+  static add(a: Money, b: Money): Money {
+    this.assertSameCurrency(a, b);
+    return { amount: a.amount + b.amount, currency: a.currency };
+  }
+
+  static subtract(a: Money, b: Money): Money {
+    this.assertSameCurrency(a, b);
+    return { amount: a.amount - b.amount, currency: a.currency };
+  }
+
+  static multiply(money: Money, factor: number): Money {
+    return { amount: this.roundMinor(money.amount * factor), currency: money.currency };
+  }
+
+  static min(a: Money, b: Money): Money {
+    this.assertSameCurrency(a, b);
+    return a.amount <= b.amount ? a : b;
+  }
+
+  static max(a: Money, b: Money): Money {
+    this.assertSameCurrency(a, b);
+    return a.amount >= b.amount ? a : b;
+  }
+
+  /**
+   * Convert between currencies through the rate table's base currency
+   */
+  static convert(money: Money, toCurrency: string, table: CurrencyRateTable): Money {
+    const target = this.normalizeCurrency(toCurrency);
+    if (money.currency === target) {
+      return money;
+    }
+
+    const fromRate = this.getRate(table, money.currency);
+    const toRate = this.getRate(table, target);
+    return this.fromMajor(this.toMajor(money) / fromRate * toRate, target);
+  }
+
+  /**
+   * Convert a decimal amount between currencies, rounded to the target's minor unit
+   */
+  static convertMajor(value: number, fromCurrency: string, toCurrency: string, table: CurrencyRateTable): number {
+    return this.toMajor(this.convert(this.fromMajor(value, fromCurrency), toCurrency, table));
+  }
+
+  static canConvert(fromCurrency: string, toCurrency: string, table: CurrencyRateTable): boolean {
+    return fromCurrency.toUpperCase() === toCurrency.toUpperCase() ||
+      (this.findRate(table, fromCurrency) !== undefined && this.findRate(table, toCurrency) !== undefined);
+  }
+
+  static format(money: Money, locale?: string): string {
+    const digits = this.getMinorUnitDigits(money.currency);
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: money.currency,
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits
+    }).format(this.toMajor(money));
+  }
+
+  private static getRate(table: CurrencyRateTable, currency: string): number {
+    const rate = this.findRate(table, currency);
+    if (rate === undefined) {
+      throw new Error(`No exchange rate for ${currency}`);
+    }
+    return rate;
+  }
+
+  private static findRate(table: CurrencyRateTable, currency: string): number | undefined {
+    const normalized = currency.toUpperCase();
+    if (normalized === table.baseCurrency.toUpperCase()) {
+      return 1;
+    }
+    const rate = table.rates[normalized];
+    return rate !== undefined && Number.isFinite(rate) && rate > 0 ? rate : undefined;
+  }
+
+  private static getFactor(currency: string): number {
+    return 10 ** this.getMinorUnitDigits(currency);
+  }
+
+  // Trims float noise first, e.g. 1.005 * 100 = 100.49999999999999 rounds to 101
+  private static roundMinor(value: number, rounding: MoneyRounding = 'nearest'): number {
+    const trimmed = Math.round(value * 1e6) / 1e6;
+    const magnitude = rounding === 'down' ? Math.floor(Math.abs(trimmed)) : Math.round(Math.abs(trimmed));
+    return trimmed < 0 ? -magnitude : magnitude;
+  }
+
+  private static assertSameCurrency(a: Money, b: Money): void {
+    if (a.currency !== b.currency) {
+      throw new Error(`Currency mismatch: ${a.currency} and ${b.currency}`);
+    }
+  }
+}
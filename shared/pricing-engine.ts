@@ -0,0 +1,1277 @@
+/**
+ * Pricing Engine
+ * Single source of truth for budget-aware pricing, shared by the API routes and the edge worker
+ */
+
+import {
+  budgetCategoriesSchema,
+  bundleRulesSchema,
+  categoryMappingSchema,
+  currencyRatesSchema,
+  discountLadderSchema,
+  inventorySettingsSchema,
+  productScopeSchema,
+  taxRatesSchema,
+  type BudgetCategoryDefinition,
+  type BudgetData,
+  type BundleLinePricing,
+  type BundlePricing,
+  type BundleRule,
+  type CategoryMapping,
+  type CategoryMappingRule,
+  type CategorySource,
+  type CustomerPurchase,
+  type DiscountLadder,
+  type InventorySettings,
+  type PricingBreakdownStep,
+  type PricingNotAppliedReason,
+  type PricingRule,
+  type ProductCost,
+  type ProductPricing,
+  type ProductScope,
+  type Store,
+  type TaxRates
+} from './schema.js';
+import { APP_TIERS, type AppTierId } from './app-tiers.js';
+import { DEFAULT_CURRENCY, MoneyMath, type CurrencyRateTable, type Money } from './money.js';
+import {
+  BUDGET_CATEGORIES,
+  DEFAULT_BUDGET_PERCENTAGES,
+  PERIODS_PER_YEAR,
+  PRICE_ENDINGS,
+  TAX_MODES,
+  type BudgetCategory,
+  type BudgetPeriod,
+  type PriceEnding,
+  type TaxMode
+} from './index.js';
+
+// Fallback cap when a store has no active pricing rule
+const DEFAULT_MAX_DISCOUNT_PERCENTAGE = 25;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A 100% margin has no finite floor price
+const MAX_MARGIN_PERCENTAGE = 99;
+
+const PRICE_ENDING_TARGETS: Record<Exclude<PriceEnding, 'none'>, string> = {
+  nearest_99: 'the nearest .99 ending',
+  nearest_95: 'the nearest .95 ending',
+  whole: 'the nearest whole amount',
+  round_down: 'the whole amount below'
+};
+
+export interface PricingProductInput {
+  productId: string;
+  variantId?: string;
+  basePrice: number;
+  shopifyDiscounts?: number;
+  category?: BudgetCategory;
+  // Attributes used to match the rule's product scope
+  handle?: string;
+  collections?: string[];
+  tags?: string[];
+  // Platform metadata the rule's category mapping classifies by
+  vendor?: string;
+  // Unit cost from the store's productCosts; unknown cost means no margin floor
+  unitCost?: number;
+  // Currency of basePrice, shopifyDiscounts and unitCost; defaults to the budget's currency
+  currency?: string;
+  // Picks a product-type tax rate, e.g. "books"
+  productType?: string;
+  // Stock on hand and the last sale in this store; unknown values never trigger the rule's inventory checks
+  inventoryQuantity?: number;
+  lastSoldAt?: Date | null;
+}
+
+// A line of a multi-unit or bundle quote; prices and discounts on the product are per unit
+export interface PricingLineInput extends PricingProductInput {
+  quantity: number;
+}
+
+// How the rule's inventory settings treat a product: boosted states raise the discount cap,
+// low stock suppresses the budget discount
+export interface InventoryAdjustment {
+  state: 'normal' | 'overstock' | 'slow_selling' | 'low_stock';
+  maxDiscountPercentage: number; // The cap for this product
+  daysSinceSale: number | null;
+}
+
+export interface ProductClassification {
+  category: BudgetCategory;
+  source: CategorySource;
+  // Index of the mapping rule that matched, when source is "mapping_rule"
+  ruleIndex: number | null;
+}
+
+export interface TaxSettings {
+  mode: TaxMode;
+  rates: TaxRates;
+}
+
+export interface ProductEligibility {
+  eligible: boolean;
+  reason?: PricingNotAppliedReason;
+  message?: string;
+}
+
+export interface PricingContext {
+  // The customer's prior purchases in this store; omit for anonymous shoppers
+  purchases?: CustomerPurchase[];
+  now?: Date;
+  // The store's tax settings and the customer's region, e.g. "US-CA"; without them no tax is estimated
+  tax?: TaxSettings;
+  region?: string;
+}
+
+export interface BudgetApplicationUsage {
+  used: number;
+  limit: number; // -1 = unlimited
+  remaining: number; // -1 = unlimited
+  windowStart: Date | null; // null = counted over all time, or per order for per_purchase
+}
+
+export type CategoryPercentages = Record<BudgetCategory, number>;
+
+const NOT_APPLIED_MESSAGES: Record<PricingNotAppliedReason, string> = {
+  app_disabled: 'Budget pricing is turned off for this store.',
+  product_not_included: 'Budget pricing is not enabled for this product.',
+  product_excluded: 'This product is excluded from budget pricing.',
+  budget_limit_reached: 'The budget discount limit for this period has been reached.',
+  low_stock: 'Budget discounts are paused while this product is low on stock.'
+};
+
+// Rolling refresh windows; "custom" uses the rule's budgetRefreshDays
+const REFRESH_WINDOW_DAYS: Partial<Record<string, number>> = {
+  daily: 1,
+  weekly: 7,
+  monthly: 30
+};
+
+export class PricingEngine {
+
+  /**
+   * The store's budget categories: the rule's custom set, or needs/wants/savings from its
+   * percentage columns, falling back to 50/30/20
+   */
+  static getBudgetCategories(rule?: PricingRule | null): BudgetCategoryDefinition[] {
+    const custom = this.getCustomCategories(rule);
+    if (custom) {
+      return custom;
+    }
+
+    const percentages = {
+      needs: this.parsePercentage(rule?.needsPercentage, DEFAULT_BUDGET_PERCENTAGES.needs),
+      wants: this.parsePercentage(rule?.wantsPercentage, DEFAULT_BUDGET_PERCENTAGES.wants),
+      savings: this.parsePercentage(rule?.savingsPercentage, DEFAULT_BUDGET_PERCENTAGES.savings)
+    };
+    return BUDGET_CATEGORIES.map(key => ({
+      key,
+      name: key.charAt(0).toUpperCase() + key.slice(1),
+      percentage: percentages[key]
+    }));
+  }
+
+  /**
+   * The rule's custom category set, or null when it uses needs/wants/savings
+   */
+  static getCustomCategories(rule?: PricingRule | null): BudgetCategoryDefinition[] | null {
+    const custom = budgetCategoriesSchema.safeParse(rule?.categories);
+    return rule?.categories != null && custom.success ? custom.data : null;
+  }
+
+  /**
+   * Resolve the category split (in percent) from a store's pricing rule
+   */
+  static getCategoryPercentages(rule?: PricingRule | null): CategoryPercentages {
+    return Object.fromEntries(this.getBudgetCategories(rule).map(category => [category.key, category.percentage]));
+  }
+
+  /**
+   * Pick the category to price against: the requested one if the store defines it,
+   * otherwise the fallback (e.g. the customer's budget category), otherwise the store's first
+   */
+  static resolveCategory(
+    categories: BudgetCategoryDefinition[],
+    requested?: BudgetCategory | null,
+    fallback?: BudgetCategory | null
+  ): BudgetCategory {
+    const keys = categories.map(category => category.key);
+    if (requested && keys.includes(requested)) return requested;
+    if (fallback && keys.includes(fallback)) return fallback;
+    return keys[0];
+  }
+
+  /**
+   * The rule's category mapping; no rules when it has none or it is malformed
+   */
+  static getCategoryMapping(rule?: PricingRule | null): CategoryMapping {
+    const mapping = categoryMappingSchema.safeParse(rule?.categoryMapping ?? {});
+    return mapping.success ? mapping.data : { rules: [] };
+  }
+
+  /**
+   * Decide a product's budget category: the requested one if the store defines it, otherwise
+   * the first mapping rule matching the product's metadata, otherwise the mapping's default.
+   * Rules pointing at a category the store no longer defines are skipped.
+   */
+  static classifyProduct(
+    rule: PricingRule | null | undefined,
+    product: PricingProductInput,
+    fallback?: BudgetCategory | null,
+    mapping: CategoryMapping = this.getCategoryMapping(rule)
+  ): ProductClassification {
+    const categories = this.getBudgetCategories(rule);
+    const keys = categories.map(category => category.key);
+
+    if (product.category && keys.includes(product.category)) {
+      return { category: product.category, source: 'request', ruleIndex: null };
+    }
+
+    const ruleIndex = mapping.rules.findIndex(mappingRule =>
+      keys.includes(mappingRule.category) && this.matchesMappingRule(mappingRule, product)
+    );
+    if (ruleIndex >= 0) {
+      return { category: mapping.rules[ruleIndex].category, source: 'mapping_rule', ruleIndex };
+    }
+
+    return {
+      category: this.resolveCategory(categories, mapping.defaultCategory, fallback),
+      source: 'default',
+      ruleIndex: null
+    };
+  }
+
+  /**
+   * Resolve the maximum budget discount (in percent of base price) from a store's pricing rule
+   */
+  static getMaxDiscountPercentage(rule?: PricingRule | null): number {
+    return this.parsePercentage(rule?.maxDiscountPercentage, DEFAULT_MAX_DISCOUNT_PERCENTAGE);
+  }
+
+  /**
+   * Clamp a pricing rule to what the store's plan allows: the plan's discount cap (boosted caps included),
+   * and the default 50/30/20 split on plans without custom rules
+   */
+  static applyTierLimits(rule: PricingRule | null | undefined, tier: AppTierId): PricingRule | undefined {
+    if (!rule) return undefined;
+
+    const limits = APP_TIERS[tier].limits;
+    const maxDiscount = Math.min(this.getMaxDiscountPercentage(rule), limits.maxDiscountPercentage);
+
+    const inventory = this.getInventorySettings(rule);
+
+    return {
+      ...rule,
+      maxDiscountPercentage: maxDiscount.toFixed(2),
+      inventorySettings: inventory && {
+        ...inventory,
+        boostedMaxDiscountPercentage: Math.min(inventory.boostedMaxDiscountPercentage, limits.maxDiscountPercentage)
+      },
+      ...(limits.customRules ? {} : {
+        categories: null,
+        needsPercentage: DEFAULT_BUDGET_PERCENTAGES.needs.toFixed(2),
+        wantsPercentage: DEFAULT_BUDGET_PERCENTAGES.wants.toFixed(2),
+        savingsPercentage: DEFAULT_BUDGET_PERCENTAGES.savings.toFixed(2)
+      })
+    };
+  }
+
+  /**
+   * Split the income for a budget period into category budgets using the store's pricing rule.
+   * Category amounts cover the given period; monthlyIncome is always the monthly equivalent.
+   */
+  static calculateBudget(
+    income: number,
+    rule?: PricingRule | null,
+    category: BudgetCategory = 'wants',
+    period: BudgetPeriod = 'monthly',
+    currency: string = DEFAULT_CURRENCY
+  ): BudgetData {
+    const categories = this.getBudgetCategories(rule);
+    const categoryAmounts = Object.fromEntries(
+      categories.map(definition => [definition.key, income * definition.percentage / 100])
+    );
+
+    return {
+      monthlyIncome: this.toMonthlyIncome(income, period),
+      needsAmount: categoryAmounts.needs ?? 0,
+      wantsAmount: categoryAmounts.wants ?? 0,
+      savingsAmount: categoryAmounts.savings ?? 0,
+      categoryAmounts,
+      category: this.resolveCategory(categories, category, 'wants'),
+      budgetPeriod: period,
+      periodIncome: income,
+      currency: MoneyMath.normalizeCurrency(currency)
+    };
+  }
+
+  /**
+   * Build a store's rate table from its currency and merchant-provided rates
+   */
+  static getCurrencyRates(store?: Pick<Store, 'currency' | 'currencyRates'> | null): CurrencyRateTable {
+    const rates = currencyRatesSchema.safeParse(store?.currencyRates ?? {});
+    return {
+      baseCurrency: store?.currency ?? DEFAULT_CURRENCY,
+      rates: rates.success ? rates.data : {}
+    };
+  }
+
+  static getTaxSettings(store?: Pick<Store, 'taxMode' | 'taxRates'> | null): TaxSettings {
+    const rates = taxRatesSchema.safeParse(store?.taxRates ?? {});
+    return {
+      mode: TAX_MODES.find(mode => mode === store?.taxMode) ?? 'exclusive',
+      rates: rates.success ? rates.data : { defaultRate: 0, regions: {}, productTypes: {} }
+    };
+  }
+
+  /**
+   * The store's auto-discount ladder. Stores that have not set one, or whose saved ladder no
+   * longer parses, get 5/7/10/15% off at 1x/1.5x/2x/3x their minimum threshold plus free
+   * shipping from 1.5x.
+   */
+  static getDiscountLadder(store?: Pick<Store, 'discountLadder' | 'minimumDiscountThreshold'> | null): DiscountLadder {
+    const parsed = discountLadderSchema.safeParse(store?.discountLadder);
+    if (parsed.success) {
+      return parsed.data;
+    }
+
+    const threshold = parseFloat(store?.minimumDiscountThreshold ?? '50') || 0;
+    return {
+      tiers: [
+        { name: 'Budget-conscious shopping reward', minimumAmount: threshold, type: 'percentage', value: 5 },
+        { name: 'Budget-conscious shopping reward', minimumAmount: threshold * 1.5, type: 'percentage', value: 7 },
+        { name: 'Budget-conscious shopping reward', minimumAmount: threshold * 2, type: 'percentage', value: 10 },
+        { name: 'Budget-conscious shopping reward', minimumAmount: threshold * 3, type: 'percentage', value: 15 },
+        { name: 'Free shipping for budget-conscious bulk orders', minimumAmount: threshold * 1.5, type: 'free_shipping', value: 0 }
+      ],
+      stacking: 'best_with_free_shipping'
+    };
+  }
+
+  /**
+   * Tax rate in percent: the product type's rate, else the region's ("US-CA", then "US"), else the default
+   */
+  static resolveTaxRate(tax: TaxSettings | undefined, region?: string, productType?: string): number {
+    if (!tax) {
+      return 0;
+    }
+
+    const typeRate = productType ? this.findTaxRate(tax.rates.productTypes, productType) : undefined;
+    if (typeRate !== undefined) {
+      return typeRate;
+    }
+
+    if (region) {
+      const regionRate = this.findTaxRate(tax.rates.regions, region) ?? this.findTaxRate(tax.rates.regions, region.split('-')[0]);
+      if (regionRate !== undefined) {
+        return regionRate;
+      }
+    }
+
+    return tax.rates.defaultRate;
+  }
+
+  /**
+   * Express a budget in another currency using the store's rate table
+   */
+  static convertBudget(budget: BudgetData, toCurrency: string, rates: CurrencyRateTable): BudgetData {
+    const fromCurrency = budget.currency ?? rates.baseCurrency;
+    const convert = (value: number) => MoneyMath.convertMajor(value, fromCurrency, toCurrency, rates);
+
+    return {
+      ...budget,
+      monthlyIncome: convert(budget.monthlyIncome),
+      needsAmount: convert(budget.needsAmount),
+      wantsAmount: convert(budget.wantsAmount),
+      savingsAmount: convert(budget.savingsAmount),
+      categoryAmounts: budget.categoryAmounts
+        ? Object.fromEntries(Object.entries(budget.categoryAmounts).map(([key, amount]) => [key, convert(amount)]))
+        : undefined,
+      periodIncome: budget.periodIncome !== undefined ? convert(budget.periodIncome) : undefined,
+      currency: MoneyMath.normalizeCurrency(toCurrency)
+    };
+  }
+
+  /**
+   * Normalize income earned per period to its monthly equivalent
+   */
+  static toMonthlyIncome(income: number, period: BudgetPeriod): number {
+    return income * PERIODS_PER_YEAR[period] / PERIODS_PER_YEAR.monthly;
+  }
+
+  /**
+   * Budget window for a period, anchored at the start (UTC midnight) of the given day.
+   * The end date is inclusive, one millisecond before the next window starts.
+   */
+  static getBudgetPeriodWindow(period: BudgetPeriod, from: Date = new Date()): { start: Date; end: Date } {
+    const start = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+    let next: Date;
+
+    switch (period) {
+      case 'weekly':
+        next = new Date(start.getTime() + 7 * DAY_MS);
+        break;
+      case 'biweekly':
+        next = new Date(start.getTime() + 14 * DAY_MS);
+        break;
+      case 'yearly':
+        next = this.addUtcMonths(start, 12);
+        break;
+      default:
+        next = this.addUtcMonths(start, 1);
+    }
+
+    return { start, end: new Date(next.getTime() - 1) };
+  }
+
+  // Add calendar months, clamping to the last day of shorter months (Jan 31 + 1 month = Feb 28)
+  private static addUtcMonths(date: Date, months: number): Date {
+    const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+    return target;
+  }
+
+  /**
+   * Amount of the customer's budget available for a category
+   */
+  static getCategoryBudget(budget: BudgetData, category: BudgetCategory): number {
+    return this.getCategoryAmounts(budget)[category] ?? 0;
+  }
+
+  /**
+   * Re-split a saved budget when the store's category set has changed since it was calculated
+   */
+  static alignBudgetCategories(budget: BudgetData, rule?: PricingRule | null): BudgetData {
+    const amounts = this.getCategoryAmounts(budget);
+    if (this.getBudgetCategories(rule).every(category => amounts[category.key] !== undefined)) {
+      return budget;
+    }
+
+    return this.calculateBudget(
+      budget.periodIncome ?? budget.monthlyIncome,
+      rule,
+      budget.category,
+      budget.periodIncome !== undefined ? budget.budgetPeriod ?? 'monthly' : 'monthly',
+      budget.currency ?? DEFAULT_CURRENCY
+    );
+  }
+
+  /**
+   * Budget per category; budgets saved before custom categories only carry the default three
+   */
+  static getCategoryAmounts(budget: BudgetData): Record<BudgetCategory, number> {
+    return budget.categoryAmounts ?? {
+      needs: budget.needsAmount,
+      wants: budget.wantsAmount,
+      savings: budget.savingsAmount
+    };
+  }
+
+  /**
+   * Start of the rule's current refresh window, or null when applications never reset or,
+   * for per_purchase, are counted per order rather than over time
+   */
+  static getRefreshWindowStart(
+    rule: PricingRule | null | undefined,
+    now: Date = new Date()
+  ): Date | null {
+    const refreshType = rule?.budgetRefreshType ?? 'monthly';
+
+    if (refreshType === 'never' || refreshType === 'per_purchase') {
+      return null;
+    }
+
+    const days = REFRESH_WINDOW_DAYS[refreshType] ?? rule?.budgetRefreshDays ?? 30;
+    return new Date(now.getTime() - days * DAY_MS);
+  }
+
+  /**
+   * Count budget applications in the current refresh window against the rule's limit. With
+   * per_purchase the limit is per order: only applications already recorded on the given order
+   * count, and a new order starts with the full allowance.
+   */
+  static getBudgetApplicationUsage(
+    rule: PricingRule | null | undefined,
+    purchases: CustomerPurchase[] = [],
+    now: Date = new Date(),
+    orderId?: string | null
+  ): BudgetApplicationUsage {
+    const perOrder = rule?.budgetRefreshType === 'per_purchase';
+    const windowStart = this.getRefreshWindowStart(rule, now);
+    const used = purchases
+      .filter(purchase => parseFloat(purchase.budgetDiscount ?? '0') > 0)
+      .filter(purchase => perOrder
+        ? orderId != null && purchase.orderId === orderId
+        : !windowStart || (purchase.purchaseDate?.getTime() ?? 0) >= windowStart.getTime())
+      .reduce((total, purchase) => total + (purchase.budgetApplicationCount ?? 1), 0);
+
+    const limit = rule?.maxBudgetApplications ?? -1;
+    const remaining = limit < 0 ? -1 : Math.max(0, limit - used);
+
+    return { used, limit, remaining, windowStart };
+  }
+
+  /**
+   * Resolve a rule's enabledForProducts into a product scope; missing or malformed values cover all products
+   */
+  static getProductScope(rule?: PricingRule | null): ProductScope {
+    const parsed = productScopeSchema.safeParse(rule?.enabledForProducts ?? 'all');
+    return parsed.success ? parsed.data : 'all';
+  }
+
+  /**
+   * The rule's inventory settings; missing or malformed values turn inventory checks off
+   */
+  static getInventorySettings(rule?: PricingRule | null): InventorySettings | null {
+    const parsed = inventorySettingsSchema.safeParse(rule?.inventorySettings);
+    return parsed.success ? parsed.data : null;
+  }
+
+  /**
+   * Whether a product is low on stock, overstocked or selling slowly under the rule's inventory
+   * settings, and the discount cap that follows. Low stock wins over the boosts; a boost never
+   * lowers the rule's own cap.
+   */
+  static getInventoryAdjustment(
+    rule: PricingRule | null | undefined,
+    product: PricingProductInput,
+    now: Date = new Date()
+  ): InventoryAdjustment {
+    const maxDiscountPercentage = this.getMaxDiscountPercentage(rule);
+    const settings = this.getInventorySettings(rule);
+    const stock = product.inventoryQuantity;
+    const daysSinceSale = product.lastSoldAt
+      ? Math.max(Math.floor((now.getTime() - new Date(product.lastSoldAt).getTime()) / DAY_MS), 0)
+      : null;
+    const boosted = Math.max(maxDiscountPercentage, settings?.boostedMaxDiscountPercentage ?? 0);
+
+    if (settings?.lowStockThreshold != null && stock !== undefined && stock <= settings.lowStockThreshold) {
+      return { state: 'low_stock', maxDiscountPercentage, daysSinceSale };
+    }
+    if (settings?.overstockThreshold != null && stock !== undefined && stock >= settings.overstockThreshold) {
+      return { state: 'overstock', maxDiscountPercentage: boosted, daysSinceSale };
+    }
+    if (settings?.staleAfterDays != null && daysSinceSale !== null && daysSinceSale >= settings.staleAfterDays) {
+      return { state: 'slow_selling', maxDiscountPercentage: boosted, daysSinceSale };
+    }
+    return { state: 'normal', maxDiscountPercentage, daysSinceSale };
+  }
+
+  /**
+   * Check whether the rule lets a product receive a budget price at all
+   */
+  static getProductEligibility(rule: PricingRule | null | undefined, product: PricingProductInput): ProductEligibility {
+    if (rule && rule.isAppEnabled === false) {
+      return this.notEligible('app_disabled');
+    }
+
+    const scope = this.getProductScope(rule);
+    if (scope === 'all') {
+      return { eligible: true };
+    }
+
+    const { mode, items } = Array.isArray(scope) ? { mode: 'include' as const, items: scope } : scope;
+    const matches = items.some(item => this.matchesScopeItem(item, product));
+
+    if (mode === 'include' && !matches) {
+      return this.notEligible('product_not_included');
+    }
+    if (mode === 'exclude' && matches) {
+      return this.notEligible('product_excluded');
+    }
+    return { eligible: true };
+  }
+
+  private static matchesScopeItem(item: string, product: PricingProductInput): boolean {
+    const normalized = item.trim().toLowerCase();
+
+    if (normalized.startsWith('collection:')) {
+      const collection = normalized.slice('collection:'.length);
+      return (product.collections ?? []).some(value => value.toLowerCase() === collection);
+    }
+    if (normalized.startsWith('tag:')) {
+      const tag = normalized.slice('tag:'.length);
+      return (product.tags ?? []).some(value => value.toLowerCase() === tag);
+    }
+    return [product.productId, product.variantId, product.handle]
+      .some(value => value != null && value.toLowerCase() === normalized);
+  }
+
+  private static matchesMappingRule(mappingRule: CategoryMappingRule, product: PricingProductInput): boolean {
+    const value = mappingRule.value.trim().toLowerCase();
+    const candidates = {
+      product_type: [product.productType],
+      vendor: [product.vendor],
+      tag: product.tags ?? [],
+      collection: product.collections ?? []
+    }[mappingRule.field];
+
+    return candidates.some(candidate => candidate != null && candidate.trim().toLowerCase() === value);
+  }
+
+  // The rule's product scope first, then the customer's application limit, then stock
+  private static resolveEligibility(
+    rule: PricingRule | null | undefined,
+    product: PricingProductInput,
+    budgetLimitReached: boolean,
+    inventory: InventoryAdjustment
+  ): ProductEligibility {
+    const productEligibility = this.getProductEligibility(rule, product);
+    if (!productEligibility.eligible) return productEligibility;
+    if (budgetLimitReached) return this.notEligible('budget_limit_reached');
+    if (inventory.state === 'low_stock') return this.notEligible('low_stock');
+    return productEligibility;
+  }
+
+  private static notEligible(reason: PricingNotAppliedReason): ProductEligibility {
+    return { eligible: false, reason, message: NOT_APPLIED_MESSAGES[reason] };
+  }
+
+  /**
+   * Price a product or variant for a customer under the store's active pricing rule.
+   * The result carries an ordered breakdown of how the final price was reached.
+   */
+  static calculateProductPricing(
+    rule: PricingRule | null | undefined,
+    product: PricingProductInput,
+    budget: BudgetData,
+    context: PricingContext = {}
+  ): ProductPricing {
+    const classification = this.classifyProduct(rule, product, budget.category);
+    const category = classification.category;
+    const currency = MoneyMath.normalizeCurrency(product.currency ?? budget.currency ?? DEFAULT_CURRENCY);
+    const basePrice = product.basePrice;
+    const shopifyDiscounts = Math.min(product.shopifyDiscounts ?? 0, basePrice);
+    const availableBudget = this.getCategoryBudget(budget, category);
+    const inventory = this.getInventoryAdjustment(rule, product, context.now);
+    const maxDiscountPercentage = inventory.maxDiscountPercentage;
+    const purchases = context.purchases ?? [];
+    const usage = this.getBudgetApplicationUsage(rule, purchases, context.now);
+    const budgetLimitReached = usage.remaining === 0;
+    const eligibility = this.resolveEligibility(rule, product, budgetLimitReached, inventory);
+    const categoryPercentage = this.getCategoryPercentages(rule)[category];
+    const taxMode = context.tax?.mode ?? 'exclusive';
+    const taxRate = this.resolveTaxRate(context.tax, context.region, product.productType);
+    const taxFactor = 1 + taxRate / 100;
+    // The budget is what the customer pays, so tax added at checkout has to fit in it too.
+    // Flooring to the minor unit keeps the rounded tax from pushing the total a cent over.
+    const priceBudget = taxMode === 'exclusive' && taxRate > 0
+      ? MoneyMath.toMajor(MoneyMath.fromMajor(availableBudget / taxFactor, currency, 'down'))
+      : availableBudget;
+    const steps: PricingBreakdownStep[] = [];
+
+    steps.push({
+      step: 'category_allocation',
+      description: `${categoryPercentage}% of income is allocated to ${category}`,
+      amount: 0,
+      priceAfter: basePrice,
+      details: {
+        category,
+        categorySource: classification.source,
+        mappingRule: classification.ruleIndex,
+        percentage: categoryPercentage,
+        availableBudget: this.roundCurrency(availableBudget, currency),
+        budgetPeriod: budget.budgetPeriod ?? 'monthly'
+      }
+    });
+
+    // Calculate required discount to fit budget
+    const priceAfterShopifyDiscounts = basePrice - shopifyDiscounts;
+    let budgetDiscount = 0;
+    let repeatCustomerDiscount = 0;
+    let marginProtected = false;
+    // Lowest price the cap and margin floor allow; null when budget pricing does not apply
+    let priceFloor: number | null = null;
+
+    steps.push({
+      step: 'shopify_discounts',
+      description: shopifyDiscounts > 0
+        ? 'Existing store discounts are subtracted first'
+        : 'No existing store discounts',
+      amount: this.roundCurrency(shopifyDiscounts, currency),
+      priceAfter: this.roundCurrency(priceAfterShopifyDiscounts, currency),
+      details: { requested: product.shopifyDiscounts ?? 0 }
+    });
+
+    if (!eligibility.eligible) {
+      steps.push({
+        step: 'eligibility',
+        description: eligibility.message ?? 'Budget pricing was not applied',
+        amount: 0,
+        priceAfter: this.roundCurrency(priceAfterShopifyDiscounts, currency),
+        details: {
+          reason: eligibility.reason ?? null,
+          remainingApplications: usage.remaining,
+          inventoryQuantity: product.inventoryQuantity ?? null
+        }
+      });
+    }
+
+    if (eligibility.eligible && inventory.state !== 'normal') {
+      steps.push({
+        step: 'inventory',
+        description: inventory.state === 'overstock'
+          ? `Overstocked with ${product.inventoryQuantity} units on hand; discount cap raised to ${maxDiscountPercentage}%`
+          : `No sale in ${inventory.daysSinceSale} days; discount cap raised to ${maxDiscountPercentage}%`,
+        amount: 0,
+        priceAfter: this.roundCurrency(priceAfterShopifyDiscounts, currency),
+        details: {
+          state: inventory.state,
+          inventoryQuantity: product.inventoryQuantity ?? null,
+          daysSinceSale: inventory.daysSinceSale,
+          maxDiscountPercentage,
+          ruleMaxDiscountPercentage: this.getMaxDiscountPercentage(rule)
+        }
+      });
+    }
+
+    if (eligibility.eligible) {
+      const budgetGap = Math.max(priceAfterShopifyDiscounts - priceBudget, 0);
+      budgetDiscount = budgetGap;
+
+      // Returning buyers earn the rule's loyalty bonus on top of the budget discount
+      const repeatCustomerPercentage = this.parsePercentage(rule?.repeatCustomerDiscount, 0);
+      if (purchases.length > 0) {
+        repeatCustomerDiscount = basePrice * repeatCustomerPercentage / 100;
+      }
+      const requestedRepeatDiscount = repeatCustomerDiscount;
+
+      // Both share the cap at maximum discount percentage of the base price
+      const maxAllowedDiscount = Math.min(basePrice * maxDiscountPercentage / 100, priceAfterShopifyDiscounts);
+      budgetDiscount = Math.min(budgetDiscount, maxAllowedDiscount);
+      repeatCustomerDiscount = Math.min(repeatCustomerDiscount, maxAllowedDiscount - budgetDiscount);
+      priceFloor = priceAfterShopifyDiscounts - maxAllowedDiscount;
+
+      steps.push({
+        step: 'budget_gap',
+        description: budgetGap > 0
+          ? `Price exceeds the ${category} budget by ${this.roundCurrency(budgetGap, currency)}`
+          : `Price fits within the ${category} budget`,
+        amount: this.roundCurrency(budgetGap, currency),
+        priceAfter: this.roundCurrency(priceAfterShopifyDiscounts - budgetGap, currency),
+        details: {
+          availableBudget: this.roundCurrency(availableBudget, currency),
+          priceBudget: this.roundCurrency(priceBudget, currency),
+          taxRate
+        }
+      });
+
+      const capHit = budgetDiscount < budgetGap || repeatCustomerDiscount < requestedRepeatDiscount;
+      steps.push({
+        step: 'max_discount_cap',
+        description: capHit
+          ? `Discount capped at ${maxDiscountPercentage}% of the base price`
+          : `Discount is within the ${maxDiscountPercentage}% cap`,
+        amount: this.roundCurrency(budgetDiscount - budgetGap, currency),
+        priceAfter: this.roundCurrency(priceAfterShopifyDiscounts - budgetDiscount, currency),
+        details: {
+          capHit,
+          maxDiscountPercentage,
+          maxAllowedDiscount: this.roundCurrency(maxAllowedDiscount, currency),
+          budgetDiscount: this.roundCurrency(budgetDiscount, currency)
+        }
+      });
+
+      if (purchases.length > 0) {
+        steps.push({
+          step: 'repeat_customer',
+          description: `Returning customer discount of ${repeatCustomerPercentage}%`,
+          amount: this.roundCurrency(repeatCustomerDiscount, currency),
+          priceAfter: this.roundCurrency(priceAfterShopifyDiscounts - budgetDiscount - repeatCustomerDiscount, currency),
+          details: {
+            percentage: repeatCustomerPercentage,
+            requested: this.roundCurrency(requestedRepeatDiscount, currency),
+            priorPurchases: purchases.length
+          }
+        });
+      }
+
+      // The store's minimum margin over unit cost wins over both discounts. Tax-inclusive
+      // prices keep it on the net amount, after the tax they contain is paid over.
+      const netMarginFloor = this.getMarginFloor(rule, product.unitCost, currency);
+      const marginFloor = netMarginFloor !== null && taxMode === 'inclusive'
+        ? MoneyMath.ceilMajor(netMarginFloor * taxFactor, currency)
+        : netMarginFloor;
+      if (marginFloor !== null) {
+        priceFloor = Math.max(priceFloor, marginFloor);
+        const discountBeforeFloor = budgetDiscount + repeatCustomerDiscount;
+        const maxMarginDiscount = Math.max(priceAfterShopifyDiscounts - marginFloor, 0);
+        budgetDiscount = Math.min(budgetDiscount, maxMarginDiscount);
+        repeatCustomerDiscount = Math.min(repeatCustomerDiscount, maxMarginDiscount - budgetDiscount);
+        marginProtected = budgetDiscount + repeatCustomerDiscount < discountBeforeFloor;
+
+        steps.push({
+          step: 'margin_floor',
+          description: marginProtected
+            ? `Discount reduced to keep the ${this.getMinMarginPercentage(rule)}% minimum margin`
+            : 'Price stays above the minimum margin',
+          amount: this.roundCurrency(budgetDiscount + repeatCustomerDiscount - discountBeforeFloor, currency),
+          priceAfter: this.roundCurrency(priceAfterShopifyDiscounts - budgetDiscount - repeatCustomerDiscount, currency),
+          details: {
+            marginProtected,
+            unitCost: product.unitCost ?? null,
+            minMarginPercentage: this.getMinMarginPercentage(rule),
+            floorPrice: marginFloor
+          }
+        });
+      }
+    }
+
+    // Settle each component in minor units so the parts add up to the final price exactly.
+    // Discounts round down, so rounding never pushes the price below the budget cap or margin floor.
+    const unroundedFinalPrice = priceAfterShopifyDiscounts - budgetDiscount - repeatCustomerDiscount;
+    let budgetDiscountMoney = MoneyMath.fromMajor(budgetDiscount, currency, 'down');
+    let repeatDiscountMoney = MoneyMath.fromMajor(repeatCustomerDiscount, currency, 'down');
+    const priceAfterShopifyMoney = MoneyMath.subtract(
+      MoneyMath.fromMajor(basePrice, currency),
+      MoneyMath.fromMajor(shopifyDiscounts, currency)
+    );
+    const settledPriceMoney = MoneyMath.subtract(priceAfterShopifyMoney, MoneyMath.add(budgetDiscountMoney, repeatDiscountMoney));
+    const settledPrice = MoneyMath.toMajor(settledPriceMoney);
+
+    // Steps round their own amounts; this one reconciles them with the settled price
+    const lastStepPrice = steps[steps.length - 1].priceAfter;
+    steps.push({
+      step: 'rounding',
+      description: `Final price rounded to the ${currency} minor unit`,
+      amount: this.roundCurrency(lastStepPrice - settledPrice, currency),
+      priceAfter: settledPrice,
+      details: { unrounded: unroundedFinalPrice, currency }
+    });
+
+    // Snap discounted prices to the rule's ending, staying between the cap/margin floor and the
+    // undiscounted price. Rounding up is taken back from the budget discount before the repeat one.
+    let finalPriceMoney = settledPriceMoney;
+    const priceEnding = this.getPriceEnding(rule);
+    const appDiscount = budgetDiscountMoney.amount + repeatDiscountMoney.amount;
+    if (priceEnding !== 'none' && priceFloor !== null && appDiscount > 0) {
+      const floorMoney = MoneyMath.fromMajor(MoneyMath.ceilMajor(Math.max(priceFloor, 0), currency), currency);
+      const endedPriceMoney = this.applyPriceEnding(settledPriceMoney, priceEnding, floorMoney, priceAfterShopifyMoney);
+      finalPriceMoney = endedPriceMoney ?? settledPriceMoney;
+
+      const adjustment = finalPriceMoney.amount - settledPriceMoney.amount;
+      const fromBudget = adjustment > 0 ? Math.min(adjustment, budgetDiscountMoney.amount) : adjustment;
+      budgetDiscountMoney = { amount: budgetDiscountMoney.amount - fromBudget, currency };
+      repeatDiscountMoney = { amount: repeatDiscountMoney.amount - (adjustment - fromBudget), currency };
+
+      steps.push({
+        step: 'price_ending',
+        description: endedPriceMoney === null
+          ? `Price kept because ${PRICE_ENDING_TARGETS[priceEnding]} would break the discount cap or margin floor`
+          : `Price moved to ${PRICE_ENDING_TARGETS[priceEnding]}`,
+        amount: MoneyMath.toMajor({ amount: -adjustment, currency }),
+        priceAfter: MoneyMath.toMajor(finalPriceMoney),
+        details: {
+          priceEnding,
+          applied: endedPriceMoney !== null,
+          floorPrice: MoneyMath.toMajor(floorMoney),
+          ceilingPrice: MoneyMath.toMajor(priceAfterShopifyMoney)
+        }
+      });
+    }
+
+    // Tax is reported separately: added on top of exclusive prices, contained in inclusive ones
+    const taxMoney = taxMode === 'exclusive'
+      ? MoneyMath.multiply(finalPriceMoney, taxRate / 100)
+      : MoneyMath.subtract(finalPriceMoney, MoneyMath.multiply(finalPriceMoney, 1 / taxFactor));
+    const estimatedTotalMoney = taxMode === 'exclusive' ? MoneyMath.add(finalPriceMoney, taxMoney) : finalPriceMoney;
+    const taxAmount = MoneyMath.toMajor(taxMoney);
+    const estimatedTotal = MoneyMath.toMajor(estimatedTotalMoney);
+
+    if (taxRate > 0) {
+      steps.push({
+        step: 'tax',
+        description: taxMode === 'exclusive'
+          ? `Estimated ${taxRate}% tax added at checkout`
+          : `Price includes ${taxRate}% tax of ${taxAmount}`,
+        amount: taxMode === 'exclusive' ? -taxAmount : 0,
+        priceAfter: estimatedTotal,
+        details: {
+          taxMode,
+          taxRate,
+          taxAmount,
+          region: context.region ?? null,
+          productType: product.productType ?? null
+        }
+      });
+    }
+
+    const finalPrice = MoneyMath.toMajor(finalPriceMoney);
+    const priceEndingAdjustment = finalPrice - settledPrice;
+    const totalDiscount = shopifyDiscounts + budgetDiscount + repeatCustomerDiscount - priceEndingAdjustment;
+    const discountPercentage = basePrice > 0 ? (totalDiscount / basePrice) * 100 : 0;
+
+    return {
+      productId: product.productId,
+      variantId: product.variantId,
+      basePrice,
+      shopifyDiscounts,
+      budgetDiscount: MoneyMath.toMajor(budgetDiscountMoney),
+      finalPrice,
+      discountPercentage: this.roundCurrency(discountPercentage),
+      budgetCategory: category,
+      categorySource: classification.source,
+      currency,
+      availableBudget: this.roundCurrency(availableBudget, currency),
+      withinBudget: estimatedTotal <= this.roundCurrency(availableBudget, currency),
+      taxMode,
+      taxRate,
+      taxAmount,
+      estimatedTotal,
+      repeatCustomerDiscount: MoneyMath.toMajor(repeatDiscountMoney),
+      remainingApplications: usage.remaining,
+      budgetLimitReached,
+      budgetPricingApplied: eligibility.eligible,
+      marginProtected,
+      priceEndingAdjustment: this.roundCurrency(priceEndingAdjustment, currency),
+      notAppliedReason: eligibility.reason,
+      notAppliedMessage: eligibility.message,
+      breakdown: {
+        ruleId: rule?.id ?? null,
+        ruleVersion: rule?.version ?? null,
+        steps
+      }
+    };
+  }
+
+  /**
+   * The rule's bundle rules; missing or malformed values mean none
+   */
+  static getBundleRules(rule?: PricingRule | null): BundleRule[] {
+    const parsed = bundleRulesSchema.safeParse(rule?.bundleRules ?? []);
+    return parsed.success ? parsed.data : [];
+  }
+
+  /**
+   * Price several units or a bundle of line items against one budget. Each category's budget
+   * gap is spread over its eligible lines in proportion to their price, then the best bundle
+   * rule the cart qualifies for adds its extra discount and returning customers get their bonus;
+   * all three share each line's max discount cap and margin floor. Line discounts settle to
+   * whole minor units per unit so unit prices are exact. Price endings apply to single-unit
+   * prices only.
+   */
+  static calculateBundlePricing(
+    rule: PricingRule | null | undefined,
+    lines: PricingLineInput[],
+    budget: BudgetData,
+    context: PricingContext = {}
+  ): BundlePricing {
+    const currency = MoneyMath.normalizeCurrency(lines[0]?.currency ?? budget.currency ?? DEFAULT_CURRENCY);
+    const purchases = context.purchases ?? [];
+    const usage = this.getBudgetApplicationUsage(rule, purchases, context.now);
+    const budgetLimitReached = usage.remaining === 0;
+    const taxMode = context.tax?.mode ?? 'exclusive';
+
+    const quotes = lines.map(line => {
+      const classification = this.classifyProduct(rule, line, budget.category);
+      const quantity = line.quantity;
+      const inventory = this.getInventoryAdjustment(rule, line, context.now);
+      const eligibility = this.resolveEligibility(rule, line, budgetLimitReached, inventory);
+      const base = line.basePrice * quantity;
+      const shopifyDiscounts = Math.min(line.shopifyDiscounts ?? 0, line.basePrice) * quantity;
+      const afterShopify = base - shopifyDiscounts;
+      const taxRate = this.resolveTaxRate(context.tax, context.region, line.productType);
+      const taxFactor = 1 + taxRate / 100;
+
+      // The cap and the margin floor bound every app discount on the line together
+      const cap = eligibility.eligible ? Math.min(base * inventory.maxDiscountPercentage / 100, afterShopify) : 0;
+      const netMarginFloor = this.getMarginFloor(rule, line.unitCost, currency);
+      const marginFloor = netMarginFloor !== null && taxMode === 'inclusive'
+        ? MoneyMath.ceilMajor(netMarginFloor * taxFactor, currency)
+        : netMarginFloor;
+      const marginLimit = marginFloor !== null ? Math.max(afterShopify - marginFloor * quantity, 0) : Infinity;
+
+      return {
+        line,
+        classification,
+        quantity,
+        eligibility,
+        base,
+        shopifyDiscounts,
+        afterShopify,
+        taxRate,
+        taxFactor,
+        cap,
+        limit: Math.min(cap, marginLimit),
+        budgetDiscount: 0,
+        bundleDiscount: 0,
+        repeatCustomerDiscount: 0,
+        requested: 0 // Discount asked for before the cap and margin floor
+      };
+    });
+
+    // Spread each category's budget gap over its eligible lines. Exclusive tax comes on top
+    // at checkout, so the budget is scaled down by the category's blended tax rate.
+    const categories = new Set(quotes.map(quote => quote.classification.category));
+    const spreadGaps = () => {
+      for (const category of categories) {
+        const inCategory = quotes.filter(quote => quote.classification.category === category);
+        const net = inCategory.reduce((sum, quote) => sum + quote.afterShopify, 0);
+        const gross = inCategory.reduce((sum, quote) => sum + quote.afterShopify * quote.taxFactor, 0);
+        const availableBudget = this.getCategoryBudget(budget, category);
+        const priceBudget = taxMode === 'exclusive' && gross > 0 ? availableBudget * net / gross : availableBudget;
+        const gap = Math.max(net - priceBudget, 0);
+
+        const eligible = inCategory.filter(quote => quote.eligibility.eligible);
+        const eligibleNet = eligible.reduce((sum, quote) => sum + quote.afterShopify, 0);
+        const shares = this.spreadDiscount(
+          gap,
+          eligible.map(quote => quote.afterShopify),
+          eligible.map(quote => quote.limit)
+        );
+        eligible.forEach((quote, index) => {
+          quote.budgetDiscount = shares[index];
+          quote.requested = eligibleNet > 0 ? gap * quote.afterShopify / eligibleNet : 0;
+        });
+      }
+    };
+    spreadGaps();
+
+    // Only lines that receive a budget discount use an application. With fewer left than that,
+    // the largest discounts keep theirs and the gaps are spread again over the lines still eligible.
+    const discounted = quotes
+      .filter(quote => quote.budgetDiscount > 0)
+      .sort((a, b) => b.budgetDiscount - a.budgetDiscount);
+    if (usage.remaining > 0 && discounted.length > usage.remaining) {
+      for (const quote of discounted.slice(usage.remaining)) {
+        quote.eligibility = this.notEligible('budget_limit_reached');
+        quote.budgetDiscount = 0;
+        quote.requested = 0;
+        quote.cap = 0;
+        quote.limit = 0;
+      }
+      spreadGaps();
+    }
+
+    // The richest bundle rule whose categories all have eligible lines and enough units
+    const eligibleQuotes = quotes.filter(quote => quote.eligibility.eligible);
+    const bundleRule = this.getBundleRules(rule)
+      .map((candidate, index) => ({ ...candidate, index }))
+      .filter(candidate => {
+        const matching = eligibleQuotes.filter(quote => candidate.categories.includes(quote.classification.category));
+        const covered = candidate.categories.every(category => matching.some(quote => quote.classification.category === category));
+        return covered && matching.reduce((sum, quote) => sum + quote.quantity, 0) >= candidate.minItems;
+      })
+      .sort((a, b) => b.extraDiscountPercentage - a.extraDiscountPercentage || a.index - b.index)[0];
+
+    const repeatCustomerPercentage = purchases.length > 0 ? this.parsePercentage(rule?.repeatCustomerDiscount, 0) : 0;
+    for (const quote of eligibleQuotes) {
+      if (bundleRule && bundleRule.categories.includes(quote.classification.category)) {
+        const requested = quote.base * bundleRule.extraDiscountPercentage / 100;
+        quote.requested += requested;
+        quote.bundleDiscount = Math.min(requested, quote.limit - quote.budgetDiscount);
+      }
+      const requestedRepeat = quote.base * repeatCustomerPercentage / 100;
+      quote.requested += requestedRepeat;
+      quote.repeatCustomerDiscount = Math.min(requestedRepeat, quote.limit - quote.budgetDiscount - quote.bundleDiscount);
+    }
+
+    // Settle each discount down to whole minor units per unit, then tax the line total
+    const pricedLines: BundleLinePricing[] = quotes.map(quote => {
+      const perUnit = (amount: number) => MoneyMath.fromMajor(amount / quote.quantity, currency, 'down');
+      const unitBudgetDiscount = perUnit(quote.budgetDiscount);
+      const unitBundleDiscount = perUnit(quote.bundleDiscount);
+      const unitRepeatDiscount = perUnit(quote.repeatCustomerDiscount);
+      const unitPriceMoney = [unitBudgetDiscount, unitBundleDiscount, unitRepeatDiscount].reduce(
+        (price, discount) => MoneyMath.subtract(price, discount),
+        MoneyMath.subtract(
+          MoneyMath.fromMajor(quote.line.basePrice, currency),
+          MoneyMath.fromMajor(quote.shopifyDiscounts / quote.quantity, currency)
+        )
+      );
+      const lineTotalMoney = MoneyMath.multiply(unitPriceMoney, quote.quantity);
+      const taxMoney = taxMode === 'exclusive'
+        ? MoneyMath.multiply(lineTotalMoney, quote.taxRate / 100)
+        : MoneyMath.subtract(lineTotalMoney, MoneyMath.multiply(lineTotalMoney, 1 / quote.taxFactor));
+      // A line asked for a discount and ended at its limit: the cap, or the margin floor below it
+      const atLimit = quote.eligibility.eligible && quote.requested > 0 &&
+        quote.budgetDiscount + quote.bundleDiscount + quote.repeatCustomerDiscount >= quote.limit - 1e-9;
+
+      return {
+        productId: quote.line.productId,
+        variantId: quote.line.variantId,
+        quantity: quote.quantity,
+        budgetCategory: quote.classification.category,
+        categorySource: quote.classification.source,
+        basePrice: quote.line.basePrice,
+        shopifyDiscounts: this.roundCurrency(quote.shopifyDiscounts, currency),
+        budgetDiscount: MoneyMath.toMajor(MoneyMath.multiply(unitBudgetDiscount, quote.quantity)),
+        bundleDiscount: MoneyMath.toMajor(MoneyMath.multiply(unitBundleDiscount, quote.quantity)),
+        repeatCustomerDiscount: MoneyMath.toMajor(MoneyMath.multiply(unitRepeatDiscount, quote.quantity)),
+        unitPrice: MoneyMath.toMajor(unitPriceMoney),
+        lineTotal: MoneyMath.toMajor(lineTotalMoney),
+        taxRate: quote.taxRate,
+        taxAmount: MoneyMath.toMajor(taxMoney),
+        estimatedTotal: MoneyMath.toMajor(taxMode === 'exclusive' ? MoneyMath.add(lineTotalMoney, taxMoney) : lineTotalMoney),
+        capHit: atLimit && quote.limit >= quote.cap,
+        marginProtected: atLimit && quote.limit < quote.cap,
+        budgetPricingApplied: quote.eligibility.eligible,
+        notAppliedReason: quote.eligibility.reason
+      };
+    });
+
+    const categoryTotals = Object.fromEntries([...categories].map(category => {
+      const availableBudget = this.roundCurrency(this.getCategoryBudget(budget, category), currency);
+      const estimatedTotal = this.sumMajor(
+        pricedLines.filter(line => line.budgetCategory === category).map(line => line.estimatedTotal),
+        currency
+      );
+      return [category, { availableBudget, estimatedTotal, withinBudget: estimatedTotal <= availableBudget }];
+    }));
+    const sum = (field: 'shopifyDiscounts' | 'budgetDiscount' | 'bundleDiscount' | 'repeatCustomerDiscount' | 'lineTotal' | 'taxAmount' | 'estimatedTotal') =>
+      this.sumMajor(pricedLines.map(line => line[field]), currency);
+
+    return {
+      currency,
+      lines: pricedLines,
+      categories: categoryTotals,
+      bundleRule: bundleRule
+        ? { index: bundleRule.index, name: bundleRule.name, extraDiscountPercentage: bundleRule.extraDiscountPercentage }
+        : null,
+      subtotal: this.sumMajor(pricedLines.map(line => line.basePrice * line.quantity), currency),
+      shopifyDiscounts: sum('shopifyDiscounts'),
+      budgetDiscount: sum('budgetDiscount'),
+      bundleDiscount: sum('bundleDiscount'),
+      repeatCustomerDiscount: sum('repeatCustomerDiscount'),
+      total: sum('lineTotal'),
+      taxAmount: sum('taxAmount'),
+      estimatedTotal: sum('estimatedTotal'),
+      withinBudget: Object.values(categoryTotals).every(category => category.withinBudget),
+      remainingApplications: usage.remaining,
+      budgetLimitReached,
+      ruleId: rule?.id ?? null,
+      ruleVersion: rule?.version ?? null
+    };
+  }
+
+  /**
+   * Split an amount over weighted shares without exceeding each share's limit; what a capped
+   * share cannot take goes to the others in proportion to their weights
+   */
+  private static spreadDiscount(amount: number, weights: number[], limits: number[]): number[] {
+    const shares = weights.map(() => 0);
+    let remaining = amount;
+    let open = weights.map((_, index) => index).filter(index => weights[index] > 0 && limits[index] > 0);
+
+    while (remaining > 1e-9 && open.length > 0) {
+      const totalWeight = open.reduce((sum, index) => sum + weights[index], 0);
+      const stillOpen: number[] = [];
+      let spread = 0;
+
+      for (const index of open) {
+        const share = Math.min(remaining * weights[index] / totalWeight, limits[index] - shares[index]);
+        shares[index] += share;
+        spread += share;
+        if (limits[index] - shares[index] > 1e-9) {
+          stillOpen.push(index);
+        }
+      }
+
+      remaining -= spread;
+      if (stillOpen.length === open.length) break;
+      open = stillOpen;
+    }
+    return shares;
+  }
+
+  // Add major-unit amounts in minor units so totals match their lines exactly
+  private static sumMajor(values: number[], currency: string): number {
+    return MoneyMath.toMajor(values.reduce(
+      (total, value) => MoneyMath.add(total, MoneyMath.fromMajor(value, currency)),
+      MoneyMath.zero(currency)
+    ));
+  }
+
+  /**
+   * Lowest price that keeps the rule's minimum margin (on the selling price) over unit cost,
+   * or null when the cost is unknown
+   */
+  static getMarginFloor(
+    rule: PricingRule | null | undefined,
+    unitCost: number | undefined,
+    currency: string = DEFAULT_CURRENCY
+  ): number | null {
+    if (unitCost === undefined || !Number.isFinite(unitCost) || unitCost < 0) {
+      return null;
+    }
+
+    const minMargin = this.getMinMarginPercentage(rule);
+    const floor = unitCost / (1 - minMargin / 100);
+
+    // Round up to the minor unit so rounding the final price can't dip below the margin
+    return MoneyMath.ceilMajor(floor, currency);
+  }
+
+  static getPriceEnding(rule?: PricingRule | null): PriceEnding {
+    const ending = rule?.priceEnding;
+    return PRICE_ENDINGS.find(candidate => candidate === ending) ?? 'none';
+  }
+
+  /**
+   * Move a price onto an ending (e.g. 37.43 to 36.99 or 37.00), trying the nearer candidate
+   * first. Candidates outside [floor, ceiling] are skipped; null when none fits.
+   * Currencies without minor units end in whole amounts for .99 and .95.
+   */
+  static applyPriceEnding(price: Money, ending: PriceEnding, floor: Money, ceiling: Money): Money | null {
+    if (ending === 'none') {
+      return price;
+    }
+
+    const unit = 10 ** MoneyMath.getMinorUnitDigits(price.currency);
+    const offset = this.getPriceEndingOffset(ending, unit);
+    const below = Math.floor((price.amount - offset) / unit) * unit + offset;
+    const above = below + unit;
+    const candidates = ending === 'round_down'
+      ? [below]
+      : price.amount - below <= above - price.amount ? [below, above] : [above, below];
+
+    const amount = candidates.find(candidate => candidate >= floor.amount && candidate <= ceiling.amount);
+    return amount === undefined ? null : { amount, currency: price.currency };
+  }
+
+  static getMinMarginPercentage(rule?: PricingRule | null): number {
+    return Math.min(Math.max(this.parsePercentage(rule?.minMarginPercentage, 0), 0), MAX_MARGIN_PERCENTAGE);
+  }
+
+  /**
+   * Pick a product's unit cost, preferring the variant's own cost over the product-wide one
+   */
+  static resolveUnitCost(costs: ProductCost[], productId: string, variantId?: string): number | undefined {
+    const matches = costs.filter(cost => cost.productId === productId);
+    const match = (variantId && matches.find(cost => cost.variantId === variantId))
+      ?? matches.find(cost => cost.variantId === '');
+    return match ? parseFloat(match.cost) : undefined;
+  }
+
+  static roundCurrency(value: number, currency: string = DEFAULT_CURRENCY): number {
+    return MoneyMath.roundMajor(value, currency);
+  }
+
+  // Minor units after the last whole unit, e.g. 99 for .99 in a two-digit currency
+  private static getPriceEndingOffset(ending: PriceEnding, unit: number): number {
+    if (unit < 100) {
+      return 0;
+    }
+    if (ending === 'nearest_99') {
+      return unit - unit / 100;
+    }
+    if (ending === 'nearest_95') {
+      return unit - unit * 5 / 100;
+    }
+    return 0;
+  }
+
+  // Rate keys are matched case-insensitively, e.g. "gb" or "Books"
+  private static findTaxRate(rates: Record<string, number>, key: string): number | undefined {
+    const normalized = key.trim().toLowerCase();
+    const match = Object.keys(rates).find(candidate => candidate.trim().toLowerCase() === normalized);
+    return match !== undefined ? rates[match] : undefined;
+  }
+
+  private static parsePercentage(value: string | null | undefined, fallback: number): number {
+    const parsed = value != null ? parseFloat(value) : NaN;
+    return Number.isFinite(parsed) ? parsed : fallback;
+  }
+}
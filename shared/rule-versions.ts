@@ -0,0 +1,152 @@
+/**
+ * Rule Versions
+ * Every save of a store's pricing rule is a new version. Standing versions have no window;
+ * scheduled versions (startsAt/endsAt) override the standing one while their window is open.
+ */
+
+import type { InsertPricingRule, PricingRule } from './schema.js';
+
+// Settings a version carries; identity and lifecycle columns are left out of diffs and copies
+const RULE_SETTING_FIELDS = [
+  'name',
+  'needsPercentage',
+  'wantsPercentage',
+  'savingsPercentage',
+  'maxDiscountPercentage',
+  'categories',
+  'categoryMapping',
+  'bundleRules',
+  'inventorySettings',
+  'minMarginPercentage',
+  'priceEnding',
+  'budgetRefreshType',
+  'maxBudgetApplications',
+  'budgetRefreshDays',
+  'repeatCustomerDiscount',
+  'discountTerms',
+  'termsPageUrl',
+  'isAppEnabled',
+  'enabledForProducts',
+  'startsAt',
+  'endsAt'
+] as const;
+
+export type PricingRuleSettingField = typeof RULE_SETTING_FIELDS[number];
+
+// JSON columns read back as unknown; they were validated when the version was saved
+export type PricingRuleSettings = Pick<InsertPricingRule, PricingRuleSettingField>;
+
+export interface PricingRuleChange {
+  field: PricingRuleSettingField;
+  from: unknown;
+  to: unknown;
+}
+
+export class RuleVersions {
+
+  static isScheduled(rule: PricingRule): boolean {
+    return rule.startsAt != null || rule.endsAt != null;
+  }
+
+  /**
+   * Whether the version is active and its window (if any) contains now
+   */
+  static isInEffect(rule: PricingRule, now: Date = new Date()): boolean {
+    if (rule.isActive === false) return false;
+    if (rule.startsAt && new Date(rule.startsAt).getTime() > now.getTime()) return false;
+    if (rule.endsAt && new Date(rule.endsAt).getTime() <= now.getTime()) return false;
+    return true;
+  }
+
+  /**
+   * Whether a scheduled version's window has closed for good
+   */
+  static hasEnded(rule: PricingRule, now: Date = new Date()): boolean {
+    return rule.endsAt != null && new Date(rule.endsAt).getTime() <= now.getTime();
+  }
+
+  /**
+   * The version pricing uses at the given moment: an open scheduled version wins over the
+   * standing one, and the newest version wins among equals
+   */
+  static resolveEffective(rules: PricingRule[], now: Date = new Date()): PricingRule | undefined {
+    return rules
+      .filter(rule => this.isInEffect(rule, now))
+      .sort((a, b) => Number(this.isScheduled(b)) - Number(this.isScheduled(a)) || b.version - a.version)[0];
+  }
+
+  /**
+   * The newest active version without a window; the base new versions are edited from
+   */
+  static getStanding(rules: PricingRule[]): PricingRule | undefined {
+    return rules
+      .filter(rule => rule.isActive !== false && !this.isScheduled(rule))
+      .sort((a, b) => b.version - a.version)[0];
+  }
+
+  static getSettings(rule: PricingRule): PricingRuleSettings {
+    return Object.fromEntries(RULE_SETTING_FIELDS.map(field => [field, rule[field]])) as PricingRuleSettings;
+  }
+
+  /**
+   * An unsaved version: the base version with the draft's changes, or the column defaults
+   * plus the changes when the store has no rule yet. Pricing can run on it for previews.
+   */
+  static draft(storeId: number, base: PricingRule | undefined, changes: Partial<PricingRuleSettings>): PricingRule {
+    const defaults: PricingRule = {
+      id: 0,
+      storeId,
+      name: 'Draft',
+      needsPercentage: '50.00',
+      wantsPercentage: '30.00',
+      savingsPercentage: '20.00',
+      maxDiscountPercentage: '25.00',
+      categories: null,
+      categoryMapping: null,
+      bundleRules: null,
+      inventorySettings: null,
+      minMarginPercentage: '0.00',
+      priceEnding: 'none',
+      isActive: true,
+      version: 0,
+      startsAt: null,
+      endsAt: null,
+      createdAt: null,
+      budgetRefreshType: 'monthly',
+      maxBudgetApplications: -1,
+      budgetRefreshDays: 30,
+      repeatCustomerDiscount: '0.00',
+      discountTerms: null,
+      termsPageUrl: null,
+      isAppEnabled: true,
+      enabledForProducts: 'all'
+    };
+    const defined = Object.entries(changes).filter(([, value]) => value !== undefined);
+
+    return {
+      ...(base ?? defaults),
+      ...Object.fromEntries(defined),
+      id: 0,
+      version: (base?.version ?? 0) + 1
+    };
+  }
+
+  /**
+   * Settings that differ between two versions, in column order
+   */
+  static diff(from: PricingRule, to: PricingRule): PricingRuleChange[] {
+    return RULE_SETTING_FIELDS
+      .filter(field => this.normalize(from[field]) !== this.normalize(to[field]))
+      .map(field => ({ field, from: from[field] ?? null, to: to[field] ?? null }));
+  }
+
+  // Decimal columns round-trip as "25" or "25.00" and dates as strings once serialized
+  private static normalize(value: unknown): string {
+    if (value == null) return 'null';
+    if (value instanceof Date) return JSON.stringify(value.toISOString());
+    if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+      return String(Number(value));
+    }
+    return JSON.stringify(value);
+  }
+}
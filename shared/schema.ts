@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, decimal, timestamp, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, decimal, timestamp, json, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -31,7 +31,15 @@ export const stores = pgTable("stores", {
   autoDiscountEnabled: boolean("auto_discount_enabled").default(false),
   productRecommendationsEnabled: boolean("product_recommendations_enabled").default(false),
   budgetRemainingDisplayEnabled: boolean("budget_remaining_display_enabled").default(false),
-  minimumDiscountThreshold: decimal("minimum_discount_threshold", { precision: 10, scale: 2 }).default("50.00")
+  minimumDiscountThreshold: decimal("minimum_discount_threshold", { precision: 10, scale: 2 }).default("50.00"),
+  discountLadder: json("discount_ladder"), // Auto-discount tiers and stacking policy; null = default ladder from the threshold above
+  abandonmentSettings: json("abandonment_settings"), // Idle time and delivery of abandoned-cart events; null = carts are never marked abandoned
+  // Multi-currency: amounts stored for the store are in its own currency
+  currency: text("currency").default("USD"),
+  currencyRates: json("currency_rates"), // { "EUR": 0.92 }: units of each presentment currency per one store currency
+  // Tax: "exclusive" prices have tax added at checkout (US), "inclusive" prices already contain it (VAT)
+  taxMode: text("tax_mode").default("exclusive"),
+  taxRates: json("tax_rates"), // { defaultRate: 0, regions: { "US-CA": 7.25 }, productTypes: { "books": 0 } }
 });
 
 export const budgetSessions = pgTable("budget_sessions", {
@@ -52,7 +60,16 @@ export const pricingRules = pgTable("pricing_rules", {
   wantsPercentage: decimal("wants_percentage", { precision: 5, scale: 2 }).default("30.00"),
   savingsPercentage: decimal("savings_percentage", { precision: 5, scale: 2 }).default("20.00"),
   maxDiscountPercentage: decimal("max_discount_percentage", { precision: 5, scale: 2 }).default("25.00"),
+  categories: json("categories"), // Custom category set [{ key, name, percentage }]; null = needs/wants/savings above
+  categoryMapping: json("category_mapping"), // Ordered rules classifying products into categories by platform metadata
+  bundleRules: json("bundle_rules"), // Extra discounts for carts combining categories [{ name, categories, minItems, extraDiscountPercentage }]
+  inventorySettings: json("inventory_settings"), // Overstock and slow-seller discount boost, low-stock suppression; null = off
+  minMarginPercentage: decimal("min_margin_percentage", { precision: 5, scale: 2 }).default("0.00"), // Margin over unit cost a budget price must keep
+  priceEnding: text("price_ending").default("none"), // "none", "nearest_99", "nearest_95", "whole", "round_down"
   isActive: boolean("is_active").default(true),
+  version: integer("version").notNull().default(1), // Increments each time the store saves its rule
+  startsAt: timestamp("starts_at"), // Scheduled window; a rule with neither bound is the store's standing rule
+  endsAt: timestamp("ends_at"), // Exclusive
   createdAt: timestamp("created_at").defaultNow(),
   // Repeat purchase settings
   budgetRefreshType: text("budget_refresh_type").default("monthly"), // "per_purchase", "daily", "weekly", "monthly", "never"
@@ -70,6 +87,8 @@ export const analytics = pgTable("analytics", {
   storeId: integer("store_id").references(() => stores.id).notNull(),
   eventType: text("event_type").notNull(),
   eventData: json("event_data"),
+  experimentId: integer("experiment_id"), // Experiment and variant the event's customer was assigned, if any
+  experimentVariant: text("experiment_variant"),
   timestamp: timestamp("timestamp").defaultNow(),
 });
 
@@ -85,10 +104,12 @@ export const customerPurchases = pgTable("customer_purchases", {
   originalPrice: decimal("original_price", { precision: 10, scale: 2 }).notNull(),
   finalPrice: decimal("final_price", { precision: 10, scale: 2 }).notNull(),
   budgetDiscount: decimal("budget_discount", { precision: 10, scale: 2 }).default("0.00"),
-  budgetCategory: text("budget_category"), // "needs", "wants", "savings"
+  budgetCategory: text("budget_category"), // Category key, e.g. "needs", "wants", "savings" or a custom one
   purchaseDate: timestamp("purchase_date").defaultNow(),
   budgetApplicationCount: integer("budget_application_count").default(1),
   sessionId: text("session_id"),
+  experimentId: integer("experiment_id"), // Experiment and variant the buyer was assigned, if any
+  experimentVariant: text("experiment_variant"),
 });
 
 export const customerBudgetHistory = pgTable("customer_budget_history", {
@@ -120,6 +141,10 @@ export const cartSessions = pgTable("cart_sessions", {
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+  abandonedAt: timestamp("abandoned_at"), // Set by the abandonment sweep, which also deactivates the session
+  recoveredAt: timestamp("recovered_at"), // The customer purchased within the attribution window after abandoning
+  recoveryOrderId: text("recovery_order_id"),
+  recoveredValue: decimal("recovered_value", { precision: 10, scale: 2 }),
 });
 
 export const productRecommendations = pgTable("product_recommendations", {
@@ -127,9 +152,12 @@ export const productRecommendations = pgTable("product_recommendations", {
   storeId: integer("store_id").references(() => stores.id).notNull(),
   customerId: text("customer_id").notNull(),
   productId: text("product_id").notNull(),
+  variantId: text("variant_id"), // The variant the price is for, to add straight to the cart
   productTitle: text("product_title").notNull(),
   productPrice: decimal("product_price", { precision: 10, scale: 2 }).notNull(),
-  budgetCategory: text("budget_category").notNull(), // needs, wants, savings
+  productUrl: text("product_url"), // Storefront page
+  imageUrl: text("image_url"),
+  budgetCategory: text("budget_category").notNull(), // Category key, e.g. needs, wants, savings or a custom one
   recommendationReason: text("recommendation_reason"), // Why this product was recommended
   remainingBudgetAfter: decimal("remaining_budget_after", { precision: 10, scale: 2 }),
   priority: integer("priority").default(0), // Higher priority = better recommendation
@@ -147,12 +175,75 @@ export const autoDiscounts = pgTable("auto_discounts", {
   discountType: text("discount_type").notNull(), // percentage, fixed_amount, free_shipping
   discountValue: decimal("discount_value", { precision: 10, scale: 2 }).notNull(),
   minimumAmount: decimal("minimum_amount", { precision: 10, scale: 2 }),
-  appliedAmount: decimal("applied_amount", { precision: 10, scale: 2 }),
-  isApplied: boolean("is_applied").default(false),
+  appliedAmount: decimal("applied_amount", { precision: 10, scale: 2 }), // Discount the code gave on the order that redeemed it
+  isApplied: boolean("is_applied").default(false), // Redeemed on an order
+  platformDiscountId: text("platform_discount_id"), // The code in the commerce platform
+  platformRuleId: text("platform_rule_id"), // Price rule holding the code, on platforms that separate them
+  orderId: text("order_id"),
   createdAt: timestamp("created_at").defaultNow(),
   expiresAt: timestamp("expires_at"),
+  redeemedAt: timestamp("redeemed_at"),
+  revokedAt: timestamp("revoked_at"), // Deleted from the platform once the cart no longer qualified
+});
+
+export const priceQuoteRedemptions = pgTable("price_quote_redemptions", {
+  id: serial("id").primaryKey(),
+  quoteId: text("quote_id").notNull().unique(), // A signed quote can be redeemed once
+  storeId: integer("store_id").references(() => stores.id).notNull(),
+  customerId: text("customer_id").notNull(),
+  orderId: text("order_id").notNull(),
+  redeemedAt: timestamp("redeemed_at").defaultNow(),
+});
+
+export const productCosts = pgTable("product_costs", {
+  id: serial("id").primaryKey(),
+  storeId: integer("store_id").references(() => stores.id).notNull(),
+  productId: text("product_id").notNull(),
+  variantId: text("variant_id").notNull().default(""), // "" = applies to every variant of the product
+  cost: decimal("cost", { precision: 10, scale: 2 }).notNull(),
+  source: text("source").notNull().default("csv"), // "shopify", "magento", "wordpress" or "csv"
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  productVariantUnique: unique("product_costs_store_product_variant_unique").on(table.storeId, table.productId, table.variantId),
+}));
+
+// One delivery of a cart.abandoned event; failed deliveries are retried by later sweeps
+export const cartAbandonmentEvents = pgTable("cart_abandonment_events", {
+  id: serial("id").primaryKey(),
+  storeId: integer("store_id").references(() => stores.id).notNull(),
+  cartSessionId: integer("cart_session_id").references(() => cartSessions.id).notNull(),
+  channel: text("channel").notNull(), // "webhook" or "email"
+  payload: json("payload").notNull(),
+  status: text("status").notNull().default("pending"), // "pending", "delivered", "failed"
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  deliveredAt: timestamp("delivered_at"),
+});
+
+// A/B test between pricing rule versions; one experiment per store runs at a time
+export const experiments = pgTable("experiments", {
+  id: serial("id").primaryKey(),
+  storeId: integer("store_id").references(() => stores.id).notNull(),
+  name: text("name").notNull(),
+  status: text("status").notNull().default("draft"), // "draft", "running", "stopped"
+  variants: json("variants").notNull(), // [{ key, name, ruleId, weight }]; the first is the control
+  startedAt: timestamp("started_at"),
+  endedAt: timestamp("ended_at"),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
+// The variant a customer or session was bucketed into; the first assignment sticks
+export const experimentAssignments = pgTable("experiment_assignments", {
+  id: serial("id").primaryKey(),
+  experimentId: integer("experiment_id").references(() => experiments.id).notNull(),
+  subjectId: text("subject_id").notNull(), // Customer ID, or session ID for anonymous visitors
+  variantKey: text("variant_key").notNull(),
+  assignedAt: timestamp("assigned_at").defaultNow(),
+}, (table) => ({
+  experimentSubjectUnique: unique("experiment_assignments_experiment_subject_unique").on(table.experimentId, table.subjectId),
+}));
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -205,6 +296,31 @@ export const insertAutoDiscountSchema = createInsertSchema(autoDiscounts).omit({
   createdAt: true,
 });
 
+export const insertCartAbandonmentEventSchema = createInsertSchema(cartAbandonmentEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPriceQuoteRedemptionSchema = createInsertSchema(priceQuoteRedemptions).omit({
+  id: true,
+  redeemedAt: true,
+});
+
+export const insertProductCostSchema = createInsertSchema(productCosts).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertExperimentSchema = createInsertSchema(experiments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertExperimentAssignmentSchema = createInsertSchema(experimentAssignments).omit({
+  id: true,
+  assignedAt: true,
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -236,68 +352,385 @@ export type InsertProductRecommendation = z.infer<typeof insertProductRecommenda
 export type AutoDiscount = typeof autoDiscounts.$inferSelect;
 export type InsertAutoDiscount = z.infer<typeof insertAutoDiscountSchema>;
 
+export type CartAbandonmentEvent = typeof cartAbandonmentEvents.$inferSelect;
+export type InsertCartAbandonmentEvent = z.infer<typeof insertCartAbandonmentEventSchema>;
+
+export type ProductCost = typeof productCosts.$inferSelect;
+export type InsertProductCost = z.infer<typeof insertProductCostSchema>;
+
+export type PriceQuoteRedemption = typeof priceQuoteRedemptions.$inferSelect;
+export type InsertPriceQuoteRedemption = z.infer<typeof insertPriceQuoteRedemptionSchema>;
+
+export type Experiment = typeof experiments.$inferSelect;
+export type InsertExperiment = z.infer<typeof insertExperimentSchema>;
+
+export type ExperimentAssignment = typeof experimentAssignments.$inferSelect;
+export type InsertExperimentAssignment = z.infer<typeof insertExperimentAssignmentSchema>;
+
+// Budget category keys are lower-case slugs, e.g. "needs" or "hobbies"
+export const budgetCategoryKeySchema = z.string().regex(/^[a-z][a-z0-9_]{0,31}$/, "Category keys are lower-case letters, digits and underscores");
+
+export const MAX_BUDGET_CATEGORIES = 10;
+
+export const budgetCategoryDefinitionSchema = z.object({
+  key: budgetCategoryKeySchema,
+  name: z.string().min(1).max(50),
+  percentage: z.number().min(0).max(100), // Share of income
+});
+
+// A store's category set: unique keys whose percentages sum to 100
+export const budgetCategoriesSchema = z.array(budgetCategoryDefinitionSchema)
+  .min(1)
+  .max(MAX_BUDGET_CATEGORIES)
+  .superRefine((categories, ctx) => {
+    const keys = new Set<string>();
+    categories.forEach((category, index) => {
+      if (keys.has(category.key)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "key"], message: `Duplicate category "${category.key}"` });
+      }
+      keys.add(category.key);
+    });
+
+    const total = categories.reduce((sum, category) => sum + category.percentage, 0);
+    if (Math.abs(total - 100) > 0.01) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Category percentages must sum to 100, got ${total}` });
+    }
+  });
+
+export type BudgetCategoryDefinition = z.infer<typeof budgetCategoryDefinitionSchema>;
+
 // Budget calculation types
 export const budgetDataSchema = z.object({
   monthlyIncome: z.number().min(0),
   needsAmount: z.number().min(0),
   wantsAmount: z.number().min(0),
   savingsAmount: z.number().min(0),
-  category: z.enum(["needs", "wants", "savings"]).default("wants"),
+  categoryAmounts: z.record(z.number().min(0)).optional(), // Every category of the store's set; the three above mirror the defaults
+  category: budgetCategoryKeySchema.default("wants"),
+  budgetPeriod: z.enum(["weekly", "biweekly", "monthly", "yearly"]).optional(),
+  periodIncome: z.number().min(0).optional(),
+  currency: z.string().length(3).optional(), // ISO 4217; amounts are decimal units of this currency
 });
 
 export type BudgetData = z.infer<typeof budgetDataSchema>;
 
+// A store's merchant-maintained exchange rates, keyed by ISO 4217 code
+export const currencyRatesSchema = z.record(z.string().regex(/^[A-Z]{3}$/), z.number().positive());
+
+export type CurrencyRates = z.infer<typeof currencyRatesSchema>;
+
+// A store's tax rates in percent. A product type's rate wins over the customer's region
+// ("US-CA", falling back to "US"), which wins over the default.
+const taxRatePercentageSchema = z.number().min(0).max(100);
+
+export const taxRatesSchema = z.object({
+  defaultRate: taxRatePercentageSchema.default(0),
+  regions: z.record(taxRatePercentageSchema).default({}),
+  productTypes: z.record(taxRatePercentageSchema).default({}),
+});
+
+export type TaxRates = z.infer<typeof taxRatesSchema>;
+
+// Product scoping for a pricing rule's enabledForProducts. Items are product IDs or handles,
+// "collection:<handle>" or "tag:<name>"; a bare array is an include list.
+export const productScopeSchema = z.union([
+  z.literal("all"),
+  z.array(z.string()),
+  z.object({
+    mode: z.enum(["include", "exclude"]),
+    items: z.array(z.string())
+  })
+]);
+
+export type ProductScope = z.infer<typeof productScopeSchema>;
+
+export const MAX_EXPERIMENT_VARIANTS = 5;
+
+// An experiment's arms: the pricing rule version each one prices with and its traffic weight
+export const experimentVariantSchema = z.object({
+  key: z.string().regex(/^[a-z][a-z0-9_]{0,31}$/, "Variant keys are lower-case letters, digits and underscores"),
+  name: z.string().min(1).max(50),
+  ruleId: z.number().int().positive(),
+  weight: z.number().positive().max(100).default(1),
+});
+
+export const experimentVariantsSchema = z.array(experimentVariantSchema)
+  .min(2)
+  .max(MAX_EXPERIMENT_VARIANTS)
+  .refine(variants => new Set(variants.map(variant => variant.key)).size === variants.length, {
+    message: "Variant keys must be unique"
+  });
+
+export type ExperimentVariantDefinition = z.infer<typeof experimentVariantSchema>;
+
+export const MAX_CATEGORY_MAPPING_RULES = 100;
+
+// Classifies products that arrive without a category. Rules are tried in order against the
+// product's platform metadata (case-insensitive) and the first match wins; unmatched
+// products fall back to defaultCategory.
+export const categoryMappingRuleSchema = z.object({
+  field: z.enum(["product_type", "tag", "vendor", "collection"]),
+  value: z.string().trim().min(1).max(255),
+  category: budgetCategoryKeySchema,
+});
+
+export const categoryMappingSchema = z.object({
+  rules: z.array(categoryMappingRuleSchema).max(MAX_CATEGORY_MAPPING_RULES).default([]),
+  defaultCategory: budgetCategoryKeySchema.optional(),
+});
+
+export type CategoryMappingRule = z.infer<typeof categoryMappingRuleSchema>;
+export type CategoryMapping = z.infer<typeof categoryMappingSchema>;
+
+export const MAX_BUNDLE_RULES = 20;
+
+// Extra budget discount for carts that combine the listed categories, e.g. 5% off when needs
+// and wants are bought together. minItems counts units across the matching lines. The extra
+// discount shares the rule's max discount cap with the budget discount.
+export const bundleRuleSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  categories: z.array(budgetCategoryKeySchema).min(1).max(10)
+    .refine(categories => new Set(categories).size === categories.length, { message: "Bundle categories must be unique" }),
+  minItems: z.number().int().min(1).max(100).default(2),
+  extraDiscountPercentage: z.number().min(0).max(50),
+});
+
+export const bundleRulesSchema = z.array(bundleRuleSchema).max(MAX_BUNDLE_RULES);
+
+export type BundleRule = z.infer<typeof bundleRuleSchema>;
+
+// Inventory-aware discounting. Overstocked products (at least overstockThreshold units on hand)
+// and slow sellers (no sale in staleAfterDays) may be discounted up to boostedMaxDiscountPercentage
+// instead of the rule's cap; products at or below lowStockThreshold get no budget discount.
+// A null threshold turns that check off.
+export const inventorySettingsSchema = z.object({
+  overstockThreshold: z.number().int().min(1).nullable().default(null),
+  staleAfterDays: z.number().int().min(1).max(365).nullable().default(null),
+  boostedMaxDiscountPercentage: z.number().min(0).max(100).default(40),
+  lowStockThreshold: z.number().int().min(0).nullable().default(null),
+}).refine(({ overstockThreshold, lowStockThreshold }) =>
+  overstockThreshold == null || lowStockThreshold == null || lowStockThreshold < overstockThreshold, {
+  message: "lowStockThreshold must be below overstockThreshold",
+  path: ["lowStockThreshold"]
+});
+
+export type InventorySettings = z.infer<typeof inventorySettingsSchema>;
+
+export const MAX_DISCOUNT_TIERS = 10;
+
+// "best": only the tier saving the most; "best_with_free_shipping": the best percentage or fixed
+// tier plus a free-shipping tier; "all": every tier the cart reaches
+export const DISCOUNT_STACKING_POLICIES = ["best", "best_with_free_shipping", "all"] as const;
+
+// One rung of a store's automatic discount ladder, in the store's currency. A cart reaches it once
+// its spending in the eligible categories (every category when none are listed) is at least
+// minimumAmount. Percentage and fixed tiers come off that spending; free-shipping tiers are worth
+// the shipping cost the merchant enters as value, or nothing when it is 0.
+export const discountTierSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  minimumAmount: z.number().min(0),
+  type: z.enum(["percentage", "fixed_amount", "free_shipping"]),
+  value: z.number().min(0),
+  categories: z.array(budgetCategoryKeySchema).max(10)
+    .refine(categories => new Set(categories).size === categories.length, { message: "Tier categories must be unique" })
+    .optional(),
+}).refine(({ type, value }) => type !== "percentage" || value <= 100, {
+  message: "A percentage tier cannot exceed 100%",
+  path: ["value"]
+});
+
+export const discountLadderSchema = z.object({
+  tiers: z.array(discountTierSchema).min(1).max(MAX_DISCOUNT_TIERS),
+  stacking: z.enum(DISCOUNT_STACKING_POLICIES).default("best_with_free_shipping"),
+});
+
+// When an idle cart counts as abandoned and where the cart.abandoned event goes. Webhooks are
+// signed with the store's webhook secret; emails go to the customer's address on the platform.
+// A purchase within attributionDays of abandoning counts as a recovery.
+export const abandonmentSettingsSchema = z.object({
+  idleMinutes: z.number().int().min(15).max(7 * 24 * 60).default(60),
+  webhookUrl: z.string().url().startsWith("https://", "Webhook URLs must use HTTPS").nullable().default(null),
+  emailEnabled: z.boolean().default(false),
+  attributionDays: z.number().int().min(1).max(30).default(7),
+});
+
+export type AbandonmentSettings = z.infer<typeof abandonmentSettingsSchema>;
+
+export type DiscountTier = z.infer<typeof discountTierSchema>;
+export type DiscountLadder = z.infer<typeof discountLadderSchema>;
+export type DiscountStackingPolicy = typeof DISCOUNT_STACKING_POLICIES[number];
+
+// Where a priced product's category came from
+export const categorySourceSchema = z.enum(["request", "mapping_rule", "default"]);
+
+export type CategorySource = z.infer<typeof categorySourceSchema>;
+
+// Why a product received no budget price
+export const pricingNotAppliedReasonSchema = z.enum([
+  "app_disabled",
+  "product_not_included",
+  "product_excluded",
+  "budget_limit_reached",
+  "low_stock"
+]);
+
+export type PricingNotAppliedReason = z.infer<typeof pricingNotAppliedReasonSchema>;
+
+// One step of a pricing explanation. amount is what the step took off the price and
+// priceAfter the running price once it has been applied.
+export const pricingBreakdownStepSchema = z.object({
+  step: z.enum([
+    "category_allocation",
+    "shopify_discounts",
+    "eligibility",
+    "inventory",
+    "budget_gap",
+    "max_discount_cap",
+    "repeat_customer",
+    "margin_floor",
+    "rounding",
+    "price_ending",
+    "tax"
+  ]),
+  description: z.string(),
+  amount: z.number(),
+  priceAfter: z.number(),
+  details: z.record(z.union([z.string(), z.number(), z.boolean(), z.null()])).optional(),
+});
+
+export type PricingBreakdownStep = z.infer<typeof pricingBreakdownStepSchema>;
+
+// Ordered explanation of a price, with the rule it was computed from so it can be replayed
+export const pricingBreakdownSchema = z.object({
+  ruleId: z.number().int().nullable(), // null = no active rule, engine defaults applied
+  ruleVersion: z.number().int().nullable(),
+  steps: z.array(pricingBreakdownStepSchema),
+});
+
+export type PricingBreakdown = z.infer<typeof pricingBreakdownSchema>;
+
 // Product pricing types
 export const productPricingSchema = z.object({
   productId: z.string(),
+  variantId: z.string().optional(),
   basePrice: z.number().min(0),
   shopifyDiscounts: z.number().min(0).default(0),
   budgetDiscount: z.number().min(0).default(0),
   finalPrice: z.number().min(0),
   discountPercentage: z.number().min(0).max(100),
+  budgetCategory: budgetCategoryKeySchema,
+  categorySource: categorySourceSchema,
+  currency: z.string().length(3),
+  availableBudget: z.number(),
+  withinBudget: z.boolean(), // Decided on estimatedTotal, the amount the customer pays
+  taxMode: z.enum(["exclusive", "inclusive"]),
+  taxRate: z.number().min(0).max(100), // Percent
+  taxAmount: z.number().min(0), // Tax added to (exclusive) or contained in (inclusive) finalPrice
+  estimatedTotal: z.number().min(0), // Out-of-pocket estimate: finalPrice plus any tax added at checkout
+  repeatCustomerDiscount: z.number().min(0).default(0),
+  remainingApplications: z.number().int().min(-1), // -1 = unlimited
+  budgetLimitReached: z.boolean(),
+  budgetPricingApplied: z.boolean(),
+  marginProtected: z.boolean(), // Discount was reduced to keep the store's minimum margin
+  priceEndingAdjustment: z.number(), // Change made by the rule's price ending; positive raises the price
+  notAppliedReason: pricingNotAppliedReasonSchema.optional(),
+  notAppliedMessage: z.string().optional(),
+  breakdown: pricingBreakdownSchema,
 });
 
 export type ProductPricing = z.infer<typeof productPricingSchema>;
 
+// One line of a multi-unit or bundle quote. Discounts and totals are for the whole line;
+// basePrice and unitPrice are per unit.
+export const bundleLinePricingSchema = z.object({
+  productId: z.string(),
+  variantId: z.string().optional(),
+  quantity: z.number().int().min(1),
+  budgetCategory: budgetCategoryKeySchema,
+  categorySource: categorySourceSchema,
+  basePrice: z.number().min(0),
+  shopifyDiscounts: z.number().min(0),
+  budgetDiscount: z.number().min(0),
+  bundleDiscount: z.number().min(0),
+  repeatCustomerDiscount: z.number().min(0),
+  unitPrice: z.number().min(0),
+  lineTotal: z.number().min(0),
+  taxRate: z.number().min(0).max(100),
+  taxAmount: z.number().min(0),
+  estimatedTotal: z.number().min(0),
+  capHit: z.boolean(), // The line's discounts were cut to the max discount cap
+  marginProtected: z.boolean(),
+  budgetPricingApplied: z.boolean(),
+  notAppliedReason: pricingNotAppliedReasonSchema.optional(),
+});
+
+export const bundleCategoryPricingSchema = z.object({
+  availableBudget: z.number(),
+  estimatedTotal: z.number().min(0), // What the category's lines cost the customer, tax included
+  withinBudget: z.boolean(),
+});
+
+export const bundlePricingSchema = z.object({
+  currency: z.string().length(3),
+  lines: z.array(bundleLinePricingSchema),
+  categories: z.record(budgetCategoryKeySchema, bundleCategoryPricingSchema),
+  bundleRule: z.object({
+    index: z.number().int().min(0),
+    name: z.string(),
+    extraDiscountPercentage: z.number(),
+  }).nullable(), // The bundle rule the cart qualified for, if any
+  subtotal: z.number().min(0),
+  shopifyDiscounts: z.number().min(0),
+  budgetDiscount: z.number().min(0),
+  bundleDiscount: z.number().min(0),
+  repeatCustomerDiscount: z.number().min(0),
+  total: z.number().min(0),
+  taxAmount: z.number().min(0),
+  estimatedTotal: z.number().min(0),
+  withinBudget: z.boolean(), // Every category's lines fit its budget
+  remainingApplications: z.number().int().min(-1),
+  budgetLimitReached: z.boolean(),
+  ruleId: z.number().int().nullable(),
+  ruleVersion: z.number().int().nullable(),
+});
+
+export type BundleLinePricing = z.infer<typeof bundleLinePricingSchema>;
+export type BundleCategoryPricing = z.infer<typeof bundleCategoryPricingSchema>;
+export type BundlePricing = z.infer<typeof bundlePricingSchema>;
+
 // Cart tracking types
+
+// Units of one cart line
+export const MAX_CART_ITEM_QUANTITY = 1000;
+
 export const cartItemSchema = z.object({
   productId: z.string(),
   variantId: z.string().optional(),
   title: z.string(),
   price: z.number().min(0),
-  quantity: z.number().min(1),
-  budgetCategory: z.enum(["needs", "wants", "savings"]),
+  quantity: z.number().int().min(1).max(MAX_CART_ITEM_QUANTITY),
+  budgetCategory: budgetCategoryKeySchema,
   budgetImpact: z.number(), // How much this affects the budget
   discountApplied: z.number().default(0),
   fitsInBudget: z.boolean()
 });
 
-export const cartBudgetBreakdownSchema = z.object({
-  needs: z.object({
-    allocated: z.number(),
-    spent: z.number(),
-    remaining: z.number(),
-    items: z.array(cartItemSchema)
-  }),
-  wants: z.object({
-    allocated: z.number(),
-    spent: z.number(),
-    remaining: z.number(),
-    items: z.array(cartItemSchema)
-  }),
-  savings: z.object({
-    allocated: z.number(),
-    spent: z.number(),
-    remaining: z.number(),
-    items: z.array(cartItemSchema)
-  })
+export const cartCategoryBreakdownSchema = z.object({
+  allocated: z.number(),
+  spent: z.number(),
+  remaining: z.number(),
+  items: z.array(cartItemSchema)
 });
 
+// Keyed by the store's budget categories
+export const cartBudgetBreakdownSchema = z.record(budgetCategoryKeySchema, cartCategoryBreakdownSchema);
+
 export const productRecommendationDataSchema = z.object({
   productId: z.string(),
+  variantId: z.string().optional(),
   title: z.string(),
   price: z.number(),
-  budgetCategory: z.enum(["needs", "wants", "savings"]),
+  budgetCategory: budgetCategoryKeySchema,
   reason: z.string(),
   remainingBudgetAfter: z.number(),
   imageUrl: z.string().optional(),
@@ -314,6 +747,7 @@ export const autoDiscountDataSchema = z.object({
 });
 
 export type CartItem = z.infer<typeof cartItemSchema>;
+export type CartCategoryBreakdown = z.infer<typeof cartCategoryBreakdownSchema>;
 export type CartBudgetBreakdown = z.infer<typeof cartBudgetBreakdownSchema>;
 export type ProductRecommendationData = z.infer<typeof productRecommendationDataSchema>;
 export type AutoDiscountData = z.infer<typeof autoDiscountDataSchema>;
@@ -16,6 +16,7 @@ import {
   Home,
   Sparkles
 } from "lucide-react";
+import { DEFAULT_CURRENCY, MoneyMath } from "../../shared/money";
 
 interface CartItem {
   productId: string;
@@ -23,33 +24,22 @@ interface CartItem {
   title: string;
   price: number;
   quantity: number;
-  budgetCategory: "needs" | "wants" | "savings";
+  budgetCategory: string;
   budgetImpact: number;
   discountApplied: number;
   fitsInBudget: boolean;
 }
 
-interface BudgetBreakdown {
-  needs: {
-    allocated: number;
-    spent: number;
-    remaining: number;
-    items: CartItem[];
-  };
-  wants: {
-    allocated: number;
-    spent: number;
-    remaining: number;
-    items: CartItem[];
-  };
-  savings: {
-    allocated: number;
-    spent: number;
-    remaining: number;
-    items: CartItem[];
-  };
+interface CategoryBreakdown {
+  allocated: number;
+  spent: number;
+  remaining: number;
+  items: CartItem[];
 }
 
+// Keyed by the store's budget categories: needs/wants/savings or its own
+type BudgetBreakdown = Record<string, CategoryBreakdown>;
+
 interface AutoDiscount {
   code: string;
   type: "percentage" | "fixed_amount" | "free_shipping";
@@ -60,9 +50,10 @@ interface AutoDiscount {
 
 interface ProductRecommendation {
   productId: string;
+  variantId?: string;
   title: string;
   price: number;
-  budgetCategory: "needs" | "wants" | "savings";
+  budgetCategory: string;
   reason: string;
   remainingBudgetAfter: number;
   imageUrl?: string;
@@ -75,6 +66,8 @@ interface CartTrackingWidgetProps {
   appliedDiscounts: AutoDiscount[];
   recommendations: ProductRecommendation[];
   totalCartValue: number;
+  currency?: string; // Storefront presentment currency, e.g. window.Shopify.currency.active
+  categoryNames?: Record<string, string>; // Display names of custom categories, by key
   onRecommendationClick: (productId: string) => void;
   onApplyDiscount: (discountCode: string) => void;
 }
@@ -85,28 +78,34 @@ export default function CartTrackingWidget({
   appliedDiscounts,
   recommendations,
   totalCartValue,
+  currency = DEFAULT_CURRENCY,
+  categoryNames = {},
   onRecommendationClick,
   onApplyDiscount
 }: CartTrackingWidgetProps) {
   const [activeTab, setActiveTab] = useState<"breakdown" | "discounts" | "recommendations">("breakdown");
 
-  const categoryIcons = {
+  const categoryIcons: Record<string, typeof Home> = {
     needs: Home,
     wants: Heart,
     savings: PiggyBank
   };
 
-  const categoryColors = {
+  const categoryColors: Record<string, string> = {
     needs: "text-green-600 bg-green-100 dark:bg-green-900/20",
     wants: "text-blue-600 bg-blue-100 dark:bg-blue-900/20", 
     savings: "text-purple-600 bg-purple-100 dark:bg-purple-900/20"
   };
 
-  const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`;
+  const formatCurrency = (amount: number) => MoneyMath.format(MoneyMath.fromMajor(amount, currency));
 
-  const getBudgetStatus = (category: keyof BudgetBreakdown) => {
-    const { spent, allocated } = budgetBreakdown[category];
-    const percentage = (spent / allocated) * 100;
+  const getSpentPercentage = ({ spent, allocated }: CategoryBreakdown) => {
+    if (allocated > 0) return (spent / allocated) * 100;
+    return spent > 0 ? 100 : 0;
+  };
+
+  const getBudgetStatus = (category: string) => {
+    const percentage = getSpentPercentage(budgetBreakdown[category]);
     
     if (percentage <= 70) return { status: "good", color: "bg-green-500" };
     if (percentage <= 90) return { status: "warning", color: "bg-yellow-500" };
@@ -157,18 +156,18 @@ export default function CartTrackingWidget({
             </div>
 
             {Object.entries(budgetBreakdown).map(([category, data]) => {
-              const { status, color } = getBudgetStatus(category as keyof BudgetBreakdown);
-              const Icon = categoryIcons[category as keyof typeof categoryIcons];
-              const percentage = (data.spent / data.allocated) * 100;
+              const { status, color } = getBudgetStatus(category);
+              const Icon = categoryIcons[category] ?? Sparkles;
+              const percentage = getSpentPercentage(data);
 
               return (
                 <div key={category} className="space-y-2">
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-2">
-                      <div className={`p-1 rounded ${categoryColors[category as keyof typeof categoryColors]}`}>
+                      <div className={`p-1 rounded ${categoryColors[category] ?? "text-gray-600 bg-gray-100 dark:bg-gray-900/20"}`}>
                         <Icon className="w-4 h-4" />
                       </div>
-                      <span className="font-medium capitalize">{category}</span>
+                      <span className="font-medium capitalize">{categoryNames[category] ?? category}</span>
                       {status === "over" && <AlertTriangle className="w-4 h-4 text-yellow-500" />}
                       {status === "good" && data.items.length > 0 && <CheckCircle className="w-4 h-4 text-green-500" />}
                     </div>
@@ -255,15 +254,21 @@ export default function CartTrackingWidget({
               </div>
             ) : (
               recommendations.map((rec, index) => {
-                const Icon = categoryIcons[rec.budgetCategory];
+                const Icon = categoryIcons[rec.budgetCategory] ?? Sparkles;
                 return (
                   <div key={index} className="p-3 border rounded-lg hover:bg-muted/50 transition-colors">
                     <div className="flex items-start gap-3">
-                      <div className={`p-1 rounded ${categoryColors[rec.budgetCategory]}`}>
-                        <Icon className="w-4 h-4" />
-                      </div>
+                      {rec.imageUrl ? (
+                        <img src={rec.imageUrl} alt={rec.title} className="w-10 h-10 rounded object-cover" />
+                      ) : (
+                        <div className={`p-1 rounded ${categoryColors[rec.budgetCategory] ?? "text-gray-600 bg-gray-100 dark:bg-gray-900/20"}`}>
+                          <Icon className="w-4 h-4" />
+                        </div>
+                      )}
                       <div className="flex-1 min-w-0">
-                        <h4 className="font-medium text-sm truncate">{rec.title}</h4>
+                        <h4 className="font-medium text-sm truncate">
+                          <a href={rec.url} className="hover:underline">{rec.title}</a>
+                        </h4>
                         <p className="text-xs text-muted-foreground mt-1">{rec.reason}</p>
                         <div className="flex items-center justify-between mt-2">
                           <span className="font-medium text-sm">{formatCurrency(rec.price)}</span>
@@ -277,7 +282,7 @@ export default function CartTrackingWidget({
                           </Button>
                         </div>
                         <p className="text-xs text-green-600 mt-1">
-                          {formatCurrency(rec.remainingBudgetAfter)} left in {rec.budgetCategory}
+                          {formatCurrency(rec.remainingBudgetAfter)} left in {categoryNames[rec.budgetCategory] ?? rec.budgetCategory}
                         </p>
                       </div>
                     </div>
@@ -6,8 +6,10 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { APP_TIERS, getRequiredTier, resolveAppTier, type DiscountLadder, type DiscountTier } from "@/types";
 import { 
   ShoppingCart, 
   TrendingUp, 
@@ -17,7 +19,9 @@ import {
   Settings, 
   BarChart3,
   Target,
-  Zap
+  Zap,
+  Plus,
+  Trash2
 } from "lucide-react";
 
 interface PremiumFeatures {
@@ -26,8 +30,21 @@ interface PremiumFeatures {
   productRecommendationsEnabled: boolean;
   budgetRemainingDisplayEnabled: boolean;
   minimumDiscountThreshold: number;
+  discountLadder: DiscountLadder | null;
 }
 
+// Tier being edited; categories are typed as a comma-separated list
+interface TierRow extends Omit<DiscountTier, "categories"> {
+  categories: string;
+}
+
+interface LadderForm {
+  tiers: TierRow[];
+  stacking: DiscountLadder["stacking"];
+}
+
+const MAX_DISCOUNT_TIERS = 10;
+
 interface Store {
   id: number;
   tier: string;
@@ -36,12 +53,15 @@ interface Store {
   productRecommendationsEnabled: boolean;
   budgetRemainingDisplayEnabled: boolean;
   minimumDiscountThreshold: number;
+  discountLadder: DiscountLadder | null;
 }
 
 export default function PremiumFeaturesDashboard() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [pendingChanges, setPendingChanges] = useState<Partial<PremiumFeatures>>({});
+  // Undefined until the ladder is edited; null switches back to the default ladder
+  const [ladderForm, setLadderForm] = useState<LadderForm | null | undefined>(undefined);
 
   // Mock store data - replace with actual API call
   const { data: store, isLoading } = useQuery<Store>({
@@ -49,12 +69,13 @@ export default function PremiumFeaturesDashboard() {
     enabled: false, // Enable when API is ready
     initialData: {
       id: 1,
-      tier: "premium",
+      tier: "pro",
       premiumCartTracking: false,
       autoDiscountEnabled: false,
       productRecommendationsEnabled: false,
       budgetRemainingDisplayEnabled: false,
-      minimumDiscountThreshold: 50
+      minimumDiscountThreshold: 50,
+      discountLadder: null
     }
   });
 
@@ -66,31 +87,40 @@ export default function PremiumFeaturesDashboard() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(features)
       });
-      if (!response.ok) throw new Error('Failed to update features');
+      if (!response.ok) {
+        // Plan violations come back as 402 with the required plan in the message
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to update features');
+      }
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/stores/current'] });
       setPendingChanges({});
+      setLadderForm(undefined);
       toast({
         title: "Features Updated",
         description: "Premium cart tracking features have been updated successfully."
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Update Failed",
-        description: "Failed to update premium features. Please try again.",
+        description: error.message || "Failed to update premium features. Please try again.",
         variant: "destructive"
       });
     }
   });
 
+  const currentTier = APP_TIERS[resolveAppTier(store?.tier)];
+  const requiredPlanName = APP_TIERS[getRequiredTier("premiumCart")].name;
+  const isPremium = currentTier.limits.premiumCart;
+
   const handleToggleChange = (feature: keyof PremiumFeatures, value: boolean) => {
-    if (store?.tier !== "premium") {
+    if (!isPremium) {
       toast({
         title: "Premium Feature",
-        description: "This feature requires a premium subscription. Upgrade to unlock advanced cart tracking.",
+        description: `This feature requires the ${requiredPlanName} plan or higher. Upgrade to unlock advanced cart tracking.`,
         variant: "destructive"
       });
       return;
@@ -111,13 +141,25 @@ export default function PremiumFeaturesDashboard() {
   };
 
   const saveChanges = () => {
-    if (Object.keys(pendingChanges).length > 0) {
-      updateFeaturesMutation.mutate(pendingChanges);
+    if (hasChanges) {
+      updateFeaturesMutation.mutate({
+        ...pendingChanges,
+        ...(ladderForm !== undefined && { discountLadder: ladderForm && toDiscountLadder(ladderForm) })
+      });
     }
   };
 
   const resetChanges = () => {
     setPendingChanges({});
+    setLadderForm(undefined);
+  };
+
+  const updateTierRow = (index: number, changes: Partial<TierRow>) => {
+    if (!currentLadder) return;
+    setLadderForm({
+      ...currentLadder,
+      tiers: currentLadder.tiers.map((row, i) => i === index ? { ...row, ...changes } : row)
+    });
   };
 
   const currentFeatures = {
@@ -127,9 +169,9 @@ export default function PremiumFeaturesDashboard() {
     budgetRemainingDisplayEnabled: pendingChanges.budgetRemainingDisplayEnabled ?? store?.budgetRemainingDisplayEnabled ?? false,
     minimumDiscountThreshold: pendingChanges.minimumDiscountThreshold ?? store?.minimumDiscountThreshold ?? 50
   };
+  const currentLadder = ladderForm !== undefined ? ladderForm : toLadderForm(store?.discountLadder ?? null);
 
-  const hasChanges = Object.keys(pendingChanges).length > 0;
-  const isPremium = store?.tier === "premium";
+  const hasChanges = Object.keys(pendingChanges).length > 0 || ladderForm !== undefined;
 
   if (isLoading) {
     return <div className="p-6">Loading premium features...</div>;
@@ -154,7 +196,7 @@ export default function PremiumFeaturesDashboard() {
           ) : (
             <Badge variant="outline" className="gap-1">
               <Target className="w-3 h-3" />
-              Free Plan
+              {currentTier.name} Plan
             </Badge>
           )}
         </div>
@@ -165,7 +207,7 @@ export default function PremiumFeaturesDashboard() {
           <CardHeader>
             <CardTitle className="flex items-center gap-2 text-yellow-800 dark:text-yellow-200">
               <Crown className="w-5 h-5" />
-              Upgrade to Premium
+              Upgrade to {requiredPlanName}
             </CardTitle>
             <CardDescription className="text-yellow-700 dark:text-yellow-300">
               Unlock advanced cart tracking, automatic discounts, and intelligent product recommendations to increase your revenue.
@@ -256,8 +298,145 @@ export default function PremiumFeaturesDashboard() {
                   step="0.01"
                 />
                 <p className="text-xs text-muted-foreground">
-                  Customers spending above this amount will receive automatic discounts
+                  {currentLadder
+                    ? "Not used while you have custom discount tiers"
+                    : "Customers spending above this amount will receive automatic discounts"}
                 </p>
+
+                <Separator />
+
+                <div className="flex items-center justify-between">
+                  <Label className="text-sm">Discount Tiers</Label>
+                  {currentLadder ? (
+                    <Button variant="ghost" size="sm" onClick={() => setLadderForm(null)}>
+                      Use Default Ladder
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setLadderForm(getDefaultLadderForm(currentFeatures.minimumDiscountThreshold))}
+                    >
+                      Customize Tiers
+                    </Button>
+                  )}
+                </div>
+
+                {!currentLadder && (
+                  <p className="text-xs text-muted-foreground">
+                    5%, 7%, 10% and 15% off at 1x, 1.5x, 2x and 3x the minimum threshold, plus free shipping from 1.5x
+                  </p>
+                )}
+
+                {currentLadder && (
+                  <div className="space-y-3">
+                    {currentLadder.tiers.map((row, index) => (
+                      <div key={index} className="p-3 border rounded-lg space-y-2">
+                        <div className="flex items-center gap-2">
+                          <Input
+                            aria-label="Tier name"
+                            value={row.name}
+                            onChange={(e) => updateTierRow(index, { name: e.target.value })}
+                          />
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            disabled={currentLadder.tiers.length <= 1}
+                            onClick={() => setLadderForm({
+                              ...currentLadder,
+                              tiers: currentLadder.tiers.filter((_, i) => i !== index)
+                            })}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                        <div className="grid grid-cols-3 gap-2">
+                          <div>
+                            <Label htmlFor={`tier-minimum-${index}`} className="text-xs">Spend from</Label>
+                            <Input
+                              id={`tier-minimum-${index}`}
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={row.minimumAmount}
+                              onChange={(e) => updateTierRow(index, { minimumAmount: parseFloat(e.target.value) || 0 })}
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor={`tier-type-${index}`} className="text-xs">Discount</Label>
+                            <Select
+                              value={row.type}
+                              onValueChange={(type) => updateTierRow(index, { type: type as TierRow["type"] })}
+                            >
+                              <SelectTrigger id={`tier-type-${index}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="percentage">Percent off</SelectItem>
+                                <SelectItem value="fixed_amount">Amount off</SelectItem>
+                                <SelectItem value="free_shipping">Free shipping</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div>
+                            <Label htmlFor={`tier-value-${index}`} className="text-xs">
+                              {row.type === "percentage" ? "Percent" : row.type === "fixed_amount" ? "Amount" : "Shipping value"}
+                            </Label>
+                            <Input
+                              id={`tier-value-${index}`}
+                              type="number"
+                              min="0"
+                              max={row.type === "percentage" ? "100" : undefined}
+                              step="0.01"
+                              value={row.value}
+                              onChange={(e) => updateTierRow(index, { value: parseFloat(e.target.value) || 0 })}
+                            />
+                          </div>
+                        </div>
+                        <Input
+                          aria-label="Eligible categories"
+                          value={row.categories}
+                          onChange={(e) => updateTierRow(index, { categories: e.target.value })}
+                          placeholder="Categories, e.g. needs, wants (blank = all)"
+                        />
+                      </div>
+                    ))}
+
+                    <div className="flex items-center justify-between gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={currentLadder.tiers.length >= MAX_DISCOUNT_TIERS}
+                        onClick={() => setLadderForm({
+                          ...currentLadder,
+                          tiers: [...currentLadder.tiers, {
+                            name: "Spend more, save more",
+                            minimumAmount: currentFeatures.minimumDiscountThreshold,
+                            type: "percentage",
+                            value: 5,
+                            categories: ""
+                          }]
+                        })}
+                      >
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add Tier
+                      </Button>
+                      <Select
+                        value={currentLadder.stacking}
+                        onValueChange={(stacking) => setLadderForm({ ...currentLadder, stacking: stacking as LadderForm["stacking"] })}
+                      >
+                        <SelectTrigger className="w-56" aria-label="Stacking">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="best">Best tier only</SelectItem>
+                          <SelectItem value="best_with_free_shipping">Best tier plus free shipping</SelectItem>
+                          <SelectItem value="all">Stack every tier reached</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
               </div>
             )}
           </CardContent>
@@ -400,4 +579,36 @@ export default function PremiumFeaturesDashboard() {
       )}
     </div>
   );
-}
\ No newline at end of file
+}
+
+function toLadderForm(ladder: DiscountLadder | null): LadderForm | null {
+  return ladder && {
+    stacking: ladder.stacking,
+    tiers: ladder.tiers.map(tier => ({ ...tier, categories: (tier.categories ?? []).join(", ") }))
+  };
+}
+
+function toDiscountLadder(form: LadderForm): DiscountLadder {
+  return {
+    stacking: form.stacking,
+    tiers: form.tiers.map(row => {
+      const categories = row.categories.split(",").map(category => category.trim().toLowerCase()).filter(Boolean);
+      return { ...row, categories: categories.length > 0 ? categories : undefined };
+    })
+  };
+}
+
+// The ladder stores get until they set their own, as a starting point for editing
+function getDefaultLadderForm(threshold: number): LadderForm {
+  const reward = "Budget-conscious shopping reward";
+  return {
+    stacking: "best_with_free_shipping",
+    tiers: [
+      { name: reward, minimumAmount: threshold, type: "percentage", value: 5, categories: "" },
+      { name: reward, minimumAmount: threshold * 1.5, type: "percentage", value: 7, categories: "" },
+      { name: reward, minimumAmount: threshold * 2, type: "percentage", value: 10, categories: "" },
+      { name: reward, minimumAmount: threshold * 3, type: "percentage", value: 15, categories: "" },
+      { name: "Free shipping for budget-conscious bulk orders", minimumAmount: threshold * 1.5, type: "free_shipping", value: 0, categories: "" }
+    ]
+  };
+}
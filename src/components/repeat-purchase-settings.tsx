@@ -91,7 +91,7 @@ export default function RepeatPurchaseSettingsComponent({
   const getRefreshTypeDescription = (type: string) => {
     switch (type) {
       case "per_purchase":
-        return "Reset discount eligibility after each purchase";
+        return "Limit discounted items per order";
       case "daily":
         return "Reset discount eligibility every day";
       case "weekly":
@@ -346,7 +346,7 @@ export default function RepeatPurchaseSettingsComponent({
                   
                   <div className="flex space-x-2">
                     <Input
-                      placeholder="Enter Product ID or Handle"
+                      placeholder="Product ID, handle, collection:handle or tag:name"
                       value={productInput}
                       onChange={(e) => setProductInput(e.target.value)}
                       onKeyPress={(e) => e.key === "Enter" && addProduct()}
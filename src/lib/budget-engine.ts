@@ -33,16 +33,12 @@ export class BudgetEngine {
     productId: string,
     basePrice: number,
     customerBudget: BudgetData,
-    category: "needs" | "wants" | "savings" = "wants",
+    category: string = "wants",
     shopifyDiscounts: number = 0,
     maxDiscountPercentage: number = 0.25
   ): ProductPricing {
     // Get available budget for the category
-    const availableBudget = category === "needs" 
-      ? customerBudget.needsAmount 
-      : category === "wants" 
-      ? customerBudget.wantsAmount 
-      : customerBudget.savingsAmount;
+    const availableBudget = this.getCategoryBudget(customerBudget, category);
 
     // Calculate price after existing Shopify discounts
     const priceAfterShopifyDiscounts = basePrice - shopifyDiscounts;
@@ -84,13 +80,9 @@ export class BudgetEngine {
   static calculatePurchaseImpact(
     price: number,
     customerBudget: BudgetData,
-    category: "needs" | "wants" | "savings" = "wants"
+    category: string = "wants"
   ) {
-    const categoryBudget = category === "needs" 
-      ? customerBudget.needsAmount 
-      : category === "wants" 
-      ? customerBudget.wantsAmount 
-      : customerBudget.savingsAmount;
+    const categoryBudget = this.getCategoryBudget(customerBudget, category);
 
     const categoryPercentage = (price / categoryBudget) * 100;
     const totalPercentage = (price / customerBudget.monthlyIncome) * 100;
@@ -196,6 +188,7 @@ export class BudgetEngine {
         needsAmount: parsed.needsAmount,
         wantsAmount: parsed.wantsAmount,
         savingsAmount: parsed.savingsAmount,
+        categoryAmounts: parsed.categoryAmounts,
         category: parsed.category,
       };
     } catch (error) {
@@ -215,4 +208,23 @@ export class BudgetEngine {
       console.warn("Failed to clear budget data:", error);
     }
   }
+
+  /**
+   * Budget for a category; custom categories come from the store's categoryAmounts
+   */
+  private static getCategoryBudget(customerBudget: BudgetData, category: string): number {
+    const amount = customerBudget.categoryAmounts?.[category];
+    if (amount !== undefined) return amount;
+
+    switch (category) {
+      case "needs":
+        return customerBudget.needsAmount;
+      case "savings":
+        return customerBudget.savingsAmount;
+      case "wants":
+        return customerBudget.wantsAmount;
+      default:
+        return 0;
+    }
+  }
 }
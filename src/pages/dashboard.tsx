@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, type ChangeEvent } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -23,7 +23,13 @@ import {
   ArrowDown,
   ShoppingCart,
   Calculator,
-  Eye
+  Eye,
+  Upload,
+  Plus,
+  Trash2,
+  History,
+  RotateCcw,
+  FlaskConical
 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -43,7 +49,32 @@ interface PricingRule {
   wantsPercentage: string;
   savingsPercentage: string;
   maxDiscountPercentage: string;
+  categories?: { key: string; name: string; percentage: number }[] | null;
+  categoryMapping?: { rules: MappingRow[]; defaultCategory?: string } | null;
+  bundleRules?: BundleRow[] | null;
+  inventorySettings?: InventorySettings | null;
+  minMarginPercentage?: string;
+  priceEnding?: string;
   isActive: boolean;
+  version: number;
+  startsAt?: string | null;
+  endsAt?: string | null;
+  inEffect?: boolean; // The version pricing uses right now
+  createdAt?: string;
+  budgetRefreshType?: string;
+  maxBudgetApplications?: number;
+  budgetRefreshDays?: number;
+  repeatCustomerDiscount?: string;
+  discountTerms?: string | null;
+  termsPageUrl?: string | null;
+  isAppEnabled?: boolean;
+  enabledForProducts?: "all" | string[] | { mode: "include" | "exclude"; items: string[] };
+}
+
+interface RuleChange {
+  field: string;
+  from: unknown;
+  to: unknown;
 }
 
 interface ActivityItem {
@@ -55,10 +86,162 @@ interface ActivityItem {
   amount?: number;
 }
 
+// Plan limit rejections arrive as "402: {json}" and name the plan the change needs
+function getPlanLimitMessage(error: Error): string | null {
+  if (!error.message.startsWith("402:")) return null;
+  try {
+    return JSON.parse(error.message.slice(4)).error ?? null;
+  } catch {
+    return null;
+  }
+}
+
+interface CategoryRow {
+  key: string; // Empty until saved; derived from the name
+  name: string;
+  percentage: string;
+}
+
+// The rule's custom categories, or needs/wants/savings from its percentage columns
+function toCategoryRows(rule: PricingRule): CategoryRow[] {
+  if (rule.categories && rule.categories.length > 0) {
+    return rule.categories.map(category => ({ ...category, percentage: category.percentage.toString() }));
+  }
+  return [
+    { key: "needs", name: "Needs", percentage: rule.needsPercentage },
+    { key: "wants", name: "Wants", percentage: rule.wantsPercentage },
+    { key: "savings", name: "Savings", percentage: rule.savingsPercentage }
+  ];
+}
+
+interface MappingRow {
+  field: "product_type" | "tag" | "vendor" | "collection";
+  value: string;
+  category: string;
+}
+
+interface BundleRow {
+  name: string;
+  categories: string[];
+  minItems: number;
+  extraDiscountPercentage: number;
+}
+
+interface InventorySettings {
+  overstockThreshold: number | null;
+  staleAfterDays: number | null;
+  boostedMaxDiscountPercentage: number;
+  lowStockThreshold: number | null;
+}
+
+// Inventory inputs as typed; a blank threshold turns that check off
+interface InventoryForm {
+  overstockThreshold: string;
+  staleAfterDays: string;
+  boostedMaxDiscountPercentage: string;
+  lowStockThreshold: string;
+}
+
+function toInventoryForm(settings?: InventorySettings | null): InventoryForm {
+  const format = (value?: number | null) => value == null ? "" : value.toString();
+  return {
+    overstockThreshold: format(settings?.overstockThreshold),
+    staleAfterDays: format(settings?.staleAfterDays),
+    boostedMaxDiscountPercentage: format(settings?.boostedMaxDiscountPercentage ?? 40),
+    lowStockThreshold: format(settings?.lowStockThreshold)
+  };
+}
+
+interface CategoryPreview {
+  counts: Record<string, number>;
+  unmatched: number;
+  scanned: number;
+  truncated: boolean;
+}
+
+interface SimulationMetrics {
+  affordableShare: number;
+  newlyAffordableShare: number; // Affordable only because of the budget discount
+  averageDiscountPercentage: number;
+  discountExposure: number;
+}
+
+interface RuleSimulation extends SimulationMetrics {
+  categories: (SimulationMetrics & { category: string; name: string; products: number })[];
+}
+
+interface PricingSimulation {
+  currency: string;
+  products: number;
+  truncated: boolean;
+  incomes: { samples: number[]; sessions: number };
+  candidate: RuleSimulation;
+  current: RuleSimulation | null;
+}
+
+// Where simulated customer incomes come from: recent budget sessions or a synthetic bracket
+const INCOME_SOURCES = [
+  { value: "sessions", label: "Recent customers" },
+  { value: "low", label: "Lower incomes" },
+  { value: "median", label: "Middle incomes" },
+  { value: "high", label: "Higher incomes" },
+  { value: "mixed", label: "Mixed incomes" }
+];
+
+const MAPPING_FIELDS: { value: MappingRow["field"]; label: string }[] = [
+  { value: "product_type", label: "Product type" },
+  { value: "tag", label: "Tag" },
+  { value: "vendor", label: "Vendor" },
+  { value: "collection", label: "Collection" }
+];
+
+// Diff values are column values: strings, numbers, JSON or null
+function formatRuleValue(value: unknown): string {
+  if (value == null || value === "") return "—";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function formatSchedule(rule: PricingRule): string {
+  if (!rule.startsAt && !rule.endsAt) return "Standing rule";
+  const format = (value?: string | null) => value ? new Date(value).toLocaleString() : "open";
+  return `${format(rule.startsAt)} – ${format(rule.endsAt)}`;
+}
+
+// Category keys are lower-case slugs, e.g. "Gifts & Cards" becomes "gifts_cards"
+function toCategoryKey(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^[^a-z]+|_+$/g, "");
+  return slug.slice(0, 32) || "category";
+}
+
+// Map a rule's product scope onto the settings form's selection type and item list
+function toProductSelection(scope: PricingRule["enabledForProducts"]) {
+  if (!scope || scope === "all") {
+    return { productSelectionType: "all" as const, enabledForProducts: [] as string[] };
+  }
+  if (Array.isArray(scope)) {
+    return { productSelectionType: "specific" as const, enabledForProducts: scope };
+  }
+  return {
+    productSelectionType: scope.mode === "include" ? "specific" as const : "exclude" as const,
+    enabledForProducts: scope.items
+  };
+}
+
 export default function Dashboard() {
   const { toast } = useToast();
   const [selectedPeriod, setSelectedPeriod] = useState("30");
   const [pricingRules, setPricingRules] = useState<PricingRule | null>(null);
+  const [categoryRows, setCategoryRows] = useState<CategoryRow[]>([]);
+  const [mappingRows, setMappingRows] = useState<MappingRow[]>([]);
+  const [bundleRows, setBundleRows] = useState<BundleRow[]>([]);
+  const [inventoryForm, setInventoryForm] = useState<InventoryForm>(toInventoryForm());
+  const [defaultMappingCategory, setDefaultMappingCategory] = useState("wants");
+  const [categoryPreview, setCategoryPreview] = useState<CategoryPreview | null>(null);
+  // Optional window turning the next save into a scheduled version; datetime-local values
+  const [schedule, setSchedule] = useState({ startsAt: "", endsAt: "" });
+  const [diffRange, setDiffRange] = useState<{ from: number; to: number } | null>(null);
+  const [incomeSource, setIncomeSource] = useState("sessions");
+  const [simulation, setSimulation] = useState<PricingSimulation | null>(null);
 
   // Repeat purchase settings state
   const [repeatPurchaseSettings, setRepeatPurchaseSettings] = useState({
@@ -116,6 +299,12 @@ export default function Dashboard() {
     queryKey: ['/api/store/1/pricing-rules'],
   });
 
+  // Fields changed between the two versions picked in the version history
+  const { data: ruleDiff } = useQuery<{ changes: RuleChange[] }>({
+    queryKey: [`/api/store/1/pricing-rules/diff?from=${diffRange?.from}&to=${diffRange?.to}`],
+    enabled: diffRange !== null && diffRange.from !== diffRange.to,
+  });
+
   // Update pricing rules mutation
   const updateRulesMutation = useMutation({
     mutationFn: async (rules: any) => {
@@ -128,10 +317,92 @@ export default function Dashboard() {
         description: "Your pricing rules have been saved successfully.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Update Failed",
-        description: "Failed to update pricing rules. Please try again.",
+        description: getPlanLimitMessage(error) ?? "Failed to update pricing rules. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Restore an earlier version as the standing rule
+  const rollbackMutation = useMutation({
+    mutationFn: async (version: number) => {
+      return await apiRequest('POST', '/api/store/1/pricing-rules/rollback', { version });
+    },
+    onSuccess: (_, version) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/store/1/pricing-rules'] });
+      toast({
+        title: "Rule Rolled Back",
+        description: `Version ${version} is your pricing rule again.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Rollback Failed",
+        description: "Failed to restore that version. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Classify the catalog with the unsaved mapping rules
+  const previewCategoriesMutation = useMutation({
+    mutationFn: async (categoryMapping: { rules: MappingRow[]; defaultCategory: string }) => {
+      const response = await apiRequest('POST', '/api/stores/1/shopify/category-preview', { categoryMapping });
+      return await response.json() as CategoryPreview;
+    },
+    onSuccess: (preview) => setCategoryPreview(preview),
+    onError: () => {
+      toast({
+        title: "Preview Failed",
+        description: "Save your categories first, then map products onto them.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Project the unsaved settings across the catalog
+  const simulateRulesMutation = useMutation({
+    mutationFn: async (rule: ReturnType<typeof getDraftSettings>) => {
+      const response = await apiRequest('POST', '/api/store/1/pricing-rules/simulate', {
+        rule,
+        catalog: { source: "platform", platform: "shopify" },
+        incomes: incomeSource === "sessions" ? { source: "sessions" } : { source: "preset", preset: incomeSource }
+      });
+      return await response.json() as PricingSimulation;
+    },
+    onSuccess: (result) => setSimulation(result),
+    onError: () => {
+      toast({
+        title: "Preview Failed",
+        description: incomeSource === "sessions"
+          ? "No customer incomes recorded yet. Pick an income bracket instead."
+          : "Failed to simulate these settings. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Import product costs from a CSV upload
+  const importCostsMutation = useMutation({
+    mutationFn: async (csv: string) => {
+      const response = await apiRequest('POST', '/api/store/1/product-costs/import', { csv });
+      return await response.json() as { imported: number; errors: { line: number; message: string }[] };
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Product Costs Imported",
+        description: result.errors.length > 0
+          ? `${result.imported} costs saved, ${result.errors.length} rows skipped (first: line ${result.errors[0].line}, ${result.errors[0].message}).`
+          : `${result.imported} costs saved.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Import Failed",
+        description: "Check that the CSV has product_id and cost columns.",
         variant: "destructive",
       });
     },
@@ -140,20 +411,79 @@ export default function Dashboard() {
   // Initialize pricing rules from API data
   useEffect(() => {
     if (rulesData && rulesData.length > 0) {
-      const activeRule = rulesData.find((rule: PricingRule) => rule.isActive) || rulesData[0];
+      // Edit the standing rule; scheduled versions are listed under Versions
+      const activeRule = rulesData.find((rule: PricingRule) => rule.isActive && !rule.startsAt && !rule.endsAt) || rulesData[0];
       setPricingRules(activeRule);
+      setCategoryRows(toCategoryRows(activeRule));
+      setMappingRows(activeRule.categoryMapping?.rules ?? []);
+      setBundleRows(activeRule.bundleRules ?? []);
+      setInventoryForm(toInventoryForm(activeRule.inventorySettings));
+      setDefaultMappingCategory(activeRule.categoryMapping?.defaultCategory ?? "wants");
+      setRepeatPurchaseSettings(settings => ({
+        ...settings,
+        budgetRefreshType: activeRule.budgetRefreshType ?? settings.budgetRefreshType,
+        maxBudgetApplications: activeRule.maxBudgetApplications ?? settings.maxBudgetApplications,
+        budgetRefreshDays: activeRule.budgetRefreshDays ?? settings.budgetRefreshDays,
+        repeatCustomerDiscount: activeRule.repeatCustomerDiscount != null
+          ? parseFloat(activeRule.repeatCustomerDiscount)
+          : settings.repeatCustomerDiscount,
+        discountTerms: activeRule.discountTerms ?? settings.discountTerms,
+        termsPageUrl: activeRule.termsPageUrl ?? settings.termsPageUrl,
+        isAppEnabled: activeRule.isAppEnabled ?? settings.isAppEnabled,
+        ...toProductSelection(activeRule.enabledForProducts)
+      }));
     }
   }, [rulesData]);
 
+  // The editor's settings as the rules endpoints take them
+  const getDraftSettings = (rule: PricingRule) => ({
+    categories: categoryRows.map(row => ({
+      key: row.key || toCategoryKey(row.name),
+      name: row.name,
+      percentage: parseFloat(row.percentage || '0')
+    })),
+    categoryMapping: getCategoryMapping(),
+    maxDiscountPercentage: parseFloat(rule.maxDiscountPercentage),
+    minMarginPercentage: parseFloat(rule.minMarginPercentage || '0'),
+    priceEnding: rule.priceEnding || 'none',
+    inventorySettings: getInventorySettings(),
+  });
+
   const handleSaveRules = () => {
     if (!pricingRules) return;
     
     updateRulesMutation.mutate({
       name: pricingRules.name,
-      needsPercentage: parseFloat(pricingRules.needsPercentage),
-      wantsPercentage: parseFloat(pricingRules.wantsPercentage),
-      savingsPercentage: parseFloat(pricingRules.savingsPercentage),
-      maxDiscountPercentage: parseFloat(pricingRules.maxDiscountPercentage),
+      ...getDraftSettings(pricingRules),
+      bundleRules: bundleRows,
+      startsAt: schedule.startsAt ? new Date(schedule.startsAt).toISOString() : null,
+      endsAt: schedule.endsAt ? new Date(schedule.endsAt).toISOString() : null,
+    });
+  };
+
+  const handleCostFileSelected = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    importCostsMutation.mutate(await file.text());
+    event.target.value = "";
+  };
+
+  const handleSaveRepeatPurchaseSettings = () => {
+    updateRulesMutation.mutate({
+      name: pricingRules?.name,
+      budgetRefreshType: repeatPurchaseSettings.budgetRefreshType,
+      maxBudgetApplications: repeatPurchaseSettings.maxBudgetApplications,
+      budgetRefreshDays: repeatPurchaseSettings.budgetRefreshDays,
+      repeatCustomerDiscount: repeatPurchaseSettings.repeatCustomerDiscount,
+      discountTerms: repeatPurchaseSettings.discountTerms,
+      termsPageUrl: repeatPurchaseSettings.termsPageUrl || null,
+      isAppEnabled: repeatPurchaseSettings.isAppEnabled,
+      enabledForProducts: repeatPurchaseSettings.productSelectionType === "all"
+        ? "all"
+        : {
+            mode: repeatPurchaseSettings.productSelectionType === "specific" ? "include" : "exclude",
+            items: repeatPurchaseSettings.enabledForProducts
+          },
     });
   };
 
@@ -162,6 +492,53 @@ export default function Dashboard() {
     setPricingRules({ ...pricingRules, [field]: value });
   };
 
+  const updateCategoryRow = (index: number, field: "name" | "percentage", value: string) => {
+    setCategoryRows(rows => rows.map((row, i) => i === index ? { ...row, [field]: value } : row));
+  };
+
+  const categoryTotal = categoryRows.reduce((sum, row) => sum + parseFloat(row.percentage || '0'), 0);
+  const categoryOptions = categoryRows.map(row => ({ key: row.key || toCategoryKey(row.name), name: row.name || "Unnamed" }));
+
+  const updateMappingRow = (index: number, field: keyof MappingRow, value: string) => {
+    setMappingRows(rows => rows.map((row, i) => i === index ? { ...row, [field]: value } : row));
+  };
+
+  const updateBundleRow = (index: number, changes: Partial<BundleRow>) => {
+    setBundleRows(rows => rows.map((row, i) => i === index ? { ...row, ...changes } : row));
+  };
+
+  const toggleBundleCategory = (index: number, category: string) => {
+    const categories = bundleRows[index].categories;
+    updateBundleRow(index, {
+      categories: categories.includes(category)
+        ? categories.filter(key => key !== category)
+        : [...categories, category]
+    });
+  };
+
+  // Null when every threshold is blank, which turns inventory checks off
+  const getInventorySettings = (): InventorySettings | null => {
+    const parse = (value: string) => value.trim() === "" ? null : parseInt(value);
+    const settings = {
+      overstockThreshold: parse(inventoryForm.overstockThreshold),
+      staleAfterDays: parse(inventoryForm.staleAfterDays),
+      boostedMaxDiscountPercentage: parseFloat(inventoryForm.boostedMaxDiscountPercentage || '0'),
+      lowStockThreshold: parse(inventoryForm.lowStockThreshold)
+    };
+    const enabled = settings.overstockThreshold !== null || settings.staleAfterDays !== null || settings.lowStockThreshold !== null;
+    return enabled ? settings : null;
+  };
+
+  const updateInventoryForm = (field: keyof InventoryForm, value: string) => {
+    setInventoryForm(form => ({ ...form, [field]: value }));
+  };
+
+  // Rules without a value match nothing, so they are left out
+  const getCategoryMapping = () => ({
+    rules: mappingRows.filter(row => row.value.trim() !== ""),
+    defaultCategory: defaultMappingCategory
+  });
+
   const getActivityIcon = (type: ActivityItem['type']) => {
     switch (type) {
       case 'purchase':
@@ -300,10 +677,11 @@ export default function Dashboard() {
         </div>
 
         <Tabs defaultValue="overview" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-1 md:grid-cols-4">
+          <TabsList className="grid w-full grid-cols-1 md:grid-cols-5">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="settings">Settings</TabsTrigger>
             <TabsTrigger value="repeat-purchase">Repeat Purchase</TabsTrigger>
+            <TabsTrigger value="versions">Versions</TabsTrigger>
             <TabsTrigger value="activity">Activity</TabsTrigger>
           </TabsList>
 
@@ -383,7 +761,7 @@ export default function Dashboard() {
               <CardContent className="space-y-6">
                 {pricingRules && (
                   <>
-                    <div className="grid md:grid-cols-2 gap-6">
+                    <div className="grid md:grid-cols-3 gap-6">
                       <div>
                         <Label htmlFor="rule-name">Rule Name</Label>
                         <Input
@@ -407,72 +785,381 @@ export default function Dashboard() {
                         />
                         <p className="text-xs text-gray-500 mt-1">Prevent excessive discounting</p>
                       </div>
+
+                      <div>
+                        <Label htmlFor="min-margin">Minimum Margin Percentage</Label>
+                        <Input
+                          id="min-margin"
+                          type="number"
+                          min="0"
+                          max="99"
+                          value={pricingRules.minMarginPercentage ?? "0"}
+                          onChange={(e) => updatePricingRule('minMarginPercentage', e.target.value)}
+                          className="mt-1"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">Budget prices never go below cost plus this margin</p>
+                      </div>
+
+                      <div>
+                        <Label htmlFor="price-ending">Price Ending</Label>
+                        <Select
+                          value={pricingRules.priceEnding ?? "none"}
+                          onValueChange={(value) => updatePricingRule('priceEnding', value)}
+                        >
+                          <SelectTrigger id="price-ending" className="mt-1">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Exact price</SelectItem>
+                            <SelectItem value="nearest_99">Nearest .99</SelectItem>
+                            <SelectItem value="nearest_95">Nearest .95</SelectItem>
+                            <SelectItem value="whole">Nearest whole number</SelectItem>
+                            <SelectItem value="round_down">Round down only</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-gray-500 mt-1">Applied after discounting, within the discount cap and margin</p>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                      <div>
+                        <div className="font-medium">Product Costs</div>
+                        <div className="text-sm text-gray-600">
+                          Upload a CSV with product_id, variant_id (optional) and cost columns. Costs synced from your platform are used as well.
+                        </div>
+                      </div>
+                      <Label
+                        htmlFor="cost-upload"
+                        className="inline-flex items-center cursor-pointer rounded-md border px-3 py-2 text-sm font-medium"
+                      >
+                        {importCostsMutation.isPending ? (
+                          <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                        ) : (
+                          <Upload className="w-4 h-4 mr-2" />
+                        )}
+                        Upload CSV
+                      </Label>
+                      <input
+                        id="cost-upload"
+                        type="file"
+                        accept=".csv,text/csv"
+                        className="hidden"
+                        onChange={handleCostFileSelected}
+                      />
                     </div>
 
                     <Separator />
 
                     <div>
                       <h4 className="font-semibold mb-4">Budget Category Allocation</h4>
-                      <div className="grid md:grid-cols-3 gap-4">
+                      <div className="space-y-3">
+                        {categoryRows.map((row, index) => (
+                          <div key={index} className="grid grid-cols-[1fr_8rem_auto] gap-3 items-end">
+                            <div>
+                              <Label htmlFor={`category-name-${index}`}>Category</Label>
+                              <Input
+                                id={`category-name-${index}`}
+                                value={row.name}
+                                onChange={(e) => updateCategoryRow(index, 'name', e.target.value)}
+                                className="mt-1"
+                              />
+                            </div>
+                            <div>
+                              <Label htmlFor={`category-percentage-${index}`}>Income (%)</Label>
+                              <Input
+                                id={`category-percentage-${index}`}
+                                type="number"
+                                min="0"
+                                max="100"
+                                value={row.percentage}
+                                onChange={(e) => updateCategoryRow(index, 'percentage', e.target.value)}
+                                className="mt-1"
+                              />
+                            </div>
+                            <Button
+                              variant="outline"
+                              size="icon"
+                              disabled={categoryRows.length <= 1}
+                              onClick={() => setCategoryRows(rows => rows.filter((_, i) => i !== index))}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+
+                      <Button
+                        variant="outline"
+                        className="mt-3"
+                        disabled={categoryRows.length >= 10}
+                        onClick={() => setCategoryRows(rows => [...rows, { key: "", name: "", percentage: "0" }])}
+                      >
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add Category
+                      </Button>
+                      
+                      <div className="mt-4 p-3 bg-blue-50 rounded-lg">
+                        <p className="text-sm text-blue-800">
+                          <strong>Total: </strong>
+                          {categoryTotal.toFixed(1)}%
+                          {Math.abs(categoryTotal - 100) > 0.01 && (
+                            <span className="text-red-600 ml-2">
+                              (Should equal 100%)
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-blue-700 mt-1">
+                          Categories other than Needs, Wants and Savings require a plan with custom budget categories.
+                        </p>
+                      </div>
+                    </div>
+
+                    <Separator />
+
+                    <div>
+                      <h4 className="font-semibold mb-2">Product Classification</h4>
+                      <p className="text-sm text-gray-600 mb-4">
+                        Products priced without a category are matched against these rules in order; the first match wins.
+                      </p>
+                      <div className="space-y-3">
+                        {mappingRows.map((row, index) => (
+                          <div key={index} className="grid grid-cols-[9rem_1fr_9rem_auto] gap-3 items-end">
+                            <div>
+                              <Label>When</Label>
+                              <Select value={row.field} onValueChange={(value) => updateMappingRow(index, 'field', value)}>
+                                <SelectTrigger className="mt-1">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {MAPPING_FIELDS.map(field => (
+                                    <SelectItem key={field.value} value={field.value}>{field.label}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            <div>
+                              <Label htmlFor={`mapping-value-${index}`}>Is</Label>
+                              <Input
+                                id={`mapping-value-${index}`}
+                                value={row.value}
+                                onChange={(e) => updateMappingRow(index, 'value', e.target.value)}
+                                className="mt-1"
+                              />
+                            </div>
+                            <div>
+                              <Label>Category</Label>
+                              <Select value={row.category} onValueChange={(value) => updateMappingRow(index, 'category', value)}>
+                                <SelectTrigger className="mt-1">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {categoryOptions.map(category => (
+                                    <SelectItem key={category.key} value={category.key}>{category.name}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            <Button
+                              variant="outline"
+                              size="icon"
+                              onClick={() => setMappingRows(rows => rows.filter((_, i) => i !== index))}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+
+                      <div className="flex items-end gap-3 mt-3">
+                        <Button
+                          variant="outline"
+                          disabled={mappingRows.length >= 100}
+                          onClick={() => setMappingRows(rows => [...rows, { field: "product_type", value: "", category: defaultMappingCategory }])}
+                        >
+                          <Plus className="w-4 h-4 mr-2" />
+                          Add Rule
+                        </Button>
+                        <div className="w-48">
+                          <Label>Otherwise</Label>
+                          <Select value={defaultMappingCategory} onValueChange={setDefaultMappingCategory}>
+                            <SelectTrigger className="mt-1">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {categoryOptions.map(category => (
+                                <SelectItem key={category.key} value={category.key}>{category.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <Button
+                          variant="outline"
+                          disabled={previewCategoriesMutation.isPending}
+                          onClick={() => previewCategoriesMutation.mutate(getCategoryMapping())}
+                        >
+                          <Eye className="w-4 h-4 mr-2" />
+                          Preview Catalog
+                        </Button>
+                      </div>
+
+                      {categoryPreview && (
+                        <div className="mt-4 p-3 bg-gray-50 rounded-lg">
+                          <div className="flex flex-wrap gap-2">
+                            {categoryOptions.map(category => (
+                              <Badge key={category.key} variant="secondary">
+                                {category.name}: {categoryPreview.counts[category.key] ?? 0}
+                              </Badge>
+                            ))}
+                          </div>
+                          <p className="text-xs text-gray-600 mt-2">
+                            {categoryPreview.scanned} products checked{categoryPreview.truncated ? ", more remain" : ""},
+                            {" "}{categoryPreview.unmatched} matched no rule.
+                          </p>
+                        </div>
+                      )}
+                    </div>
+
+                    <Separator />
+
+                    <div>
+                      <h4 className="font-semibold mb-2">Bundle Discounts</h4>
+                      <p className="text-sm text-gray-600 mb-4">
+                        Extra budget discount when a cart has items from every selected category. The best matching bundle applies, within your maximum discount.
+                      </p>
+                      <div className="space-y-3">
+                        {bundleRows.map((row, index) => (
+                          <div key={index} className="p-3 border rounded-lg space-y-3">
+                            <div className="grid grid-cols-[1fr_7rem_7rem_auto] gap-3 items-end">
+                              <div>
+                                <Label htmlFor={`bundle-name-${index}`}>Name</Label>
+                                <Input
+                                  id={`bundle-name-${index}`}
+                                  value={row.name}
+                                  onChange={(e) => updateBundleRow(index, { name: e.target.value })}
+                                  className="mt-1"
+                                />
+                              </div>
+                              <div>
+                                <Label htmlFor={`bundle-items-${index}`}>Min. items</Label>
+                                <Input
+                                  id={`bundle-items-${index}`}
+                                  type="number"
+                                  min="1"
+                                  value={row.minItems}
+                                  onChange={(e) => updateBundleRow(index, { minItems: parseInt(e.target.value || '1') })}
+                                  className="mt-1"
+                                />
+                              </div>
+                              <div>
+                                <Label htmlFor={`bundle-discount-${index}`}>Extra (%)</Label>
+                                <Input
+                                  id={`bundle-discount-${index}`}
+                                  type="number"
+                                  min="0"
+                                  max="50"
+                                  value={row.extraDiscountPercentage}
+                                  onChange={(e) => updateBundleRow(index, { extraDiscountPercentage: parseFloat(e.target.value || '0') })}
+                                  className="mt-1"
+                                />
+                              </div>
+                              <Button
+                                variant="outline"
+                                size="icon"
+                                onClick={() => setBundleRows(rows => rows.filter((_, i) => i !== index))}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                            <div className="flex flex-wrap gap-2">
+                              {categoryOptions.map(category => (
+                                <Badge
+                                  key={category.key}
+                                  variant={row.categories.includes(category.key) ? "default" : "outline"}
+                                  className="cursor-pointer"
+                                  onClick={() => toggleBundleCategory(index, category.key)}
+                                >
+                                  {category.name}
+                                </Badge>
+                              ))}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                      <Button
+                        variant="outline"
+                        className="mt-3"
+                        disabled={bundleRows.length >= 20}
+                        onClick={() => setBundleRows(rows => [...rows, {
+                          name: "Bundle",
+                          categories: categoryOptions.slice(0, 2).map(category => category.key),
+                          minItems: 2,
+                          extraDiscountPercentage: 5
+                        }])}
+                      >
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add Bundle
+                      </Button>
+                    </div>
+
+                    <Separator />
+
+                    <div>
+                      <h4 className="font-semibold mb-2">Inventory</h4>
+                      <p className="text-sm text-gray-600 mb-4">
+                        Let discounts go deeper on overstocked or slow-selling products, and hold them back on items that are nearly sold out. Leave a threshold blank to turn that check off.
+                      </p>
+                      <div className="grid grid-cols-2 gap-4">
                         <div>
-                          <Label htmlFor="needs-percentage">Needs (%)</Label>
+                          <Label htmlFor="overstock-threshold">Overstock Threshold (units)</Label>
                           <Input
-                            id="needs-percentage"
+                            id="overstock-threshold"
                             type="number"
-                            min="0"
-                            max="100"
-                            value={pricingRules.needsPercentage}
-                            onChange={(e) => updatePricingRule('needsPercentage', e.target.value)}
+                            min="1"
+                            value={inventoryForm.overstockThreshold}
+                            onChange={(e) => updateInventoryForm('overstockThreshold', e.target.value)}
                             className="mt-1"
                           />
+                          <p className="text-xs text-gray-500 mt-1">Boost products with at least this many units on hand</p>
+                        </div>
+                        <div>
+                          <Label htmlFor="stale-after-days">Slow Seller After (days)</Label>
+                          <Input
+                            id="stale-after-days"
+                            type="number"
+                            min="1"
+                            max="365"
+                            value={inventoryForm.staleAfterDays}
+                            onChange={(e) => updateInventoryForm('staleAfterDays', e.target.value)}
+                            className="mt-1"
+                          />
+                          <p className="text-xs text-gray-500 mt-1">Boost products that sold before but not within this many days</p>
                         </div>
-                        
                         <div>
-                          <Label htmlFor="wants-percentage">Wants (%)</Label>
+                          <Label htmlFor="boosted-max-discount">Boosted Maximum Discount (%)</Label>
                           <Input
-                            id="wants-percentage"
+                            id="boosted-max-discount"
                             type="number"
                             min="0"
                             max="100"
-                            value={pricingRules.wantsPercentage}
-                            onChange={(e) => updatePricingRule('wantsPercentage', e.target.value)}
+                            value={inventoryForm.boostedMaxDiscountPercentage}
+                            onChange={(e) => updateInventoryForm('boostedMaxDiscountPercentage', e.target.value)}
                             className="mt-1"
                           />
+                          <p className="text-xs text-gray-500 mt-1">Replaces the maximum discount for boosted products when higher</p>
                         </div>
-                        
                         <div>
-                          <Label htmlFor="savings-percentage">Savings (%)</Label>
+                          <Label htmlFor="low-stock-threshold">Low Stock Threshold (units)</Label>
                           <Input
-                            id="savings-percentage"
+                            id="low-stock-threshold"
                             type="number"
                             min="0"
-                            max="100"
-                            value={pricingRules.savingsPercentage}
-                            onChange={(e) => updatePricingRule('savingsPercentage', e.target.value)}
+                            value={inventoryForm.lowStockThreshold}
+                            onChange={(e) => updateInventoryForm('lowStockThreshold', e.target.value)}
                             className="mt-1"
                           />
+                          <p className="text-xs text-gray-500 mt-1">No budget discount at or below this many units</p>
                         </div>
                       </div>
-                      
-                      <div className="mt-4 p-3 bg-blue-50 rounded-lg">
-                        <p className="text-sm text-blue-800">
-                          <strong>Total: </strong>
-                          {(
-                            parseFloat(pricingRules.needsPercentage || '0') +
-                            parseFloat(pricingRules.wantsPercentage || '0') +
-                            parseFloat(pricingRules.savingsPercentage || '0')
-                          ).toFixed(1)}%
-                          {(
-                            parseFloat(pricingRules.needsPercentage || '0') +
-                            parseFloat(pricingRules.wantsPercentage || '0') +
-                            parseFloat(pricingRules.savingsPercentage || '0')
-                          ) !== 100 && (
-                            <span className="text-red-600 ml-2">
-                              (Should equal 100%)
-                            </span>
-                          )}
-                        </p>
-                      </div>
                     </div>
 
                     <Separator />
@@ -506,6 +1193,113 @@ export default function Dashboard() {
                       </div>
                     </div>
 
+                    <Separator />
+
+                    <div>
+                      <h4 className="font-semibold mb-2">Schedule</h4>
+                      <p className="text-sm text-gray-600 mb-4">
+                        Leave empty to replace your rule now, or pick a window to save these settings as a scheduled version, e.g. a holiday sale.
+                      </p>
+                      <div className="grid md:grid-cols-2 gap-4">
+                        <div>
+                          <Label htmlFor="schedule-starts">Starts</Label>
+                          <Input
+                            id="schedule-starts"
+                            type="datetime-local"
+                            value={schedule.startsAt}
+                            onChange={(e) => setSchedule({ ...schedule, startsAt: e.target.value })}
+                            className="mt-1"
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="schedule-ends">Ends</Label>
+                          <Input
+                            id="schedule-ends"
+                            type="datetime-local"
+                            value={schedule.endsAt}
+                            onChange={(e) => setSchedule({ ...schedule, endsAt: e.target.value })}
+                            className="mt-1"
+                          />
+                        </div>
+                      </div>
+                    </div>
+
+                    <Separator />
+
+                    <div>
+                      <h4 className="font-semibold mb-2">Impact Preview</h4>
+                      <p className="text-sm text-gray-600 mb-4">
+                        Price your catalog with these settings before saving, for customer incomes from your recent shoppers or a typical bracket.
+                      </p>
+                      <div className="flex flex-wrap items-end gap-4">
+                        <div className="w-56">
+                          <Label>Customer incomes</Label>
+                          <Select value={incomeSource} onValueChange={setIncomeSource}>
+                            <SelectTrigger className="mt-1">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {INCOME_SOURCES.map(source => (
+                                <SelectItem key={source.value} value={source.value}>{source.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <Button
+                          variant="outline"
+                          disabled={simulateRulesMutation.isPending}
+                          onClick={() => simulateRulesMutation.mutate(getDraftSettings(pricingRules))}
+                        >
+                          {simulateRulesMutation.isPending ? (
+                            <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                          ) : (
+                            <FlaskConical className="w-4 h-4 mr-2" />
+                          )}
+                          Preview Impact
+                        </Button>
+                      </div>
+
+                      {simulation && (
+                        <div className="mt-4 p-3 bg-gray-50 rounded-lg">
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="text-left text-gray-600">
+                                <th className="py-1 font-medium"></th>
+                                <th className="py-1 font-medium">Affordable</th>
+                                <th className="py-1 font-medium">Thanks to discount</th>
+                                <th className="py-1 font-medium">Avg. discount</th>
+                                <th className="py-1 font-medium">Discount exposure</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {[
+                                { label: "These settings", metrics: simulation.candidate, bold: true },
+                                ...(simulation.current ? [{ label: "Current rule", metrics: simulation.current, bold: false }] : []),
+                                ...simulation.candidate.categories.map(category => ({
+                                  label: `${category.name} (${category.products})`,
+                                  metrics: category,
+                                  bold: false
+                                }))
+                              ].map(row => (
+                                <tr key={row.label} className={row.bold ? "font-semibold" : ""}>
+                                  <td className="py-1">{row.label}</td>
+                                  <td className="py-1">{(row.metrics.affordableShare * 100).toFixed(1)}%</td>
+                                  <td className="py-1">{(row.metrics.newlyAffordableShare * 100).toFixed(1)}%</td>
+                                  <td className="py-1">{row.metrics.averageDiscountPercentage.toFixed(1)}%</td>
+                                  <td className="py-1">{row.metrics.discountExposure.toLocaleString(undefined, { style: "currency", currency: simulation.currency })}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                          <p className="text-xs text-gray-600 mt-2">
+                            {simulation.products} products{simulation.truncated ? " (more remain)" : ""} priced for {simulation.incomes.samples.length} incomes
+                            {simulation.incomes.sessions > 0 ? ` from ${simulation.incomes.sessions} recent shoppers` : ""}.
+                            Discount exposure is the discount if every product sold once to a typical customer.
+                          </p>
+                        </div>
+                      )}
+                    </div>
+
                     <div className="flex justify-end">
                       <Button 
                         onClick={handleSaveRules}
@@ -541,8 +1335,96 @@ export default function Dashboard() {
                   onSettingsChange={setRepeatPurchaseSettings}
                   tier="professional"
                 />
+
+                <div className="flex justify-end mt-6">
+                  <Button 
+                    onClick={handleSaveRepeatPurchaseSettings}
+                    disabled={updateRulesMutation.isPending}
+                    className="bg-shopify-green hover:bg-shopify-green/90"
+                  >
+                    {updateRulesMutation.isPending ? (
+                      <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Save className="w-4 h-4 mr-2" />
+                    )}
+                    Save Changes
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Versions Tab */}
+          <TabsContent value="versions" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <History className="w-5 h-5" />
+                  <span>Rule Versions</span>
+                </CardTitle>
+                <p className="text-sm text-gray-600">
+                  Every save is kept as a version. Compare two versions or roll back to an earlier one.
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {(rulesData as PricingRule[] | undefined)?.map((rule) => (
+                  <div key={rule.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium">v{rule.version} · {rule.name}</span>
+                        {rule.inEffect && <Badge className="bg-green-100 text-green-800">In effect</Badge>}
+                        {!rule.isActive && <Badge variant="outline">Inactive</Badge>}
+                      </div>
+                      <div className="text-sm text-gray-600">
+                        {formatSchedule(rule)}
+                        {rule.createdAt && ` · saved ${new Date(rule.createdAt).toLocaleString()}`}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={rule.version === 1}
+                        onClick={() => setDiffRange({ from: rule.version - 1, to: rule.version })}
+                      >
+                        Changes
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={rule.inEffect || rollbackMutation.isPending}
+                        onClick={() => rollbackMutation.mutate(rule.version)}
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Roll Back
+                      </Button>
+                    </div>
+                  </div>
+                ))}
               </CardContent>
             </Card>
+
+            {diffRange && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Changes from v{diffRange.from} to v{diffRange.to}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {ruleDiff && ruleDiff.changes.length === 0 && (
+                    <p className="text-sm text-gray-600">No settings changed between these versions.</p>
+                  )}
+                  <div className="space-y-2">
+                    {ruleDiff?.changes.map((change) => (
+                      <div key={change.field} className="grid grid-cols-[12rem_1fr_1fr] gap-3 text-sm">
+                        <span className="font-medium">{change.field}</span>
+                        <span className="text-red-700 bg-red-50 rounded px-2 py-1 break-all">{formatRuleValue(change.from)}</span>
+                        <span className="text-green-700 bg-green-50 rounded px-2 py-1 break-all">{formatRuleValue(change.to)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
 
           {/* Activity Tab */}
@@ -153,11 +153,29 @@ fetch('/api/pricing/calculate', {
     basePrice: 1999,
     customerBudget: 1500,
     category: 'wants',
-    shopifyDiscounts: 200
+    shopifyDiscounts: 200,
+    storeId: 1,
+    currency: window.Shopify?.currency?.active || 'USD',
+    productHandle: 'classic-sneaker',
+    collections: ['footwear'],
+    tags: ['sale'],
+    productType: 'shoes',
+    region: 'US-CA'
   })
 })
 .then(response => response.json())
 .then(pricing => {
+  if (!pricing.budgetPricingApplied) {
+    // e.g. product_excluded: "This product is excluded from budget pricing."
+    console.log('No budget price:', pricing.notAppliedReason, pricing.notAppliedMessage);
+  }
+  // Ordered steps: category_allocation, shopify_discounts, budget_gap, max_discount_cap, ...
+  pricing.breakdown.steps.forEach(step => {
+    console.log(step.step, step.description, -step.amount, '=>', step.priceAfter);
+  });
+  console.log('Priced with rule', pricing.breakdown.ruleId, 'version', pricing.breakdown.ruleVersion);
+  // withinBudget compares the budget with estimatedTotal, i.e. finalPrice plus any tax added at checkout
+  console.log('Tax', pricing.taxRate + '%', pricing.taxAmount, 'customer pays', pricing.estimatedTotal);
   console.log('Calculated pricing:', pricing);
 });`,
 
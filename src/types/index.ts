@@ -3,7 +3,57 @@ export interface BudgetData {
   needsAmount: number;
   wantsAmount: number;
   savingsAmount: number;
-  category: "needs" | "wants" | "savings";
+  categoryAmounts?: Record<string, number>; // Every category of the store's set, including custom ones
+  category: string;
+}
+
+export interface BudgetCategoryDefinition {
+  key: string;
+  name: string;
+  percentage: number;
+}
+
+export interface CategoryMappingRule {
+  field: "product_type" | "tag" | "vendor" | "collection";
+  value: string;
+  category: string;
+}
+
+// Classifies products sent without a category; the first matching rule wins
+export interface CategoryMapping {
+  rules: CategoryMappingRule[];
+  defaultCategory?: string;
+}
+
+// Extra discount for carts combining the categories, sharing the rule's max discount cap
+export interface BundleRule {
+  name: string;
+  categories: string[];
+  minItems: number; // Units across the matching lines
+  extraDiscountPercentage: number;
+}
+
+// Overstocked or slow-selling products get the higher cap; low-stock products get no budget discount
+export interface InventorySettings {
+  overstockThreshold: number | null; // Units on hand
+  staleAfterDays: number | null; // Days without a sale
+  boostedMaxDiscountPercentage: number;
+  lowStockThreshold: number | null;
+}
+
+// One rung of a store's auto-discount ladder, in the store's currency
+export interface DiscountTier {
+  name: string;
+  minimumAmount: number; // Spending in the eligible categories
+  type: "percentage" | "fixed_amount" | "free_shipping";
+  value: number; // Percent, amount off, or the shipping cost saved
+  categories?: string[]; // Eligible categories; none = all
+}
+
+// "best" applies one tier, "best_with_free_shipping" adds a free-shipping tier to it, "all" stacks every tier reached
+export interface DiscountLadder {
+  tiers: DiscountTier[];
+  stacking: "best" | "best_with_free_shipping" | "all";
 }
 
 export interface ProductPricing {
@@ -13,8 +63,31 @@ export interface ProductPricing {
   budgetDiscount: number;
   finalPrice: number;
   discountPercentage: number;
+  budgetCategory?: string;
+  categorySource?: "request" | "mapping_rule" | "default";
   availableBudget?: number;
   withinBudget?: boolean;
+  currency?: string;
+  priceEndingAdjustment?: number;
+  taxMode?: "exclusive" | "inclusive";
+  taxRate?: number;
+  taxAmount?: number;
+  estimatedTotal?: number;
+  breakdown?: PricingBreakdown;
+}
+
+export interface PricingBreakdownStep {
+  step: "category_allocation" | "shopify_discounts" | "eligibility" | "inventory" | "budget_gap" | "max_discount_cap" | "repeat_customer" | "margin_floor" | "rounding" | "price_ending" | "tax";
+  description: string;
+  amount: number;
+  priceAfter: number;
+  details?: Record<string, string | number | boolean | null>;
+}
+
+export interface PricingBreakdown {
+  ruleId: number | null;
+  ruleVersion: number | null;
+  steps: PricingBreakdownStep[];
 }
 
 export interface PricingRule {
@@ -25,7 +98,16 @@ export interface PricingRule {
   wantsPercentage: string;
   savingsPercentage: string;
   maxDiscountPercentage: string;
+  categories?: BudgetCategoryDefinition[] | null; // null = needs/wants/savings from the percentages above
+  categoryMapping?: CategoryMapping | null;
+  bundleRules?: BundleRule[] | null;
+  inventorySettings?: InventorySettings | null;
+  minMarginPercentage?: string;
+  priceEnding?: "none" | "nearest_99" | "nearest_95" | "whole" | "round_down";
   isActive: boolean;
+  version?: number;
+  startsAt?: string | null; // Scheduled window; neither bound = the standing rule
+  endsAt?: string | null;
 }
 
 export interface Store {
@@ -53,85 +135,11 @@ export interface ThemeColors {
   foreground: string;
 }
 
-export interface AppTier {
-  name: string;
-  price: number;
-  features: string[];
-  limits?: {
-    maxDiscountPercentage?: number;
-    customRules?: boolean;
-    analytics?: boolean;
-    whiteLabel?: boolean;
-  };
-}
-
-export const APP_TIERS: Record<string, AppTier> = {
-  free: {
-    name: "Free",
-    price: 0,
-    features: [
-      "Basic 50/30/20 discounts",
-      "Session-only storage",
-      "Shopify discount detection",
-      "GDPR compliant",
-      "Community support"
-    ],
-    limits: {
-      maxDiscountPercentage: 15,
-      customRules: false,
-      analytics: false,
-      whiteLabel: false,
-    }
-  },
-  starter: {
-    name: "Starter",
-    price: 15,
-    features: [
-      "Everything in Free",
-      "Custom budget categories",
-      "Discount stacking",
-      "Opt-in analytics",
-      "Email support"
-    ],
-    limits: {
-      maxDiscountPercentage: 25,
-      customRules: true,
-      analytics: true,
-      whiteLabel: false,
-    }
-  },
-  pro: {
-    name: "Pro",
-    price: 49,
-    features: [
-      "Everything in Starter",
-      "AI-driven dynamic pricing",
-      "A/B testing",
-      "White-label Shopify app",
-      "Priority support"
-    ],
-    limits: {
-      maxDiscountPercentage: 35,
-      customRules: true,
-      analytics: true,
-      whiteLabel: true,
-    }
-  },
-  enterprise: {
-    name: "Enterprise",
-    price: -1, // Custom pricing
-    features: [
-      "Everything in Pro",
-      "CRM integrations",
-      "Automated GDPR tools",
-      "Dedicated support",
-      "Custom integrations"
-    ],
-    limits: {
-      maxDiscountPercentage: 50,
-      customRules: true,
-      analytics: true,
-      whiteLabel: true,
-    }
-  }
-};
+// Plan definitions live in shared/ so the server enforces the same limits
+export {
+  APP_TIERS,
+  getRequiredTier,
+  resolveAppTier,
+  type AppTier,
+  type AppTierId
+} from "../../shared/app-tiers";